@@ -29,6 +29,9 @@ import {
   WifiOff,
   Cpu,
   Loader2,
+  Activity,
+  Scale,
+  Gift,
 } from "lucide-react";
 
 // --- Configuration & Constants ---
@@ -114,14 +117,167 @@ const LEAGUE_CONFIG = {
       },
     ],
   },
+  MLB: {
+    suggestions: [
+      {
+        id: "m1",
+        label: "Probable Pitcher Matchups",
+        icon: Calendar,
+        query: "Break down today's MLB slate by probable starter. Where is the market mispricing the pitching matchup?",
+        desc: "Starter form, FIP & bullpen rest",
+      },
+      {
+        id: "m2",
+        label: "Run Line Value",
+        icon: Zap,
+        query: "Which MLB favorites offer better value on the -1.5 run line than the moneyline today?",
+        desc: "Run line vs moneyline pricing",
+      },
+      {
+        id: "m3",
+        label: "Totals & Weather",
+        icon: TrendingUp,
+        query: "Which MLB totals look off today given park factors, wind and the probable starters?",
+        desc: "Park factors & weather-adjusted totals",
+      },
+    ],
+  },
+  NCAAF: {
+    suggestions: [
+      {
+        id: "cf1",
+        label: "Conference Slate",
+        icon: Calendar,
+        query: "Break down this week's college football slate by conference. Where are the biggest talent mismatches vs the spread?",
+        desc: "SP+ gaps & conference play",
+      },
+      {
+        id: "cf2",
+        label: "Big Spread Value",
+        icon: Zap,
+        query: "Which double-digit college football spreads are most likely to be backdoor covers or blowouts this week?",
+        desc: "Garbage time & tempo on large numbers",
+      },
+      {
+        id: "cf3",
+        label: "Tempo Totals",
+        icon: TrendingUp,
+        query: "Which college football totals look mispriced given each team's tempo and defensive havoc rate?",
+        desc: "Pace & havoc-adjusted totals",
+      },
+    ],
+  },
+  NCAAB: {
+    suggestions: [
+      {
+        id: "cb1",
+        label: "Efficiency Mismatches",
+        icon: Calendar,
+        query: "Which college basketball games today show the largest gap between adjusted efficiency margins and the spread?",
+        desc: "AdjEM vs market spread",
+      },
+      {
+        id: "cb2",
+        label: "Home Court Edges",
+        icon: Zap,
+        query: "Where is the market under- or over-pricing home court advantage in today's college basketball slate?",
+        desc: "Venue & travel adjustments",
+      },
+      {
+        id: "cb3",
+        label: "First-Half Totals",
+        icon: TrendingUp,
+        query: "Which college basketball first-half totals offer value based on adjusted tempo and shooting profiles?",
+        desc: "1H pace & eFG% analysis",
+      },
+    ],
+  },
+  EPL: {
+    suggestions: [
+      {
+        id: "e1",
+        label: "Draw Value (1X2)",
+        icon: Calendar,
+        query: "Which Premier League matches this weekend are most likely to end level? Compare the no-vig draw price to xG-based estimates.",
+        desc: "Three-way pricing & xG parity",
+      },
+      {
+        id: "e2",
+        label: "Asian Handicap Edges",
+        icon: Zap,
+        query: "Where do Premier League Asian handicap lines disagree most with expected goal difference this week?",
+        desc: "Quarter lines vs xG difference",
+      },
+      {
+        id: "e3",
+        label: "Goals Totals",
+        icon: TrendingUp,
+        query: "Which Premier League over/under 2.5 goals lines look mispriced given recent xG for and against?",
+        desc: "xG-driven totals",
+      },
+    ],
+  },
+  MLS: {
+    suggestions: [
+      {
+        id: "s1",
+        label: "Home Field & Travel",
+        icon: Calendar,
+        query: "Which MLS home sides are undervalued today given travel distance, altitude and turf for the visitors?",
+        desc: "Travel, altitude & surface spots",
+      },
+      {
+        id: "s2",
+        label: "Draw No Bet Value",
+        icon: Zap,
+        query: "Which MLS favorites are better bet draw no bet than on the three-way moneyline today?",
+        desc: "DNB vs 1X2 pricing",
+      },
+      {
+        id: "s3",
+        label: "Goals Totals",
+        icon: TrendingUp,
+        query: "Which MLS totals look off today given each team's xG trends and fixture congestion?",
+        desc: "xG & schedule-adjusted totals",
+      },
+    ],
+  },
+  UCL: {
+    suggestions: [
+      {
+        id: "u1",
+        label: "Rotation Watch",
+        icon: Calendar,
+        query: "Which Champions League sides are likely to rotate this matchday, and how is the market pricing it?",
+        desc: "Lineups, fixture load & motivation",
+      },
+      {
+        id: "u2",
+        label: "Asian Handicap Edges",
+        icon: Zap,
+        query: "Where are Champions League Asian handicap lines overstating the gap between domestic form and European quality?",
+        desc: "Cross-league strength & handicaps",
+      },
+      {
+        id: "u3",
+        label: "Knockout Draw Pricing",
+        icon: TrendingUp,
+        query: "In this Champions League round, which first legs are priced too short on the draw given aggregate-score incentives?",
+        desc: "Two-leg tie game state",
+      },
+    ],
+  },
 };
 
-type TabId = "featured" | "chat" | "schedule";
+type TabId = "featured" | "chat" | "schedule" | "arbs" | "promos" | "performance";
 
 const TABS: { id: TabId; label: string; icon: React.ElementType }[] = [
   { id: "featured", label: "Featured", icon: TrendingUp },
   { id: "chat", label: "Analysis", icon: MessageSquare },
   { id: "schedule", label: "Board", icon: BarChart3 },
+  { id: "arbs", label: "Arbs", icon: Scale },
+  { id: "promos", label: "Promos", icon: Gift },
+  { id: "performance", label: "Performance", icon: Activity },
 ];
 
 // --- Utilities ---
@@ -184,6 +340,57 @@ const ScheduleView = lazy(() =>
     }),
 );
 
+const ArbitrageView = lazy(() =>
+  import("./components/ArbitrageView")
+    .then((module) => ({ default: module.ArbitrageView }))
+    .catch((error) => {
+      observability.logError(error, "LazyLoadArbitrageView");
+      return {
+        default: () => (
+          <div className="flex flex-col items-center justify-center h-full text-center p-8 bg-background">
+            <AlertTriangle className="text-destructive w-16 h-16 mb-6" strokeWidth={1.5} />
+            <h3 className="text-2xl font-semibold tracking-tight text-foreground">Scanner Unavailable</h3>
+            <p className="text-muted-foreground mt-2">Unable to load the arbitrage scanner.</p>
+          </div>
+        ),
+      };
+    }),
+);
+
+const PromoOptimizer = lazy(() =>
+  import("./components/PromoOptimizer")
+    .then((module) => ({ default: module.PromoOptimizer }))
+    .catch((error) => {
+      observability.logError(error, "LazyLoadPromoOptimizer");
+      return {
+        default: () => (
+          <div className="flex flex-col items-center justify-center h-full text-center p-8 bg-background">
+            <AlertTriangle className="text-destructive w-16 h-16 mb-6" strokeWidth={1.5} />
+            <h3 className="text-2xl font-semibold tracking-tight text-foreground">Optimizer Unavailable</h3>
+            <p className="text-muted-foreground mt-2">Unable to load the promo optimizer.</p>
+          </div>
+        ),
+      };
+    }),
+);
+
+const PerformanceView = lazy(() =>
+  import("./components/PerformanceView")
+    .then((module) => ({ default: module.PerformanceView }))
+    .catch((error) => {
+      observability.logError(error, "LazyLoadPerformanceView");
+      return {
+        default: () => (
+          <div className="flex flex-col items-center justify-center h-full text-center p-8 bg-background">
+            <AlertTriangle className="text-destructive w-16 h-16 mb-6" strokeWidth={1.5} />
+            <h3 className="text-2xl font-semibold tracking-tight text-foreground">Performance Unavailable</h3>
+            <p className="text-muted-foreground mt-2">Unable to load the performance dashboard.</p>
+          </div>
+        ),
+      };
+    }),
+);
+
 // --- Hooks ---
 
 const useTheme = (defaultTheme: AppTheme = "dark") => {
@@ -215,7 +422,7 @@ const usePersistedTab = (defaultTab: TabId = "featured") => {
   const [activeTab, setActiveTab] = useState<TabId>(() => {
     if (typeof window === "undefined") return defaultTab;
     const stored = localStorage.getItem("appActiveTab") as TabId;
-    return stored && ["featured", "chat", "schedule"].includes(stored) ? stored : defaultTab;
+    return stored && TABS.some((t) => t.id === stored) ? stored : defaultTab;
   });
 
   const setTab = useCallback((tab: TabId) => {
@@ -766,6 +973,63 @@ const App: React.FC = () => {
               {!isHydrating && <ScheduleView onAnalyze={handleAnalyzeGame} league={activeLeague} />}
             </Suspense>
           </div>
+
+          {/* Arbitrage View */}
+          <div
+            className={cn(
+              "flex-1 overflow-y-auto w-full h-full absolute inset-0",
+              activeTab === "arbs" ? "block z-10" : "hidden z-0",
+            )}
+          >
+            <Suspense
+              fallback={
+                <div className="p-8">
+                  <BufferingIndicator />
+                </div>
+              }
+            >
+              {/* Mount only while visible so the 30s scan loop stops in the background */}
+              {activeTab === "arbs" && <ArbitrageView league={activeLeague} />}
+            </Suspense>
+          </div>
+
+          {/* Promo Optimizer */}
+          <div
+            className={cn(
+              "flex-1 overflow-y-auto w-full h-full absolute inset-0",
+              activeTab === "promos" ? "block z-10" : "hidden z-0",
+            )}
+          >
+            <Suspense
+              fallback={
+                <div className="p-8">
+                  <BufferingIndicator />
+                </div>
+              }
+            >
+              {/* Same board refresh loop as the arb scanner, so mount only while visible */}
+              {activeTab === "promos" && <PromoOptimizer league={activeLeague} />}
+            </Suspense>
+          </div>
+
+          {/* Performance View */}
+          <div
+            className={cn(
+              "flex-1 overflow-y-auto w-full h-full absolute inset-0",
+              activeTab === "performance" ? "block z-10" : "hidden z-0",
+            )}
+          >
+            <Suspense
+              fallback={
+                <div className="p-8">
+                  <BufferingIndicator />
+                </div>
+              }
+            >
+              {/* Mount on first visit only; the dashboard queries every graded pick */}
+              {activeTab === "performance" && <PerformanceView league={activeLeague} />}
+            </Suspense>
+          </div>
         </main>
       </div>
 
@@ -0,0 +1,404 @@
+/**
+ * @component ArbitrageView
+ * @description Cross-book scanner for two-way arbitrage and spread/total middles
+ *
+ * @metanotes {
+ *   "design_system": "ESSENCE v3.1",
+ *   "features": [
+ *     "Arbitrage (implied probability sum < 1) across books",
+ *     "Spread / total middles with hit / miss outcomes",
+ *     "Equal-payout stake split for a target payout",
+ *     "Live refresh (30s) of today's board"
+ *   ],
+ *   "data": "nhlAi.fetchSchedule per-book MarketData → bettingMath.findArbitrage / findMiddles"
+ * }
+ */
+
+import React, { useState, useMemo, useEffect, useCallback, useRef, type FC } from "react";
+import { AlertCircle, Loader2, RefreshCw, Scale } from "lucide-react";
+import { fetchSchedule } from "../services/nhlAi";
+import {
+  arbitrageStakes,
+  findArbitrage,
+  findMiddles,
+  type ArbitrageOpportunity,
+  type BoardQuote,
+  type MiddleOpportunity,
+} from "@/utils/bettingMath";
+import type { GameData, League } from "../types";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────
+
+type ScanMode = "arbs" | "middles";
+
+interface ArbitrageViewProps {
+  readonly league: League;
+  readonly className?: string;
+}
+
+interface GameOpportunity<T> {
+  game: GameData;
+  opportunity: T;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────
+
+const REFRESH_INTERVAL_MS = 30000;
+
+const DEFAULT_PAYOUT = 1000;
+
+// Middles this expensive (combined hold) are rarely worth the miss
+const MAX_MIDDLE_IMPLIED_SUM = 1.08;
+
+const MODE_OPTIONS: { id: ScanMode; label: string }[] = [
+  { id: "arbs", label: "Arbitrage" },
+  { id: "middles", label: "Middles" },
+];
+
+const BOOK_LABELS: Record<string, string> = {
+  draftkings: "DraftKings",
+  fanduel: "FanDuel",
+  betmgm: "BetMGM",
+  williamhill: "Caesars",
+  generic: "Market",
+};
+
+const MARKET_LABELS: Record<string, string> = {
+  moneyline: "Moneyline",
+  spread: "Spread",
+  total: "Total",
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// UTILITIES
+// ─────────────────────────────────────────────────────────────────────────────
+
+const cn = (...classes: (string | boolean | undefined | null)[]): string => {
+  return classes.filter(Boolean).join(" ");
+};
+
+const fmtOdds = (odds: number): string => (odds > 0 ? `+${odds}` : `${odds}`);
+
+const fmtMoney = (value: number): string =>
+  `${value < 0 ? "-" : ""}$${Math.abs(value).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const legLabel = (leg: BoardQuote, game: GameData): string => {
+  switch (leg.outcome) {
+    case "awayML":
+      return `${game.awayTeam} ML`;
+    case "homeML":
+      return `${game.homeTeam} ML`;
+    case "drawML":
+      return "Draw";
+    case "awayPL":
+      return `${game.awayTeam} ${leg.line! > 0 ? "+" : ""}${leg.line}`;
+    case "homePL":
+      return `${game.homeTeam} ${leg.line! > 0 ? "+" : ""}${leg.line}`;
+    case "over":
+      return `Over ${leg.line}`;
+    case "under":
+      return `Under ${leg.line}`;
+  }
+};
+
+// Only games that can still be bet
+const isOpen = (game: GameData): boolean => game.status === "Scheduled" || game.status === "Live";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// LEG ROW
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface LegRowProps {
+  leg: BoardQuote;
+  game: GameData;
+  stake: number;
+}
+
+const LegRow: FC<LegRowProps> = React.memo(({ leg, game, stake }) => (
+  <div className="flex items-center justify-between gap-3 py-2">
+    <div className="flex items-center gap-2 min-w-0">
+      <span className="px-2 py-0.5 rounded-md bg-accent/10 text-accent text-caption-2 font-bold uppercase tracking-wide shrink-0">
+        {BOOK_LABELS[leg.book] ?? leg.book}
+      </span>
+      <span className="text-body-sm font-semibold text-content-primary truncate">{legLabel(leg, game)}</span>
+    </div>
+    <div className="flex items-center gap-4 font-mono tabular-nums shrink-0">
+      <span className="text-body-sm text-content-secondary">{fmtOdds(leg.price)}</span>
+      <span className="text-body-sm font-bold text-content-primary w-24 text-right">{fmtMoney(stake)}</span>
+    </div>
+  </div>
+));
+
+LegRow.displayName = "LegRow";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// OPPORTUNITY CARDS
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface CardShellProps {
+  game: GameData;
+  market: string;
+  badge: string;
+  badgeTone: "positive" | "neutral";
+  children: React.ReactNode;
+}
+
+const CardShell: FC<CardShellProps> = ({ game, market, badge, badgeTone, children }) => (
+  <div className="p-4 rounded-xl bg-glass-surface border border-glass-border">
+    <div className="flex items-center justify-between mb-2">
+      <div>
+        <p className="text-body-sm font-bold text-content-primary">
+          {game.awayTeam} @ {game.homeTeam}
+        </p>
+        <p className="text-caption-2 text-content-tertiary uppercase tracking-wider">
+          {MARKET_LABELS[market] ?? market} • {game.status === "Live" ? "Live" : game.time}
+        </p>
+      </div>
+      <span
+        className={cn(
+          "px-2.5 py-1 rounded-full border text-caption-1 font-mono font-bold tabular-nums",
+          badgeTone === "positive"
+            ? "bg-semantic-success/10 border-semantic-success/30 text-semantic-success"
+            : "bg-surface-secondary/50 border-glass-border text-content-secondary",
+        )}
+      >
+        {badge}
+      </span>
+    </div>
+    {children}
+  </div>
+);
+
+const ArbCard: FC<{ item: GameOpportunity<ArbitrageOpportunity>; payout: number }> = React.memo(({ item, payout }) => {
+  const { game, opportunity } = item;
+  const plan = arbitrageStakes(
+    opportunity.legs.map((l) => l.price),
+    payout,
+  );
+
+  return (
+    <CardShell
+      game={game}
+      market={opportunity.market}
+      badge={`+${(opportunity.margin * 100).toFixed(2)}%`}
+      badgeTone="positive"
+    >
+      <div className="divide-y divide-glass-border/50">
+        {opportunity.legs.map((leg, i) => (
+          <LegRow key={leg.outcome} leg={leg} game={game} stake={plan.stakes[i]} />
+        ))}
+      </div>
+      <div className="flex justify-between pt-2 mt-1 border-t border-glass-border text-caption-1">
+        <span className="text-content-tertiary">Total stake {fmtMoney(plan.totalStake)}</span>
+        <span className="font-mono font-bold text-semantic-success">Locked profit {fmtMoney(plan.profit)}</span>
+      </div>
+    </CardShell>
+  );
+});
+
+ArbCard.displayName = "ArbCard";
+
+const MiddleCard: FC<{ item: GameOpportunity<MiddleOpportunity>; payout: number }> = React.memo(
+  ({ item, payout }) => {
+    const { game, opportunity } = item;
+    const plan = arbitrageStakes(
+      opportunity.legs.map((l) => l.price),
+      payout,
+    );
+    // One leg wins on a miss; both win inside the middle
+    const missResult = plan.profit;
+    const hitResult = plan.payout * 2 - plan.totalStake;
+
+    return (
+      <CardShell
+        game={game}
+        market={opportunity.market}
+        badge={`${opportunity.width} pt${opportunity.width === 1 ? "" : "s"}`}
+        badgeTone={missResult >= 0 ? "positive" : "neutral"}
+      >
+        <div className="divide-y divide-glass-border/50">
+          {opportunity.legs.map((leg, i) => (
+            <LegRow key={leg.outcome} leg={leg} game={game} stake={plan.stakes[i]} />
+          ))}
+        </div>
+        <div className="flex justify-between pt-2 mt-1 border-t border-glass-border text-caption-1 font-mono">
+          <span className={cn(missResult >= 0 ? "text-semantic-success" : "text-semantic-error")}>
+            Miss {fmtMoney(missResult)}
+          </span>
+          <span className="text-semantic-success font-bold">Hit {fmtMoney(hitResult)}</span>
+        </div>
+      </CardShell>
+    );
+  },
+);
+
+MiddleCard.displayName = "MiddleCard";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// MAIN COMPONENT
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const ArbitrageView: FC<ArbitrageViewProps> = ({ league, className }) => {
+  const [games, setGames] = useState<GameData[]>([]);
+  const [mode, setMode] = useState<ScanMode>("arbs");
+  const [payout, setPayout] = useState(DEFAULT_PAYOUT);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const isMounted = useRef(true);
+
+  const loadBoard = useCallback(async () => {
+    setLoading(true);
+    try {
+      const data = await fetchSchedule(league, new Date());
+      if (!isMounted.current) return;
+      setGames(data || []);
+      setError(null);
+      setLastUpdated(new Date());
+    } catch (err) {
+      console.error("[ArbitrageView] Error:", err);
+      if (isMounted.current) setError(err instanceof Error ? err.message : "Failed to load odds");
+    } finally {
+      if (isMounted.current) setLoading(false);
+    }
+  }, [league]);
+
+  useEffect(() => {
+    isMounted.current = true;
+    loadBoard();
+    const interval = setInterval(loadBoard, REFRESH_INTERVAL_MS);
+    return () => {
+      isMounted.current = false;
+      clearInterval(interval);
+    };
+  }, [loadBoard]);
+
+  const arbs = useMemo<GameOpportunity<ArbitrageOpportunity>[]>(
+    () =>
+      games
+        .filter(isOpen)
+        .flatMap((game) => findArbitrage(game.odds).map((opportunity) => ({ game, opportunity })))
+        .sort((a, b) => b.opportunity.margin - a.opportunity.margin),
+    [games],
+  );
+
+  const middles = useMemo<GameOpportunity<MiddleOpportunity>[]>(
+    () =>
+      games
+        .filter(isOpen)
+        .flatMap((game) =>
+          findMiddles(game.odds)
+            .filter((m) => m.impliedSum <= MAX_MIDDLE_IMPLIED_SUM)
+            .map((opportunity) => ({ game, opportunity })),
+        )
+        .sort((a, b) => b.opportunity.width - a.opportunity.width || a.opportunity.impliedSum - b.opportunity.impliedSum),
+    [games],
+  );
+
+  const count = mode === "arbs" ? arbs.length : middles.length;
+
+  return (
+    <div className={cn("px-4 md:px-6 py-4 pb-24 space-y-6", className)}>
+      {/* Controls */}
+      <div className="flex flex-wrap items-center gap-3">
+        <div
+          className="flex bg-glass-surface border border-glass-border rounded-xl p-1 gap-1 shadow-sm backdrop-blur-xl"
+          role="radiogroup"
+          aria-label="Scan type"
+        >
+          {MODE_OPTIONS.map((opt) => {
+            const isSelected = opt.id === mode;
+            return (
+              <button
+                key={opt.id}
+                role="radio"
+                aria-checked={isSelected}
+                onClick={() => setMode(opt.id)}
+                className={cn(
+                  "px-3 py-1.5 rounded-lg text-caption-2 font-bold uppercase tracking-wide",
+                  "transition-all duration-200 ease-standard",
+                  "focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-accent",
+                  isSelected
+                    ? "bg-surface-primary shadow-md text-accent border border-accent/20"
+                    : "text-content-tertiary hover:text-content-primary hover:bg-surface-secondary/50",
+                )}
+              >
+                {opt.label} ({opt.id === "arbs" ? arbs.length : middles.length})
+              </button>
+            );
+          })}
+        </div>
+
+        <label className="flex items-center gap-2 text-caption-1 text-content-secondary">
+          Target payout
+          <input
+            type="number"
+            min={1}
+            step={50}
+            inputMode="decimal"
+            value={payout}
+            onChange={(e) => setPayout(Math.max(1, Number(e.target.value) || DEFAULT_PAYOUT))}
+            className="w-24 h-8 px-2 rounded-lg bg-glass-surface border border-glass-border font-mono text-body-sm text-content-primary focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-accent"
+          />
+        </label>
+
+        <div className="ml-auto flex items-center gap-2">
+          {lastUpdated && (
+            <span className="text-caption-2 text-content-tertiary">Updated {lastUpdated.toLocaleTimeString()}</span>
+          )}
+          <button
+            onClick={loadBoard}
+            className="p-2 rounded-lg text-content-tertiary hover:text-content-primary hover:bg-surface-secondary/50"
+            aria-label="Refresh odds"
+          >
+            <RefreshCw size={16} className={cn(loading && "animate-spin")} />
+          </button>
+        </div>
+      </div>
+
+      {/* Results */}
+      {error && games.length === 0 ? (
+        <div className="flex flex-col items-center py-16 text-center" role="alert">
+          <AlertCircle size={28} className="text-semantic-error mb-3" />
+          <p className="text-body-sm text-content-secondary">{error}</p>
+        </div>
+      ) : loading && games.length === 0 ? (
+        <div className="flex justify-center py-16 text-content-tertiary">
+          <Loader2 size={20} className="animate-spin" />
+        </div>
+      ) : count === 0 ? (
+        <div className="flex flex-col items-center py-16 text-center">
+          <Scale size={28} className="text-content-tertiary mb-3" />
+          <p className="text-body-sm text-content-tertiary">
+            No {mode === "arbs" ? "arbitrage" : "middles"} across books right now. Scanning every{" "}
+            {REFRESH_INTERVAL_MS / 1000}s.
+          </p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          {mode === "arbs"
+            ? arbs.map((item) => (
+                <ArbCard
+                  key={`${item.game.id}-${item.opportunity.market}-${item.opportunity.legs.map((l) => l.line).join("/")}`}
+                  item={item}
+                  payout={payout}
+                />
+              ))
+            : middles.map((item) => (
+                <MiddleCard
+                  key={`${item.game.id}-${item.opportunity.market}-${item.opportunity.legs.map((l) => l.line).join("/")}`}
+                  item={item}
+                  payout={payout}
+                />
+              ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ArbitrageView;
@@ -0,0 +1,350 @@
+/**
+ * @component BetSlip
+ * @description Floating bet slip with per-selection stakes and the user's wager ledger
+ *
+ * @metanotes {
+ *   "design_system": "ESSENCE v3.1",
+ *   "features": [
+ *     "Selections captured from GameCard odds cells",
+ *     "Per-selection stake with to-win preview",
+ *     "Parlay tab prices the selections as one ticket (ParlayBuilder)",
+ *     "Teaser tab analyses NFL / NBA spread selections (TeaserCalculator)",
+ *     "Place writes to public.wagers (RLS owner-only)",
+ *     "Ledger tab with recent wagers, status and settled P&L (grade-picks settles full-game wagers)"
+ *   ]
+ * }
+ */
+
+import React, { useState, useCallback, useEffect, type FC } from "react";
+import { Receipt, X, Trash2, Loader2, ChevronDown } from "lucide-react";
+import { calculateToWin } from "@/utils/bettingMath";
+import { ParlayBuilder } from "./ParlayBuilder";
+import { TeaserCalculator } from "./TeaserCalculator";
+import type { BetSlipSelection, GameData, Wager, WagerStatus } from "../types";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────
+
+type SlipTab = "slip" | "parlay" | "teaser" | "ledger";
+
+interface BetSlipProps {
+  readonly selections: BetSlipSelection[];
+  readonly games: GameData[]; // Board the selections came from (parlay fair pricing)
+  readonly wagers: Wager[];
+  readonly totals: { stake: number; toWin: number };
+  readonly isPlacing: boolean;
+  readonly isLoadingLedger: boolean;
+  readonly error: string | null;
+  readonly onStakeChange: (id: string, stake: number) => void;
+  readonly onRemove: (id: string) => void;
+  readonly onClear: () => void;
+  readonly onPlace: () => void;
+  readonly onLoadLedger: () => void;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────
+
+const TAB_LABELS: Record<Exclude<SlipTab, "slip">, string> = {
+  parlay: "Parlay",
+  teaser: "Teaser",
+  ledger: "Ledger",
+};
+
+const STATUS_STYLES: Record<WagerStatus, string> = {
+  pending: "bg-surface-secondary text-content-secondary",
+  won: "bg-semantic-success/15 text-semantic-success",
+  half_won: "bg-semantic-success/15 text-semantic-success",
+  lost: "bg-semantic-error/15 text-semantic-error",
+  half_lost: "bg-semantic-error/15 text-semantic-error",
+  push: "bg-accent/10 text-accent",
+  void: "bg-surface-secondary text-content-tertiary",
+};
+
+const BOOK_LABELS: Record<string, string> = {
+  draftkings: "DK",
+  fanduel: "FD",
+  betmgm: "MGM",
+  williamhill: "CZR",
+  caesars: "CZR",
+  generic: "MKT",
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// UTILITIES
+// ─────────────────────────────────────────────────────────────────────────────
+
+const cn = (...classes: (string | boolean | undefined | null)[]): string => {
+  return classes.filter(Boolean).join(" ");
+};
+
+const fmtOdds = (odds: number): string => (odds > 0 ? `+${odds}` : `${odds}`);
+
+const fmtMoney = (value: number): string =>
+  value.toLocaleString("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 2 });
+
+// ─────────────────────────────────────────────────────────────────────────────
+// SELECTION ROW
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface SelectionRowProps {
+  selection: BetSlipSelection;
+  onStakeChange: (id: string, stake: number) => void;
+  onRemove: (id: string) => void;
+}
+
+const SelectionRow: FC<SelectionRowProps> = React.memo(({ selection, onStakeChange, onRemove }) => {
+  const toWin = calculateToWin(selection.stake, selection.odds);
+
+  return (
+    <div className="p-3 rounded-xl bg-surface-secondary/50 border border-surface-tertiary">
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <p className="text-body-sm font-bold text-content-primary truncate">{selection.label}</p>
+          <p className="text-caption-2 text-content-tertiary truncate">
+            {selection.matchup} · {BOOK_LABELS[selection.book] || selection.book.toUpperCase()}
+          </p>
+        </div>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          <span className="font-mono text-body-sm font-bold tabular-nums text-accent">{fmtOdds(selection.odds)}</span>
+          <button
+            onClick={() => onRemove(selection.id)}
+            className="p-1 rounded-md text-content-tertiary hover:text-content-primary hover:bg-surface-secondary focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-accent"
+            aria-label={`Remove ${selection.label}`}
+          >
+            <X size={14} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-3 mt-3">
+        <label className="flex-1 flex items-center gap-2 px-2.5 py-1.5 rounded-lg bg-surface-primary border border-glass-border focus-within:ring-2 focus-within:ring-accent">
+          <span className="text-caption-2 text-content-tertiary">$</span>
+          <input
+            type="number"
+            inputMode="decimal"
+            min={0}
+            step="1"
+            value={selection.stake || ""}
+            onChange={(e) => onStakeChange(selection.id, parseFloat(e.target.value))}
+            className="w-full bg-transparent font-mono text-body-sm tabular-nums text-content-primary focus:outline-none"
+            aria-label={`Stake for ${selection.label}`}
+          />
+        </label>
+        <div className="text-right">
+          <p className="text-caption-2 text-content-tertiary uppercase tracking-wider">To Win</p>
+          <p className="font-mono text-body-sm font-bold tabular-nums text-content-primary">{fmtMoney(toWin)}</p>
+        </div>
+      </div>
+    </div>
+  );
+});
+
+SelectionRow.displayName = "SelectionRow";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// LEDGER ROW
+// ─────────────────────────────────────────────────────────────────────────────
+
+const LedgerRow: FC<{ wager: Wager }> = React.memo(({ wager }) => (
+  <div className="flex items-center justify-between gap-3 py-2.5 border-b border-glass-border last:border-b-0">
+    <div className="min-w-0">
+      <p className="text-body-sm font-semibold text-content-primary truncate">
+        {wager.selection} <span className="font-mono text-content-secondary">{fmtOdds(wager.odds)}</span>
+      </p>
+      <p className="text-caption-2 text-content-tertiary">
+        {new Date(wager.createdAt).toLocaleDateString("en-US", { month: "short", day: "numeric" })} ·{" "}
+        {BOOK_LABELS[wager.book] || wager.book.toUpperCase()} · {fmtMoney(wager.stake)}
+      </p>
+    </div>
+    <div className="flex items-center gap-2 flex-shrink-0">
+      {wager.profit !== null && (
+        <span
+          className={cn(
+            "font-mono text-caption-1 font-bold tabular-nums",
+            wager.profit > 0 ? "text-semantic-success" : wager.profit < 0 ? "text-semantic-error" : "text-content-tertiary",
+          )}
+        >
+          {wager.profit > 0 ? "+" : ""}
+          {fmtMoney(wager.profit)}
+        </span>
+      )}
+      <span
+        className={cn(
+          "px-2 py-0.5 rounded-md text-caption-2 font-bold uppercase tracking-wide",
+          STATUS_STYLES[wager.status] || STATUS_STYLES.pending,
+        )}
+      >
+        {wager.status.replace("_", " ")}
+      </span>
+    </div>
+  </div>
+));
+
+LedgerRow.displayName = "LedgerRow";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// MAIN COMPONENT
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const BetSlip: FC<BetSlipProps> = ({
+  selections,
+  games,
+  wagers,
+  totals,
+  isPlacing,
+  isLoadingLedger,
+  error,
+  onStakeChange,
+  onRemove,
+  onClear,
+  onPlace,
+  onLoadLedger,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeTab, setActiveTab] = useState<SlipTab>("slip");
+
+  // Open the slip when the first selection lands
+  useEffect(() => {
+    if (selections.length > 0) setIsOpen(true);
+  }, [selections.length]);
+
+  const handleTabChange = useCallback(
+    (tab: SlipTab) => {
+      setActiveTab(tab);
+      if (tab === "ledger") onLoadLedger();
+    },
+    [onLoadLedger],
+  );
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        className={cn(
+          "fixed bottom-6 right-6 z-40 flex items-center gap-2.5 px-4 py-3 rounded-full",
+          "bg-glass-surface border border-glass-border shadow-lg backdrop-blur-xl",
+          "text-body-sm font-bold text-content-primary",
+          "transition-all duration-200 ease-standard hover:shadow-xl active:scale-95",
+          "focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-accent",
+        )}
+        aria-label="Open bet slip"
+      >
+        <Receipt size={16} />
+        <span>Bet Slip</span>
+        {selections.length > 0 && (
+          <span className="px-1.5 py-0.5 rounded-md bg-accent text-white text-caption-2 font-mono">
+            {selections.length}
+          </span>
+        )}
+      </button>
+    );
+  }
+
+  return (
+    <aside
+      className={cn(
+        "fixed bottom-6 right-6 z-40 w-[340px] max-h-[70vh] flex flex-col",
+        "bg-glass-surface border border-glass-border rounded-2xl shadow-xl backdrop-blur-xl",
+      )}
+      aria-label="Bet slip"
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 pt-4 pb-3">
+        <div className="flex p-1 bg-surface-secondary/50 rounded-lg gap-1" role="tablist">
+          {(["slip", "parlay", "teaser", "ledger"] as SlipTab[]).map((tab) => (
+            <button
+              key={tab}
+              role="tab"
+              aria-selected={activeTab === tab}
+              onClick={() => handleTabChange(tab)}
+              className={cn(
+                "px-3 py-1 rounded-md text-caption-2 font-bold uppercase tracking-wide transition-all duration-150",
+                activeTab === tab
+                  ? "bg-surface-primary shadow-sm text-accent"
+                  : "text-content-tertiary hover:text-content-primary",
+              )}
+            >
+              {tab === "slip" ? `Slip (${selections.length})` : TAB_LABELS[tab]}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={() => setIsOpen(false)}
+          className="p-1.5 rounded-md text-content-tertiary hover:text-content-primary hover:bg-surface-secondary"
+          aria-label="Collapse bet slip"
+        >
+          <ChevronDown size={16} />
+        </button>
+      </div>
+
+      {/* Body */}
+      <div className="flex-1 overflow-y-auto px-4 pb-3 space-y-2">
+        {activeTab === "slip" ? (
+          selections.length === 0 ? (
+            <p className="text-caption-1 text-content-tertiary text-center py-8">
+              Tap any price on the board to add it here.
+            </p>
+          ) : (
+            selections.map((s) => (
+              <SelectionRow key={s.id} selection={s} onStakeChange={onStakeChange} onRemove={onRemove} />
+            ))
+          )
+        ) : activeTab === "parlay" ? (
+          <ParlayBuilder selections={selections} games={games} />
+        ) : activeTab === "teaser" ? (
+          <TeaserCalculator selections={selections} games={games} />
+        ) : isLoadingLedger ? (
+          <div className="flex justify-center py-8 text-content-tertiary">
+            <Loader2 size={16} className="animate-spin" />
+          </div>
+        ) : wagers.length === 0 ? (
+          <p className="text-caption-1 text-content-tertiary text-center py-8">No wagers placed yet.</p>
+        ) : (
+          wagers.map((w) => <LedgerRow key={w.id} wager={w} />)
+        )}
+      </div>
+
+      {/* Footer */}
+      {activeTab === "slip" && selections.length > 0 && (
+        <div className="px-4 py-3 border-t border-glass-border space-y-3">
+          {error && <p className="text-caption-2 text-semantic-error">{error}</p>}
+          <div className="flex items-center justify-between text-caption-1">
+            <span className="text-content-tertiary">
+              Risk <span className="font-mono text-content-primary">{fmtMoney(totals.stake)}</span>
+            </span>
+            <span className="text-content-tertiary">
+              To Win <span className="font-mono text-semantic-success">{fmtMoney(totals.toWin)}</span>
+            </span>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={onClear}
+              className="p-2.5 rounded-xl border border-glass-border text-content-tertiary hover:text-semantic-error hover:border-semantic-error/30"
+              aria-label="Clear bet slip"
+            >
+              <Trash2 size={16} />
+            </button>
+            <button
+              onClick={onPlace}
+              disabled={isPlacing || totals.stake <= 0}
+              className={cn(
+                "flex-1 flex items-center justify-center gap-2 py-2.5 rounded-xl",
+                "bg-accent text-white text-body-sm font-bold",
+                "transition-all duration-150 ease-standard hover:bg-accent/90 active:scale-[0.98]",
+                "disabled:opacity-50 disabled:cursor-not-allowed",
+              )}
+            >
+              {isPlacing && <Loader2 size={14} className="animate-spin" />}
+              Place {selections.length > 1 ? `${selections.length} Bets` : "Bet"}
+            </button>
+          </div>
+        </div>
+      )}
+    </aside>
+  );
+};
+
+export default BetSlip;
@@ -0,0 +1,94 @@
+/**
+ * @component EnsemblePanel
+ * @description Per-provider votes behind an ensemble pick, the disagreement flag and the aggregate confidence spread
+ *
+ * @metanotes {
+ *   "schema_dependency": "analysis_memory.ensemble written by generate-pick in ensemble mode"
+ * }
+ */
+
+import React from 'react';
+import { AlertTriangle, Users } from 'lucide-react';
+import type { EnsembleSummary } from '../types';
+import { cn } from '@/lib/utils';
+
+const PROVIDER_LABELS: Record<string, string> = {
+  gemini: 'Gemini',
+  anthropic: 'Claude',
+  openai: 'GPT',
+};
+
+// Per-provider votes behind an ensemble pick, with the aggregate confidence spread
+export const EnsemblePanel = React.memo<{ ensemble: EnsembleSummary }>(({ ensemble }) => {
+  const { confidence } = ensemble;
+  const spread: [string, number][] = [
+    ['Mean', confidence.mean],
+    ['Median', confidence.median],
+    ['Trimmed', confidence.trimmed],
+  ];
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center gap-2 mb-3">
+        <Users size={18} className="text-accent" />
+        <span className="text-sm font-semibold text-foreground uppercase tracking-wider">
+          Model Ensemble
+        </span>
+        <span className="text-xs text-muted-foreground">
+          {Math.round(ensemble.agreement * 100)}% agreement · {ensemble.valid}/{ensemble.providers} voted
+        </span>
+      </div>
+
+      {ensemble.disagreement && (
+        <div className="mb-3 flex items-center gap-2 p-3 rounded-lg border border-yellow-500/30 bg-yellow-500/5 text-xs font-semibold uppercase tracking-wider text-yellow-500">
+          <AlertTriangle size={14} />
+          Models disagree on this pick
+        </div>
+      )}
+
+      <div className="overflow-x-auto rounded-lg border border-border">
+        <table className="w-full text-sm">
+          <thead className="bg-muted/40 text-xs text-muted-foreground uppercase tracking-wider">
+            <tr>
+              <th className="px-3 py-2 text-left font-semibold">Model</th>
+              <th className="px-3 py-2 text-left font-semibold">Pick</th>
+              <th className="px-3 py-2 text-right font-semibold">Confidence</th>
+            </tr>
+          </thead>
+          <tbody>
+            {ensemble.votes.map((vote) => (
+              <tr key={vote.provider} className="border-t border-border align-top">
+                <td className="px-3 py-2 whitespace-nowrap">
+                  <div className="font-medium text-foreground">{PROVIDER_LABELS[vote.provider] ?? vote.provider}</div>
+                  <div className="text-xs text-muted-foreground font-mono">{vote.model}</div>
+                </td>
+                {vote.pick_side ? (
+                  <td className={cn("px-3 py-2 font-semibold", vote.agrees ? "text-green-500" : "text-red-500")}>
+                    {vote.pick_side}
+                  </td>
+                ) : (
+                  <td className="px-3 py-2 text-muted-foreground italic">{vote.error ?? 'No vote'}</td>
+                )}
+                <td className="px-3 py-2 text-right font-mono tabular-nums text-foreground">
+                  {vote.confidence !== null ? `${vote.confidence}%` : '—'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3 mt-3">
+        {spread.map(([label, value]) => (
+          <div key={label} className="p-3 rounded-lg bg-muted/30 border border-border">
+            <div className="text-xs text-muted-foreground uppercase tracking-wider font-semibold mb-1">{label}</div>
+            <div className="text-sm font-mono text-foreground">{value}%</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+});
+EnsemblePanel.displayName = 'EnsemblePanel';
+
+export default EnsemblePanel;
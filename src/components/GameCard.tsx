@@ -1,11 +1,31 @@
 import React, { useState, useMemo, useCallback, useRef, useEffect } from "react";
-import type { GameData, MarketData, PickData } from "../types";
+import type { AltSpreadRung, AltTotalRung, GameData, League, MarketData, MarketLines, MarketType, PeriodScope, PickData } from "../types";
 // PickDisplay and PickDetailModal are defined later in the file for cohesive updates
 // import { PickDisplay } from "./PickDisplay";
 // import { PickDetailModal } from "./PickDetailModal";
 import { LiveGameModal } from "./LiveGameModal";
+import { LineMovementChart } from "./LineMovementChart";
+import { StakingPanel } from "./StakingPanel";
+import { PlayerPropsPanel } from "./PlayerPropsPanel";
+import { RationalePanel } from "./RationalePanel";
+import { EnsemblePanel } from "./EnsemblePanel";
 import { useLiveGame, useGameModalType } from "@/hooks/useLiveGame";
+import { useGameMarkets } from "@/hooks/useGameMarkets";
+import { leaguePeriods } from "@/services/nhlAi";
 import { useToast } from "../hooks/use-toast";
+import {
+  bestAvailable,
+  calculateEV,
+  calculateFairLine,
+  pickMarket,
+  pickProbability,
+  drawNoBetFair,
+  marketConsensus,
+  oddsForScope,
+  quotesFor,
+  type BoardOutcome,
+  type BookPrice,
+} from "@/utils/bettingMath";
 // Assuming these UI components are available in the project based on the original code context
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "./ui/dialog";
 import { Button } from "./ui/button";
@@ -36,14 +56,57 @@ const cn = (...classes: (string | boolean | undefined | null)[]): string => {
 // Constants aligned with ESSENCE spacing (40px = spacing-10)
 const LOGO_SIZE = 40;
 
+// Board mode that shops every book per cell instead of showing one book
+export const BEST_AVAILABLE_BOOK = "best";
+
+// Markets shown as pick buttons, in board order
+const PICK_MARKET_ORDER: MarketType[] = ["moneyline", "spread", "total"];
+
+// Board scopes in toggle order; once a game's period lines load, only scopes some book quotes are offered
+export const PERIOD_LABELS: Record<PeriodScope, string> = {
+  game: "Game",
+  h1: "1H",
+  h2: "2H",
+  q1: "1Q",
+  q2: "2Q",
+  q3: "3Q",
+  q4: "4Q",
+  p1: "1P",
+  p2: "2P",
+  p3: "3P",
+};
+
+// Rungs shown either side of the main line on alternate ladders
+const LADDER_RADIUS = 3;
+
+const BOOK_SHORT_LABELS: Record<string, string> = {
+  draftkings: "DK",
+  fanduel: "FD",
+  betmgm: "MGM",
+  williamhill: "CZR",
+  caesars: "CZR",
+  generic: "MKT",
+};
+
 // Helpers (Logic unchanged)
-const getEspnLogoUrl = (abbr: string, league: "NHL" | "NFL" | "NBA" = "NHL"): string => {
+const getEspnLogoUrl = (abbr: string, league: League = "NHL"): string => {
   const code = abbr.toLowerCase();
-  const sportPath = league === "NHL" ? "nhl" : league === "NFL" ? "nfl" : "nba";
+  const sportPath = league.toLowerCase(); // ESPN logo paths: nhl, nfl, nba, mlb
   const size = LOGO_SIZE * 2; // Retina optimization
   return `https://a.espncdn.com/combiner/i?img=/i/teamlogos/${sportPath}/500/${code}.png&h=${size}&w=${size}&lossy=1`;
 };
 
+const fmtPrice = (price: number): string => (price > 0 ? `+${price}` : `${price}`);
+
+const fmtSigned = (line: number): string => (line > 0 ? `+${line}` : `${line}`);
+
+// CLV in percentage points of no-vig closing probability, or points on the number once the line moved
+const fmtClv = (pick: PickData): string | null => {
+  if (pick.clv_prob != null) return `${pick.clv_prob > 0 ? "+" : ""}${pick.clv_prob.toFixed(1)}pp`;
+  if (pick.clv_line != null) return `${pick.clv_line > 0 ? "+" : ""}${pick.clv_line.toFixed(1)} pts`;
+  return null;
+};
+
 const parseLine = (plString: string | undefined): { line: string; juice: string } => {
   if (!plString || plString === "-" || plString === "N/A") {
     return { line: "-", juice: "" };
@@ -62,12 +125,13 @@ const parseLine = (plString: string | undefined): { line: string; juice: string
 interface TeamLogoProps {
   teamAbbr: string;
   teamName: string;
-  league: "NHL" | "NFL" | "NBA";
+  league: League;
+  logoUrl?: string; // Canonical logo from the teams table; college logos are keyed by ESPN id, not abbreviation
 }
 
-const TeamLogo = React.memo(({ teamAbbr, teamName, league }: TeamLogoProps) => {
+const TeamLogo = React.memo(({ teamAbbr, teamName, league, logoUrl }: TeamLogoProps) => {
   const [loadState, setLoadState] = useState<"loading" | "loaded" | "error">("loading");
-  const src = useMemo(() => getEspnLogoUrl(teamAbbr, league), [teamAbbr, league]);
+  const src = useMemo(() => logoUrl || getEspnLogoUrl(teamAbbr, league), [logoUrl, teamAbbr, league]);
 
   const handleError = useCallback(() => {
     if (loadState !== "error") {
@@ -134,17 +198,18 @@ interface OddsCellProps {
   isFavorite?: boolean;
   isDisabled?: boolean;
   movement?: "up" | "down" | "none";
+  book?: string; // Source book badge (Best Available mode)
   onClick?: () => void;
 }
 
 const OddsCell = React.memo(
-  ({ label, main, sub, isFavorite = false, isDisabled = false, movement = "none", onClick }: OddsCellProps) => {
+  ({ label, main, sub, isFavorite = false, isDisabled = false, movement = "none", book, onClick }: OddsCellProps) => {
     const isInteractive = !!onClick && !isDisabled && main !== "-";
 
     const ariaLabel = useMemo(() => {
       if (isDisabled || main === "-") return `${label} currently unavailable`;
-      return `${label}: ${main} ${sub ? `at ${sub} odds` : ""}.${isFavorite ? " Favorite." : ""}`;
-    }, [label, main, sub, isFavorite, isDisabled]);
+      return `${label}: ${main} ${sub ? `at ${sub} odds` : ""}.${isFavorite ? " Favorite." : ""}${book ? ` Best at ${book}.` : ""}`;
+    }, [label, main, sub, isFavorite, isDisabled, book]);
 
     // ESSENCE Color System: Semantic colors for movement, accent for favorites.
     const mainColor = useMemo(() => {
@@ -197,6 +262,16 @@ const OddsCell = React.memo(
           </div>
         )}
 
+        {/* Book Badge - which book holds the best price */}
+        {book && isInteractive && (
+          <div
+            className="absolute right-1.5 top-1.5 z-10 rounded-full px-1.5 py-0.5 text-[10px] font-semibold tracking-wide bg-accent/15 text-accent"
+            aria-hidden="true"
+          >
+            {BOOK_SHORT_LABELS[book] ?? book.slice(0, 3).toUpperCase()}
+          </div>
+        )}
+
         {/* Subtle shimmer effect on hover (Enhances materiality) */}
         {isInteractive && (
           <div
@@ -303,22 +378,6 @@ interface ChatMessage {
   content: string;
 }
 
-// Helper Calculations (Logic unchanged)
-const calculateEV = (confidence: number, odds: number): number => {
-  const probability = confidence / 100;
-  // Calculation logic remains the same, ensuring accuracy
-  return (probability * (odds > 0 ? odds / 100 + 1 : 100 / Math.abs(odds) + 1) - 1) * 100;
-};
-
-const calculateFairLine = (confidence: number): number => {
-  const probability = confidence / 100;
-  if (probability > 0.5) {
-    return -Math.round((probability / (1 - probability)) * 100);
-  } else {
-    return Math.round(((1 - probability) / probability) * 100);
-  }
-};
-
 export const PickDetailModal: React.FC<PickDetailModalProps> = ({ pick, game, isOpen, onClose }) => {
   const [showAIChat, setShowAIChat] = useState(false);
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
@@ -330,8 +389,8 @@ export const PickDetailModal: React.FC<PickDetailModalProps> = ({ pick, game, is
   const isHigh = pick.confidence_score >= 70;
   const isMedium = pick.confidence_score >= 50 && pick.confidence_score < 70;
 
-  const ev = calculateEV(pick.confidence_score, pick.odds_at_generation);
-  const fairLine = calculateFairLine(pick.confidence_score);
+  const ev = calculateEV(pickProbability(pick), pick.odds_at_generation);
+  const fairLine = calculateFairLine(pickProbability(pick));
 
   // Auto-scroll chat
   useEffect(() => {
@@ -559,28 +618,30 @@ IMPORTANT: When the user says "this game" or "the game" they are referring to ${
                 </div>
               </div>
 
-              {/* Staking Strategy - Precision over Icons */}
-              <div className="mb-8">
-                <h3 className="text-title-3 font-bold text-content-primary mb-4">Staking Strategy</h3>
-                <div className="space-y-3">
-                  {/* Recommended Band - Emphasized using Accent color for clarity */}
-                  <div className="flex justify-between items-center p-5 rounded-xl border border-accent/50 bg-accent/10 shadow-md">
-                    <span className="text-body font-bold text-content-primary">Conservative (1-2% Bankroll)</span>
-                    <span className="text-caption-1 px-3 py-1 rounded-full bg-accent text-content-inverse font-bold uppercase tracking-wider">
-                      Optimal
-                    </span>
-                  </div>
-                  {/* Other Bands - De-emphasized */}
-                  <div className="flex justify-between items-center p-5 rounded-xl border border-glass-border bg-glass-surface/50 opacity-70">
-                    <span className="text-body font-medium text-content-secondary">Moderate (2-3% Bankroll)</span>
-                    <span className="text-caption-1 text-content-tertiary">Increased Risk</span>
-                  </div>
-                  <div className="flex justify-between items-center p-5 rounded-xl border border-glass-border bg-glass-surface/50 opacity-50">
-                    <span className="text-body font-medium text-content-secondary">Aggressive (3-5% Bankroll)</span>
-                    <span className="text-caption-1 text-content-tertiary">High Risk</span>
-                  </div>
-                </div>
-              </div>
+              {/* Line Movement */}
+              <LineMovementChart
+                gameId={game.id}
+                homeTeam={game.homeTeam}
+                awayTeam={game.awayTeam}
+                pickTimestamp={pick.created_at}
+                gameStart={game.timestamp}
+                enabled={isOpen}
+                className="mb-8"
+              />
+
+              {/* Player Props (quotes and prop pick generation) */}
+              <PlayerPropsPanel game={game} enabled={isOpen} className="mb-8" />
+
+              {/* Staking Strategy (bankroll settings) */}
+              <StakingPanel pick={pick} game={game} />
+
+              {/* Model Ensemble (per-provider votes) */}
+              {pick.ensemble && <EnsemblePanel ensemble={pick.ensemble} />}
+
+              {/* Factor Breakdown */}
+              {pick.rationale && pick.rationale.factors.length > 0 && (
+                <RationalePanel rationale={pick.rationale} game={game} market={pickMarket(pick)} />
+              )}
 
               {/* Reasoning */}
               <div>
@@ -681,6 +742,200 @@ IMPORTANT: When the user says "this game" or "the game" they are referring to ${
   );
 };
 
+// ============================================================================
+// ODDS COMPARISON GRID - Every book side by side, best price highlighted
+// ============================================================================
+
+interface OddsComparisonProps {
+  odds: Record<string, MarketLines>;
+  awayTeam: string;
+  homeTeam: string;
+  spreadLabel: string;
+}
+
+const formatQuote = (outcome: BoardOutcome, quote: BookPrice): string => {
+  if (outcome === "over") return `o${quote.line} ${fmtPrice(quote.price)}`;
+  if (outcome === "under") return `u${quote.line} ${fmtPrice(quote.price)}`;
+  if (quote.line !== null) return `${fmtSigned(quote.line)} ${fmtPrice(quote.price)}`;
+  return fmtPrice(quote.price);
+};
+
+const OddsComparison = React.memo(({ odds, awayTeam, homeTeam, spreadLabel }: OddsComparisonProps) => {
+  const columns = useMemo<{ outcome: BoardOutcome; label: string }[]>(
+    () => [
+      { outcome: "awayPL", label: `${awayTeam} ${spreadLabel}` },
+      { outcome: "homePL", label: `${homeTeam} ${spreadLabel}` },
+      { outcome: "over", label: "Over" },
+      { outcome: "under", label: "Under" },
+      { outcome: "awayML", label: `${awayTeam} ML` },
+      ...(quotesFor(odds, "drawML").length > 0 ? [{ outcome: "drawML" as const, label: "Draw" }] : []),
+      { outcome: "homeML", label: `${homeTeam} ML` },
+    ],
+    [odds, awayTeam, homeTeam, spreadLabel],
+  );
+
+  const { books, quotes, best } = useMemo(() => {
+    const quotes = new Map<BoardOutcome, Map<string, BookPrice>>();
+    const books = new Set<string>();
+    columns.forEach(({ outcome }) => {
+      const byBook = new Map<string, BookPrice>();
+      quotesFor(odds, outcome).forEach((q) => {
+        byBook.set(q.book, q);
+        books.add(q.book);
+      });
+      quotes.set(outcome, byBook);
+    });
+    return { books: [...books], quotes, best: bestAvailable(odds) };
+  }, [odds, columns]);
+
+  if (books.length === 0) {
+    return <p className="text-caption-1 text-content-tertiary text-center py-2">No book quotes available.</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-caption-1 font-mono tabular-nums">
+        <thead>
+          <tr>
+            <th className="text-left py-2 pr-3 text-caption-2 font-extrabold text-content-tertiary uppercase tracking-widest">
+              Book
+            </th>
+            {columns.map((c) => (
+              <th
+                key={c.outcome}
+                className="py-2 px-2 text-caption-2 font-extrabold text-content-tertiary uppercase tracking-widest text-center whitespace-nowrap"
+              >
+                {c.label}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {books.map((book) => (
+            <tr key={book} className="border-t border-glass-border/50">
+              <td className="py-2 pr-3 font-sans font-semibold text-content-secondary">
+                {BOOK_SHORT_LABELS[book] ?? book}
+              </td>
+              {columns.map(({ outcome }) => {
+                const quote = quotes.get(outcome)?.get(book);
+                const isBest = !!quote && best[outcome]?.book === book;
+                return (
+                  <td
+                    key={outcome}
+                    className={cn(
+                      "py-2 px-2 text-center whitespace-nowrap",
+                      isBest ? "text-accent font-bold" : "text-content-primary",
+                    )}
+                  >
+                    {quote ? formatQuote(outcome, quote) : "-"}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+});
+OddsComparison.displayName = "OddsComparison";
+
+// ============================================================================
+// ALT LINES - Team totals and alternate spread / total ladders for one book
+// ============================================================================
+
+interface AltLinesProps {
+  data: MarketData;
+  book: string;
+  awayTeam: string;
+  homeTeam: string;
+  spreadLabel: string;
+}
+
+const fmtOptPrice = (price: number | null): string => (price === null ? "-" : fmtPrice(price));
+
+// Window of rungs centred on the one closest to the main line
+const ladderWindow = <T extends { line: number }>(rungs: T[] | undefined, mainLine: number | null): T[] => {
+  if (!rungs || rungs.length === 0) return [];
+  if (mainLine === null) return rungs.slice(0, LADDER_RADIUS * 2 + 1);
+  const center = rungs.reduce(
+    (best, r, i) => (Math.abs(r.line - mainLine) < Math.abs(rungs[best].line - mainLine) ? i : best),
+    0,
+  );
+  return rungs.slice(Math.max(0, center - LADDER_RADIUS), center + LADDER_RADIUS + 1);
+};
+
+const LadderTable = React.memo(
+  ({ title, headers, rows }: { title: string; headers: [string, string, string]; rows: [string, string, string][] }) => (
+    <div className="flex-1 min-w-[160px]">
+      <p className="mb-1.5 text-caption-2 font-extrabold text-content-tertiary uppercase tracking-widest">{title}</p>
+      <table className="w-full text-caption-1 font-mono tabular-nums">
+        <thead>
+          <tr className="text-caption-2 text-content-tertiary">
+            {headers.map((h) => (
+              <th key={h} className="py-1 px-1 font-sans font-semibold text-center">
+                {h}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((cells) => (
+            <tr key={cells[0]} className="border-t border-glass-border/50">
+              {cells.map((c, i) => (
+                <td key={i} className={cn("py-1 px-1 text-center", i === 0 ? "text-content-secondary" : "text-content-primary")}>
+                  {c}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  ),
+);
+LadderTable.displayName = "LadderTable";
+
+const AltLines = React.memo(({ data, book, awayTeam, homeTeam, spreadLabel }: AltLinesProps) => {
+  const homeLine = parseFloat(parseLine(data.homePL).line);
+  const total = parseFloat(data.total);
+
+  const spreadRows = ladderWindow<AltSpreadRung>(data.altSpreads, Number.isFinite(homeLine) ? homeLine : null).map(
+    (r): [string, string, string] => [fmtSigned(r.line), fmtOptPrice(r.homePrice), fmtOptPrice(r.awayPrice)],
+  );
+  const totalRows = ladderWindow<AltTotalRung>(data.altTotals, Number.isFinite(total) ? total : null).map(
+    (r): [string, string, string] => [String(r.line), fmtOptPrice(r.overPrice), fmtOptPrice(r.underPrice)],
+  );
+  const teamTotalRows = (
+    [
+      [awayTeam, data.teamTotals?.away],
+      [homeTeam, data.teamTotals?.home],
+    ] as const
+  ).flatMap(([team, tt]): [string, string, string][] =>
+    tt ? [[`${team} ${tt.line}`, fmtOptPrice(tt.overPrice), fmtOptPrice(tt.underPrice)]] : [],
+  );
+
+  if (spreadRows.length === 0 && totalRows.length === 0 && teamTotalRows.length === 0) {
+    return <p className="text-caption-1 text-content-tertiary text-center py-2">No alternate lines available.</p>;
+  }
+
+  return (
+    <div>
+      <p className="mb-3 text-caption-2 font-semibold text-content-tertiary uppercase tracking-widest">
+        {BOOK_SHORT_LABELS[book] ?? book} · Full Game
+      </p>
+      <div className="flex flex-wrap gap-6">
+        {teamTotalRows.length > 0 && <LadderTable title="Team Totals" headers={["Team", "Over", "Under"]} rows={teamTotalRows} />}
+        {spreadRows.length > 0 && (
+          <LadderTable title={`Alt ${spreadLabel}`} headers={[`${homeTeam} Line`, homeTeam, awayTeam]} rows={spreadRows} />
+        )}
+        {totalRows.length > 0 && <LadderTable title="Alt Totals" headers={["Total", "Over", "Under"]} rows={totalRows} />}
+      </div>
+    </div>
+  );
+});
+AltLines.displayName = "AltLines";
+
 // ============================================================================
 // GAME CARD COMPONENT - ESSENCE v3.1 Unified Interaction (Iconless)
 // ============================================================================
@@ -689,23 +944,51 @@ interface GameCardProps {
   game: GameData;
   selectedBook: string;
   onAnalyze?: (game: GameData) => void;
-  onBetClick?: (gameId: string, betType: string, team: "away" | "home" | "over" | "under", odds: MarketData) => void;
+  onBetClick?: (
+    gameId: string,
+    betType: string,
+    team: "away" | "home" | "draw" | "over" | "under",
+    odds: MarketLines,
+    book?: string,
+    period?: PeriodScope,
+  ) => void;
+  onGeneratePicks?: (game: GameData) => void;
 }
 
-export const GameCard = React.memo(({ game, selectedBook, onAnalyze, onBetClick }: GameCardProps) => {
-  const { id, status, awayTeam, homeTeam, awayRecord, homeRecord, time, odds: allOdds, league } = game;
-  const [showPickModal, setShowPickModal] = useState(false);
+export const GameCard = React.memo(({ game, selectedBook, onAnalyze, onBetClick, onGeneratePicks }: GameCardProps) => {
+  const { id, status, awayTeam, homeTeam, awayRecord, homeRecord, time, odds: boardOdds, league } = game;
+  const [activePickMarket, setActivePickMarket] = useState<MarketType | null>(null);
+  const [showComparison, setShowComparison] = useState(false);
+  const [showAltLines, setShowAltLines] = useState(false);
+  const [period, setPeriod] = useState<PeriodScope>("game");
+  // Period lines and alternates are per-event Odds API calls: load them only once the card asks
+  const [marketsRequested, setMarketsRequested] = useState(false);
   const { toast } = useToast();
   const awayTeamName = awayTeam;
   const homeTeamName = homeTeam;
 
-  const pickData = game.pick;
+  // One pick per market; older callers only set the moneyline `pick`
+  const marketPicks = useMemo(
+    () =>
+      PICK_MARKET_ORDER.flatMap((market) => {
+        const pick = game.picks?.[market] ?? (market === "moneyline" ? game.pick : undefined);
+        return pick ? [{ market, pick }] : [];
+      }),
+    [game.picks, game.pick],
+  );
+  const pickData = activePickMarket ? marketPicks.find((p) => p.market === activePickMarket)?.pick : undefined;
 
   // State calculations (Logic unchanged)
   const isLive = status === "Live";
   const isFinal = status === "Final";
   const isConcluded = isFinal || status === "Canceled" || status === "Postponed";
 
+  const {
+    odds: allOdds,
+    loaded: marketsLoaded,
+    loading: marketsLoading,
+  } = useGameMarkets(id, league, boardOdds, { enabled: marketsRequested && !isConcluded });
+
   const scores = useMemo(
     () => ({
       away: parseInt(game.awayScore || "0", 10) || 0,
@@ -723,15 +1006,57 @@ export const GameCard = React.memo(({ game, selectedBook, onAnalyze, onBetClick
     return "tie";
   }, [isFinal, scores]);
 
-  const odds = useMemo(() => {
-    return allOdds[selectedBook] || allOdds.generic || null;
-  }, [allOdds, selectedBook]);
+  const isBestMode = selectedBook === BEST_AVAILABLE_BOOK;
+
+  // Period scopes in PERIOD_LABELS order: the league's periods until they load, then those quoted by any book
+  const scopes = useMemo(() => {
+    const offered = new Set<string>(
+      marketsLoaded ? Object.values(allOdds).flatMap((data) => Object.keys(data.periods ?? {})) : leaguePeriods(league),
+    );
+    return (Object.keys(PERIOD_LABELS) as PeriodScope[]).filter((p) => p === "game" || offered.has(p));
+  }, [allOdds, marketsLoaded, league]);
+
+  // Concluded games, periods still loading and periods dropped from the feed fall back to the full-game board
+  const scope: PeriodScope = !isConcluded && marketsLoaded && scopes.includes(period) ? period : "game";
+  const scopedOdds = useMemo(() => oddsForScope(allOdds, scope), [allOdds, scope]);
+
+  // Best price per cell across books (line shopping); null outside Best Available mode
+  const best = useMemo(() => (isBestMode ? bestAvailable(scopedOdds) : null), [isBestMode, scopedOdds]);
+
+  const bookCount = useMemo(() => new Set(quotesFor(scopedOdds, "awayML").map((q) => q.book)).size, [scopedOdds]);
+
+  // Book whose team totals / alternate ladders are shown (Best Available: first book quoting any)
+  const altBook = useMemo(() => {
+    const hasAlts = (data?: MarketData) => !!(data?.teamTotals || data?.altSpreads || data?.altTotals);
+    if (!isBestMode) return hasAlts(allOdds[selectedBook]) ? selectedBook : null;
+    return Object.keys(allOdds).find((book) => book !== "generic" && hasAlts(allOdds[book])) ?? null;
+  }, [allOdds, selectedBook, isBestMode]);
+
+  const odds = useMemo((): MarketLines | null => {
+    if (!best) return scopedOdds[selectedBook] || scopedOdds.generic || null;
+    if (Object.keys(best).length === 0) return null;
+
+    // Compose a board from each cell's best quote, in the same string format as a single book
+    const pl = (q?: BookPrice) => (q && q.line !== null ? `${fmtSigned(q.line)} (${fmtPrice(q.price)})` : "-");
+    return {
+      awayML: best.awayML ? fmtPrice(best.awayML.price) : "-",
+      homeML: best.homeML ? fmtPrice(best.homeML.price) : "-",
+      drawML: best.drawML ? fmtPrice(best.drawML.price) : undefined,
+      awayPL: pl(best.awayPL),
+      homePL: pl(best.homePL),
+      total: best.over?.line != null ? String(best.over.line) : "-",
+      overOdds: best.over ? fmtPrice(best.over.price) : "",
+      underOdds: best.under ? fmtPrice(best.under.price) : "",
+    };
+  }, [scopedOdds, selectedBook, best]);
 
   const processedOdds = useMemo(() => {
     if (!odds) return null;
     const awayPL = parseLine(odds.awayPL);
     const homePL = parseLine(odds.homePL);
     const total = odds.total && odds.total !== "N/A" && odds.total !== "-" ? odds.total.trim() : "-";
+    // Best Available can shop the over and under to different numbers
+    const underTotal = best?.under?.line != null ? String(best.under.line) : total;
     const awayML = parseInt(odds.awayML, 10) || 0;
     const homeML = parseInt(odds.homeML, 10) || 0;
     let mlFavorite: "away" | "home" | null = null;
@@ -741,13 +1066,21 @@ export const GameCard = React.memo(({ game, selectedBook, onAnalyze, onBetClick
       else if (homeML < awayML) mlFavorite = "home";
     }
 
-    return { ...odds, awayPL, homePL, total, mlFavorite, movement: {} as any };
-  }, [odds]);
+    return { ...odds, awayPL, homePL, total, underTotal, mlFavorite };
+  }, [odds, best]);
 
   const hasOdds = processedOdds !== null;
   const boardLocked = isConcluded || !hasOdds;
 
-  const spreadLabel = league === "NHL" ? "Puck Line" : "Spread";
+  const isSoccer = league === "EPL" || league === "MLS" || league === "UCL";
+  const spreadLabel =
+    league === "NHL" ? "Puck Line" : league === "MLB" ? "Run Line" : isSoccer ? "Asian Handicap" : "Spread";
+
+  // Draw-no-bet: the selected book's quote (if any) next to the no-vig price from the 1X2 consensus
+  const dnbFair = useMemo(
+    () => (isSoccer ? drawNoBetFair(marketConsensus(scopedOdds, "moneyline")) : null),
+    [isSoccer, scopedOdds],
+  );
 
   // Handlers (Logic unchanged)
   const handleAnalyzeClick = useCallback(
@@ -759,14 +1092,22 @@ export const GameCard = React.memo(({ game, selectedBook, onAnalyze, onBetClick
   );
 
   const handleBet = useCallback(
-    (type: string, team: "away" | "home" | "over" | "under") => {
-      if (onBetClick && odds && !boardLocked) onBetClick(id, type, team, odds);
+    (type: string, team: "away" | "home" | "draw" | "over" | "under") => {
+      if (!onBetClick || !odds || boardLocked) return;
+      if (!best) {
+        onBetClick(id, type, team, odds, scopedOdds[selectedBook] ? selectedBook : "generic", scope);
+        return;
+      }
+      // Stage the bet from the book that holds the best price for this cell
+      const outcome = (type === "Total" ? team : `${team}${type}`) as BoardOutcome;
+      const book = best[outcome]?.book;
+      if (book && scopedOdds[book]) onBetClick(id, type, team, scopedOdds[book], book, scope);
     },
-    [onBetClick, id, odds, boardLocked],
+    [onBetClick, id, odds, boardLocked, best, scopedOdds, selectedBook, scope],
   );
 
   const handleOpenBreakdown = useCallback(
-    (e: React.MouseEvent) => {
+    (e: React.MouseEvent, market: MarketType) => {
       e.stopPropagation();
       if (boardLocked) {
         toast({
@@ -776,11 +1117,22 @@ export const GameCard = React.memo(({ game, selectedBook, onAnalyze, onBetClick
         });
         return;
       }
-      setShowPickModal(true);
+      setActivePickMarket(market);
     },
     [boardLocked, toast],
   );
 
+  const handleGenerateClick = useCallback(
+    (e: React.MouseEvent) => {
+      e.stopPropagation();
+      if (onGeneratePicks && !game.isLoadingPick) onGeneratePicks(game);
+    },
+    [onGeneratePicks, game],
+  );
+
+  const marketLabel = (market: MarketType) =>
+    market === "moneyline" ? "Moneyline" : market === "spread" ? spreadLabel : "Total";
+
   return (
     <article
       className="relative overflow-hidden mb-4 rounded-2xl border border-glass-border group/card transition-all duration-250 ease-standard hover:shadow-xl shadow-lg backdrop-blur-xl bg-glass-surface backdrop-saturate-default motion-safe:hover:scale-[1.005]"
@@ -804,7 +1156,7 @@ export const GameCard = React.memo(({ game, selectedBook, onAnalyze, onBetClick
             {/* Away Team Row */}
             <div className="flex items-center justify-between" role="row">
               <div className="flex items-center gap-4" role="gridcell">
-                <TeamLogo teamAbbr={awayTeam} teamName={awayTeamName} league={league} />
+                <TeamLogo teamAbbr={awayTeam} teamName={awayTeamName} league={league} logoUrl={game.awayLogo} />
                 <div className="flex flex-col">
                   <span
                     className={cn(
@@ -839,7 +1191,7 @@ export const GameCard = React.memo(({ game, selectedBook, onAnalyze, onBetClick
             {/* Home Team Row */}
             <div className="flex items-center justify-between" role="row">
               <div className="flex items-center gap-4" role="gridcell">
-                <TeamLogo teamAbbr={homeTeam} teamName={homeTeamName} league={league} />
+                <TeamLogo teamAbbr={homeTeam} teamName={homeTeamName} league={league} logoUrl={game.homeLogo} />
                 <div className="flex flex-col">
                   <span
                     className={cn(
@@ -887,19 +1239,23 @@ export const GameCard = React.memo(({ game, selectedBook, onAnalyze, onBetClick
                 </button>
               )}
 
-              {/* Unified Edge & Breakdown Button (Premium Aesthetic) */}
-              {pickData && (
+              {/* Edge & Breakdown Buttons, one per market (Premium Aesthetic) */}
+              {marketPicks.map(({ market, pick }) => (
                 <button
-                  onClick={handleOpenBreakdown}
+                  key={market}
+                  onClick={(e) => handleOpenBreakdown(e, market)}
                   disabled={boardLocked}
-                  className="group/edgebutton bg-accent hover:bg-accent-hover text-content-inverse px-5 py-3 rounded-xl shadow-lg hover:shadow-xl focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-accent focus-visible:ring-offset-2 focus-visible:ring-offset-surface-primary motion-safe:hover:scale-105 active:scale-95 transition-all duration-150 ease-standard disabled:opacity-50 disabled:pointer-events-none flex items-center gap-4 backdrop-saturate-150"
+                  className="group/edgebutton bg-accent hover:bg-accent-hover text-content-inverse px-4 py-3 rounded-xl shadow-lg hover:shadow-xl focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-accent focus-visible:ring-offset-2 focus-visible:ring-offset-surface-primary motion-safe:hover:scale-105 active:scale-95 transition-all duration-150 ease-standard disabled:opacity-50 disabled:pointer-events-none flex items-center gap-3 backdrop-saturate-150"
+                  aria-label={`${marketLabel(market)} pick: ${pick.pick_side}, ${pick.confidence_score}% edge${
+                    fmtClv(pick) ? `, ${fmtClv(pick)} CLV` : ""
+                  }`}
                 >
                   {/* Edge visualization */}
                   <div className="flex flex-col items-start">
                     <span className="text-caption-2 uppercase tracking-wider font-semibold text-content-inverse/70">
                       Edge
                     </span>
-                    <span className="text-body font-bold font-mono">{pickData.confidence_score}%</span>
+                    <span className="text-body font-bold font-mono">{pick.confidence_score}%</span>
                   </div>
 
                   <div className="h-6 w-px bg-content-inverse/30" aria-hidden="true" />
@@ -907,20 +1263,50 @@ export const GameCard = React.memo(({ game, selectedBook, onAnalyze, onBetClick
                   {/* The Pick */}
                   <div className="flex flex-col items-start">
                     <span className="text-caption-2 uppercase tracking-wider font-semibold text-content-inverse/70">
-                      Pick
+                      {marketLabel(market)}
+                    </span>
+                    <span className="text-body font-bold whitespace-nowrap">
+                      {pick.pick_side}
+                      <span className="ml-1.5 text-caption-1 font-mono text-content-inverse/80">
+                        {fmtPrice(pick.odds_at_generation)}
+                      </span>
                     </span>
-                    <span className="text-body font-bold">{pickData.pick_side}</span>
                   </div>
 
-                  {/* Subtle Indicator for interaction */}
-                  <span className="ml-2 text-caption-2 font-semibold tracking-wider text-content-inverse/70 group-hover/edgebutton:text-content-inverse transition-transform duration-200 ease-standard group-hover/edgebutton:translate-x-1">
-                    VIEW
+                  {/* Closing line value, once capture-closing-lines has the close */}
+                  {fmtClv(pick) && (
+                    <>
+                      <div className="h-6 w-px bg-content-inverse/30" aria-hidden="true" />
+                      <div
+                        className="flex flex-col items-start"
+                        title={pick.closing_odds != null ? `Closed ${fmtPrice(pick.closing_odds)}` : undefined}
+                      >
+                        <span className="text-caption-2 uppercase tracking-wider font-semibold text-content-inverse/70">
+                          CLV
+                        </span>
+                        <span className="text-body font-bold font-mono">{fmtClv(pick)}</span>
+                      </div>
+                    </>
+                  )}
+                </button>
+              ))}
+
+              {/* Generate Picks (fills in any market without a pick) */}
+              {onGeneratePicks && !boardLocked && marketPicks.length < PICK_MARKET_ORDER.length && (
+                <button
+                  onClick={handleGenerateClick}
+                  disabled={game.isLoadingPick}
+                  className="bg-glass-surface backdrop-blur-lg border border-glass-border hover:shadow-md text-content-primary px-5 py-3 rounded-xl flex items-center gap-2.5 shadow-md focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-accent motion-safe:hover:scale-105 active:scale-95 transition-all duration-150 ease-standard disabled:opacity-60 disabled:pointer-events-none"
+                >
+                  <span className="text-caption-1 font-semibold uppercase tracking-widest text-content-secondary">
+                    {marketPicks.length > 0 ? "More" : "AI"}
                   </span>
+                  <span className="text-body-sm font-bold">{game.isLoadingPick ? "Generating…" : "Generate Picks"}</span>
                 </button>
               )}
 
               {/* No Edge Available (Only shown if no analysis button either, adjusted logic slightly) */}
-              {!pickData && !boardLocked && !onAnalyze && (
+              {marketPicks.length === 0 && !boardLocked && !onAnalyze && !onGeneratePicks && (
                 <div className="flex items-center gap-2 px-4 py-3 rounded-xl bg-glass-surface/30 border border-border/30">
                   <span className="text-body-sm text-content-secondary">No edge identified</span>
                 </div>
@@ -976,6 +1362,33 @@ export const GameCard = React.memo(({ game, selectedBook, onAnalyze, onBetClick
             </div>
           )}
 
+          {/* Period Toggle (above the locked overlay so a book without the period can switch back) */}
+          {scopes.length > 1 && !isConcluded && (
+            <div
+              className="relative z-30 mb-4 self-center inline-flex rounded-lg border border-glass-border p-0.5"
+              role="group"
+              aria-label="Period"
+              aria-busy={marketsLoading}
+            >
+              {scopes.map((p) => (
+                <button
+                  key={p}
+                  onClick={() => {
+                    setPeriod(p);
+                    if (p !== "game") setMarketsRequested(true);
+                  }}
+                  aria-pressed={scope === p}
+                  className={cn(
+                    "px-2.5 py-1 rounded-md text-caption-2 font-semibold uppercase tracking-wider transition-colors duration-150 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-accent",
+                    scope === p ? "bg-accent/10 text-accent" : "text-content-tertiary hover:text-content-secondary",
+                  )}
+                >
+                  {PERIOD_LABELS[p]}
+                </button>
+              ))}
+            </div>
+          )}
+
           <div role="grid">
             {/* Headers */}
             <div className="grid grid-cols-3 gap-3 mb-4 px-1" role="row">
@@ -1006,6 +1419,7 @@ export const GameCard = React.memo(({ game, selectedBook, onAnalyze, onBetClick
                 main={processedOdds?.awayPL.line || "-"}
                 sub={processedOdds?.awayPL.juice}
                 isDisabled={boardLocked}
+                book={best?.awayPL?.book}
                 onClick={onBetClick ? () => handleBet("PL", "away") : undefined}
               />
               <OddsCell
@@ -1013,6 +1427,7 @@ export const GameCard = React.memo(({ game, selectedBook, onAnalyze, onBetClick
                 main={processedOdds?.total !== "-" ? `O ${processedOdds?.total}` : "-"}
                 sub={processedOdds?.overOdds}
                 isDisabled={boardLocked}
+                book={best?.over?.book}
                 onClick={onBetClick ? () => handleBet("Total", "over") : undefined}
               />
               <OddsCell
@@ -1020,6 +1435,7 @@ export const GameCard = React.memo(({ game, selectedBook, onAnalyze, onBetClick
                 main={processedOdds?.awayML || "-"}
                 isFavorite={hasOdds && processedOdds?.mlFavorite === "away"}
                 isDisabled={boardLocked}
+                book={best?.awayML?.book}
                 onClick={onBetClick ? () => handleBet("ML", "away") : undefined}
               />
             </div>
@@ -1031,13 +1447,15 @@ export const GameCard = React.memo(({ game, selectedBook, onAnalyze, onBetClick
                 main={processedOdds?.homePL.line || "-"}
                 sub={processedOdds?.homePL.juice}
                 isDisabled={boardLocked}
+                book={best?.homePL?.book}
                 onClick={onBetClick ? () => handleBet("PL", "home") : undefined}
               />
               <OddsCell
-                label={`Under ${processedOdds?.total || ""}`}
-                main={processedOdds?.total !== "-" ? `U ${processedOdds?.total}` : "-"}
+                label={`Under ${processedOdds?.underTotal || ""}`}
+                main={processedOdds && processedOdds.underTotal !== "-" ? `U ${processedOdds.underTotal}` : "-"}
                 sub={processedOdds?.underOdds}
                 isDisabled={boardLocked}
+                book={best?.under?.book}
                 onClick={onBetClick ? () => handleBet("Total", "under") : undefined}
               />
               <OddsCell
@@ -1045,16 +1463,90 @@ export const GameCard = React.memo(({ game, selectedBook, onAnalyze, onBetClick
                 main={processedOdds?.homeML || "-"}
                 isFavorite={hasOdds && processedOdds?.mlFavorite === "home"}
                 isDisabled={boardLocked}
+                book={best?.homeML?.book}
                 onClick={onBetClick ? () => handleBet("ML", "home") : undefined}
               />
             </div>
+
+            {/* Draw Row (three-way moneyline) */}
+            {processedOdds?.drawML && (
+              <div className="grid grid-cols-3 gap-3 mt-3" role="row">
+                <span className="col-span-2 self-center text-right pr-1 text-caption-2 font-extrabold text-content-tertiary uppercase tracking-widest">
+                  Draw
+                </span>
+                <OddsCell
+                  label="Draw Moneyline"
+                  main={processedOdds.drawML}
+                  isDisabled={boardLocked}
+                  book={best?.drawML?.book}
+                  onClick={onBetClick ? () => handleBet("ML", "draw") : undefined}
+                />
+              </div>
+            )}
           </div>
+
+          {/* Draw No Bet */}
+          {dnbFair && !boardLocked && (
+            <p className="mt-3 text-center text-caption-2 font-mono tabular-nums text-content-tertiary">
+              DNB{" "}
+              {odds?.awayDNB && odds?.homeDNB ? `${odds.awayDNB} / ${odds.homeDNB} · ` : ""}
+              fair {dnbFair.away && fmtPrice(dnbFair.away.odds)} / {dnbFair.home && fmtPrice(dnbFair.home.odds)}
+            </p>
+          )}
+
+          {/* Odds Comparison & Alt Lines Toggles */}
+          {!boardLocked && (bookCount > 1 || altBook || !marketsLoaded) && (
+            <div className="mt-4 self-center flex gap-2">
+              {bookCount > 1 && (
+                <button
+                  onClick={() => setShowComparison((v) => !v)}
+                  aria-expanded={showComparison}
+                  className="text-caption-2 font-semibold uppercase tracking-widest text-content-tertiary hover:text-accent focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-accent rounded-md px-2 py-1 transition-colors duration-150"
+                >
+                  {showComparison ? "Hide" : "Compare"} {bookCount} Books
+                </button>
+              )}
+              {(altBook || !marketsLoaded) && (
+                <button
+                  onClick={() => {
+                    setShowAltLines((v) => !v);
+                    setMarketsRequested(true);
+                  }}
+                  aria-expanded={showAltLines}
+                  disabled={marketsLoading}
+                  className="text-caption-2 font-semibold uppercase tracking-widest text-content-tertiary hover:text-accent focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-accent rounded-md px-2 py-1 transition-colors duration-150 disabled:opacity-60"
+                >
+                  {marketsLoading ? "Loading…" : `${showAltLines ? "Hide" : "Alt"} Lines`}
+                </button>
+              )}
+            </div>
+          )}
         </div>
       </div>
 
+      {/* Odds Comparison Grid */}
+      {showComparison && !boardLocked && (
+        <div className="relative z-10 border-t border-glass-border bg-surface-secondary/20 px-6 py-4">
+          <OddsComparison odds={scopedOdds} awayTeam={awayTeam} homeTeam={homeTeam} spreadLabel={spreadLabel} />
+        </div>
+      )}
+
+      {/* Team Totals & Alternate Lines */}
+      {showAltLines && altBook && !isConcluded && (
+        <div className="relative z-10 border-t border-glass-border bg-surface-secondary/20 px-6 py-4">
+          <AltLines
+            data={allOdds[altBook]}
+            book={altBook}
+            awayTeam={awayTeam}
+            homeTeam={homeTeam}
+            spreadLabel={spreadLabel}
+          />
+        </div>
+      )}
+
       {/* Pick Detail Modal (Portal) */}
       {pickData && (
-        <PickDetailModal pick={pickData} game={game} isOpen={showPickModal} onClose={() => setShowPickModal(false)} />
+        <PickDetailModal pick={pickData} game={game} isOpen={!!pickData} onClose={() => setActivePickMarket(null)} />
       )}
     </article>
   );
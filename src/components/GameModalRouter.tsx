@@ -8,7 +8,8 @@
  *     "scheduled": "PickDetailModal",
  *     "live": "LiveGameModal", 
  *     "final": "GameResultModal"
- *   }
+ *   },
+ *   "line_history": "get-line-history (unless passed via props)"
  * }
  */
 
@@ -17,20 +18,13 @@ import { PickDetailModal } from './PickDetailModal';
 import { LiveGameModal } from './LiveGameModal';
 import { GameResultModal } from './GameResultModal';
 import { useLiveGame, useGameModalType, type GameStatus } from '@/hooks/useLiveGame';
-import type { PickData, GameData, League } from '../types';
+import { useLineHistory } from '@/hooks/useLineHistory';
+import type { PickData, GameData, League, LineMovement } from '../types';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // TYPES
 // ─────────────────────────────────────────────────────────────────────────────
 
-interface LineMovement {
-  timestamp: string;
-  spread: number;
-  total: number;
-  homeML: number;
-  awayML: number;
-}
-
 interface GameModalRouterProps {
   readonly pick: PickData;
   readonly game: GameData;
@@ -55,7 +49,7 @@ export const GameModalRouter: FC<GameModalRouterProps> = ({
   game,
   isOpen,
   onClose,
-  lineHistory = [],
+  lineHistory,
   closingLine,
   unitSize = 100,
 }) => {
@@ -71,6 +65,10 @@ export const GameModalRouter: FC<GameModalRouterProps> = ({
     pollingInterval: 30000,
   });
 
+  // Line snapshots recorded by fetch-odds (skipped when the caller supplies history)
+  const { history: fetchedHistory } = useLineHistory(game.id, { enabled: isOpen && !lineHistory });
+  const resolvedLineHistory = lineHistory ?? fetchedHistory;
+
   // Determine current game status (prefer live data over static)
   const currentStatus: GameStatus = liveGameData?.status ?? (game.status === 'Live' ? 'live' : game.status === 'Final' ? 'final' : 'scheduled');
 
@@ -110,7 +108,7 @@ export const GameModalRouter: FC<GameModalRouterProps> = ({
           game={enrichedGame as any}
           isOpen={isOpen}
           onClose={onClose}
-          lineHistory={lineHistory}
+          lineHistory={resolvedLineHistory}
           onRefresh={refresh}
           isRefreshing={isRefreshing}
           lastUpdated={lastUpdated ?? undefined}
@@ -6,9 +6,11 @@
  *   "design_system": "ESSENCE v3.1",
  *   "features": [
  *     "Final score display",
- *     "Pick outcome (hit/miss/push)",
+ *     "Pick outcome (hit/miss/push, half win/loss on quarter lines)",
+ *     "Soccer: draw picks and three-way moneylines lose on a draw",
  *     "P&L calculation",
  *     "Cover margin display",
+ *     "Closing line value (price + no-vig probability)",
  *     "Original analysis review",
  *     "Performance tracking integration"
  *   ]
@@ -36,13 +38,14 @@ import {
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog';
 import { Button } from './ui/button';
 import { ScrollArea } from './ui/scroll-area';
+import { americanToDecimal, settleAsian, settlementProfit, type Settlement } from '@/utils/bettingMath';
 import type { PickData, GameData, League } from '../types';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // TYPES
 // ─────────────────────────────────────────────────────────────────────────────
 
-export type PickOutcome = 'win' | 'loss' | 'push' | 'pending';
+export type PickOutcome = Settlement | 'pending';
 
 export interface FinalGameData {
   id: string;
@@ -81,21 +84,11 @@ const formatOdds = (odds: number): string => {
   return odds > 0 ? `+${odds}` : `${odds}`;
 };
 
-const oddsToDecimal = (americanOdds: number): number => {
-  if (americanOdds > 0) {
-    return (americanOdds / 100) + 1;
-  }
-  return (100 / Math.abs(americanOdds)) + 1;
-};
-
 const calculatePayout = (odds: number, stake: number): number => {
-  const decimal = oddsToDecimal(odds);
-  return stake * decimal;
+  return stake * americanToDecimal(odds);
 };
 
-const calculateProfit = (odds: number, stake: number): number => {
-  return calculatePayout(odds, stake) - stake;
-};
+const isSoccerLeague = (league: League): boolean => league === 'EPL' || league === 'MLS' || league === 'UCL';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // OUTCOME CALCULATOR
@@ -123,31 +116,25 @@ function calculateOutcome(
   const isOver = pickSide.includes('over');
   const isUnder = pickSide.includes('under');
   const isMoneyline = pickSide.includes('ml') || pickSide.includes('moneyline');
+  const isDraw = pick.pick_outcome === 'draw' || pickSide === 'draw';
+  const isSoccer = isSoccerLeague(game.league);
+
+  // Draw picks (soccer 1X2)
+  if (isDraw) {
+    if (scoreDiff === 0) return { outcome: 'win', margin: 0, description: `Match drawn ${homeScore}-${awayScore}` };
+    return { outcome: 'loss', margin: Math.abs(scoreDiff), description: `${scoreDiff > 0 ? homeTeam : awayTeam} won by ${Math.abs(scoreDiff)}` };
+  }
   
-  // Total picks
+  // Total picks (quarter lines settle half on each neighbouring line)
   if (isOver || isUnder) {
     const line = closingTotal ?? extractNumberFromPick(pick.pick_side) ?? 0;
-    const margin = isOver ? totalPoints - line : line - totalPoints;
+    const outcome = settleAsian(line, (l) => (isOver ? totalPoints - l : l - totalPoints));
     
-    if (margin > 0) {
-      return { 
-        outcome: 'win', 
-        margin: Math.abs(totalPoints - line),
-        description: `Total: ${totalPoints} (Line: ${line})`
-      };
-    } else if (margin === 0) {
-      return { 
-        outcome: 'push', 
-        margin: 0,
-        description: `Total: ${totalPoints} (Line: ${line})`
-      };
-    } else {
-      return { 
-        outcome: 'loss', 
-        margin: Math.abs(totalPoints - line),
-        description: `Total: ${totalPoints} (Line: ${line})`
-      };
-    }
+    return {
+      outcome,
+      margin: outcome === 'push' ? 0 : Math.abs(totalPoints - line),
+      description: `Total: ${totalPoints} (Line: ${line})`
+    };
   }
 
   // Moneyline picks
@@ -158,10 +145,13 @@ function calculateOutcome(
     if (pickIsHome) {
       if (scoreDiff > 0) return { outcome: 'win', margin: scoreDiff, description: `${homeTeam} won by ${scoreDiff}` };
       if (scoreDiff < 0) return { outcome: 'loss', margin: Math.abs(scoreDiff), description: `${homeTeam} lost by ${Math.abs(scoreDiff)}` };
+      // Three-way moneyline: the draw is its own outcome
+      if (isSoccer) return { outcome: 'loss', margin: 0, description: 'Match drawn' };
       return { outcome: 'push', margin: 0, description: 'Game ended in tie' };
     } else if (pickIsAway) {
       if (scoreDiff < 0) return { outcome: 'win', margin: Math.abs(scoreDiff), description: `${awayTeam} won by ${Math.abs(scoreDiff)}` };
       if (scoreDiff > 0) return { outcome: 'loss', margin: scoreDiff, description: `${awayTeam} lost by ${scoreDiff}` };
+      if (isSoccer) return { outcome: 'loss', margin: 0, description: 'Match drawn' };
       return { outcome: 'push', margin: 0, description: 'Game ended in tie' };
     }
   }
@@ -170,27 +160,16 @@ function calculateOutcome(
   const pickIsHome = pickSide.includes(homeTeam.toLowerCase());
   const spread = closingSpread ?? extractNumberFromPick(pick.pick_side) ?? 0;
   
-  let coverMargin: number;
-  let description: string;
-  
-  if (pickIsHome) {
-    // Home team needs to beat the spread
-    // If spread is -7, home needs to win by more than 7
-    coverMargin = scoreDiff + spread;
-    description = `${homeTeam} ${scoreDiff > 0 ? 'won' : 'lost'} by ${Math.abs(scoreDiff)} (Spread: ${formatOdds(spread)})`;
-  } else {
-    // Away team needs to beat the spread
-    coverMargin = -scoreDiff - spread;
-    description = `${awayTeam} ${scoreDiff < 0 ? 'won' : 'lost'} by ${Math.abs(scoreDiff)} (Spread: ${formatOdds(-spread)})`;
-  }
-
-  if (coverMargin > 0) {
-    return { outcome: 'win', margin: coverMargin, description };
-  } else if (coverMargin === 0) {
-    return { outcome: 'push', margin: 0, description };
-  } else {
-    return { outcome: 'loss', margin: Math.abs(coverMargin), description };
-  }
+  // Home team needs to beat the spread: if spread is -7, home needs to win by more than 7.
+  // Asian handicap quarter lines (-0.75) split the stake across the two neighbouring lines.
+  const cover = (line: number) => (pickIsHome ? scoreDiff + line : -scoreDiff - line);
+  const coverMargin = cover(spread);
+  const description = pickIsHome
+    ? `${homeTeam} ${scoreDiff > 0 ? 'won' : 'lost'} by ${Math.abs(scoreDiff)} (Spread: ${formatOdds(spread)})`
+    : `${awayTeam} ${scoreDiff < 0 ? 'won' : 'lost'} by ${Math.abs(scoreDiff)} (Spread: ${formatOdds(-spread)})`;
+
+  const outcome = settleAsian(spread, cover);
+  return { outcome, margin: outcome === 'push' ? 0 : Math.abs(coverMargin), description };
 }
 
 function extractNumberFromPick(pickSide: string): number | null {
@@ -225,6 +204,22 @@ const OutcomeBadge: FC<OutcomeBadgeProps> = React.memo(({ outcome, size = 'lg' }
       text: 'text-semantic-error',
       iconColor: 'text-semantic-error',
     },
+    half_win: {
+      icon: CheckCircle2,
+      label: 'Half Win',
+      bg: 'bg-semantic-success/10',
+      border: 'border-semantic-success/30',
+      text: 'text-semantic-success',
+      iconColor: 'text-semantic-success',
+    },
+    half_loss: {
+      icon: XCircle,
+      label: 'Half Loss',
+      bg: 'bg-semantic-error/10',
+      border: 'border-semantic-error/30',
+      text: 'text-semantic-error',
+      iconColor: 'text-semantic-error',
+    },
     push: {
       icon: MinusCircle,
       label: 'Push',
@@ -348,17 +343,20 @@ interface PLCardProps {
 }
 
 const PLCard: FC<PLCardProps> = React.memo(({ outcome, odds, unitSize, margin }) => {
+  // Half results settle half the stake and return the other half
   const profit = useMemo(() => {
-    if (outcome === 'win') return calculateProfit(odds, unitSize);
-    if (outcome === 'loss') return -unitSize;
-    return 0; // push
+    if (outcome === 'pending') return 0;
+    return settlementProfit(outcome, odds) * unitSize;
   }, [outcome, odds, unitSize]);
 
   const payout = useMemo(() => {
     if (outcome === 'win') return calculatePayout(odds, unitSize);
-    if (outcome === 'push') return unitSize;
-    return 0;
-  }, [outcome, odds, unitSize]);
+    if (outcome === 'pending') return 0;
+    return unitSize + profit;
+  }, [outcome, odds, unitSize, profit]);
+
+  const won = outcome === 'win' || outcome === 'half_win';
+  const lost = outcome === 'loss' || outcome === 'half_loss';
 
   const isPositive = profit > 0;
   const isNegative = profit < 0;
@@ -409,12 +407,12 @@ const PLCard: FC<PLCardProps> = React.memo(({ outcome, odds, unitSize, margin })
           <div
             className={cn(
               'text-body font-mono',
-              outcome === 'win' && 'text-semantic-success',
-              outcome === 'loss' && 'text-semantic-error',
+              won && 'text-semantic-success',
+              lost && 'text-semantic-error',
               outcome === 'push' && 'text-semantic-warning'
             )}
           >
-            {outcome === 'win' ? '+' : outcome === 'loss' ? '-' : ''}
+            {won ? '+' : lost ? '-' : ''}
             {margin.toFixed(1)} pts
           </div>
         </div>
@@ -424,6 +422,57 @@ const PLCard: FC<PLCardProps> = React.memo(({ outcome, odds, unitSize, margin })
 });
 PLCard.displayName = 'PLCard';
 
+// ─────────────────────────────────────────────────────────────────────────────
+// CLV CARD
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface CLVCardProps {
+  takenOdds: number;
+  closingOdds: number;
+  clvPrice: number | null;
+  clvProb: number | null;
+}
+
+const CLVCard: FC<CLVCardProps> = React.memo(({ takenOdds, closingOdds, clvPrice, clvProb }) => {
+  const tone = (value: number | null) =>
+    value === null ? 'text-content-tertiary' : value > 0 ? 'text-semantic-success' : value < 0 ? 'text-semantic-error' : 'text-content-primary';
+  const fmt = (value: number | null, suffix: string) =>
+    value === null ? '-' : `${value > 0 ? '+' : ''}${value.toFixed(2)}${suffix}`;
+
+  return (
+    <div className="bg-glass-surface border border-glass-border rounded-xl p-4">
+      <div className="flex items-center gap-2 mb-4">
+        {(clvProb ?? clvPrice ?? 0) >= 0 ? (
+          <TrendingUp size={16} className="text-accent" />
+        ) : (
+          <TrendingDown size={16} className="text-accent" />
+        )}
+        <span className="text-caption-1 font-semibold text-content-secondary uppercase tracking-wider">
+          Closing Line Value
+        </span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <div className="text-caption-2 text-content-tertiary mb-1">Taken / Close</div>
+          <div className="text-body font-mono text-content-primary">
+            {formatOdds(takenOdds)} → {formatOdds(closingOdds)}
+          </div>
+        </div>
+        <div>
+          <div className="text-caption-2 text-content-tertiary mb-1">Price CLV</div>
+          <div className={cn('text-body font-bold font-mono tabular-nums', tone(clvPrice))}>{fmt(clvPrice, '%')}</div>
+        </div>
+        <div className="col-span-2">
+          <div className="text-caption-2 text-content-tertiary mb-1">No-Vig Probability Edge</div>
+          <div className={cn('text-title-3 font-bold font-mono tabular-nums', tone(clvProb))}>{fmt(clvProb, ' pp')}</div>
+        </div>
+      </div>
+    </div>
+  );
+});
+CLVCard.displayName = 'CLVCard';
+
 // ─────────────────────────────────────────────────────────────────────────────
 // CONFIDENCE REVIEW
 // ─────────────────────────────────────────────────────────────────────────────
@@ -600,6 +649,16 @@ export const GameResultModal: FC<GameResultModalProps> = ({
               margin={outcomeResult.margin}
             />
 
+            {/* Closing Line Value */}
+            {pick.closing_odds != null && (
+              <CLVCard
+                takenOdds={pick.odds_at_generation}
+                closingOdds={pick.closing_odds}
+                clvPrice={pick.clv_price ?? null}
+                clvProb={pick.clv_prob ?? null}
+              />
+            )}
+
             {/* Confidence Review */}
             <ConfidenceReview confidence={pick.confidence_score} outcome={outcomeResult.outcome} />
 
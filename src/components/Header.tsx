@@ -77,12 +77,18 @@ const cn = (...classes: (string | boolean | undefined | null)[]): string => {
 // CONSTANTS
 // ─────────────────────────────────────────────────────────────────────────────
 
-const LEAGUES: readonly League[] = ["NHL", "NFL", "NBA"] as const;
+const LEAGUES: readonly League[] = ["NHL", "NFL", "NBA", "MLB", "NCAAF", "NCAAB", "EPL", "MLS", "UCL"] as const;
 
 const LEAGUE_CONFIG: Record<League, { icon: typeof Activity; color: string; label: string }> = {
   NHL: { icon: Activity, color: "text-blue-400", label: "Hockey" },
   NFL: { icon: Activity, color: "text-green-400", label: "Football" },
   NBA: { icon: Activity, color: "text-orange-400", label: "Basketball" },
+  MLB: { icon: Activity, color: "text-red-400", label: "Baseball" },
+  NCAAF: { icon: Activity, color: "text-emerald-400", label: "College Football" },
+  NCAAB: { icon: Activity, color: "text-amber-400", label: "College Basketball" },
+  EPL: { icon: Activity, color: "text-purple-400", label: "Premier League" },
+  MLS: { icon: Activity, color: "text-sky-400", label: "Major League Soccer" },
+  UCL: { icon: Activity, color: "text-indigo-400", label: "Champions League" },
 };
 
 const STATUS_CONFIG: Record<
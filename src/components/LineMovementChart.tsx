@@ -0,0 +1,286 @@
+/**
+ * @component LineMovementChart
+ * @description Spread / total / moneyline over time for one book, with pick and kickoff markers
+ *
+ * @metanotes {
+ *   "design_system": "ESSENCE v3.1",
+ *   "data_source": "useLineHistory → get-line-history (betting_lines_history open + line_snapshots)",
+ *   "features": [
+ *     "Market toggle (spread / total / moneyline)",
+ *     "Per-book selector (books with snapshots only)",
+ *     "Pick generated + game start reference lines",
+ *     "Moneyline plotted as implied win % (continuous across ±100)",
+ *     "Draw line for soccer 1X2 books"
+ *   ]
+ * }
+ */
+
+import React, { useMemo, useState, type FC } from 'react';
+import { Activity, Loader2 } from 'lucide-react';
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from './ui/chart';
+import { useLineHistory } from '@/hooks/useLineHistory';
+import { impliedProbability } from '@/utils/bettingMath';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────
+
+type ChartMarket = 'spread' | 'total' | 'moneyline';
+
+interface LineMovementChartProps {
+  readonly gameId: string;
+  readonly homeTeam: string;
+  readonly awayTeam: string;
+  readonly pickTimestamp?: string;
+  readonly gameStart?: Date | number;
+  readonly enabled?: boolean;
+  readonly className?: string;
+}
+
+interface ChartPoint {
+  t: number;
+  spread: number;
+  total: number;
+  homeProb: number;
+  awayProb: number;
+  homeML: number;
+  awayML: number;
+  drawProb: number | null;
+  drawML: number | null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────
+
+const MARKETS: { id: ChartMarket; label: string }[] = [
+  { id: 'spread', label: 'Spread' },
+  { id: 'total', label: 'Total' },
+  { id: 'moneyline', label: 'Moneyline' },
+];
+
+const BOOK_LABELS: Record<string, string> = {
+  draftkings: 'DraftKings',
+  fanduel: 'FanDuel',
+  betmgm: 'BetMGM',
+  williamhill: 'Caesars',
+};
+
+const PICK_COLOR = 'hsl(var(--essence-semantic-warning))';
+const START_COLOR = 'hsl(var(--essence-semantic-error))';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// UTILITIES
+// ─────────────────────────────────────────────────────────────────────────────
+
+const cn = (...classes: (string | boolean | undefined | null)[]): string => {
+  return classes.filter(Boolean).join(' ');
+};
+
+const formatOdds = (odds: number): string => (odds > 0 ? `+${odds}` : `${odds}`);
+
+const formatSpread = (spread: number): string => (spread > 0 ? `+${spread}` : `${spread}`);
+
+const toTime = (value: string | number | Date): number | null => {
+  const t = new Date(value).getTime();
+  return isNaN(t) ? null : t;
+};
+
+const formatTick = (t: number): string =>
+  new Date(t).toLocaleString([], { month: 'numeric', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+const buildConfig = (market: ChartMarket, homeTeam: string, awayTeam: string, hasDraw: boolean): ChartConfig => {
+  if (market === 'spread') return { spread: { label: `${homeTeam} spread`, color: 'hsl(var(--accent))' } };
+  if (market === 'total') return { total: { label: 'Total', color: 'hsl(var(--accent))' } };
+  return {
+    homeProb: { label: homeTeam, color: 'hsl(var(--accent))' },
+    awayProb: { label: awayTeam, color: 'hsl(var(--essence-semantic-success))' },
+    ...(hasDraw && { drawProb: { label: 'Draw', color: 'hsl(var(--essence-semantic-warning))' } }),
+  };
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// MAIN COMPONENT
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const LineMovementChart: FC<LineMovementChartProps> = ({
+  gameId,
+  homeTeam,
+  awayTeam,
+  pickTimestamp,
+  gameStart,
+  enabled = true,
+  className,
+}) => {
+  const [market, setMarket] = useState<ChartMarket>('spread');
+  const [requestedBook, setRequestedBook] = useState<string | undefined>(undefined);
+
+  const { history, book, books, loading, error } = useLineHistory(gameId, { enabled, book: requestedBook });
+
+  const points = useMemo<ChartPoint[]>(
+    () =>
+      history.map((h) => ({
+        t: new Date(h.timestamp).getTime(),
+        spread: h.spread,
+        total: h.total,
+        homeProb: Number((impliedProbability(h.homeML) * 100).toFixed(1)),
+        awayProb: Number((impliedProbability(h.awayML) * 100).toFixed(1)),
+        homeML: h.homeML,
+        awayML: h.awayML,
+        drawProb: h.drawML != null ? Number((impliedProbability(h.drawML) * 100).toFixed(1)) : null,
+        drawML: h.drawML ?? null,
+      })),
+    [history],
+  );
+
+  const pickTime = pickTimestamp ? toTime(pickTimestamp) : null;
+  const startTime = gameStart != null ? toTime(gameStart) : null;
+
+  // Widen the x-domain so both markers stay visible even outside the snapshot window
+  const domain = useMemo<[number, number] | null>(() => {
+    const times = [...points.map((p) => p.t), pickTime, startTime].filter((t): t is number => t !== null);
+    if (times.length === 0) return null;
+    return [Math.min(...times), Math.max(...times)];
+  }, [points, pickTime, startTime]);
+
+  const hasDraw = useMemo(() => points.some((p) => p.drawML !== null), [points]);
+  const config = useMemo(() => buildConfig(market, homeTeam, awayTeam, hasDraw), [market, homeTeam, awayTeam, hasDraw]);
+
+  const formatValue = (value: number, key: string, point: ChartPoint): string => {
+    if (key === 'spread') return formatSpread(value);
+    if (key === 'homeProb') return `${value}% (${formatOdds(point.homeML)})`;
+    if (key === 'awayProb') return `${value}% (${formatOdds(point.awayML)})`;
+    if (key === 'drawProb' && point.drawML !== null) return `${value}% (${formatOdds(point.drawML)})`;
+    return `${value}`;
+  };
+
+  return (
+    <div className={cn('bg-glass-surface border border-glass-border rounded-xl p-4', className)}>
+      {/* Header */}
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-2">
+          <Activity size={16} className="text-accent" />
+          <span className="text-caption-1 font-semibold text-content-secondary uppercase tracking-wider">
+            Line Movement
+          </span>
+          {loading && <Loader2 size={12} className="animate-spin text-content-tertiary" />}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <div className="inline-flex rounded-lg border border-glass-border p-0.5">
+            {MARKETS.map((m) => (
+              <button
+                key={m.id}
+                type="button"
+                onClick={() => setMarket(m.id)}
+                aria-pressed={market === m.id}
+                className={cn(
+                  'px-2.5 py-1 rounded-md text-caption-2 font-medium transition-colors',
+                  market === m.id
+                    ? 'bg-accent/10 text-accent'
+                    : 'text-content-tertiary hover:text-content-secondary',
+                )}
+              >
+                {m.label}
+              </button>
+            ))}
+          </div>
+
+          {books.length > 1 && (
+            <select
+              value={book ?? ''}
+              onChange={(e) => setRequestedBook(e.target.value)}
+              aria-label="Sportsbook"
+              className="h-7 rounded-lg border border-glass-border bg-transparent px-2 text-caption-2 text-content-secondary"
+            >
+              {books.map((b) => (
+                <option key={b} value={b}>
+                  {BOOK_LABELS[b] ?? b}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+      </div>
+
+      {/* Body */}
+      {error ? (
+        <div className="py-8 text-center text-caption-1 text-content-tertiary">Line history unavailable.</div>
+      ) : points.length < 2 || !domain ? (
+        <div className="py-8 text-center text-caption-1 text-content-tertiary">
+          {loading ? 'Loading line history…' : 'Not enough snapshots yet to chart movement.'}
+        </div>
+      ) : (
+        <ChartContainer config={config} className="aspect-auto h-56 w-full">
+          <LineChart data={points} margin={{ top: 8, right: 12, bottom: 0, left: 0 }}>
+            <CartesianGrid vertical={false} strokeDasharray="3 3" />
+            <XAxis
+              dataKey="t"
+              type="number"
+              scale="time"
+              domain={domain}
+              tickFormatter={formatTick}
+              tickLine={false}
+              axisLine={false}
+              minTickGap={32}
+            />
+            <YAxis
+              domain={['auto', 'auto']}
+              tickFormatter={(v: number) => (market === 'spread' ? formatSpread(v) : market === 'moneyline' ? `${v}%` : `${v}`)}
+              tickLine={false}
+              axisLine={false}
+              width={44}
+            />
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  labelFormatter={(_, payload) => (payload?.[0] ? formatTick(payload[0].payload.t) : '')}
+                  formatter={(value, name, item) => (
+                    <div className="flex w-full justify-between gap-3">
+                      <span className="text-muted-foreground">{config[name as string]?.label}</span>
+                      <span className="font-mono font-medium tabular-nums">
+                        {formatValue(Number(value), name as string, item.payload as ChartPoint)}
+                      </span>
+                    </div>
+                  )}
+                />
+              }
+            />
+
+            {Object.keys(config).map((key) => (
+              <Line
+                key={key}
+                dataKey={key}
+                type="stepAfter"
+                stroke={`var(--color-${key})`}
+                strokeWidth={2}
+                dot={false}
+                isAnimationActive={false}
+              />
+            ))}
+
+            {pickTime !== null && (
+              <ReferenceLine
+                x={pickTime}
+                stroke={PICK_COLOR}
+                strokeDasharray="4 4"
+                label={{ value: 'Pick', position: 'insideTopLeft', fill: PICK_COLOR, fontSize: 10 }}
+              />
+            )}
+            {startTime !== null && (
+              <ReferenceLine
+                x={startTime}
+                stroke={START_COLOR}
+                strokeDasharray="4 4"
+                label={{ value: 'Start', position: 'insideTopRight', fill: START_COLOR, fontSize: 10 }}
+              />
+            )}
+          </LineChart>
+        </ChartContainer>
+      )}
+    </div>
+  );
+};
+
+export default LineMovementChart;
@@ -7,14 +7,14 @@
  *   "features": [
  *     "Real-time score updates (polling)",
  *     "Period/quarter/clock display",
- *     "Live line movement tracking",
+ *     "Live line movement tracking (chart with pick/start markers)",
  *     "Pick performance tracking",
  *     "Integrated AI chat",
  *     "Responsive layout"
  *   ],
  *   "data_sources": {
  *     "scores": "ESPN Scoreboard API",
- *     "lines": "Odds API via betting_lines_history"
+ *     "lines": "Odds API via line_snapshots (get-line-history)"
  *   }
  * }
  */
@@ -45,7 +45,8 @@ import { Textarea } from './ui/textarea';
 import { ScrollArea } from './ui/scroll-area';
 import { useStreamingAIChat, type Message } from '@/hooks/useStreamingAIChat';
 import { calculateEV } from '@/utils/bettingMath';
-import type { PickData, GameData, League } from '../types';
+import type { PickData, GameData, League, LineMovement } from '../types';
+import { LineMovementChart } from './LineMovementChart';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // TYPES
@@ -67,14 +68,6 @@ interface LiveGameData {
   situation?: string;
 }
 
-interface LineMovement {
-  timestamp: string;
-  spread: number;
-  total: number;
-  homeML: number;
-  awayML: number;
-}
-
 interface LiveGameModalProps {
   readonly pick: PickData;
   readonly game: LiveGameData;
@@ -104,12 +97,19 @@ const formatOdds = (odds: number): string => {
 };
 
 const getPeriodLabel = (league: League, period: number): string => {
+  const soccer = { 1: '1st Half', 2: '2nd Half', 3: 'ET 1st Half', 4: 'ET 2nd Half', 5: 'Penalties' };
   const labels: Record<League, Record<number, string>> = {
     NFL: { 1: '1st Qtr', 2: '2nd Qtr', 3: '3rd Qtr', 4: '4th Qtr', 5: 'OT' },
     NBA: { 1: '1st Qtr', 2: '2nd Qtr', 3: '3rd Qtr', 4: '4th Qtr', 5: 'OT', 6: '2OT' },
     NHL: { 1: '1st Period', 2: '2nd Period', 3: '3rd Period', 4: 'OT', 5: 'SO' },
+    MLB: { 1: '1st Inning', 2: '2nd Inning', 3: '3rd Inning', 4: '4th Inning', 5: '5th Inning', 6: '6th Inning', 7: '7th Inning', 8: '8th Inning', 9: '9th Inning' },
+    NCAAF: { 1: '1st Qtr', 2: '2nd Qtr', 3: '3rd Qtr', 4: '4th Qtr', 5: 'OT' },
+    NCAAB: { 1: '1st Half', 2: '2nd Half', 3: 'OT', 4: '2OT' },
+    EPL: soccer,
+    MLS: soccer,
+    UCL: soccer,
   };
-  return labels[league]?.[period] || `Period ${period}`;
+  return labels[league]?.[period] || (league === 'MLB' ? `Inning ${period}` : `Period ${period}`);
 };
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -672,6 +672,15 @@ export const LiveGameModal: FC<LiveGameModalProps> = ({
                   />
                 )}
 
+                <LineMovementChart
+                  gameId={game.id}
+                  homeTeam={game.homeTeam}
+                  awayTeam={game.awayTeam}
+                  pickTimestamp={pick.created_at}
+                  gameStart={game.startTime}
+                  enabled={isOpen}
+                />
+
                 {/* Last Play (if available) */}
                 {game.lastPlay && (
                   <div className="bg-glass-surface border border-glass-border rounded-xl p-4">
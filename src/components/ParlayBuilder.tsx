@@ -0,0 +1,224 @@
+/**
+ * @component ParlayBuilder
+ * @description Prices the bet slip's selections as one parlay (including same-game legs)
+ *
+ * @metanotes {
+ *   "design_system": "ESSENCE v3.1",
+ *   "pricing": "Parlay price = product of leg decimal odds; fair = product of no-vig consensus leg probabilities",
+ *   "correlation": "Same-game pairs flagged via bettingMath.findCorrelations (conflict / positive / negative)",
+ *   "limits": "Fair price assumes independent legs; legs off the consensus line (or from games not on the board) have no fair price"
+ * }
+ */
+
+import React, { useMemo, useState, type FC } from "react";
+import { AlertTriangle, Link2 } from "lucide-react";
+import {
+  calculateToWin,
+  legFairProbability,
+  marketConsensus,
+  oddsForScope,
+  priceParlay,
+  type CorrelationKind,
+  type ParlayLeg,
+} from "@/utils/bettingMath";
+import type { BetSlipSelection, GameData } from "../types";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface ParlayBuilderProps {
+  readonly selections: BetSlipSelection[];
+  readonly games: GameData[];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────
+
+const DEFAULT_STAKE = 10;
+
+const CORRELATION_STYLES: Record<CorrelationKind, string> = {
+  conflict: "text-semantic-error",
+  positive: "text-semantic-warning",
+  negative: "text-content-secondary",
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// UTILITIES
+// ─────────────────────────────────────────────────────────────────────────────
+
+const cn = (...classes: (string | boolean | undefined | null)[]): string => {
+  return classes.filter(Boolean).join(" ");
+};
+
+const fmtOdds = (odds: number): string => (odds > 0 ? `+${odds}` : `${odds}`);
+
+const fmtMoney = (value: number): string =>
+  value.toLocaleString("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 2 });
+
+/**
+ * A slip selection as a parlay leg, priced against the game's consensus for the selection's period.
+ */
+const toLeg = (selection: BetSlipSelection, game: GameData | undefined): ParlayLeg => {
+  const period = selection.period ?? "game";
+  const scoped = game ? oddsForScope(game.odds, period) : undefined;
+  const favoriteProb =
+    game && selection.market !== "total" ? marketConsensus(game.odds, "moneyline")?.fair[selection.side]?.probability : undefined;
+
+  return {
+    id: selection.id,
+    gameId: selection.gameId,
+    market: selection.market,
+    period,
+    side: selection.side,
+    odds: selection.odds,
+    fairProbability: legFairProbability(scoped, selection.market, selection.side, selection.line),
+    favorite: favoriteProb === undefined ? null : favoriteProb > 0.5,
+  };
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// MAIN COMPONENT
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const ParlayBuilder: FC<ParlayBuilderProps> = ({ selections, games }) => {
+  const [stake, setStake] = useState(DEFAULT_STAKE);
+
+  const legs = useMemo(() => {
+    const byId = new Map(games.map((g) => [g.id, g]));
+    return selections.map((s) => toLeg(s, byId.get(s.gameId)));
+  }, [selections, games]);
+
+  const pricing = useMemo(() => priceParlay(legs), [legs]);
+
+  const labels = useMemo(() => new Map(selections.map((s) => [s.id, s.label])), [selections]);
+  const correlatedIds = useMemo(() => new Set(pricing.correlations.flatMap((c) => c.legIds)), [pricing.correlations]);
+  const hasConflict = pricing.correlations.some((c) => c.kind === "conflict");
+
+  if (selections.length < 2) {
+    return (
+      <p className="text-caption-1 text-content-tertiary text-center py-8">
+        Add at least two selections to price a parlay.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {/* Legs */}
+      <ul className="space-y-1.5">
+        {selections.map((s, i) => {
+          const fair = legs[i].fairProbability;
+          return (
+            <li
+              key={s.id}
+              className="flex items-center justify-between gap-2 p-2.5 rounded-xl bg-surface-secondary/40 border border-glass-border"
+            >
+              <div className="min-w-0">
+                <p className="flex items-center gap-1.5 text-body-sm font-bold text-content-primary truncate">
+                  {correlatedIds.has(s.id) && <Link2 size={12} className="shrink-0 text-semantic-warning" />}
+                  {s.label}
+                </p>
+                <p className="text-caption-2 text-content-tertiary truncate">{s.matchup}</p>
+              </div>
+              <div className="text-right shrink-0">
+                <p className="font-mono text-body-sm font-bold tabular-nums text-accent">{fmtOdds(s.odds)}</p>
+                <p className="font-mono text-caption-2 tabular-nums text-content-tertiary">
+                  fair {fair !== null ? `${(fair * 100).toFixed(1)}%` : "—"}
+                </p>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      {/* Pricing */}
+      <div className="grid grid-cols-3 gap-2 text-center">
+        <div className="p-2 rounded-lg bg-surface-secondary/40">
+          <p className="text-caption-2 text-content-tertiary uppercase tracking-wide">Price</p>
+          <p className="font-mono text-body-sm font-bold tabular-nums text-content-primary">{fmtOdds(pricing.odds)}</p>
+        </div>
+        <div className="p-2 rounded-lg bg-surface-secondary/40">
+          <p className="text-caption-2 text-content-tertiary uppercase tracking-wide">Fair</p>
+          <p className="font-mono text-body-sm font-bold tabular-nums text-content-primary">
+            {pricing.fairOdds !== null ? fmtOdds(pricing.fairOdds) : "—"}
+          </p>
+        </div>
+        <div className="p-2 rounded-lg bg-surface-secondary/40">
+          <p className="text-caption-2 text-content-tertiary uppercase tracking-wide">EV</p>
+          <p
+            className={cn(
+              "font-mono text-body-sm font-bold tabular-nums",
+              pricing.ev === null
+                ? "text-content-tertiary"
+                : pricing.ev >= 0
+                  ? "text-semantic-success"
+                  : "text-semantic-error",
+            )}
+          >
+            {pricing.ev !== null ? `${pricing.ev >= 0 ? "+" : ""}${pricing.ev.toFixed(1)}%` : "—"}
+          </p>
+        </div>
+      </div>
+
+      {pricing.fairProbability === null && (
+        <p className="text-caption-2 text-content-tertiary">
+          Fair price needs every leg at the consensus line on today's board.
+        </p>
+      )}
+
+      {/* Correlation warnings */}
+      {pricing.correlations.length > 0 && (
+        <div className="space-y-1.5 p-2.5 rounded-xl border border-semantic-warning/30 bg-semantic-warning/5">
+          <p className="flex items-center gap-1.5 text-caption-2 font-bold uppercase tracking-wide text-semantic-warning">
+            <AlertTriangle size={12} />
+            Correlated legs
+          </p>
+          {pricing.correlations.map((c) => (
+            <p key={c.legIds.join("|")} className={cn("text-caption-2", CORRELATION_STYLES[c.kind])}>
+              <span className="font-semibold">
+                {labels.get(c.legIds[0])} + {labels.get(c.legIds[1])}:
+              </span>{" "}
+              {c.message}
+            </p>
+          ))}
+          {!hasConflict && (
+            <p className="text-caption-2 text-content-tertiary">
+              Books price same-game parlays with their own correlation model; the fair price above assumes independence.
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Stake */}
+      <div className="flex items-center gap-2">
+        <label className="flex-1 flex items-center gap-2 px-2.5 py-1.5 rounded-lg bg-surface-primary border border-glass-border focus-within:ring-2 focus-within:ring-accent">
+          <span className="text-caption-2 text-content-tertiary">$</span>
+          <input
+            type="number"
+            min={0}
+            step={5}
+            value={stake || ""}
+            onChange={(e) => {
+              const value = parseFloat(e.target.value);
+              setStake(Number.isFinite(value) && value > 0 ? value : 0);
+            }}
+            className="w-full bg-transparent text-body-sm font-mono text-content-primary focus:outline-none"
+            aria-label="Parlay stake"
+          />
+        </label>
+        <span className="text-caption-1 text-content-tertiary whitespace-nowrap">
+          To Win{" "}
+          <span className="font-mono text-semantic-success">
+            {fmtMoney(hasConflict ? 0 : calculateToWin(stake, pricing.odds))}
+          </span>
+        </span>
+      </div>
+    </div>
+  );
+};
+
+ParlayBuilder.displayName = "ParlayBuilder";
+
+export default ParlayBuilder;
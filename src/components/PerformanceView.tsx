@@ -0,0 +1,430 @@
+/**
+ * @component PerformanceView
+ * @description Model performance dashboard: record, units, ROI, CLV and confidence calibration
+ *
+ * @metanotes {
+ *   "design_system": "ESSENCE v3.1",
+ *   "features": [
+ *     "League / market / date-range filters",
+ *     "Record, units, ROI, hit rate, CLV summary",
+ *     "Reliability diagram (confidence bucket vs actual win rate)",
+ *     "Recent graded picks with final scores"
+ *   ],
+ *   "data": "usePerformance (graded analysis_memory rows)"
+ * }
+ */
+
+import React, { useState, useMemo, useEffect, type FC } from "react";
+import { AlertCircle, Loader2, RefreshCw, Target } from "lucide-react";
+import {
+  usePerformance,
+  type CalibrationBucket,
+  type GradedPick,
+  type PerformanceFilters,
+  type PerformanceLeague,
+  type PerformanceMarket,
+  type PerformanceRange,
+} from "@/hooks/usePerformance";
+import type { League } from "../types";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface PerformanceViewProps {
+  readonly league: League;
+  readonly className?: string;
+}
+
+interface FilterOption<T extends string> {
+  id: T;
+  label: string;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────
+
+const LEAGUE_OPTIONS: FilterOption<PerformanceLeague>[] = [
+  { id: "ALL", label: "All" },
+  { id: "NFL", label: "NFL" },
+  { id: "NBA", label: "NBA" },
+  { id: "NHL", label: "NHL" },
+  { id: "MLB", label: "MLB" },
+  { id: "NCAAF", label: "NCAAF" },
+  { id: "NCAAB", label: "NCAAB" },
+  { id: "EPL", label: "EPL" },
+  { id: "MLS", label: "MLS" },
+  { id: "UCL", label: "UCL" },
+];
+
+const MARKET_OPTIONS: FilterOption<PerformanceMarket>[] = [
+  { id: "all", label: "All Markets" },
+  { id: "moneyline", label: "ML" },
+  { id: "spread", label: "Spread" },
+  { id: "total", label: "Total" },
+];
+
+const RANGE_OPTIONS: FilterOption<PerformanceRange>[] = [
+  { id: "7d", label: "7D" },
+  { id: "30d", label: "30D" },
+  { id: "90d", label: "90D" },
+  { id: "all", label: "All" },
+];
+
+const CHART_SIZE = 240;
+const CHART_PADDING = 32;
+const RECENT_LIMIT = 25;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// UTILITIES
+// ─────────────────────────────────────────────────────────────────────────────
+
+const cn = (...classes: (string | boolean | undefined | null)[]): string => {
+  return classes.filter(Boolean).join(" ");
+};
+
+const fmtSigned = (value: number, digits = 2, suffix = ""): string =>
+  `${value > 0 ? "+" : ""}${value.toFixed(digits)}${suffix}`;
+
+const fmtOdds = (odds: number | null): string => (odds == null ? "-" : odds > 0 ? `+${odds}` : `${odds}`);
+
+// ─────────────────────────────────────────────────────────────────────────────
+// SEGMENTED FILTER
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface SegmentedProps<T extends string> {
+  options: FilterOption<T>[];
+  selected: T;
+  onSelect: (id: T) => void;
+  ariaLabel: string;
+}
+
+const Segmented = <T extends string>({ options, selected, onSelect, ariaLabel }: SegmentedProps<T>) => (
+  <div
+    className="flex bg-glass-surface border border-glass-border rounded-xl p-1 gap-1 shadow-sm backdrop-blur-xl"
+    role="radiogroup"
+    aria-label={ariaLabel}
+  >
+    {options.map((opt) => {
+      const isSelected = opt.id === selected;
+      return (
+        <button
+          key={opt.id}
+          role="radio"
+          aria-checked={isSelected}
+          onClick={() => onSelect(opt.id)}
+          className={cn(
+            "px-3 py-1.5 rounded-lg text-caption-2 font-bold uppercase tracking-wide",
+            "transition-all duration-200 ease-standard",
+            "focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-accent",
+            isSelected
+              ? "bg-surface-primary shadow-md text-accent border border-accent/20"
+              : "text-content-tertiary hover:text-content-primary hover:bg-surface-secondary/50",
+          )}
+        >
+          {opt.label}
+        </button>
+      );
+    })}
+  </div>
+);
+
+// ─────────────────────────────────────────────────────────────────────────────
+// STAT CARD
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface StatCardProps {
+  label: string;
+  value: string;
+  sub?: string;
+  tone?: "positive" | "negative" | "neutral";
+}
+
+const StatCard: FC<StatCardProps> = React.memo(({ label, value, sub, tone = "neutral" }) => (
+  <div className="p-4 rounded-xl bg-glass-surface border border-glass-border">
+    <p className="text-caption-2 font-semibold text-content-tertiary uppercase tracking-wider">{label}</p>
+    <p
+      className={cn(
+        "font-mono text-title-3 font-bold tabular-nums mt-1",
+        tone === "positive" && "text-semantic-success",
+        tone === "negative" && "text-semantic-error",
+        tone === "neutral" && "text-content-primary",
+      )}
+    >
+      {value}
+    </p>
+    {sub && <p className="text-caption-2 text-content-tertiary mt-0.5">{sub}</p>}
+  </div>
+));
+
+StatCard.displayName = "StatCard";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// RELIABILITY DIAGRAM
+// ─────────────────────────────────────────────────────────────────────────────
+
+const ReliabilityDiagram: FC<{ buckets: CalibrationBucket[] }> = React.memo(({ buckets }) => {
+  const inner = CHART_SIZE - CHART_PADDING * 2;
+  // Axis spans 40-100% so the populated region isn't squashed
+  const toX = (pct: number) => CHART_PADDING + ((pct - 40) / 60) * inner;
+  const toY = (pct: number) => CHART_SIZE - CHART_PADDING - (pct / 100) * inner;
+  const maxCount = Math.max(1, ...buckets.map((b) => b.count));
+  const points = buckets.filter((b) => b.actual !== null);
+
+  return (
+    <div className="p-4 rounded-xl bg-glass-surface border border-glass-border">
+      <div className="flex items-center gap-2 mb-3">
+        <Target size={14} className="text-accent" />
+        <span className="text-caption-1 font-semibold text-content-secondary uppercase tracking-wider">
+          Calibration
+        </span>
+      </div>
+
+      <svg viewBox={`0 0 ${CHART_SIZE} ${CHART_SIZE}`} className="w-full max-w-sm mx-auto" role="img">
+        <title>Confidence versus actual win rate</title>
+
+        {/* Gridlines */}
+        {[0, 25, 50, 75, 100].map((pct) => (
+          <g key={pct}>
+            <line
+              x1={CHART_PADDING}
+              x2={CHART_SIZE - CHART_PADDING}
+              y1={toY(pct)}
+              y2={toY(pct)}
+              className="stroke-glass-border"
+              strokeWidth={0.5}
+            />
+            <text x={CHART_PADDING - 6} y={toY(pct) + 3} textAnchor="end" className="fill-content-tertiary text-[8px]">
+              {pct}
+            </text>
+          </g>
+        ))}
+        {[40, 60, 80, 100].map((pct) => (
+          <text
+            key={pct}
+            x={toX(pct)}
+            y={CHART_SIZE - CHART_PADDING + 12}
+            textAnchor="middle"
+            className="fill-content-tertiary text-[8px]"
+          >
+            {pct}
+          </text>
+        ))}
+
+        {/* Perfect calibration */}
+        <line
+          x1={toX(40)}
+          y1={toY(40)}
+          x2={toX(100)}
+          y2={toY(100)}
+          className="stroke-content-tertiary"
+          strokeDasharray="3 3"
+          strokeWidth={1}
+        />
+
+        {/* Model curve */}
+        {points.length > 1 && (
+          <polyline
+            points={points.map((b) => `${toX(b.expected)},${toY(b.actual as number)}`).join(" ")}
+            fill="none"
+            className="stroke-accent"
+            strokeWidth={1.5}
+          />
+        )}
+        {points.map((b) => (
+          <circle
+            key={b.label}
+            cx={toX(b.expected)}
+            cy={toY(b.actual as number)}
+            r={2.5 + (b.count / maxCount) * 4}
+            className="fill-accent/70 stroke-accent"
+          >
+            <title>{`${b.label}: ${(b.actual as number).toFixed(1)}% actual over ${b.count} picks`}</title>
+          </circle>
+        ))}
+      </svg>
+
+      <div className="grid grid-cols-5 gap-1 mt-3">
+        {buckets.map((b) => (
+          <div key={b.label} className="text-center">
+            <p className="text-caption-2 text-content-tertiary font-mono">{b.label}</p>
+            <p className="text-caption-1 font-mono font-bold text-content-primary tabular-nums">
+              {b.actual === null ? "-" : `${b.actual.toFixed(0)}%`}
+            </p>
+            <p className="text-caption-2 text-content-tertiary">n={b.count}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+});
+
+ReliabilityDiagram.displayName = "ReliabilityDiagram";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// RECENT PICKS TABLE
+// ─────────────────────────────────────────────────────────────────────────────
+
+const RESULT_STYLES: Record<GradedPick["result"], string> = {
+  win: "bg-semantic-success/15 text-semantic-success",
+  loss: "bg-semantic-error/15 text-semantic-error",
+  push: "bg-surface-secondary text-content-secondary",
+  half_win: "bg-semantic-success/10 text-semantic-success",
+  half_loss: "bg-semantic-error/10 text-semantic-error",
+};
+
+const RecentPicks: FC<{ picks: GradedPick[] }> = React.memo(({ picks }) => (
+  <div className="rounded-xl bg-glass-surface border border-glass-border overflow-hidden">
+    <table className="w-full text-left">
+      <thead>
+        <tr className="border-b border-glass-border">
+          {["Pick", "Game", "Conf", "Odds", "CLV", "Result", "Units"].map((h) => (
+            <th
+              key={h}
+              className="px-3 py-2 text-caption-2 font-semibold text-content-tertiary uppercase tracking-wider"
+            >
+              {h}
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {picks.map((p) => (
+          <tr key={p.id} className="border-b border-glass-border last:border-b-0">
+            <td className="px-3 py-2 text-caption-1 font-semibold text-content-primary">{p.pickSide}</td>
+            <td className="px-3 py-2 text-caption-2 text-content-secondary">
+              {p.matchup || p.gameId}
+              {p.finalScore && <span className="ml-1 font-mono text-content-tertiary">({p.finalScore})</span>}
+            </td>
+            <td className="px-3 py-2 text-caption-1 font-mono tabular-nums">{p.confidence}%</td>
+            <td className="px-3 py-2 text-caption-1 font-mono tabular-nums">{fmtOdds(p.odds)}</td>
+            <td
+              className={cn(
+                "px-3 py-2 text-caption-1 font-mono tabular-nums",
+                p.clv !== null && p.clv > 0 && "text-semantic-success",
+                p.clv !== null && p.clv < 0 && "text-semantic-error",
+              )}
+            >
+              {p.clv === null ? "-" : fmtSigned(p.clv, 1)}
+            </td>
+            <td className="px-3 py-2">
+              <span
+                className={cn(
+                  "px-2 py-0.5 rounded-md text-caption-2 font-bold uppercase tracking-wide",
+                  RESULT_STYLES[p.result],
+                )}
+              >
+                {p.result.replace("_", " ")}
+              </span>
+            </td>
+            <td className="px-3 py-2 text-caption-1 font-mono tabular-nums">{fmtSigned(p.unitsWon)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+));
+
+RecentPicks.displayName = "RecentPicks";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// MAIN COMPONENT
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const PerformanceView: FC<PerformanceViewProps> = ({ league, className }) => {
+  const [filters, setFilters] = useState<PerformanceFilters>({ league, market: "all", range: "30d" });
+  const { picks, summary, calibration, loading, error, refetch } = usePerformance(filters);
+
+  // Follow the header league switcher
+  useEffect(() => {
+    setFilters((f) => ({ ...f, league }));
+  }, [league]);
+
+  const recent = useMemo(() => picks.slice(0, RECENT_LIMIT), [picks]);
+  const total = summary.wins + summary.losses + summary.pushes;
+
+  return (
+    <div className={cn("px-4 md:px-6 py-4 pb-24 space-y-6", className)}>
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-3">
+        <Segmented
+          options={LEAGUE_OPTIONS}
+          selected={filters.league}
+          onSelect={(id) => setFilters((f) => ({ ...f, league: id }))}
+          ariaLabel="Filter by league"
+        />
+        <Segmented
+          options={MARKET_OPTIONS}
+          selected={filters.market}
+          onSelect={(id) => setFilters((f) => ({ ...f, market: id }))}
+          ariaLabel="Filter by market"
+        />
+        <Segmented
+          options={RANGE_OPTIONS}
+          selected={filters.range}
+          onSelect={(id) => setFilters((f) => ({ ...f, range: id }))}
+          ariaLabel="Filter by date range"
+        />
+        <button
+          onClick={refetch}
+          className="ml-auto p-2 rounded-lg text-content-tertiary hover:text-content-primary hover:bg-surface-secondary/50"
+          aria-label="Refresh performance"
+        >
+          <RefreshCw size={16} className={cn(loading && "animate-spin")} />
+        </button>
+      </div>
+
+      {error ? (
+        <div className="flex flex-col items-center py-16 text-center" role="alert">
+          <AlertCircle size={28} className="text-semantic-error mb-3" />
+          <p className="text-body-sm text-content-secondary">{error}</p>
+        </div>
+      ) : loading && picks.length === 0 ? (
+        <div className="flex justify-center py-16 text-content-tertiary">
+          <Loader2 size={20} className="animate-spin" />
+        </div>
+      ) : total === 0 ? (
+        <p className="text-body-sm text-content-tertiary text-center py-16">
+          No graded picks for this filter yet.
+        </p>
+      ) : (
+        <>
+          {/* Summary */}
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+            <StatCard
+              label="Record"
+              value={`${summary.wins}-${summary.losses}-${summary.pushes}`}
+              sub={`${summary.hitRate.toFixed(1)}% hit rate`}
+            />
+            <StatCard
+              label="Units"
+              value={fmtSigned(summary.units)}
+              tone={summary.units > 0 ? "positive" : summary.units < 0 ? "negative" : "neutral"}
+              sub="1u flat risk"
+            />
+            <StatCard
+              label="ROI"
+              value={fmtSigned(summary.roi, 1, "%")}
+              tone={summary.roi > 0 ? "positive" : summary.roi < 0 ? "negative" : "neutral"}
+              sub={`${total} picks`}
+            />
+            <StatCard
+              label="Avg CLV"
+              value={summary.avgClv === null ? "-" : fmtSigned(summary.avgClv, 2, "pp")}
+              tone={summary.avgClv === null ? "neutral" : summary.avgClv > 0 ? "positive" : "negative"}
+              sub={`${summary.clvSample} with closing price`}
+            />
+            <StatCard label="Graded" value={`${total}`} sub={`${summary.pushes} pushes`} />
+          </div>
+
+          <ReliabilityDiagram buckets={calibration} />
+
+          <RecentPicks picks={recent} />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PerformanceView;
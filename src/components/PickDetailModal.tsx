@@ -1,12 +1,24 @@
-import React, { useState, useMemo, useCallback, useEffect, useRef, type FC } from 'react';
+import React, { useState, useMemo, useCallback, useRef } from 'react';
 import { PickData, GameData } from '../types';
-import { Clock, DollarSign, Send, BarChart3, Target, Brain, Loader2, AlertTriangle, RefreshCw, LucideIcon } from 'lucide-react';
+import { Clock, Send, BarChart3, Target, Scale, Brain, Loader2, RefreshCw, LucideIcon } from 'lucide-react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog';
 import { Button } from './ui/button';
 import { Textarea } from './ui/textarea';
 import { ScrollArea } from './ui/scroll-area';
 import { useStreamingAIChat, type Message } from '@/hooks/useStreamingAIChat';
-import { calculateEV, calculateFairLine } from '@/utils/bettingMath';
+import { LineMovementChart } from './LineMovementChart';
+import { PlayerPropsPanel } from './PlayerPropsPanel';
+import { StakingPanel } from './StakingPanel';
+import { RationalePanel } from './RationalePanel';
+import { EnsemblePanel } from './EnsemblePanel';
+import {
+  calculateEV,
+  calculateFairLine,
+  marketConsensus,
+  pickMarket,
+  pickProbability,
+  resolvePickSide,
+} from '@/utils/bettingMath';
 import { cn } from '@/lib/utils';
 
 interface PickDetailModalProps {
@@ -38,32 +50,6 @@ const MetricCard = React.memo<MetricCardProps>(({ icon: Icon, title, value, valu
 ));
 MetricCard.displayName = 'MetricCard';
 
-const StakingBands = React.memo(() => (
-  <div className="mb-6">
-    <div className="flex items-center gap-2 mb-3">
-      <DollarSign size={18} className="text-accent" />
-      <span className="text-sm font-semibold text-foreground uppercase tracking-wider">
-        Staking Strategy
-      </span>
-    </div>
-    <div className="space-y-2">
-      <div className="flex justify-between items-center p-3 rounded-lg bg-green-500/10 border border-green-500/40 shadow-sm">
-        <span className="text-sm font-medium text-foreground">Conservative (1-2% bankroll)</span>
-        <span className="text-xs text-green-500 font-semibold">RECOMMENDED</span>
-      </div>
-      <div className="flex justify-between items-center p-3 rounded-lg bg-muted/40 border border-border opacity-70">
-        <span className="text-sm font-medium text-muted-foreground">Moderate (2-3% bankroll)</span>
-        <span className="text-xs text-muted-foreground">Higher Confidence</span>
-      </div>
-      <div className="flex justify-between items-center p-3 rounded-lg bg-muted/40 border border-border opacity-50">
-        <span className="text-sm font-medium text-muted-foreground">Aggressive (3-5% bankroll)</span>
-        <span className="text-xs text-muted-foreground">High Risk</span>
-      </div>
-    </div>
-  </div>
-));
-StakingBands.displayName = 'StakingBands';
-
 const ChatBubble: React.FC<{ message: Message | { content: string, role: 'stream' } }> = React.memo(({ message }) => (
   <div
     className={cn(
@@ -179,9 +165,10 @@ export const PickDetailModal: React.FC<PickDetailModalProps> = ({
   const [showAIChat, setShowAIChat] = useState(false);
 
   const { ev, fairLine, confidenceStyle } = useMemo(() => {
-    const ev = calculateEV(pick.confidence_score, pick.odds_at_generation);
-    const fairLine = calculateFairLine(pick.confidence_score);
-    
+    const probability = pickProbability(pick);
+    const ev = calculateEV(probability, pick.odds_at_generation);
+    const fairLine = calculateFairLine(probability);
+
     let confidenceStyle = "text-muted-foreground";
     if (pick.confidence_score >= 70) {
       confidenceStyle = "text-green-500 drop-shadow-sm";
@@ -190,7 +177,17 @@ export const PickDetailModal: React.FC<PickDetailModalProps> = ({
     }
 
     return { ev, fairLine, confidenceStyle };
-  }, [pick.confidence_score, pick.odds_at_generation]);
+  }, [pick.confidence_score, pick.calibrated_probability, pick.odds_at_generation]);
+
+  // Stored side wins; older moneyline picks fall back to parsing the label
+  const market = pickMarket(pick);
+  const pickSide = useMemo(() => resolvePickSide(pick, game), [pick, game]);
+
+  // Cross-book no-vig price for the picked side
+  const marketFair = useMemo(() => {
+    const consensus = marketConsensus(game.odds, market);
+    return pickSide && consensus ? consensus.fair[pickSide] ?? null : null;
+  }, [pickSide, market, game.odds]);
 
   const handleOpenChange = (open: boolean) => {
     if (!open) {
@@ -202,6 +199,9 @@ export const PickDetailModal: React.FC<PickDetailModalProps> = ({
   const formattedEV = `${ev >= 0 ? '+' : ''}${ev.toFixed(2)}%`;
   const evColor = ev > 0 ? 'text-green-500' : ev < 0 ? 'text-red-500' : 'text-foreground';
   const formattedFairLine = isFinite(fairLine) ? `${fairLine > 0 ? '+' : ''}${fairLine}` : 'N/A';
+  const formattedMarketFair = marketFair
+    ? `${marketFair.odds > 0 ? '+' : ''}${marketFair.odds} (${(marketFair.probability * 100).toFixed(1)}%)`
+    : 'N/A';
 
   return (
     <Dialog open={isOpen} onOpenChange={handleOpenChange}>
@@ -256,10 +256,15 @@ export const PickDetailModal: React.FC<PickDetailModalProps> = ({
                     <div className={cn("text-5xl font-bold tracking-tight", confidenceStyle)}>
                       {pick.confidence_score}%
                     </div>
+                    {pick.calibrated_probability != null && (
+                      <div className="text-xs text-muted-foreground mt-1" title="Win probability after league / market calibration; EV and stakes use this">
+                        Calibrated {(pick.calibrated_probability * 100).toFixed(1)}%
+                      </div>
+                    )}
                   </div>
                 </div>
 
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
                   <MetricCard
                     icon={BarChart3}
                     title="Expected Value (EV%)"
@@ -272,9 +277,33 @@ export const PickDetailModal: React.FC<PickDetailModalProps> = ({
                     value={formattedFairLine}
                     valueClassName='text-foreground'
                   />
+                  <MetricCard
+                    icon={Scale}
+                    title="Market Fair (No-Vig)"
+                    value={formattedMarketFair}
+                    valueClassName='text-foreground'
+                  />
                 </div>
 
-                <StakingBands />
+                <LineMovementChart
+                  gameId={game.id}
+                  homeTeam={game.homeTeam}
+                  awayTeam={game.awayTeam}
+                  pickTimestamp={pick.created_at}
+                  gameStart={game.timestamp}
+                  enabled={isOpen}
+                  className="mb-6"
+                />
+
+                <PlayerPropsPanel game={game} enabled={isOpen} className="mb-6" />
+
+                <StakingPanel pick={pick} game={game} />
+
+                {pick.ensemble && <EnsemblePanel ensemble={pick.ensemble} />}
+
+                {pick.rationale && pick.rationale.factors.length > 0 && (
+                  <RationalePanel rationale={pick.rationale} game={game} market={market} />
+                )}
 
                 <div className="mb-6">
                   <div className="text-sm font-semibold text-foreground mb-3 uppercase tracking-wider">
@@ -8,6 +8,8 @@
  *   "features": [
  *     "Confidence visualization",
  *     "EV indicator",
+ *     "CLV indicator (once the close is captured)",
+ *     "Stake chip (when bankroll settings are passed)",
  *     "Market type badge",
  *     "Loading skeleton",
  *     "Keyboard accessible"
@@ -16,7 +18,8 @@
  */
 
 import React, { useMemo, type FC } from "react";
-import { ChevronRight, TrendingUp, TrendingDown, Minus, Target, Zap, Clock, BarChart3 } from "lucide-react";
+import { ChevronRight, TrendingUp, TrendingDown, Minus, Target, Zap, Clock, BarChart3, DollarSign } from "lucide-react";
+import { calculateEV, pickProbability, recommendStake, type BankrollSettings } from "@/utils/bettingMath";
 import type { PickData } from "../types";
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -33,6 +36,8 @@ interface PickDisplayProps {
   readonly variant?: PickVariant;
   readonly showTimestamp?: boolean;
   readonly showEV?: boolean;
+  readonly bankroll?: BankrollSettings;
+  readonly bestOdds?: number; // Price to stake against; defaults to odds_at_generation
   readonly className?: string;
 }
 
@@ -80,12 +85,6 @@ const getMarketType = (pickSide: string): MarketType => {
   return "spread";
 };
 
-const calculateEV = (confidence: number, odds: number): number => {
-  const impliedProb = odds > 0 ? 100 / (odds + 100) : Math.abs(odds) / (Math.abs(odds) + 100);
-  const modelProb = confidence / 100;
-  return ((modelProb - impliedProb) / impliedProb) * 100;
-};
-
 const getConfidenceConfig = (confidence: number): ConfidenceConfig => {
   if (confidence >= CONFIDENCE_THRESHOLDS.HIGH) {
     return {
@@ -291,6 +290,78 @@ const EVIndicator: FC<EVIndicatorProps> = React.memo(({ ev }) => {
 
 EVIndicator.displayName = "EVIndicator";
 
+// ─────────────────────────────────────────────────────────────────────────────
+// CLV INDICATOR
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface CLVIndicatorProps {
+  clvProb: number;
+  closingOdds?: number | null;
+}
+
+const CLVIndicator: FC<CLVIndicatorProps> = React.memo(({ clvProb, closingOdds }) => {
+  const isPositive = clvProb > 0;
+  const isNeutral = Math.abs(clvProb) < 0.5;
+
+  return (
+    <div
+      className={cn(
+        "inline-flex items-center gap-1 px-2 py-1 rounded-lg",
+        "border",
+        isNeutral
+          ? "bg-surface-secondary/50 border-glass-border text-content-tertiary"
+          : isPositive
+            ? "bg-semantic-success/5 border-semantic-success/20 text-semantic-success"
+            : "bg-semantic-error/5 border-semantic-error/20 text-semantic-error",
+      )}
+      title={closingOdds != null ? `Closed ${formatOdds(closingOdds)}` : undefined}
+    >
+      <Target size={12} strokeWidth={2} />
+      <span className="text-caption-2 font-mono font-semibold tabular-nums">
+        {isPositive ? "+" : ""}
+        {clvProb.toFixed(1)}pp CLV
+      </span>
+    </div>
+  );
+});
+
+CLVIndicator.displayName = "CLVIndicator";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// STAKE CHIP
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface StakeChipProps {
+  confidence: number;
+  odds: number;
+  bankroll: BankrollSettings;
+}
+
+const StakeChip: FC<StakeChipProps> = React.memo(({ confidence, odds, bankroll }) => {
+  const rec = useMemo(() => recommendStake(confidence / 100, odds, bankroll), [confidence, odds, bankroll]);
+  const hasStake = rec.stake > 0;
+
+  return (
+    <div
+      className={cn(
+        "inline-flex items-center gap-1 px-2 py-1 rounded-lg",
+        "border",
+        hasStake
+          ? "bg-accent/5 border-accent/20 text-accent"
+          : "bg-surface-secondary/50 border-glass-border text-content-tertiary",
+      )}
+      title={`${rec.bankrollPct.toFixed(2)}% of bankroll at ${formatOdds(odds)}`}
+    >
+      <DollarSign size={12} strokeWidth={2} />
+      <span className="text-caption-2 font-mono font-semibold tabular-nums">
+        {hasStake ? `$${rec.stake.toFixed(2)} (${rec.units.toFixed(1)}u)` : "No stake"}
+      </span>
+    </div>
+  );
+});
+
+StakeChip.displayName = "StakeChip";
+
 // ─────────────────────────────────────────────────────────────────────────────
 // COMPACT VARIANT
 // ─────────────────────────────────────────────────────────────────────────────
@@ -342,15 +413,17 @@ interface ExpandedPickProps {
   onClick?: () => void;
   showTimestamp?: boolean;
   showEV?: boolean;
+  bankroll?: BankrollSettings;
+  bestOdds?: number;
   className?: string;
 }
 
 const ExpandedPick: FC<ExpandedPickProps> = React.memo(
-  ({ pick, onClick, showTimestamp = true, showEV = true, className }) => {
+  ({ pick, onClick, showTimestamp = true, showEV = true, bankroll, bestOdds, className }) => {
     const marketType = useMemo(() => getMarketType(pick.pick_side), [pick.pick_side]);
     const ev = useMemo(
-      () => calculateEV(pick.confidence_score, pick.odds_at_generation),
-      [pick.confidence_score, pick.odds_at_generation],
+      () => calculateEV(pickProbability(pick), pick.odds_at_generation),
+      [pick.confidence_score, pick.calibrated_probability, pick.odds_at_generation],
     );
     const timeAgo = useMemo(() => formatTimeAgo(pick.created_at), [pick.created_at]);
     const confidenceConfig = useMemo(() => getConfidenceConfig(pick.confidence_score), [pick.confidence_score]);
@@ -402,6 +475,10 @@ const ExpandedPick: FC<ExpandedPickProps> = React.memo(
         {/* Metrics */}
         <div className="flex items-center gap-3">
           {showEV && <EVIndicator ev={ev} />}
+          {pick.clv_prob != null && <CLVIndicator clvProb={pick.clv_prob} closingOdds={pick.closing_odds} />}
+          {bankroll && (
+            <StakeChip confidence={pickProbability(pick)} odds={bestOdds ?? pick.odds_at_generation} bankroll={bankroll} />
+          )}
 
           {onClick && (
             <div
@@ -438,10 +515,12 @@ interface DefaultPickProps {
   pick: PickData;
   onClick?: () => void;
   showTimestamp?: boolean;
+  bankroll?: BankrollSettings;
+  bestOdds?: number;
   className?: string;
 }
 
-const DefaultPick: FC<DefaultPickProps> = React.memo(({ pick, onClick, showTimestamp = false, className }) => {
+const DefaultPick: FC<DefaultPickProps> = React.memo(({ pick, onClick, showTimestamp = false, bankroll, bestOdds, className }) => {
   const marketType = useMemo(() => getMarketType(pick.pick_side), [pick.pick_side]);
   const timeAgo = useMemo(() => formatTimeAgo(pick.created_at), [pick.created_at]);
 
@@ -488,6 +567,10 @@ const DefaultPick: FC<DefaultPickProps> = React.memo(({ pick, onClick, showTimes
       <div className="flex items-center justify-between">
         <div className="flex items-center gap-2">
           <MarketBadge marketType={marketType} />
+          {pick.clv_prob != null && <CLVIndicator clvProb={pick.clv_prob} closingOdds={pick.closing_odds} />}
+          {bankroll && (
+            <StakeChip confidence={pickProbability(pick)} odds={bestOdds ?? pick.odds_at_generation} bankroll={bankroll} />
+          )}
           {showTimestamp && (
             <span className="flex items-center gap-1 text-caption-2 text-content-tertiary">
               <Clock size={10} />
@@ -524,6 +607,8 @@ export const PickDisplay: FC<PickDisplayProps> = ({
   variant = "default",
   showTimestamp = false,
   showEV = true,
+  bankroll,
+  bestOdds,
   className,
 }) => {
   if (isLoading) {
@@ -541,13 +626,24 @@ export const PickDisplay: FC<PickDisplayProps> = ({
           onClick={onClick}
           showTimestamp={showTimestamp}
           showEV={showEV}
+          bankroll={bankroll}
+          bestOdds={bestOdds}
           className={className}
         />
       );
 
     case "default":
     default:
-      return <DefaultPick pick={pick} onClick={onClick} showTimestamp={showTimestamp} className={className} />;
+      return (
+        <DefaultPick
+          pick={pick}
+          onClick={onClick}
+          showTimestamp={showTimestamp}
+          bankroll={bankroll}
+          bestOdds={bestOdds}
+          className={className}
+        />
+      );
   }
 };
 
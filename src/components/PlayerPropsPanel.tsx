@@ -0,0 +1,237 @@
+/**
+ * @component PlayerPropsPanel
+ * @description Per-game player prop board (consensus line, best over / under across books) with prop pick generation
+ *
+ * @metanotes {
+ *   "design_system": "ESSENCE v3.1",
+ *   "data_source": "usePlayerProps → fetch-props (player_props, Odds API per-event odds)",
+ *   "features": [
+ *     "Market tabs (only markets on the board)",
+ *     "Best price per side with source book",
+ *     "Anytime markets shown as Yes / No",
+ *     "Prop pick via generate-pick (market_type 'prop'); picked row highlighted"
+ *   ]
+ * }
+ */
+
+import React, { useEffect, useMemo, useState, type FC } from 'react';
+import { Loader2, RefreshCw, Sparkles, Users } from 'lucide-react';
+import { groupPropLines, isAnytimeMarket, usePlayerProps, PROP_MARKET_LABELS, type PropLine, type PropQuote } from '@/hooks/usePlayerProps';
+import { generatePropPick } from '@/services/pickGenerator';
+import type { GameData, PickData, PropMarket } from '@/types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface PlayerPropsPanelProps {
+  readonly game: GameData;
+  readonly enabled?: boolean;
+  readonly className?: string;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────
+
+const BOOK_SHORT_LABELS: Record<string, string> = {
+  draftkings: 'DK',
+  fanduel: 'FD',
+  betmgm: 'MGM',
+  williamhill: 'CZR',
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// UTILITIES
+// ─────────────────────────────────────────────────────────────────────────────
+
+const cn = (...classes: (string | boolean | undefined | null)[]): string => {
+  return classes.filter(Boolean).join(' ');
+};
+
+const formatOdds = (odds: number): string => (odds > 0 ? `+${odds}` : `${odds}`);
+
+// ─────────────────────────────────────────────────────────────────────────────
+// SUBCOMPONENTS
+// ─────────────────────────────────────────────────────────────────────────────
+
+const PriceCell: FC<{ quote: PropQuote | null; highlight?: boolean }> = React.memo(({ quote, highlight }) => (
+  <td className="px-2 py-1.5 text-right">
+    {quote ? (
+      <span
+        className={cn(
+          'inline-flex items-baseline gap-1 font-mono tabular-nums',
+          highlight ? 'text-accent font-semibold' : 'text-content-primary',
+        )}
+      >
+        {formatOdds(quote.price)}
+        <span className="text-caption-2 text-content-tertiary">{BOOK_SHORT_LABELS[quote.book] ?? quote.book}</span>
+      </span>
+    ) : (
+      <span className="text-content-tertiary">—</span>
+    )}
+  </td>
+));
+PriceCell.displayName = 'PriceCell';
+
+const PropPickSummary: FC<{ pick: PickData }> = React.memo(({ pick }) => (
+  <div className="mb-3 p-3 rounded-lg border border-accent/30 bg-accent/5">
+    <div className="flex items-center justify-between gap-3">
+      <span className="text-body-sm font-bold text-content-primary">{pick.pick_side}</span>
+      <span className="text-caption-1 font-mono text-content-secondary">
+        {formatOdds(pick.odds_at_generation)} • {pick.confidence_score}%
+      </span>
+    </div>
+    {pick.reasoning_text && (
+      <p className="mt-1 text-caption-1 text-content-secondary line-clamp-3">{pick.reasoning_text}</p>
+    )}
+  </div>
+));
+PropPickSummary.displayName = 'PropPickSummary';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// MAIN COMPONENT
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const PlayerPropsPanel: FC<PlayerPropsPanelProps> = ({ game, enabled = true, className }) => {
+  const { props, loading, error, refetch } = usePlayerProps(game.id, game.league, { enabled });
+  const [market, setMarket] = useState<PropMarket | null>(null);
+  const [propPick, setPropPick] = useState<PickData | null>(game.picks?.prop ?? null);
+  const [generating, setGenerating] = useState(false);
+  const [pickError, setPickError] = useState<string | null>(null);
+
+  const lines = useMemo(() => groupPropLines(props), [props]);
+  const markets = useMemo(() => [...new Set(lines.map((l) => l.market))], [lines]);
+
+  // Default to the first market on the board (and recover if it disappears on refresh)
+  useEffect(() => {
+    if (markets.length > 0 && (!market || !markets.includes(market))) setMarket(markets[0]);
+  }, [markets, market]);
+
+  const visible = useMemo(() => lines.filter((l) => l.market === market), [lines, market]);
+
+  const isPicked = (line: PropLine) => propPick?.prop_player === line.player && propPick?.prop_market === line.market;
+
+  const handleGenerate = async () => {
+    try {
+      setGenerating(true);
+      setPickError(null);
+      const pick = await generatePropPick(game, lines);
+      setPropPick(pick);
+      if (pick.prop_market) setMarket(pick.prop_market);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to generate prop pick';
+      console.error('[PlayerPropsPanel] Error:', message);
+      setPickError(message);
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const anytime = market ? isAnytimeMarket(market) : false;
+
+  return (
+    <div className={cn('bg-glass-surface border border-glass-border rounded-xl p-4', className)}>
+      {/* Header */}
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-2">
+          <Users size={16} className="text-accent" />
+          <span className="text-caption-1 font-semibold text-content-secondary uppercase tracking-wider">
+            Player Props
+          </span>
+          {loading && <Loader2 size={12} className="animate-spin text-content-tertiary" />}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => refetch()}
+            disabled={loading}
+            aria-label="Refresh props"
+            className="p-1.5 rounded-md text-content-tertiary hover:text-content-secondary disabled:opacity-50"
+          >
+            <RefreshCw size={12} />
+          </button>
+          <button
+            type="button"
+            onClick={handleGenerate}
+            disabled={generating || lines.length === 0}
+            className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-lg border border-accent/30 text-caption-2 font-semibold text-accent hover:bg-accent/10 disabled:opacity-50 disabled:pointer-events-none"
+          >
+            {generating ? <Loader2 size={12} className="animate-spin" /> : <Sparkles size={12} />}
+            {propPick ? 'Refresh Prop Pick' : 'Generate Prop Pick'}
+          </button>
+        </div>
+      </div>
+
+      {propPick && <PropPickSummary pick={propPick} />}
+      {pickError && <div className="mb-3 text-caption-1 text-semantic-error">{pickError}</div>}
+
+      {/* Body */}
+      {error ? (
+        <div className="py-8 text-center text-caption-1 text-content-tertiary">Player props unavailable.</div>
+      ) : lines.length === 0 ? (
+        <div className="py-8 text-center text-caption-1 text-content-tertiary">
+          {loading ? 'Loading player props…' : 'No player props posted for this game yet.'}
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-1 mb-3">
+            {markets.map((m) => (
+              <button
+                key={m}
+                type="button"
+                onClick={() => setMarket(m)}
+                aria-pressed={market === m}
+                className={cn(
+                  'px-2.5 py-1 rounded-md text-caption-2 font-medium transition-colors',
+                  market === m ? 'bg-accent/10 text-accent' : 'text-content-tertiary hover:text-content-secondary',
+                )}
+              >
+                {PROP_MARKET_LABELS[m]}
+              </button>
+            ))}
+          </div>
+
+          <div className="max-h-72 overflow-y-auto">
+            <table className="w-full text-caption-1">
+              <thead className="sticky top-0 bg-glass-surface">
+                <tr className="text-content-tertiary uppercase tracking-wider text-caption-2">
+                  <th className="px-2 py-1.5 text-left font-semibold">Player</th>
+                  {!anytime && <th className="px-2 py-1.5 text-right font-semibold">Line</th>}
+                  <th className="px-2 py-1.5 text-right font-semibold">{anytime ? 'Yes' : 'Over'}</th>
+                  <th className="px-2 py-1.5 text-right font-semibold">{anytime ? 'No' : 'Under'}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visible.map((line) => {
+                  const picked = isPicked(line);
+                  return (
+                    <tr
+                      key={`${line.market}:${line.player}`}
+                      className={cn('border-t border-glass-border', picked && 'bg-accent/5')}
+                    >
+                      <td className="px-2 py-1.5 text-content-primary font-medium">
+                        {line.player}
+                        {line.books > 1 && (
+                          <span className="ml-1.5 text-caption-2 text-content-tertiary">{line.books} books</span>
+                        )}
+                      </td>
+                      {!anytime && <td className="px-2 py-1.5 text-right font-mono tabular-nums">{line.line}</td>}
+                      <PriceCell quote={line.over} highlight={picked && propPick?.pick_outcome === 'over'} />
+                      <PriceCell quote={line.under} highlight={picked && propPick?.pick_outcome === 'under'} />
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+PlayerPropsPanel.displayName = 'PlayerPropsPanel';
+
+export default PlayerPropsPanel;
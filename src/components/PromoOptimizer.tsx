@@ -0,0 +1,444 @@
+/**
+ * @component PromoOptimizer
+ * @description Converts sportsbook promos (profit / odds boosts, bet credits, second-chance bets) into locked profit
+ *
+ * @metanotes {
+ *   "design_system": "ESSENCE v3.1",
+ *   "features": [
+ *     "Promo leg on the promo book, hedge at the best opposite price on any other book",
+ *     "Equal-result hedge stake: guaranteed profit and conversion rate (profit / promo amount)",
+ *     "Best candidate per game, ranked by guaranteed profit",
+ *     "Live refresh (30s) of today's board"
+ *   ],
+ *   "data": "nhlAi.fetchSchedule per-book MarketData → bettingMath.findPromoHedges",
+ *   "limits": "Second-chance value assumes the refunded credit converts at the entered rate; an odds boost is scanned across every selection the book quotes below the boosted price"
+ * }
+ */
+
+import React, { useState, useMemo, useEffect, useCallback, useRef, type FC } from "react";
+import { AlertCircle, Gift, Loader2, RefreshCw } from "lucide-react";
+import { fetchSchedule } from "../services/nhlAi";
+import {
+  findPromoHedges,
+  DEFAULT_CREDIT_CONVERSION,
+  type BoardQuote,
+  type PromoOpportunity,
+  type PromoTerms,
+  type PromoType,
+} from "@/utils/bettingMath";
+import type { GameData, League } from "../types";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface PromoOptimizerProps {
+  readonly league: League;
+  readonly className?: string;
+}
+
+interface GamePromo {
+  game: GameData;
+  opportunity: PromoOpportunity;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────
+
+const REFRESH_INTERVAL_MS = 30000;
+
+const DEFAULT_AMOUNT = 100;
+
+const DEFAULT_BOOST_PCT = 25;
+
+const DEFAULT_BOOSTED_ODDS = 200;
+
+const PROMO_OPTIONS: { id: PromoType; label: string }[] = [
+  { id: "profit_boost", label: "Profit Boost" },
+  { id: "odds_boost", label: "Odds Boost" },
+  { id: "bet_credit", label: "Bet Credit" },
+  { id: "second_chance", label: "Second Chance" },
+];
+
+const AMOUNT_LABELS: Record<PromoType, string> = {
+  profit_boost: "Max stake",
+  odds_boost: "Max stake",
+  bet_credit: "Credit",
+  second_chance: "Max refund",
+};
+
+const BOOK_LABELS: Record<string, string> = {
+  draftkings: "DraftKings",
+  fanduel: "FanDuel",
+  betmgm: "BetMGM",
+  williamhill: "Caesars",
+};
+
+const MARKET_LABELS: Record<string, string> = {
+  moneyline: "Moneyline",
+  spread: "Spread",
+  total: "Total",
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// UTILITIES
+// ─────────────────────────────────────────────────────────────────────────────
+
+const cn = (...classes: (string | boolean | undefined | null)[]): string => {
+  return classes.filter(Boolean).join(" ");
+};
+
+const fmtOdds = (odds: number): string => (odds > 0 ? `+${odds}` : `${odds}`);
+
+const fmtMoney = (value: number): string =>
+  `${value < 0 ? "-" : ""}$${Math.abs(value).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const legLabel = (leg: BoardQuote, game: GameData): string => {
+  switch (leg.outcome) {
+    case "awayML":
+      return `${game.awayTeam} ML`;
+    case "homeML":
+      return `${game.homeTeam} ML`;
+    case "drawML":
+      return "Draw";
+    case "awayPL":
+      return `${game.awayTeam} ${leg.line! > 0 ? "+" : ""}${leg.line}`;
+    case "homePL":
+      return `${game.homeTeam} ${leg.line! > 0 ? "+" : ""}${leg.line}`;
+    case "over":
+      return `Over ${leg.line}`;
+    case "under":
+      return `Under ${leg.line}`;
+  }
+};
+
+// Only games that can still be bet
+const isOpen = (game: GameData): boolean => game.status === "Scheduled" || game.status === "Live";
+
+const parsePositive = (value: string, fallback: number): number => {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// American odds are +100 or longer, or -100 or shorter
+const parseAmerican = (value: string, fallback: number): number => {
+  const parsed = parseInt(value, 10);
+  return Number.isFinite(parsed) && Math.abs(parsed) >= 100 ? parsed : fallback;
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// LEG ROW
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface LegRowProps {
+  leg: BoardQuote;
+  game: GameData;
+  stake: number;
+  tag: string;
+  boostedPrice?: number; // Odds boost: the price actually paid
+}
+
+const LegRow: FC<LegRowProps> = React.memo(({ leg, game, stake, tag, boostedPrice }) => (
+  <div className="flex items-center justify-between gap-3 py-2">
+    <div className="flex items-center gap-2 min-w-0">
+      <span className="px-2 py-0.5 rounded-md bg-accent/10 text-accent text-caption-2 font-bold uppercase tracking-wide shrink-0">
+        {BOOK_LABELS[leg.book] ?? leg.book}
+      </span>
+      <span className="text-body-sm font-semibold text-content-primary truncate">{legLabel(leg, game)}</span>
+      <span className="text-caption-2 text-content-tertiary shrink-0">{tag}</span>
+    </div>
+    <div className="flex items-center gap-4 font-mono tabular-nums shrink-0">
+      <span className="text-body-sm text-content-secondary">
+        {fmtOdds(leg.price)}
+        {boostedPrice !== undefined && <span className="text-accent"> → {fmtOdds(boostedPrice)}</span>}
+      </span>
+      <span className="text-body-sm font-bold text-content-primary w-24 text-right">{fmtMoney(stake)}</span>
+    </div>
+  </div>
+));
+
+LegRow.displayName = "LegRow";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// PROMO CARD
+// ─────────────────────────────────────────────────────────────────────────────
+
+const PromoCard: FC<{ item: GamePromo; terms: PromoTerms }> = React.memo(({ item, terms }) => {
+  const { type } = terms;
+  const { game, opportunity } = item;
+  const { plan } = opportunity;
+  const [promoLeg, hedgeLeg] = opportunity.legs;
+
+  return (
+    <div className="p-4 rounded-xl bg-glass-surface border border-glass-border">
+      <div className="flex items-center justify-between mb-2">
+        <div>
+          <p className="text-body-sm font-bold text-content-primary">
+            {game.awayTeam} @ {game.homeTeam}
+          </p>
+          <p className="text-caption-2 text-content-tertiary uppercase tracking-wider">
+            {MARKET_LABELS[opportunity.market] ?? opportunity.market} • {game.status === "Live" ? "Live" : game.time}
+          </p>
+        </div>
+        <span
+          className={cn(
+            "px-2.5 py-1 rounded-full border text-caption-1 font-mono font-bold tabular-nums",
+            plan.profit > 0
+              ? "bg-semantic-success/10 border-semantic-success/30 text-semantic-success"
+              : "bg-surface-secondary/50 border-glass-border text-content-secondary",
+          )}
+        >
+          {(plan.conversion * 100).toFixed(1)}%
+        </span>
+      </div>
+      <div className="divide-y divide-glass-border/50">
+        <LegRow
+          leg={promoLeg}
+          game={game}
+          stake={plan.promoStake}
+          tag={type === "bet_credit" ? "credit" : "promo"}
+          boostedPrice={type === "odds_boost" ? terms.boostedOdds : undefined}
+        />
+        <LegRow leg={hedgeLeg} game={game} stake={plan.hedgeStake} tag="hedge" />
+      </div>
+      <div className="flex justify-between pt-2 mt-1 border-t border-glass-border text-caption-1">
+        <span className="text-content-tertiary">Cash out {fmtMoney(plan.cashOutlay)}</span>
+        <span
+          className={cn(
+            "font-mono font-bold",
+            plan.profit >= 0 ? "text-semantic-success" : "text-semantic-error",
+          )}
+        >
+          Guaranteed {fmtMoney(plan.profit)}
+        </span>
+      </div>
+    </div>
+  );
+});
+
+PromoCard.displayName = "PromoCard";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// MAIN COMPONENT
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const PromoOptimizer: FC<PromoOptimizerProps> = ({ league, className }) => {
+  const [games, setGames] = useState<GameData[]>([]);
+  const [type, setType] = useState<PromoType>("bet_credit");
+  const [promoBook, setPromoBook] = useState("draftkings");
+  const [amount, setAmount] = useState(DEFAULT_AMOUNT);
+  const [boostPct, setBoostPct] = useState(DEFAULT_BOOST_PCT);
+  // Kept as typed: "-", "-1" and "-15" are on the way to -150
+  const [boostedOddsInput, setBoostedOddsInput] = useState(String(DEFAULT_BOOSTED_ODDS));
+  const boostedOdds = parseAmerican(boostedOddsInput, DEFAULT_BOOSTED_ODDS);
+  const [conversionPct, setConversionPct] = useState(DEFAULT_CREDIT_CONVERSION * 100);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const isMounted = useRef(true);
+
+  const loadBoard = useCallback(async () => {
+    setLoading(true);
+    try {
+      const data = await fetchSchedule(league, new Date());
+      if (!isMounted.current) return;
+      setGames(data || []);
+      setError(null);
+      setLastUpdated(new Date());
+    } catch (err) {
+      console.error("[PromoOptimizer] Error:", err);
+      if (isMounted.current) setError(err instanceof Error ? err.message : "Failed to load odds");
+    } finally {
+      if (isMounted.current) setLoading(false);
+    }
+  }, [league]);
+
+  useEffect(() => {
+    isMounted.current = true;
+    loadBoard();
+    const interval = setInterval(loadBoard, REFRESH_INTERVAL_MS);
+    return () => {
+      isMounted.current = false;
+      clearInterval(interval);
+    };
+  }, [loadBoard]);
+
+  // Named books quoted anywhere on the board
+  const books = useMemo(() => {
+    const seen = new Set(games.flatMap((g) => Object.keys(g.odds ?? {})));
+    return Object.keys(BOOK_LABELS).filter((b) => seen.has(b));
+  }, [games]);
+
+  const terms = useMemo<PromoTerms>(
+    () => ({ type, amount, boost: boostPct / 100, boostedOdds, creditConversion: conversionPct / 100 }),
+    [type, amount, boostPct, boostedOdds, conversionPct],
+  );
+
+  // Best candidate per game
+  const candidates = useMemo<GamePromo[]>(
+    () =>
+      games
+        .filter(isOpen)
+        .flatMap((game) => {
+          const [best] = findPromoHedges(game.odds, promoBook, terms);
+          return best ? [{ game, opportunity: best }] : [];
+        })
+        .sort((a, b) => b.opportunity.plan.profit - a.opportunity.plan.profit),
+    [games, promoBook, terms],
+  );
+
+  return (
+    <div className={cn("px-4 md:px-6 py-4 pb-24 space-y-6", className)}>
+      {/* Controls */}
+      <div className="flex flex-wrap items-center gap-3">
+        <div
+          className="flex bg-glass-surface border border-glass-border rounded-xl p-1 gap-1 shadow-sm backdrop-blur-xl"
+          role="radiogroup"
+          aria-label="Promo type"
+        >
+          {PROMO_OPTIONS.map((opt) => {
+            const isSelected = opt.id === type;
+            return (
+              <button
+                key={opt.id}
+                role="radio"
+                aria-checked={isSelected}
+                onClick={() => setType(opt.id)}
+                className={cn(
+                  "px-3 py-1.5 rounded-lg text-caption-2 font-bold uppercase tracking-wide",
+                  "transition-all duration-200 ease-standard",
+                  "focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-accent",
+                  isSelected
+                    ? "bg-surface-primary shadow-md text-accent border border-accent/20"
+                    : "text-content-tertiary hover:text-content-primary hover:bg-surface-secondary/50",
+                )}
+              >
+                {opt.label}
+              </button>
+            );
+          })}
+        </div>
+
+        <label className="flex items-center gap-2 text-caption-1 text-content-secondary">
+          Book
+          <select
+            value={promoBook}
+            onChange={(e) => setPromoBook(e.target.value)}
+            className="h-8 px-2 rounded-lg bg-glass-surface border border-glass-border text-body-sm text-content-primary focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-accent"
+          >
+            {(books.includes(promoBook) ? books : [promoBook, ...books]).map((b) => (
+              <option key={b} value={b}>
+                {BOOK_LABELS[b] ?? b}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex items-center gap-2 text-caption-1 text-content-secondary">
+          {AMOUNT_LABELS[type]}
+          <input
+            type="number"
+            min={1}
+            step={25}
+            inputMode="decimal"
+            value={amount}
+            onChange={(e) => setAmount(parsePositive(e.target.value, DEFAULT_AMOUNT))}
+            className="w-24 h-8 px-2 rounded-lg bg-glass-surface border border-glass-border font-mono text-body-sm text-content-primary focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-accent"
+          />
+        </label>
+
+        {type === "profit_boost" && (
+          <label className="flex items-center gap-2 text-caption-1 text-content-secondary">
+            Boost %
+            <input
+              type="number"
+              min={1}
+              step={5}
+              inputMode="decimal"
+              value={boostPct}
+              onChange={(e) => setBoostPct(parsePositive(e.target.value, DEFAULT_BOOST_PCT))}
+              className="w-20 h-8 px-2 rounded-lg bg-glass-surface border border-glass-border font-mono text-body-sm text-content-primary focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-accent"
+            />
+          </label>
+        )}
+
+        {type === "odds_boost" && (
+          <label className="flex items-center gap-2 text-caption-1 text-content-secondary">
+            Boosted odds
+            <input
+              type="number"
+              step={5}
+              inputMode="numeric"
+              value={boostedOddsInput}
+              onChange={(e) => setBoostedOddsInput(e.target.value)}
+              className="w-20 h-8 px-2 rounded-lg bg-glass-surface border border-glass-border font-mono text-body-sm text-content-primary focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-accent"
+            />
+          </label>
+        )}
+
+        {type === "second_chance" && (
+          <label className="flex items-center gap-2 text-caption-1 text-content-secondary">
+            Credit value %
+            <input
+              type="number"
+              min={1}
+              max={100}
+              step={5}
+              inputMode="decimal"
+              value={conversionPct}
+              onChange={(e) =>
+                setConversionPct(Math.min(100, parsePositive(e.target.value, DEFAULT_CREDIT_CONVERSION * 100)))
+              }
+              className="w-20 h-8 px-2 rounded-lg bg-glass-surface border border-glass-border font-mono text-body-sm text-content-primary focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-accent"
+            />
+          </label>
+        )}
+
+        <div className="ml-auto flex items-center gap-2">
+          {lastUpdated && (
+            <span className="text-caption-2 text-content-tertiary">Updated {lastUpdated.toLocaleTimeString()}</span>
+          )}
+          <button
+            onClick={loadBoard}
+            className="p-2 rounded-lg text-content-tertiary hover:text-content-primary hover:bg-surface-secondary/50"
+            aria-label="Refresh odds"
+          >
+            <RefreshCw size={16} className={cn(loading && "animate-spin")} />
+          </button>
+        </div>
+      </div>
+
+      {/* Results */}
+      {error && games.length === 0 ? (
+        <div className="flex flex-col items-center py-16 text-center" role="alert">
+          <AlertCircle size={28} className="text-semantic-error mb-3" />
+          <p className="text-body-sm text-content-secondary">{error}</p>
+        </div>
+      ) : loading && games.length === 0 ? (
+        <div className="flex justify-center py-16 text-content-tertiary">
+          <Loader2 size={20} className="animate-spin" />
+        </div>
+      ) : candidates.length === 0 ? (
+        <div className="flex flex-col items-center py-16 text-center">
+          <Gift size={28} className="text-content-tertiary mb-3" />
+          <p className="text-body-sm text-content-tertiary">
+            No games with a {BOOK_LABELS[promoBook] ?? promoBook} price and a hedge on another book right now.
+          </p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          {candidates.map((item) => (
+            <PromoCard
+              key={`${item.game.id}-${item.opportunity.legs.map((l) => `${l.outcome}${l.line ?? ""}`).join("/")}`}
+              item={item}
+              terms={terms}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PromoOptimizer;
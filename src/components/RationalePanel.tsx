@@ -0,0 +1,137 @@
+/**
+ * @component RationalePanel
+ * @description Structured rationale behind a pick: weighted factor table, projected score, model fair line and key risks
+ *
+ * @metanotes {
+ *   "schema_dependency": "analysis_memory.rationale written by generate-pick"
+ * }
+ */
+
+import React from 'react';
+import { AlertTriangle, ListChecks } from 'lucide-react';
+import type { GameData, PickRationale, RationaleFactor, RationaleFactorKey } from '../types';
+import type { ConsensusMarket } from '@/utils/bettingMath';
+import { cn } from '@/lib/utils';
+
+const FACTOR_LABELS: Record<RationaleFactorKey, string> = {
+  injuries: 'Injuries',
+  rest: 'Rest',
+  form: 'Form',
+  matchup: 'Matchup Stats',
+  market: 'Market Movement',
+  other: 'Other',
+};
+
+const LEAN_STYLES: Record<RationaleFactor['lean'], { label: string; className: string }> = {
+  for: { label: 'For', className: 'text-green-500' },
+  against: { label: 'Against', className: 'text-red-500' },
+  neutral: { label: 'Neutral', className: 'text-muted-foreground' },
+};
+
+const signed = (n: number) => `${n > 0 ? '+' : ''}${n}`;
+
+interface RationalePanelProps {
+  rationale: PickRationale;
+  game: GameData;
+  market: ConsensusMarket;
+}
+
+// Weighted factor table, projection and risks behind the pick
+export const RationalePanel = React.memo<RationalePanelProps>(({ rationale, game, market }) => {
+  const score = rationale.projected_score;
+  const fairLine = rationale.fair_line !== null && market !== 'moneyline'
+    ? market === 'spread' ? signed(rationale.fair_line) : String(rationale.fair_line)
+    : null;
+  const fairPrice = rationale.fair_price !== null ? signed(rationale.fair_price) : null;
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center gap-2 mb-3">
+        <ListChecks size={18} className="text-accent" />
+        <span className="text-sm font-semibold text-foreground uppercase tracking-wider">
+          Factor Breakdown
+        </span>
+      </div>
+
+      <div className="overflow-x-auto rounded-lg border border-border">
+        <table className="w-full text-sm">
+          <thead className="bg-muted/40 text-xs text-muted-foreground uppercase tracking-wider">
+            <tr>
+              <th className="px-3 py-2 text-left font-semibold">Factor</th>
+              <th className="px-3 py-2 text-left font-semibold">Lean</th>
+              <th className="px-3 py-2 text-left font-semibold">Weight</th>
+              <th className="px-3 py-2 text-left font-semibold">Note</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rationale.factors.map((factor, i) => {
+              const lean = LEAN_STYLES[factor.lean] ?? LEAN_STYLES.neutral;
+              return (
+                <tr key={`${factor.factor}-${i}`} className="border-t border-border align-top">
+                  <td className="px-3 py-2 font-medium text-foreground whitespace-nowrap">
+                    {FACTOR_LABELS[factor.factor] ?? factor.factor}
+                  </td>
+                  <td className={cn("px-3 py-2 font-semibold whitespace-nowrap", lean.className)}>{lean.label}</td>
+                  <td className="px-3 py-2 w-36">
+                    <div className="flex items-center gap-2">
+                      <div className="h-1.5 flex-1 rounded-full bg-muted overflow-hidden">
+                        <div className="h-full bg-accent" style={{ width: `${factor.weight * 100}%` }} />
+                      </div>
+                      <span className="text-xs font-mono tabular-nums text-muted-foreground">
+                        {Math.round(factor.weight * 100)}%
+                      </span>
+                    </div>
+                  </td>
+                  <td className="px-3 py-2 text-muted-foreground">{factor.note}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {(score || fairLine || fairPrice) && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mt-3">
+          {score && (
+            <div className="p-3 rounded-lg bg-muted/30 border border-border">
+              <div className="text-xs text-muted-foreground uppercase tracking-wider font-semibold mb-1">
+                Projected Score
+              </div>
+              <div className="text-sm font-mono text-foreground">
+                {game.awayTeam} {score.away} – {game.homeTeam} {score.home}
+                <span className="text-muted-foreground"> (total {Number((score.away + score.home).toFixed(1))})</span>
+              </div>
+            </div>
+          )}
+          {(fairLine || fairPrice) && (
+            <div className="p-3 rounded-lg bg-muted/30 border border-border">
+              <div className="text-xs text-muted-foreground uppercase tracking-wider font-semibold mb-1">
+                Model Fair Line
+              </div>
+              <div className="text-sm font-mono text-foreground">
+                {[fairLine, fairPrice && (fairLine ? `(${fairPrice})` : fairPrice)].filter(Boolean).join(' ')}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {rationale.risks.length > 0 && (
+        <div className="mt-3 p-3 rounded-lg border border-yellow-500/30 bg-yellow-500/5">
+          <div className="flex items-center gap-2 mb-2 text-xs font-semibold uppercase tracking-wider text-yellow-500">
+            <AlertTriangle size={14} />
+            Key Risks
+          </div>
+          <ul className="list-disc pl-5 space-y-1 text-sm text-foreground">
+            {rationale.risks.map((risk, i) => (
+              <li key={i}>{risk}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+});
+RationalePanel.displayName = 'RationalePanel';
+
+export default RationalePanel;
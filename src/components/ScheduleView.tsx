@@ -7,9 +7,12 @@
  *   "features": [
  *     "Date navigation with Today/Tomorrow shortcuts",
  *     "Game status filters (All, Live, Upcoming, Final)",
- *     "Multi-sportsbook odds comparison",
+ *     "Conference filter for NCAAF / NCAAB (conferences resolved by fetch-odds from the teams table)",
+ *     "Multi-sportsbook odds comparison (per-game grid + Best Available line shopping)",
  *     "Auto-refresh for live games",
- *     "Pre-generated picks integration",
+ *     "Pre-generated picks integration (moneyline, spread, total)",
+ *     "On-demand multi-market pick generation priced from the selected book",
+ *     "Bet slip capture from odds cells",
  *     "Empty/Error/Loading states"
  *   ]
  * }
@@ -30,15 +33,19 @@ import {
   Loader2,
 } from "lucide-react";
 import { fetchSchedule } from "../services/nhlAi";
-import { GameCard } from "./GameCard";
-import type { GameData, League, PickData } from "../types";
+import { generatePicks, PICK_MARKETS } from "../services/pickGenerator";
+import { GameCard, BEST_AVAILABLE_BOOK, PERIOD_LABELS } from "./GameCard";
+import { BetSlip } from "./BetSlip";
+import { useBetSlip, type NewSelection } from "@/hooks/useBetSlip";
+import { oddsForScope } from "@/utils/bettingMath";
+import type { BetSide, GameData, League, MarketLines, MarketType, PeriodScope, EnsembleSummary, PickData, PickRationale } from "../types";
 
 // ─────────────────────────────────────────────────────────────────────────────
 // TYPES
 // ─────────────────────────────────────────────────────────────────────────────
 
 type GameStatus = "all" | "live" | "upcoming" | "final";
-type Sportsbook = "draftkings" | "fanduel" | "betmgm" | "caesars";
+type Sportsbook = "draftkings" | "fanduel" | "betmgm" | "caesars" | typeof BEST_AVAILABLE_BOOK;
 
 interface ScheduleViewProps {
   readonly onAnalyze?: (game: GameData) => void;
@@ -50,6 +57,27 @@ interface GameWithPick extends GameData {
   pick?: PickData;
 }
 
+interface PickRow {
+  game_id: string;
+  market_type: MarketType;
+  pick_side: string;
+  pick_outcome: string | null;
+  confidence_score: number;
+  reasoning_text: string;
+  rationale: unknown; // jsonb, PickRationale shape
+  ensemble: unknown; // jsonb, EnsembleSummary shape
+  raw_probability: number | null;
+  calibrated_probability: number | null;
+  odds_at_generation: number | null;
+  line_at_generation: number | null;
+  book_at_generation: string | null;
+  created_at: string;
+  closing_odds: number | null;
+  clv_price: number | null;
+  clv_prob: number | null;
+  clv_line: number | null;
+}
+
 interface SportsbookConfig {
   id: Sportsbook;
   label: string;
@@ -68,13 +96,20 @@ interface StatusFilterConfig {
 
 const REFRESH_INTERVAL_MS = 30000;
 
+const PICK_SELECT =
+  "game_id, market_type, pick_side, pick_outcome, confidence_score, reasoning_text, rationale, ensemble, raw_probability, calibrated_probability, odds_at_generation, line_at_generation, book_at_generation, created_at, closing_odds, clv_price, clv_prob, clv_line";
+
 const SPORTSBOOKS: SportsbookConfig[] = [
   { id: "draftkings", label: "DraftKings", shortLabel: "DK" },
   { id: "fanduel", label: "FanDuel", shortLabel: "FD" },
   { id: "betmgm", label: "BetMGM", shortLabel: "MGM" },
   { id: "caesars", label: "Caesars", shortLabel: "CZR" },
+  { id: BEST_AVAILABLE_BOOK, label: "Best Available", shortLabel: "Best" },
 ];
 
+// Leagues whose slates are large enough to need a conference filter
+const CONFERENCE_LEAGUES: readonly League[] = ["NCAAF", "NCAAB"];
+
 const STATUS_FILTERS: StatusFilterConfig[] = [
   { id: "all", label: "All Games", icon: Filter },
   { id: "live", label: "Live", icon: Radio },
@@ -116,6 +151,33 @@ const formatDateLabel = (date: Date): string => {
   });
 };
 
+const mapPickRow = (row: PickRow): PickData => ({
+  pick_side: row.pick_side,
+  confidence_score: row.confidence_score,
+  reasoning_text: row.reasoning_text,
+  rationale: (row.rationale as PickRationale | null) ?? null,
+  ensemble: (row.ensemble as EnsembleSummary | null) ?? null,
+  raw_probability: row.raw_probability,
+  calibrated_probability: row.calibrated_probability,
+  odds_at_generation: row.odds_at_generation ?? 0,
+  created_at: row.created_at,
+  market_type: row.market_type,
+  pick_outcome: row.pick_outcome as BetSide | null,
+  line_at_generation: row.line_at_generation,
+  book_at_generation: row.book_at_generation,
+  closing_odds: row.closing_odds,
+  clv_price: row.clv_price,
+  clv_prob: row.clv_prob,
+  clv_line: row.clv_line,
+});
+
+// Index picks by game, then market; `pick` stays the moneyline pick for existing consumers
+const withPicks = (game: GameData, picks: Partial<Record<MarketType, PickData>> | undefined): GameWithPick => ({
+  ...game,
+  picks,
+  pick: picks?.moneyline,
+});
+
 const formatTime = (date: Date): string => {
   return date.toLocaleTimeString("en-US", {
     hour: "2-digit",
@@ -124,6 +186,69 @@ const formatTime = (date: Date): string => {
   });
 };
 
+const BET_TYPE_TO_MARKET: Record<string, NewSelection["market"]> = {
+  ML: "moneyline",
+  PL: "spread",
+  Total: "total",
+};
+
+const parsePrice = (value: string | undefined): number => parseInt(value || "", 10) || 0;
+
+/**
+ * Converts a GameCard odds-cell click into a slip selection.
+ * Spread strings arrive as "+1.5 (-110)"; totals carry the number separately from the price.
+ * Period lines are labelled with their scope, e.g. "1H BOS -0.5".
+ */
+const buildSelection = (
+  game: GameData,
+  betType: string,
+  side: BetSide,
+  odds: MarketLines,
+  book: string,
+  period: PeriodScope = "game",
+): NewSelection | null => {
+  const market = BET_TYPE_TO_MARKET[betType];
+  if (!market) return null;
+
+  let line: number | null = null;
+  let price = 0;
+  let label = "";
+
+  if (market === "moneyline" && side === "draw") {
+    price = parsePrice(odds.drawML ?? "");
+    label = "Draw";
+  } else if (market === "moneyline") {
+    price = parsePrice(side === "away" ? odds.awayML : odds.homeML);
+    label = `${side === "away" ? game.awayTeam : game.homeTeam} ML`;
+  } else if (market === "spread") {
+    const match = (side === "away" ? odds.awayPL : odds.homePL)?.match(/([+-]?\d*\.?\d+)\s*\(([+-]?\d+)\)/);
+    if (!match) return null;
+    line = parseFloat(match[1]);
+    price = parseInt(match[2], 10);
+    label = `${side === "away" ? game.awayTeam : game.homeTeam} ${line > 0 ? "+" : ""}${line}`;
+  } else {
+    line = parseFloat(odds.total);
+    price = parsePrice(side === "over" ? odds.overOdds : odds.underOdds);
+    label = `${side === "over" ? "Over" : "Under"} ${odds.total}`;
+  }
+
+  if (!price || (market !== "moneyline" && !Number.isFinite(line))) return null;
+
+  return {
+    gameId: game.id,
+    league: game.league,
+    market,
+    ...(period !== "game" && { period }),
+    side,
+    label: period === "game" ? label : `${PERIOD_LABELS[period]} ${label}`,
+    matchup: `${game.awayTeam} @ ${game.homeTeam}`,
+    line,
+    odds: price,
+    book,
+    gameStart: game.timestamp,
+  };
+};
+
 const getGameStatus = (game: GameData): GameStatus => {
   const status = game.status?.toLowerCase() || "";
   if (status === "live" || status === "in_progress" || status === "in") return "live";
@@ -467,6 +592,49 @@ const StatusFilter: FC<StatusFilterProps> = React.memo(({ selected, onSelect, co
 
 StatusFilter.displayName = "StatusFilter";
 
+// ─────────────────────────────────────────────────────────────────────────────
+// CONFERENCE FILTER
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface ConferenceFilterProps {
+  conferences: string[];
+  selected: string | null;
+  onSelect: (conference: string | null) => void;
+}
+
+const ConferenceFilter: FC<ConferenceFilterProps> = React.memo(({ conferences, selected, onSelect }) => (
+  <div
+    className={cn("flex gap-1.5 overflow-x-auto", "scrollbar-hide", "-mx-4 px-4 md:mx-0 md:px-0")}
+    role="radiogroup"
+    aria-label="Filter by conference"
+  >
+    {[null, ...conferences].map((conference) => {
+      const isSelected = selected === conference;
+      return (
+        <button
+          key={conference ?? "all"}
+          onClick={() => onSelect(conference)}
+          role="radio"
+          aria-checked={isSelected}
+          className={cn(
+            "px-2.5 py-1 rounded-lg border",
+            "text-caption-2 font-semibold whitespace-nowrap",
+            "transition-colors duration-150",
+            "focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-accent",
+            isSelected
+              ? "bg-accent/10 border-accent/30 text-accent"
+              : "bg-glass-surface border-glass-border text-content-tertiary hover:text-content-primary",
+          )}
+        >
+          {conference ?? "All Conferences"}
+        </button>
+      );
+    })}
+  </div>
+));
+
+ConferenceFilter.displayName = "ConferenceFilter";
+
 // ─────────────────────────────────────────────────────────────────────────────
 // LIVE INDICATOR BADGE
 // ─────────────────────────────────────────────────────────────────────────────
@@ -522,10 +690,14 @@ export const ScheduleView: FC<ScheduleViewProps> = ({ onAnalyze, league, classNa
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [error, setError] = useState(false);
   const [selectedBook, setSelectedBook] = useState<Sportsbook>("draftkings");
+  const [ensemble, setEnsemble] = useState(false);
   const [selectedStatus, setSelectedStatus] = useState<GameStatus>("all");
+  const [selectedConference, setSelectedConference] = useState<string | null>(null);
   const [lastUpdated, setLastUpdated] = useState<Date>(new Date());
   const [currentDate, setCurrentDate] = useState<Date>(new Date());
 
+  const betSlip = useBetSlip();
+
   // Refs
   const refreshIntervalRef = useRef<number | null>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
@@ -563,34 +735,23 @@ export const ScheduleView: FC<ScheduleViewProps> = ({ onAnalyze, league, classNa
 
         const { data: picks, error: picksError } = await supabase
           .from("analysis_memory")
-          .select("game_id, pick_side, confidence_score, reasoning_text, odds_at_generation, created_at")
+          .select(PICK_SELECT)
           .in("game_id", gameIds)
-          .eq("market_type", "moneyline");
+          .in("market_type", PICK_MARKETS);
 
         if (picksError) {
           console.error("[PICKS_FETCH_ERROR]", picksError);
         }
 
-        // Map picks to games
-        const pickMap = new Map(
-          (picks || []).map((p) => [
-            p.game_id,
-            {
-              id: p.game_id,
-              pick_side: p.pick_side,
-              confidence_score: p.confidence_score,
-              reasoning_text: p.reasoning_text,
-              odds_at_generation: p.odds_at_generation,
-              created_at: p.created_at,
-              market_type: "moneyline" as const,
-            },
-          ]),
-        );
+        // Map picks to games, keyed by market
+        const pickMap = new Map<string, Partial<Record<MarketType, PickData>>>();
+        ((picks || []) as PickRow[]).forEach((row) => {
+          const byMarket = pickMap.get(row.game_id) || {};
+          byMarket[row.market_type] = mapPickRow(row);
+          pickMap.set(row.game_id, byMarket);
+        });
 
-        const gamesWithPicks: GameWithPick[] = data.map((game) => ({
-          ...game,
-          pick: pickMap.get(game.id),
-        }));
+        const gamesWithPicks: GameWithPick[] = data.map((game) => withPicks(game, pickMap.get(game.id)));
 
         setGames(gamesWithPicks);
         setLastUpdated(new Date());
@@ -634,6 +795,11 @@ export const ScheduleView: FC<ScheduleViewProps> = ({ onAnalyze, league, classNa
     };
   }, [loadData, currentDate]);
 
+  // Conferences don't carry across leagues
+  useEffect(() => {
+    setSelectedConference(null);
+  }, [league]);
+
   // ─────────────────────────────────────────────────────────────────────────
   // HANDLERS
   // ─────────────────────────────────────────────────────────────────────────
@@ -654,34 +820,100 @@ export const ScheduleView: FC<ScheduleViewProps> = ({ onAnalyze, league, classNa
     loadData(false);
   }, [loadData]);
 
+  const { toggleSelection } = betSlip;
+  const handleBetClick = useCallback(
+    (gameId: string, betType: string, team: BetSide, odds: MarketLines, sourceBook?: string, period: PeriodScope = "game") => {
+      const game = games.find((g) => g.id === gameId);
+      if (!game) return;
+      // Best Available names the source book; otherwise GameCard falls back to the
+      // generic board when the selected book has no prices for the period
+      const book = sourceBook ?? (oddsForScope(game.odds, period)[selectedBook] ? selectedBook : "generic");
+      const selection = buildSelection(game, betType, team, odds, book, period);
+      if (selection) toggleSelection(selection);
+    },
+    [games, selectedBook, toggleSelection],
+  );
+
+  const handleGeneratePicks = useCallback(
+    async (game: GameData) => {
+      const setLoading = (isLoadingPick: boolean) =>
+        setGames((prev) => prev.map((g) => (g.id === game.id ? { ...g, isLoadingPick } : g)));
+
+      setLoading(true);
+      try {
+        const isBest = selectedBook === BEST_AVAILABLE_BOOK;
+        const { picks, errors } = await generatePicks(game, {
+          book: isBest ? undefined : selectedBook,
+          bestAvailable: isBest,
+          ensemble,
+        });
+        if (errors.length > 0) console.warn("[PICK_GENERATION_PARTIAL]", errors);
+
+        setGames((prev) =>
+          prev.map((g) => {
+            if (g.id !== game.id) return g;
+            const merged = { ...g.picks };
+            picks.forEach((p) => {
+              if (p.market_type) merged[p.market_type] = p;
+            });
+            return { ...withPicks(g, merged), isLoadingPick: false };
+          }),
+        );
+      } catch (e) {
+        console.error("[PICK_GENERATION_ERROR]", e);
+        setLoading(false);
+      }
+    },
+    [selectedBook, ensemble],
+  );
+
   // ─────────────────────────────────────────────────────────────────────────
   // COMPUTED VALUES
   // ─────────────────────────────────────────────────────────────────────────
 
   const dateLabel = useMemo(() => formatDateLabel(currentDate), [currentDate]);
 
+  // Conferences on today's slate (college only)
+  const conferences = useMemo(() => {
+    if (!CONFERENCE_LEAGUES.includes(league)) return [];
+    const found = new Set<string>();
+    games.forEach((game) => {
+      if (game.awayConference) found.add(game.awayConference);
+      if (game.homeConference) found.add(game.homeConference);
+    });
+    return [...found].sort((a, b) => a.localeCompare(b));
+  }, [games, league]);
+
+  // Games involving the selected conference (either side; non-conference games included)
+  const conferenceGames = useMemo(() => {
+    if (!selectedConference) return games;
+    return games.filter(
+      (game) => game.awayConference === selectedConference || game.homeConference === selectedConference,
+    );
+  }, [games, selectedConference]);
+
   // Status counts
   const statusCounts = useMemo(() => {
     const counts: Record<GameStatus, number> = {
-      all: games.length,
+      all: conferenceGames.length,
       live: 0,
       upcoming: 0,
       final: 0,
     };
 
-    games.forEach((game) => {
+    conferenceGames.forEach((game) => {
       const status = getGameStatus(game);
       counts[status]++;
     });
 
     return counts;
-  }, [games]);
+  }, [conferenceGames]);
 
   // Filtered games
   const filteredGames = useMemo(() => {
-    if (selectedStatus === "all") return games;
-    return games.filter((game) => getGameStatus(game) === selectedStatus);
-  }, [games, selectedStatus]);
+    if (selectedStatus === "all") return conferenceGames;
+    return conferenceGames.filter((game) => getGameStatus(game) === selectedStatus);
+  }, [conferenceGames, selectedStatus]);
 
   // Has live games
   const hasLiveGames = useMemo(() => statusCounts.live > 0, [statusCounts]);
@@ -713,12 +945,35 @@ export const ScheduleView: FC<ScheduleViewProps> = ({ onAnalyze, league, classNa
         {/* Second row: Status filters */}
         <StatusFilter selected={selectedStatus} onSelect={setSelectedStatus} counts={statusCounts} />
 
+        {conferences.length > 0 && (
+          <ConferenceFilter
+            conferences={conferences}
+            selected={selectedConference}
+            onSelect={setSelectedConference}
+          />
+        )}
+
         {/* Third row: Sportsbook selector */}
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-2">
             <span className="text-caption-2 text-content-tertiary uppercase tracking-wider font-semibold">
               Odds from
             </span>
+            {/* Ensemble: every configured model votes on new picks */}
+            <button
+              type="button"
+              onClick={() => setEnsemble((on) => !on)}
+              aria-pressed={ensemble}
+              title="Ask every configured model and pick by consensus"
+              className={cn(
+                "px-2 py-0.5 rounded-md border text-caption-2 font-semibold uppercase tracking-wider transition-colors duration-150 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-accent",
+                ensemble
+                  ? "border-accent/40 bg-accent/10 text-accent"
+                  : "border-glass-border text-content-tertiary hover:text-content-secondary",
+              )}
+            >
+              Ensemble
+            </button>
           </div>
           <SportsbookSelector selected={selectedBook} onSelect={setSelectedBook} />
         </div>
@@ -730,7 +985,7 @@ export const ScheduleView: FC<ScheduleViewProps> = ({ onAnalyze, league, classNa
           selectedStatus !== "all" ? (
             <div className="text-center py-12 text-content-tertiary">
               <p className="text-body-sm">
-                No {selectedStatus} games. Showing all {games.length} games instead.
+                No {selectedStatus} games. Showing all {conferenceGames.length} games instead.
               </p>
               <button
                 onClick={() => setSelectedStatus("all")}
@@ -744,7 +999,14 @@ export const ScheduleView: FC<ScheduleViewProps> = ({ onAnalyze, league, classNa
           )
         ) : (
           filteredGames.map((game, idx) => (
-            <GameCard key={game.id || idx} game={game} selectedBook={selectedBook} onAnalyze={onAnalyze} />
+            <GameCard
+              key={game.id || idx}
+              game={game}
+              selectedBook={selectedBook}
+              onAnalyze={onAnalyze}
+              onBetClick={handleBetClick}
+              onGeneratePicks={handleGeneratePicks}
+            />
           ))
         )}
       </div>
@@ -760,6 +1022,21 @@ export const ScheduleView: FC<ScheduleViewProps> = ({ onAnalyze, league, classNa
         </div>
         <div className="h-px w-16 bg-glass-border" />
       </div>
+
+      <BetSlip
+        selections={betSlip.selections}
+        games={games}
+        wagers={betSlip.wagers}
+        totals={betSlip.totals}
+        isPlacing={betSlip.isPlacing}
+        isLoadingLedger={betSlip.isLoadingLedger}
+        error={betSlip.error}
+        onStakeChange={betSlip.updateStake}
+        onRemove={betSlip.removeSelection}
+        onClear={betSlip.clearSlip}
+        onPlace={betSlip.placeBets}
+        onLoadLedger={betSlip.fetchWagers}
+      />
     </div>
   );
 };
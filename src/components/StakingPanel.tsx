@@ -0,0 +1,185 @@
+/**
+ * @component StakingPanel
+ * @description Stake sizing for a pick under the user's bankroll settings, with an inline settings editor
+ *
+ * @metanotes {
+ *   "price": "Best price on the board for the picked side; odds_at_generation when the side can't be resolved",
+ *   "settings": "useBankrollSettings (user_settings when signed in, localStorage otherwise)"
+ * }
+ */
+
+import React, { useState, useMemo, useEffect, type FC } from 'react';
+import { DollarSign, Settings2 } from 'lucide-react';
+import type { GameData, PickData } from '../types';
+import { useBankrollSettings } from '@/hooks/useBankrollSettings';
+import {
+  bestAvailable,
+  kellyFraction,
+  pickBoardOutcome,
+  pickMarket,
+  pickProbability,
+  resolvePickSide,
+  stakingOptions,
+  type BankrollSettings,
+  type StakingStrategy,
+} from '@/utils/bettingMath';
+import { cn } from '@/lib/utils';
+
+const STRATEGY_LABELS: Record<StakingStrategy, { label: string; hint: (s: BankrollSettings) => string }> = {
+  flat: { label: 'Flat Units', hint: (s) => `1 unit ($${s.unitSize})` },
+  kelly: { label: 'Full Kelly', hint: () => 'Max growth, high variance' },
+  fractional_kelly: { label: 'Fractional Kelly', hint: (s) => `${s.kellyFraction}× Kelly` },
+  capped_kelly: { label: 'Capped Kelly', hint: (s) => `${s.kellyFraction}× Kelly, max ${s.maxStakePct}%` },
+};
+
+interface StakingOptionsProps {
+  probability: number;
+  price: number;
+  priceSource: string | null;
+  settings: BankrollSettings;
+  onSave: (patch: Partial<BankrollSettings>) => Promise<boolean>;
+}
+
+const SettingsField: FC<{ label: string; value: number; step: string; onChange: (value: number) => void }> = ({
+  label,
+  value,
+  step,
+  onChange,
+}) => (
+  <label className="flex flex-col gap-1 text-xs text-muted-foreground">
+    {label}
+    <input
+      type="number"
+      min="0"
+      step={step}
+      value={value}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      className="h-8 rounded-md border border-border bg-background px-2 text-sm font-mono text-foreground"
+    />
+  </label>
+);
+
+const StakingOptions = React.memo<StakingOptionsProps>(({ probability, price, priceSource, settings, onSave }) => {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(settings);
+
+  useEffect(() => {
+    if (!editing) setDraft(settings);
+  }, [settings, editing]);
+
+  const options = useMemo(() => stakingOptions(probability, price, settings), [probability, price, settings]);
+  const fullKelly = kellyFraction(probability, price);
+
+  const handleSave = async () => {
+    if (await onSave(draft)) setEditing(false);
+  };
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <div className="flex items-center gap-2">
+          <DollarSign size={18} className="text-accent" />
+          <span className="text-sm font-semibold text-foreground uppercase tracking-wider">
+            Staking Strategy
+          </span>
+        </div>
+        <button
+          type="button"
+          onClick={() => setEditing(!editing)}
+          className="inline-flex items-center gap-1 h-9 px-3 rounded-md text-xs font-medium text-muted-foreground transition-colors hover:bg-muted/60 hover:text-foreground"
+        >
+          <Settings2 size={14} />
+          {editing ? 'Cancel' : `Bankroll $${settings.bankroll.toLocaleString()}`}
+        </button>
+      </div>
+
+      {editing && (
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-3 p-3 rounded-lg bg-muted/30 border border-border">
+          <SettingsField label="Bankroll ($)" value={draft.bankroll} step="50" onChange={(v) => setDraft({ ...draft, bankroll: v })} />
+          <SettingsField label="Unit ($)" value={draft.unitSize} step="1" onChange={(v) => setDraft({ ...draft, unitSize: v })} />
+          <SettingsField label="Kelly Fraction" value={draft.kellyFraction} step="0.05" onChange={(v) => setDraft({ ...draft, kellyFraction: v })} />
+          <SettingsField label="Max Stake (%)" value={draft.maxStakePct} step="0.5" onChange={(v) => setDraft({ ...draft, maxStakePct: v })} />
+          <div className="flex items-end">
+            <button
+              type="button"
+              onClick={handleSave}
+              className="w-full h-9 px-3 rounded-md text-sm font-medium bg-primary text-primary-foreground transition-colors hover:bg-primary/90"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {options.map((option) => {
+          const active = option.strategy === settings.strategy;
+          const meta = STRATEGY_LABELS[option.strategy];
+          return (
+            <button
+              key={option.strategy}
+              type="button"
+              onClick={() => !active && onSave({ strategy: option.strategy })}
+              className={cn(
+                "w-full flex justify-between items-center p-3 rounded-lg border text-left transition-colors",
+                active ? "bg-green-500/10 border-green-500/40 shadow-sm" : "bg-muted/40 border-border hover:bg-muted/60"
+              )}
+              aria-pressed={active}
+            >
+              <div>
+                <div className={cn("text-sm font-medium", active ? "text-foreground" : "text-muted-foreground")}>
+                  {meta.label}
+                </div>
+                <div className="text-xs text-muted-foreground">{meta.hint(settings)}</div>
+              </div>
+              <div className="text-right">
+                <div className={cn("text-sm font-semibold font-mono", active ? "text-green-500" : "text-foreground")}>
+                  ${option.stake.toFixed(2)}
+                </div>
+                <div className="text-xs text-muted-foreground font-mono">
+                  {option.bankrollPct.toFixed(2)}% • {option.units.toFixed(1)}u
+                </div>
+              </div>
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="mt-2 text-xs text-muted-foreground">
+        {fullKelly > 0
+          ? `Full Kelly ${(fullKelly * 100).toFixed(2)}% at ${price > 0 ? '+' : ''}${price}`
+          : `No edge at ${price > 0 ? '+' : ''}${price} — Kelly stakes nothing`}
+        {priceSource ? ` (${priceSource})` : ''}
+      </div>
+    </div>
+  );
+});
+StakingOptions.displayName = 'StakingOptions';
+
+interface StakingPanelProps {
+  pick: PickData;
+  game: GameData;
+}
+
+export const StakingPanel: FC<StakingPanelProps> = ({ pick, game }) => {
+  const { settings, saveSettings } = useBankrollSettings();
+
+  // Stake against the best price on the board for the picked side; the generation price is the fallback
+  const stakePrice = useMemo(() => {
+    const outcome = pickBoardOutcome(pickMarket(pick), resolvePickSide(pick, game));
+    const best = outcome ? bestAvailable(game.odds)[outcome] : undefined;
+    return best ? { price: best.price, source: `best: ${best.book}` } : { price: pick.odds_at_generation, source: null };
+  }, [pick, game]);
+
+  return (
+    <StakingOptions
+      probability={pickProbability(pick) / 100}
+      price={stakePrice.price}
+      priceSource={stakePrice.source}
+      settings={settings}
+      onSave={saveSettings}
+    />
+  );
+};
+
+export default StakingPanel;
@@ -0,0 +1,251 @@
+/**
+ * @component TeaserCalculator
+ * @description 6 / 6.5 / 7-point teaser analysis for the bet slip's NFL and NBA spread selections
+ *
+ * @metanotes {
+ *   "design_system": "ESSENCE v3.1",
+ *   "data_source": "useMarginHistory (graded nfl_games / nba_games final margins, signed from the favourite)",
+ *   "features": [
+ *     "Key numbers crossed per leg, Wong legs flagged (through 3 and 7)",
+ *     "Historical landing frequency at each key number",
+ *     "Estimated teased cover rate vs per-leg breakeven at the offered ticket price",
+ *     "EV counts pushed legs as dropped, the ticket regraded at the standard price for the legs left"
+ *   ],
+ *   "limits": "Full-game spreads only; margin history pools every favourite regardless of the size of the spread"
+ * }
+ */
+
+import React, { useEffect, useMemo, useState, type FC } from "react";
+import { Loader2 } from "lucide-react";
+import { useMarginHistory, type TeaserLeague } from "@/hooks/useMarginHistory";
+import {
+  analyzeTeaserLeg,
+  landingRate,
+  legFairProbability,
+  priceTeaser,
+  DEFAULT_TEASER_PRICES,
+  TEASER_KEY_NUMBERS,
+  TEASER_POINTS,
+  type TeaserPoints,
+} from "@/utils/bettingMath";
+import type { BetSlipSelection, GameData } from "../types";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface TeaserCalculatorProps {
+  readonly selections: BetSlipSelection[];
+  readonly games: GameData[];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// UTILITIES
+// ─────────────────────────────────────────────────────────────────────────────
+
+const cn = (...classes: (string | boolean | undefined | null)[]): string => {
+  return classes.filter(Boolean).join(" ");
+};
+
+const fmtOdds = (odds: number): string => (odds > 0 ? `+${odds}` : `${odds}`);
+
+const fmtLine = (line: number): string => (line > 0 ? `+${line}` : `${line}`);
+
+const fmtPct = (value: number): string => `${(value * 100).toFixed(1)}%`;
+
+const isTeaserLeague = (league: string): league is TeaserLeague => league === "NFL" || league === "NBA";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// MAIN COMPONENT
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const TeaserCalculator: FC<TeaserCalculatorProps> = ({ selections, games }) => {
+  const { distributions, loading, error } = useMarginHistory();
+  const [points, setPoints] = useState<TeaserPoints>(6);
+  const [priceInput, setPriceInput] = useState("");
+
+  const eligible = useMemo(
+    () =>
+      selections.filter(
+        (s) => s.market === "spread" && !s.period && s.line !== null && isTeaserLeague(s.league),
+      ),
+    [selections],
+  );
+
+  const legs = useMemo(() => {
+    const byId = new Map(games.map((g) => [g.id, g]));
+    return eligible.map((s) => {
+      const league = s.league as TeaserLeague;
+      const game = byId.get(s.gameId);
+      const base = game ? legFairProbability(game.odds, "spread", s.side, s.line) : null;
+      return {
+        selection: s,
+        league,
+        analysis: analyzeTeaserLeg(s.line!, points, distributions[league] ?? null, TEASER_KEY_NUMBERS[league], base ?? 0.5),
+      };
+    });
+  }, [eligible, games, points, distributions]);
+
+  const defaultPrice = DEFAULT_TEASER_PRICES[points][legs.length];
+
+  // Reset the override when the standard ticket changes
+  useEffect(() => {
+    setPriceInput(defaultPrice !== undefined ? String(defaultPrice) : "");
+  }, [defaultPrice]);
+
+  const price = parseInt(priceInput, 10);
+  const pricing = useMemo(
+    () => (Number.isFinite(price) && price !== 0 ? priceTeaser(legs.map((l) => l.analysis), price, points) : null),
+    [legs, price, points],
+  );
+
+  const leagues = useMemo(() => [...new Set(legs.map((l) => l.league))], [legs]);
+
+  if (eligible.length < 2) {
+    return (
+      <p className="text-caption-1 text-content-tertiary text-center py-8">
+        Add at least two full-game NFL or NBA spreads to build a teaser.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {/* Points */}
+      <div className="flex items-center justify-between">
+        <div className="inline-flex rounded-lg border border-glass-border p-0.5" role="group" aria-label="Teaser points">
+          {TEASER_POINTS.map((p) => (
+            <button
+              key={p}
+              onClick={() => setPoints(p)}
+              aria-pressed={points === p}
+              className={cn(
+                "px-2.5 py-1 rounded-md text-caption-2 font-semibold transition-colors",
+                points === p ? "bg-accent/10 text-accent" : "text-content-tertiary hover:text-content-secondary",
+              )}
+            >
+              {p} pts
+            </button>
+          ))}
+        </div>
+        {loading && <Loader2 size={12} className="animate-spin text-content-tertiary" />}
+      </div>
+
+      {selections.length > eligible.length && (
+        <p className="text-caption-2 text-content-tertiary">
+          {selections.length - eligible.length} selection(s) skipped: teasers take full-game NFL / NBA spreads only.
+        </p>
+      )}
+
+      {/* Legs */}
+      <ul className="space-y-1.5">
+        {legs.map(({ selection, analysis }) => (
+          <li key={selection.id} className="p-2.5 rounded-xl bg-surface-secondary/40 border border-glass-border">
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-body-sm font-bold text-content-primary truncate">{selection.label}</p>
+              <p className="font-mono text-body-sm font-bold tabular-nums text-accent whitespace-nowrap">
+                {fmtLine(analysis.line)} → {fmtLine(analysis.teasedLine)}
+              </p>
+            </div>
+            <div className="mt-1 flex items-center justify-between gap-2 text-caption-2">
+              <div className="flex items-center gap-1">
+                {analysis.crossed.length > 0 ? (
+                  analysis.crossed.map((k) => (
+                    <span key={k} className="px-1.5 py-0.5 rounded-md bg-accent/10 text-accent font-mono">
+                      {k}
+                    </span>
+                  ))
+                ) : (
+                  <span className="text-content-tertiary">No key numbers</span>
+                )}
+                {analysis.isWong && (
+                  <span className="px-1.5 py-0.5 rounded-md bg-semantic-success/15 text-semantic-success font-semibold">
+                    Wong
+                  </span>
+                )}
+              </div>
+              <span className="font-mono tabular-nums text-content-secondary">
+                cover {analysis.coverRate !== null ? fmtPct(analysis.coverRate) : "—"}
+                {analysis.pushRate > 0 && ` · push ${fmtPct(analysis.pushRate)}`}
+              </span>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {/* Key number history */}
+      {leagues.map((league) => {
+        const distribution = distributions[league];
+        const keys = TEASER_KEY_NUMBERS[league];
+        if (!distribution || keys.length === 0) return null;
+        return (
+          <div key={league} className="p-2.5 rounded-xl border border-glass-border">
+            <p className="mb-1.5 text-caption-2 font-bold uppercase tracking-wide text-content-tertiary">
+              {league} final margins ({distribution.sample} games)
+            </p>
+            <div className="flex gap-3 text-caption-2">
+              {keys.map((k) => (
+                <span key={k} className="font-mono tabular-nums text-content-secondary">
+                  <span className="text-content-primary font-semibold">{k}</span> {fmtPct(landingRate(distribution, k))}
+                </span>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+      {error && <p className="text-caption-2 text-semantic-error">Game history unavailable.</p>}
+
+      {/* Ticket */}
+      <div className="flex items-center gap-2">
+        <label className="flex items-center gap-2 px-2.5 py-1.5 rounded-lg bg-surface-primary border border-glass-border focus-within:ring-2 focus-within:ring-accent">
+          <span className="text-caption-2 text-content-tertiary whitespace-nowrap">Price</span>
+          <input
+            type="text"
+            inputMode="numeric"
+            value={priceInput}
+            onChange={(e) => setPriceInput(e.target.value)}
+            placeholder="-110"
+            className="w-16 bg-transparent text-body-sm font-mono text-content-primary focus:outline-none"
+            aria-label="Offered teaser price"
+          />
+        </label>
+        {pricing && (
+          <div className="flex-1 grid grid-cols-2 gap-2 text-center">
+            <div>
+              <p className="text-caption-2 text-content-tertiary uppercase tracking-wide">Breakeven</p>
+              <p className="font-mono text-caption-1 font-bold tabular-nums text-content-primary">
+                {fmtPct(pricing.breakevenLeg)}/leg
+              </p>
+            </div>
+            <div>
+              <p className="text-caption-2 text-content-tertiary uppercase tracking-wide">EV</p>
+              <p
+                className={cn(
+                  "font-mono text-caption-1 font-bold tabular-nums",
+                  pricing.ev === null
+                    ? "text-content-tertiary"
+                    : pricing.ev >= 0
+                      ? "text-semantic-success"
+                      : "text-semantic-error",
+                )}
+              >
+                {pricing.ev !== null ? `${pricing.ev >= 0 ? "+" : ""}${pricing.ev.toFixed(1)}%` : "—"}
+              </p>
+            </div>
+          </div>
+        )}
+      </div>
+      {pricing && (
+        <p className="text-caption-2 text-content-tertiary">
+          {legs.length}-leg {points}-pt teaser at {fmtOdds(pricing.odds)}
+          {pricing.winRate !== null && ` · est. ticket win rate ${fmtPct(pricing.winRate)}`}
+          {pricing.pushRate !== null && pricing.pushRate > 0 && ` · regraded on a push ${fmtPct(pricing.pushRate)}`}
+        </p>
+      )}
+    </div>
+  );
+};
+
+TeaserCalculator.displayName = "TeaserCalculator";
+
+export default TeaserCalculator;
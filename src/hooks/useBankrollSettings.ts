@@ -0,0 +1,157 @@
+/**
+ * @hook useBankrollSettings
+ * @description Per-user bankroll model (bankroll, unit size, staking strategy) used for stake sizing
+ *
+ * @metanotes {
+ *   "persistence": "Signed-in users read/write public.user_settings; signed-out users fall back to localStorage",
+ *   "defaults": "Missing columns resolve to DEFAULT_BANKROLL_SETTINGS (capped quarter-Kelly, 3% cap)"
+ * }
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { DEFAULT_BANKROLL_SETTINGS, type BankrollSettings, type StakingStrategy } from '@/utils/bettingMath';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface SettingsRow {
+  bankroll: number | null;
+  unit_size: number | null;
+  staking_strategy: string | null;
+  kelly_fraction: number | null;
+  max_stake_pct: number | null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────
+
+const STORAGE_KEY = 'bankrollSettings';
+
+const STRATEGIES: StakingStrategy[] = ['flat', 'kelly', 'fractional_kelly', 'capped_kelly'];
+
+const SETTINGS_SELECT = 'bankroll, unit_size, staking_strategy, kelly_fraction, max_stake_pct';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// UTILITIES
+// ─────────────────────────────────────────────────────────────────────────────
+
+const positiveOr = (value: unknown, fallback: number): number => {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+};
+
+const normalizeSettings = (raw: Partial<BankrollSettings>): BankrollSettings => ({
+  bankroll: positiveOr(raw.bankroll, DEFAULT_BANKROLL_SETTINGS.bankroll),
+  unitSize: positiveOr(raw.unitSize, DEFAULT_BANKROLL_SETTINGS.unitSize),
+  strategy: STRATEGIES.includes(raw.strategy as StakingStrategy)
+    ? (raw.strategy as StakingStrategy)
+    : DEFAULT_BANKROLL_SETTINGS.strategy,
+  kellyFraction: Math.min(1, positiveOr(raw.kellyFraction, DEFAULT_BANKROLL_SETTINGS.kellyFraction)),
+  maxStakePct: Math.min(100, positiveOr(raw.maxStakePct, DEFAULT_BANKROLL_SETTINGS.maxStakePct)),
+});
+
+const mapSettingsRow = (row: SettingsRow): BankrollSettings =>
+  normalizeSettings({
+    bankroll: row.bankroll ?? undefined,
+    unitSize: row.unit_size ?? undefined,
+    strategy: (row.staking_strategy ?? undefined) as StakingStrategy | undefined,
+    kellyFraction: row.kelly_fraction ?? undefined,
+    maxStakePct: row.max_stake_pct ?? undefined,
+  });
+
+const loadStoredSettings = (): BankrollSettings => {
+  if (typeof window === 'undefined') return DEFAULT_BANKROLL_SETTINGS;
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? normalizeSettings(JSON.parse(raw)) : DEFAULT_BANKROLL_SETTINGS;
+  } catch {
+    return DEFAULT_BANKROLL_SETTINGS;
+  }
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// HOOK
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const useBankrollSettings = () => {
+  const [settings, setSettings] = useState<BankrollSettings>(loadStoredSettings);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSettings = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) {
+        setSettings(loadStoredSettings());
+        return;
+      }
+
+      const { data, error: queryError } = await supabase
+        .from('user_settings')
+        .select(SETTINGS_SELECT)
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (queryError) throw queryError;
+      if (data) setSettings(mapSettingsRow(data as SettingsRow));
+    } catch (err) {
+      console.error('[useBankrollSettings] Error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load bankroll settings');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSettings();
+  }, [fetchSettings]);
+
+  const saveSettings = useCallback(
+    async (patch: Partial<BankrollSettings>): Promise<boolean> => {
+      const next = normalizeSettings({ ...settings, ...patch });
+      setSettings(next);
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+
+      try {
+        setError(null);
+        const {
+          data: { user },
+        } = await supabase.auth.getUser();
+        if (!user) return true;
+
+        const { error: upsertError } = await supabase.from('user_settings').upsert(
+          {
+            user_id: user.id,
+            bankroll: next.bankroll,
+            unit_size: next.unitSize,
+            staking_strategy: next.strategy,
+            kelly_fraction: next.kellyFraction,
+            max_stake_pct: next.maxStakePct,
+            updated_at: new Date().toISOString(),
+          },
+          { onConflict: 'user_id' },
+        );
+
+        if (upsertError) throw upsertError;
+        return true;
+      } catch (err) {
+        console.error('[useBankrollSettings] Save failed:', err);
+        setError(err instanceof Error ? err.message : 'Failed to save bankroll settings');
+        return false;
+      }
+    },
+    [settings],
+  );
+
+  return { settings, loading, error, saveSettings, refetch: fetchSettings };
+};
+
+export default useBankrollSettings;
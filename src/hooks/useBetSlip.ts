@@ -0,0 +1,241 @@
+/**
+ * @hook useBetSlip
+ * @description Bet slip state (staged selections + stakes) and the per-user wager ledger
+ *
+ * @metanotes {
+ *   "persistence": "Slip survives reloads via localStorage; placed bets go to public.wagers",
+ *   "settlement": "grade-picks settles full-game wagers (status + profit) once the game is final",
+ *   "security": "wagers is owner-only under RLS (auth.uid() = user_id)",
+ *   "pricing": "Price is captured at click time; re-clicking an outcome removes it"
+ * }
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { calculateToWin } from '@/utils/bettingMath';
+import type { BetSlipSelection, Wager, BetSide, League, PeriodScope, WagerStatus } from '@/types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type NewSelection = Omit<BetSlipSelection, 'id' | 'stake'>;
+
+interface WagerRow {
+  id: string;
+  game_id: string;
+  league: League;
+  market_type: string;
+  period: string;
+  side: string;
+  selection: string;
+  line: number | null;
+  odds: number;
+  book: string;
+  stake: number;
+  to_win: number;
+  status: string;
+  profit: number | null;
+  created_at: string;
+  settled_at: string | null;
+}
+
+interface PlaceResult {
+  placed: number;
+  error: string | null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────
+
+const STORAGE_KEY = 'betSlipSelections';
+const DEFAULT_STAKE = 100;
+const LEDGER_LIMIT = 50;
+
+const WAGER_SELECT =
+  'id, game_id, league, market_type, period, side, selection, line, odds, book, stake, to_win, status, profit, created_at, settled_at';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// UTILITIES
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Full-game ids keep their original shape so stored slips still match
+export const getSelectionId = (gameId: string, market: string, side: BetSide, period: PeriodScope = 'game'): string =>
+  period === 'game' ? `${gameId}:${market}:${side}` : `${gameId}:${period}:${market}:${side}`;
+
+const loadStoredSelections = (): BetSlipSelection[] => {
+  if (typeof window === 'undefined') return [];
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+const mapWagerRow = (row: WagerRow): Wager => ({
+  id: row.id,
+  gameId: row.game_id,
+  league: row.league,
+  market: row.market_type,
+  period: row.period as PeriodScope,
+  side: row.side as BetSide,
+  selection: row.selection,
+  line: row.line,
+  odds: row.odds,
+  book: row.book,
+  stake: Number(row.stake),
+  toWin: Number(row.to_win),
+  status: row.status as WagerStatus,
+  profit: row.profit === null ? null : Number(row.profit),
+  createdAt: row.created_at,
+  settledAt: row.settled_at,
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// HOOK
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const useBetSlip = () => {
+  const [selections, setSelections] = useState<BetSlipSelection[]>(loadStoredSelections);
+  const [wagers, setWagers] = useState<Wager[]>([]);
+  const [isPlacing, setIsPlacing] = useState(false);
+  const [isLoadingLedger, setIsLoadingLedger] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Persist slip on every change
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(selections));
+  }, [selections]);
+
+  // ─────────────────────────────────────────────────────────────────────
+  // Slip mutations
+  // ─────────────────────────────────────────────────────────────────────
+
+  const toggleSelection = useCallback((selection: NewSelection) => {
+    const id = getSelectionId(selection.gameId, selection.market, selection.side, selection.period);
+    setSelections((prev) => {
+      if (prev.some((s) => s.id === id)) return prev.filter((s) => s.id !== id);
+      return [...prev, { ...selection, id, stake: DEFAULT_STAKE }];
+    });
+  }, []);
+
+  const updateStake = useCallback((id: string, stake: number) => {
+    setSelections((prev) =>
+      prev.map((s) => (s.id === id ? { ...s, stake: Number.isFinite(stake) && stake > 0 ? stake : 0 } : s)),
+    );
+  }, []);
+
+  const removeSelection = useCallback((id: string) => {
+    setSelections((prev) => prev.filter((s) => s.id !== id));
+  }, []);
+
+  const clearSlip = useCallback(() => setSelections([]), []);
+
+  // ─────────────────────────────────────────────────────────────────────
+  // Ledger
+  // ─────────────────────────────────────────────────────────────────────
+
+  const fetchWagers = useCallback(async () => {
+    try {
+      setIsLoadingLedger(true);
+      const { data, error: queryError } = await supabase
+        .from('wagers')
+        .select(WAGER_SELECT)
+        .order('created_at', { ascending: false })
+        .limit(LEDGER_LIMIT);
+
+      if (queryError) throw queryError;
+      setWagers((data || []).map((row) => mapWagerRow(row as WagerRow)));
+    } catch (err) {
+      console.error('[useBetSlip] Ledger fetch failed:', err);
+    } finally {
+      setIsLoadingLedger(false);
+    }
+  }, []);
+
+  const placeBets = useCallback(async (): Promise<PlaceResult> => {
+    const valid = selections.filter((s) => s.stake > 0 && s.odds !== 0);
+    if (valid.length === 0) return { placed: 0, error: 'Enter a stake to place a bet.' };
+
+    try {
+      setIsPlacing(true);
+      setError(null);
+
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) throw new Error('Sign in to place bets.');
+
+      const rows = valid.map((s) => ({
+        user_id: user.id,
+        game_id: s.gameId,
+        league: s.league,
+        market_type: s.market,
+        period: s.period ?? 'game',
+        side: s.side,
+        selection: s.label,
+        line: s.line,
+        odds: s.odds,
+        book: s.book,
+        stake: s.stake,
+        to_win: calculateToWin(s.stake, s.odds),
+        game_start: s.gameStart ? new Date(s.gameStart).toISOString() : null,
+      }));
+
+      const { data, error: insertError } = await supabase.from('wagers').insert(rows).select(WAGER_SELECT);
+      if (insertError) throw insertError;
+
+      const placedIds = new Set(valid.map((s) => s.id));
+      setSelections((prev) => prev.filter((s) => !placedIds.has(s.id)));
+      setWagers((prev) => [...(data || []).map((row) => mapWagerRow(row as WagerRow)), ...prev]);
+
+      return { placed: rows.length, error: null };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to place bets';
+      console.error('[useBetSlip] Place failed:', message);
+      setError(message);
+      return { placed: 0, error: message };
+    } finally {
+      setIsPlacing(false);
+    }
+  }, [selections]);
+
+  // ─────────────────────────────────────────────────────────────────────
+  // Derived totals
+  // ─────────────────────────────────────────────────────────────────────
+
+  const totals = useMemo(
+    () =>
+      selections.reduce(
+        (acc, s) => ({
+          stake: acc.stake + s.stake,
+          toWin: acc.toWin + calculateToWin(s.stake, s.odds),
+        }),
+        { stake: 0, toWin: 0 },
+      ),
+    [selections],
+  );
+
+  const selectedIds = useMemo(() => new Set(selections.map((s) => s.id)), [selections]);
+
+  return {
+    selections,
+    selectedIds,
+    totals,
+    wagers,
+    isPlacing,
+    isLoadingLedger,
+    error,
+    toggleSelection,
+    updateStake,
+    removeSelection,
+    clearSlip,
+    placeBets,
+    fetchWagers,
+  };
+};
+
+export default useBetSlip;
@@ -67,6 +67,12 @@ const LEAGUE_TO_SPORT = {
   NHL: 'NHL',
   NFL: 'NFL', 
   NBA: 'NBA',
+  MLB: 'MLB',
+  NCAAF: 'NCAAF',
+  NCAAB: 'NCAAB',
+  EPL: 'EPL',
+  MLS: 'MLS',
+  UCL: 'UCL',
 } as const;
 
 /**
@@ -76,8 +82,19 @@ const LEAGUE_TO_TABLE: Record<League, string> = {
   NHL: 'nhl_games', // Note: You may need to create this table
   NFL: 'nfl_games',
   NBA: 'nba_games',
+  MLB: 'mlb_games',
+  NCAAF: 'ncaaf_games',
+  NCAAB: 'ncaab_games',
+  EPL: 'soccer_games',
+  MLS: 'soccer_games',
+  UCL: 'soccer_games',
 };
 
+const SOCCER_IMAGES = [
+  'https://images.unsplash.com/photo-1574629810360-7efbbe195018?q=80&w=600&auto=format&fit=crop',
+  'https://images.unsplash.com/photo-1431324155629-1a6deb1dec8d?q=80&w=600&auto=format&fit=crop',
+] as const;
+
 /**
  * Sport-specific placeholder images
  */
@@ -99,6 +116,21 @@ const LEAGUE_IMAGES: Record<League, readonly string[]> = {
     'https://images.unsplash.com/photo-1519861531473-920026393112?q=80&w=600&auto=format&fit=crop',
     'https://images.unsplash.com/photo-1546519638-68e109498ffc?q=80&w=600&auto=format&fit=crop',
   ],
+  MLB: [
+    'https://images.unsplash.com/photo-1508344928928-7165b67de128?q=80&w=600&auto=format&fit=crop',
+    'https://images.unsplash.com/photo-1529768167801-9173d94c2a42?q=80&w=600&auto=format&fit=crop',
+  ],
+  NCAAF: [
+    'https://images.unsplash.com/photo-1566577739112-5180d4bf9390?q=80&w=600&auto=format&fit=crop',
+    'https://images.unsplash.com/photo-1518605348400-43ded60bdf08?q=80&w=600&auto=format&fit=crop',
+  ],
+  NCAAB: [
+    'https://images.unsplash.com/photo-1519861531473-920026393112?q=80&w=600&auto=format&fit=crop',
+    'https://images.unsplash.com/photo-1546519638-68e109498ffc?q=80&w=600&auto=format&fit=crop',
+  ],
+  EPL: SOCCER_IMAGES,
+  MLS: SOCCER_IMAGES,
+  UCL: SOCCER_IMAGES,
 } as const;
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -206,6 +238,30 @@ export const useFeaturedPicks = (league: League) => {
             .select('game_id, away_team, home_team, game_date, start_time')
             .in('game_id', gameIds);
           if (!error && data) gamesData = data;
+        } else if (league === 'MLB') {
+          const { data, error } = await supabase
+            .from('mlb_games')
+            .select('game_id, away_team, home_team, game_date, start_time')
+            .in('game_id', gameIds);
+          if (!error && data) gamesData = data;
+        } else if (league === 'NCAAF') {
+          const { data, error } = await supabase
+            .from('ncaaf_games')
+            .select('game_id, away_team, home_team, game_date, start_time')
+            .in('game_id', gameIds);
+          if (!error && data) gamesData = data;
+        } else if (league === 'NCAAB') {
+          const { data, error } = await supabase
+            .from('ncaab_games')
+            .select('game_id, away_team, home_team, game_date, start_time')
+            .in('game_id', gameIds);
+          if (!error && data) gamesData = data;
+        } else if (league === 'EPL' || league === 'MLS' || league === 'UCL') {
+          const { data, error } = await supabase
+            .from('soccer_games')
+            .select('game_id, away_team, home_team, game_date, start_time')
+            .in('game_id', gameIds);
+          if (!error && data) gamesData = data;
         }
         // NHL table may not exist yet - falls through to empty gamesMap
 
@@ -0,0 +1,76 @@
+/**
+ * @hook useGameMarkets
+ * @description Loads one game's derivative markets and overlays them on its board odds
+ *
+ * @metanotes {
+ *   "data_source": "fetch-odds single-event mode (Odds API per-event odds, one hit per market)",
+ *   "trigger": "Only when enabled (period toggle or alt lines opened), once per game",
+ *   "merge": "Board lines stay live from the schedule poll; derivatives keep their load-time prices"
+ * }
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { fetchGameMarkets } from '@/services/nhlAi';
+import type { League, MarketData } from '@/types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface UseGameMarketsOptions {
+  enabled?: boolean;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// HOOK
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const useGameMarkets = (
+  gameId: string,
+  league: League,
+  boardOdds: Record<string, MarketData>,
+  options: UseGameMarketsOptions = {},
+) => {
+  const { enabled = true } = options;
+
+  const [derivatives, setDerivatives] = useState<Record<string, Partial<MarketData>> | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchMarkets = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setDerivatives(await fetchGameMarkets(gameId, league));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to load game markets';
+      console.error('[useGameMarkets] Error:', message);
+      setError(message);
+      setDerivatives({});
+    } finally {
+      setLoading(false);
+    }
+  }, [gameId, league]);
+
+  useEffect(() => {
+    if (enabled && derivatives === null) fetchMarkets();
+  }, [enabled, derivatives, fetchMarkets]);
+
+  const odds = useMemo(
+    () =>
+      derivatives
+        ? Object.fromEntries(Object.entries(boardOdds).map(([book, data]) => [book, { ...data, ...derivatives[book] }]))
+        : boardOdds,
+    [boardOdds, derivatives],
+  );
+
+  return {
+    odds,
+    loaded: derivatives !== null,
+    loading,
+    error,
+    refetch: fetchMarkets,
+  };
+};
+
+export default useGameMarkets;
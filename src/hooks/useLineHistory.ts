@@ -0,0 +1,84 @@
+/**
+ * @hook useLineHistory
+ * @description Loads a game's line movement series from the get-line-history edge function
+ *
+ * @metanotes {
+ *   "data_source": "line_snapshots (appended by fetch-odds, ~5 min spacing per game)",
+ *   "perspective": "Spread and moneylines are home-side; series is oldest → newest",
+ *   "book": "Requested book if it has snapshots, else first preferred book"
+ * }
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { LineMovement } from '@/types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface UseLineHistoryOptions {
+  enabled?: boolean;
+  book?: string;
+}
+
+interface LineHistoryResponse {
+  gameId: string;
+  book: string | null;
+  books: string[];
+  series: LineMovement[];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// HOOK
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const useLineHistory = (gameId: string | undefined, options: UseLineHistoryOptions = {}) => {
+  const { enabled = true, book } = options;
+
+  const [history, setHistory] = useState<LineMovement[]>([]);
+  const [selectedBook, setSelectedBook] = useState<string | null>(null);
+  const [books, setBooks] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchHistory = useCallback(async () => {
+    if (!gameId) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { data, error: invokeError } = await supabase.functions.invoke<LineHistoryResponse>('get-line-history', {
+        body: { gameId, book },
+      });
+      if (invokeError) throw invokeError;
+
+      setHistory(data?.series ?? []);
+      setSelectedBook(data?.book ?? null);
+      setBooks(data?.books ?? []);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to load line history';
+      console.error('[useLineHistory] Error:', message);
+      setError(message);
+      setHistory([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [gameId, book]);
+
+  useEffect(() => {
+    if (enabled) fetchHistory();
+  }, [enabled, fetchHistory]);
+
+  return {
+    history,
+    book: selectedBook,
+    books,
+    loading,
+    error,
+    refetch: fetchHistory,
+  };
+};
+
+export default useLineHistory;
@@ -66,6 +66,12 @@ const LEAGUE_TO_ESPN_SPORT: Record<League, string> = {
   NFL: 'football/nfl',
   NBA: 'basketball/nba',
   NHL: 'hockey/nhl',
+  MLB: 'baseball/mlb',
+  NCAAF: 'football/college-football',
+  NCAAB: 'basketball/mens-college-basketball',
+  EPL: 'soccer/eng.1',
+  MLS: 'soccer/usa.1',
+  UCL: 'soccer/uefa.champions',
 };
 
 const ESPN_BASE_URL = 'https://site.api.espn.com/apis/site/v2/sports';
@@ -185,13 +191,20 @@ function getPeriodDisplay(league: League, period: number, status: GameStatus): s
   if (status === 'postponed') return 'Postponed';
   if (status === 'delayed') return 'Delayed';
 
+  const soccer = { 1: '1H', 2: '2H', 3: 'ET1', 4: 'ET2', 5: 'PKs' };
   const labels: Record<League, Record<number, string>> = {
     NFL: { 1: '1st', 2: '2nd', 3: '3rd', 4: '4th', 5: 'OT' },
     NBA: { 1: '1st', 2: '2nd', 3: '3rd', 4: '4th', 5: 'OT', 6: '2OT', 7: '3OT' },
     NHL: { 1: '1st', 2: '2nd', 3: '3rd', 4: 'OT', 5: 'SO' },
+    MLB: { 1: '1st', 2: '2nd', 3: '3rd', 4: '4th', 5: '5th', 6: '6th', 7: '7th', 8: '8th', 9: '9th' },
+    NCAAF: { 1: '1st', 2: '2nd', 3: '3rd', 4: '4th', 5: 'OT' },
+    NCAAB: { 1: '1H', 2: '2H', 3: 'OT', 4: '2OT' },
+    EPL: soccer,
+    MLS: soccer,
+    UCL: soccer,
   };
 
-  return labels[league]?.[period] || `P${period}`;
+  return labels[league]?.[period] || (league === 'MLB' ? `${period}th` : `P${period}`);
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
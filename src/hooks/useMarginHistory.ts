@@ -0,0 +1,145 @@
+/**
+ * @hook useMarginHistory
+ * @description Final-margin distributions for NFL / NBA from graded game results (teaser key-number analysis)
+ *
+ * @metanotes {
+ *   "data_source": "nfl_games / nba_games rows with final status and both scores, favourite from betting_lines_history",
+ *   "shape": "bettingMath.MarginDistribution per league (favourite − underdog margin → share of games)"
+ * }
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { marginDistribution, type MarginDistribution } from '@/utils/bettingMath';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type TeaserLeague = 'NFL' | 'NBA';
+
+interface ScoreRow {
+  game_id: string;
+  home_score: number | null;
+  away_score: number | null;
+  status: string | null;
+}
+
+interface SpreadRow {
+  game_id: string;
+  open_spread_home: number | null;
+  current_spread_home: number | null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────
+
+const LEAGUE_TABLES: Record<TeaserLeague, 'nfl_games' | 'nba_games'> = {
+  NFL: 'nfl_games',
+  NBA: 'nba_games',
+};
+
+// Same final-status test grade-picks uses
+const FINAL_STATUS_PATTERN = /final|post|completed|closed/i;
+
+const HISTORY_LIMIT = 3000;
+const PAGE_SIZE = 1000; // PostgREST caps a single select at 1000 rows
+const GAME_ID_CHUNK = 100; // Keeps `.in()` filters well inside URL length limits
+
+// ─────────────────────────────────────────────────────────────────────────────
+// HELPERS
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Final scores for a league, newest first, paged up to HISTORY_LIMIT rows.
+ */
+const loadFinalScores = async (league: TeaserLeague): Promise<ScoreRow[]> => {
+  const rows: ScoreRow[] = [];
+
+  for (let from = 0; from < HISTORY_LIMIT; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(LEAGUE_TABLES[league])
+      .select('game_id, home_score, away_score, status')
+      .not('home_score', 'is', null)
+      .not('away_score', 'is', null)
+      .order('start_time', { ascending: false })
+      .range(from, Math.min(from + PAGE_SIZE, HISTORY_LIMIT) - 1);
+
+    if (error) throw error;
+
+    rows.push(...((data || []) as ScoreRow[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return rows;
+};
+
+/**
+ * Home spread per game: the latest closing spread, else the opener. Games the board never
+ * priced are missing from the map.
+ */
+const loadHomeSpreads = async (gameIds: string[]): Promise<Map<string, number>> => {
+  const spreads = new Map<string, number>();
+
+  for (let i = 0; i < gameIds.length; i += GAME_ID_CHUNK) {
+    const { data, error } = await supabase
+      .from('betting_lines_history')
+      .select('game_id, open_spread_home, current_spread_home')
+      .in('game_id', gameIds.slice(i, i + GAME_ID_CHUNK))
+      .order('last_updated', { ascending: false });
+
+    if (error) throw error;
+
+    ((data || []) as SpreadRow[]).forEach((row) => {
+      const spread = row.current_spread_home ?? row.open_spread_home;
+      if (spread !== null && !spreads.has(row.game_id)) spreads.set(row.game_id, spread);
+    });
+  }
+
+  return spreads;
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// HOOK
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const useMarginHistory = (enabled = true) => {
+  const [distributions, setDistributions] = useState<Partial<Record<TeaserLeague, MarginDistribution>>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchHistory = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const results = await Promise.all(
+        (Object.keys(LEAGUE_TABLES) as TeaserLeague[]).map(async (league) => {
+          const finals = (await loadFinalScores(league)).filter((r) => FINAL_STATUS_PATTERN.test(r.status || ''));
+          const spreads = await loadHomeSpreads(finals.map((r) => r.game_id));
+          const results = finals
+            .filter((r) => spreads.has(r.game_id))
+            .map((r) => ({ homeScore: r.home_score!, awayScore: r.away_score!, homeSpread: spreads.get(r.game_id)! }));
+
+          return [league, marginDistribution(results)] as const;
+        }),
+      );
+
+      setDistributions(Object.fromEntries(results));
+    } catch (err) {
+      console.error('[useMarginHistory] Error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load game history');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (enabled) fetchHistory();
+  }, [enabled, fetchHistory]);
+
+  return { distributions, loading, error, refetch: fetchHistory };
+};
+
+export default useMarginHistory;
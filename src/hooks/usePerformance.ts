@@ -0,0 +1,402 @@
+/**
+ * @hook usePerformance
+ * @description Aggregates graded AI picks into record, units, ROI, CLV and calibration buckets
+ *
+ * @metanotes {
+ *   "schema_dependency": "analysis_memory.result / units_won populated by grade-picks",
+ *   "joins": "League game tables for final scores; betting_lines_history and team_aliases only for picks without a captured close",
+ *   "units": "Flat 1-unit risk per pick"
+ * }
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { impliedProbability, removeVig } from '@/utils/bettingMath';
+import type { League } from '@/types';
+import { matchesTeam, type ResolvedTeam, type TeamIndex } from '@shared/teamMatch.ts';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type PerformanceLeague = League | 'ALL';
+export type PerformanceMarket = 'all' | 'moneyline' | 'spread' | 'total';
+export type PerformanceRange = '7d' | '30d' | '90d' | 'all';
+
+export interface PerformanceFilters {
+  league: PerformanceLeague;
+  market: PerformanceMarket;
+  range: PerformanceRange;
+}
+
+export interface GradedPick {
+  id: string;
+  gameId: string;
+  league: League;
+  market: string;
+  pickSide: string;
+  confidence: number;
+  odds: number | null;
+  result: 'win' | 'loss' | 'push' | 'half_win' | 'half_loss'; // Half results: Asian handicap quarter lines
+  unitsWon: number;
+  createdAt: string;
+  matchup: string | null;
+  finalScore: string | null;
+  closingOdds: number | null;
+  clv: number | null; // Percentage points of implied probability gained vs close
+}
+
+export interface PerformanceSummary {
+  wins: number;
+  losses: number;
+  pushes: number;
+  units: number;
+  roi: number; // %
+  hitRate: number; // %, pushes excluded
+  avgClv: number | null; // pp
+  clvSample: number;
+}
+
+export interface CalibrationBucket {
+  label: string;
+  lower: number;
+  upper: number;
+  count: number;
+  expected: number; // mean confidence (0-100)
+  actual: number | null; // win rate (0-100), pushes excluded
+}
+
+interface MemoryRow {
+  id: string;
+  game_id: string;
+  sport: League;
+  market_type: string;
+  pick_side: string;
+  confidence_score: number;
+  odds_at_generation: number | null;
+  closing_odds: number | null;
+  clv_prob: number | null;
+  result: string | null;
+  units_won: number | null;
+  created_at: string;
+}
+
+interface GameRow {
+  game_id: string;
+  away_team: string;
+  home_team: string;
+  away_score: number | null;
+  home_score: number | null;
+}
+
+interface LinesRow {
+  game_id: string;
+  current_moneyline_home: number | null;
+  current_moneyline_away: number | null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────
+
+const RANGE_DAYS: Record<PerformanceRange, number | null> = {
+  '7d': 7,
+  '30d': 30,
+  '90d': 90,
+  all: null,
+};
+
+const LEAGUE_TABLES: Record<
+  League,
+  'nfl_games' | 'nba_games' | 'nhl_games' | 'mlb_games' | 'ncaaf_games' | 'ncaab_games' | 'soccer_games'
+> = {
+  NFL: 'nfl_games',
+  NBA: 'nba_games',
+  NHL: 'nhl_games',
+  MLB: 'mlb_games',
+  NCAAF: 'ncaaf_games',
+  NCAAB: 'ncaab_games',
+  EPL: 'soccer_games',
+  MLS: 'soccer_games',
+  UCL: 'soccer_games',
+};
+
+// 10-point confidence buckets; model rarely emits < 50
+const BUCKET_EDGES = [50, 60, 70, 80, 90, 101];
+
+const PAGE_SIZE = 1000; // PostgREST caps a single select (college basketball alone has ~1,000 aliases)
+const GAME_ID_CHUNK = 100; // game_ids per IN filter, to keep request URLs short
+
+// ─────────────────────────────────────────────────────────────────────────────
+// UTILITIES
+// ─────────────────────────────────────────────────────────────────────────────
+
+const chunk = <T>(items: T[], size: number): T[][] =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, i) => items.slice(i * size, (i + 1) * size));
+
+/**
+ * A league's team_aliases, paged the way the graders load them (loadTeamIndex in
+ * supabase/functions/_shared/teams.ts). Failures fall back to full-name matching.
+ */
+const loadTeamIndex = async (league: League): Promise<TeamIndex> => {
+  type TeamRow = { id: string; abbreviation: string; conference: string | null; logo_url: string | null };
+  const byAlias = new Map<string, ResolvedTeam>();
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('team_aliases')
+      .select('alias, teams!inner(id, abbreviation, conference, logo_url)')
+      .eq('league', league)
+      .order('alias')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      console.warn(`[usePerformance] ${league} alias query failed:`, error);
+      break;
+    }
+
+    const rows = (data || []) as unknown as { alias: string; teams: TeamRow | TeamRow[] | null }[];
+    rows.forEach((row) => {
+      const team = Array.isArray(row.teams) ? row.teams[0] : row.teams;
+      if (team) {
+        byAlias.set(row.alias, { id: team.id, abbreviation: team.abbreviation, conference: team.conference, logo: team.logo_url });
+      }
+    });
+
+    if (rows.length < PAGE_SIZE) break;
+  }
+
+  return { league, byAlias };
+};
+
+// Three-way moneylines: betting_lines_history has no draw price to take the vig out with
+const THREE_WAY_LEAGUES = new Set<League>(['EPL', 'MLS', 'UCL']);
+
+/**
+ * Moneyline CLV for picks without a captured close, on the same definition as clv_prob
+ * (capture-closing-lines): no-vig closing probability minus the break-even probability of the
+ * price taken. Positive = the market moved toward the pick after it was made. Null without
+ * the other side's close, since the vigged close alone overstates the side by half the margin.
+ */
+const computeClv = (taken: number | null, closing: number | null, opposite: number | null): number | null => {
+  if (!taken || !closing || !opposite) return null;
+  const [fair] = removeVig([closing, opposite]);
+  return (fair - impliedProbability(taken)) * 100;
+};
+
+// Half results count toward the record in their direction; units carry the exact P&L
+const isWin = (p: GradedPick) => p.result === 'win' || p.result === 'half_win';
+const isLoss = (p: GradedPick) => p.result === 'loss' || p.result === 'half_loss';
+
+export const summarize = (picks: GradedPick[]): PerformanceSummary => {
+  const wins = picks.filter(isWin).length;
+  const losses = picks.filter(isLoss).length;
+  const pushes = picks.filter((p) => p.result === 'push').length;
+  const units = picks.reduce((sum, p) => sum + p.unitsWon, 0);
+  const clvValues = picks.map((p) => p.clv).filter((v): v is number => v !== null);
+
+  return {
+    wins,
+    losses,
+    pushes,
+    units,
+    roi: picks.length > 0 ? (units / picks.length) * 100 : 0,
+    hitRate: wins + losses > 0 ? (wins / (wins + losses)) * 100 : 0,
+    avgClv: clvValues.length > 0 ? clvValues.reduce((a, b) => a + b, 0) / clvValues.length : null,
+    clvSample: clvValues.length,
+  };
+};
+
+export const buildCalibration = (picks: GradedPick[]): CalibrationBucket[] =>
+  BUCKET_EDGES.slice(0, -1).map((lower, i) => {
+    const upper = BUCKET_EDGES[i + 1];
+    const inBucket = picks.filter((p) => p.confidence >= lower && p.confidence < upper);
+    const decided = inBucket.filter((p) => p.result !== 'push');
+    const wins = decided.filter(isWin).length;
+
+    return {
+      label: `${lower}-${Math.min(upper - 1, 100)}`,
+      lower,
+      upper,
+      count: inBucket.length,
+      expected:
+        inBucket.length > 0 ? inBucket.reduce((sum, p) => sum + p.confidence, 0) / inBucket.length : (lower + upper) / 2,
+      actual: decided.length > 0 ? (wins / decided.length) * 100 : null,
+    };
+  });
+
+// ─────────────────────────────────────────────────────────────────────────────
+// HOOK
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const usePerformance = (filters: PerformanceFilters) => {
+  const [picks, setPicks] = useState<GradedPick[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPerformance = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      // ─────────────────────────────────────────────────────────────────────
+      // Step 1: Graded picks matching filters, paged so every range covers all of its picks
+      // ─────────────────────────────────────────────────────────────────────
+      const days = RANGE_DAYS[filters.range];
+      const since = days ? new Date(Date.now() - days * 86_400_000).toISOString() : null;
+      const rows: MemoryRow[] = [];
+
+      for (let from = 0; ; from += PAGE_SIZE) {
+        let query = supabase
+          .from('analysis_memory')
+          .select(
+            'id, game_id, sport, market_type, pick_side, confidence_score, odds_at_generation, closing_odds, clv_prob, result, units_won, created_at',
+          )
+          .not('result', 'is', null)
+          .neq('result', 'void') // Ungradable picks closed out by grade-picks
+          .order('created_at', { ascending: false })
+          .order('id', { ascending: true }) // Stable pages when picks share a timestamp
+          .range(from, from + PAGE_SIZE - 1);
+
+        if (filters.league !== 'ALL') query = query.eq('sport', filters.league);
+        if (filters.market !== 'all') query = query.eq('market_type', filters.market);
+        if (since) query = query.gte('created_at', since);
+
+        const { data: memoryData, error: memoryError } = await query;
+        if (memoryError) throw memoryError;
+
+        rows.push(...((memoryData || []) as MemoryRow[]));
+        if (!memoryData || memoryData.length < PAGE_SIZE) break;
+      }
+
+      if (rows.length === 0) {
+        setPicks([]);
+        return;
+      }
+
+      // ─────────────────────────────────────────────────────────────────────
+      // Step 2: Final scores from each league table
+      // ─────────────────────────────────────────────────────────────────────
+      const gamesMap = new Map<string, GameRow>();
+      const leagues = [...new Set(rows.map((r) => r.sport))];
+
+      await Promise.all(
+        leagues.flatMap((league) => {
+          const ids = [...new Set(rows.filter((r) => r.sport === league).map((r) => r.game_id))];
+          return chunk(ids, GAME_ID_CHUNK).map(async (idChunk) => {
+            const { data, error: gamesError } = await supabase
+              .from(LEAGUE_TABLES[league])
+              .select('game_id, away_team, home_team, away_score, home_score')
+              .in('game_id', idChunk);
+
+            if (gamesError) {
+              console.warn(`[usePerformance] ${league} games query failed:`, gamesError);
+              return;
+            }
+            (data || []).forEach((g) => gamesMap.set(g.game_id, g as GameRow));
+          });
+        }),
+      );
+
+      // ─────────────────────────────────────────────────────────────────────
+      // Step 3: Closing moneylines for CLV (legacy picks without a captured close), matched to a
+      // side through the league's team aliases
+      // ─────────────────────────────────────────────────────────────────────
+      const linesMap = new Map<string, LinesRow>();
+      const teamIndexes = new Map<League, TeamIndex>();
+      const legacyRows = rows.filter((r) => r.market_type === 'moneyline' && r.clv_prob === null);
+      const mlGameIds = [...new Set(legacyRows.map((r) => r.game_id))];
+
+      if (mlGameIds.length > 0) {
+        const indexes = await Promise.all([...new Set(legacyRows.map((r) => r.sport))].map(loadTeamIndex));
+        indexes.forEach((index) => teamIndexes.set(index.league, index));
+
+        for (const idChunk of chunk(mlGameIds, GAME_ID_CHUNK)) {
+          const { data: linesData, error: linesError } = await supabase
+            .from('betting_lines_history')
+            .select('game_id, current_moneyline_home, current_moneyline_away, last_updated')
+            .in('game_id', idChunk)
+            .order('last_updated', { ascending: false });
+
+          if (linesError) {
+            console.warn('[usePerformance] Closing lines query failed:', linesError);
+            continue;
+          }
+          (linesData || []).forEach((l) => {
+            if (!linesMap.has(l.game_id)) linesMap.set(l.game_id, l);
+          });
+        }
+      }
+
+      // ─────────────────────────────────────────────────────────────────────
+      // Step 4: Transform
+      // ─────────────────────────────────────────────────────────────────────
+      const graded: GradedPick[] = rows.map((row) => {
+        const game = gamesMap.get(row.game_id);
+        const lines = linesMap.get(row.game_id);
+
+        let closingOdds: number | null = row.closing_odds;
+        let oppositeOdds: number | null = null;
+        if (closingOdds === null && row.market_type === 'moneyline' && game && lines) {
+          const teams = teamIndexes.get(row.sport) ?? null;
+          const isHome = matchesTeam(teams, row.pick_side, game.home_team);
+          const isAway = matchesTeam(teams, row.pick_side, game.away_team);
+          // Ambiguous labels get no close rather than a guess
+          if (isHome && !isAway) {
+            closingOdds = lines.current_moneyline_home;
+            oppositeOdds = lines.current_moneyline_away;
+          } else if (isAway && !isHome) {
+            closingOdds = lines.current_moneyline_away;
+            oppositeOdds = lines.current_moneyline_home;
+          }
+        }
+
+        return {
+          id: row.id,
+          gameId: row.game_id,
+          league: row.sport,
+          market: row.market_type,
+          pickSide: row.pick_side,
+          confidence: row.confidence_score,
+          odds: row.odds_at_generation,
+          result: row.result as GradedPick['result'],
+          unitsWon: Number(row.units_won ?? 0),
+          createdAt: row.created_at,
+          matchup: game ? `${game.away_team} @ ${game.home_team}` : null,
+          finalScore: game && game.away_score != null ? `${game.away_score}-${game.home_score}` : null,
+          closingOdds,
+          clv:
+            row.clv_prob ??
+            (THREE_WAY_LEAGUES.has(row.sport) ? null : computeClv(row.odds_at_generation, closingOdds, oppositeOdds)),
+        };
+      });
+
+      setPicks(graded);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to load performance';
+      console.error('[usePerformance] Error:', message);
+      setError(message);
+      setPicks([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [filters.league, filters.market, filters.range]);
+
+  useEffect(() => {
+    fetchPerformance();
+  }, [fetchPerformance]);
+
+  const summary = useMemo(() => summarize(picks), [picks]);
+  const calibration = useMemo(() => buildCalibration(picks), [picks]);
+
+  return {
+    picks,
+    summary,
+    calibration,
+    loading,
+    error,
+    refetch: fetchPerformance,
+  };
+};
+
+export default usePerformance;
@@ -0,0 +1,186 @@
+/**
+ * @hook usePlayerProps
+ * @description Loads a game's player prop board from the fetch-props edge function
+ *
+ * @metanotes {
+ *   "data_source": "player_props (Odds API per-event odds, refreshed at most every 10 min)",
+ *   "shape": "One main line per book / market / player; anytime markets are Over/Under 0.5",
+ *   "grouping": "groupPropLines shops each side across books at the most common line"
+ * }
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { League, PlayerProp, PropMarket } from '@/types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface UsePlayerPropsOptions {
+  enabled?: boolean;
+}
+
+export interface PropQuote {
+  price: number;
+  book: string;
+}
+
+// A player's market across books: consensus line plus the best price per side at it
+export interface PropLine {
+  market: PropMarket;
+  player: string;
+  line: number;
+  over: PropQuote | null;
+  under: PropQuote | null;
+  books: number;
+}
+
+interface PropRow {
+  game_id: string;
+  book: string;
+  market: PropMarket;
+  player_name: string;
+  line: number;
+  over_price: number | null;
+  under_price: number | null;
+  updated_at: string;
+}
+
+interface PlayerPropsResponse {
+  gameId: string;
+  props: PropRow[];
+  updatedAt: string | null;
+  cached: boolean;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const PROP_MARKET_LABELS: Record<PropMarket, string> = {
+  player_points: 'Points',
+  player_rebounds: 'Rebounds',
+  player_assists: 'Assists',
+  player_pass_yds: 'Passing Yards',
+  player_rush_yds: 'Rushing Yards',
+  player_reception_yds: 'Receiving Yards',
+  player_anytime_td: 'Anytime TD',
+  player_shots_on_goal: 'Shots on Goal',
+  player_goal_scorer_anytime: 'Anytime Goal',
+  pitcher_strikeouts: 'Strikeouts',
+  batter_hits: 'Hits',
+  batter_total_bases: 'Total Bases',
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// UTILITIES
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const isAnytimeMarket = (market: PropMarket): boolean =>
+  market === 'player_anytime_td' || market === 'player_goal_scorer_anytime';
+
+const mapPropRow = (row: PropRow): PlayerProp => ({
+  gameId: row.game_id,
+  book: row.book,
+  market: row.market,
+  player: row.player_name,
+  line: Number(row.line),
+  overPrice: row.over_price,
+  underPrice: row.under_price,
+  updatedAt: row.updated_at,
+});
+
+const bestQuote = (props: PlayerProp[], side: 'overPrice' | 'underPrice'): PropQuote | null =>
+  props.reduce<PropQuote | null>((best, p) => {
+    const price = p[side];
+    return price !== null && (!best || price > best.price) ? { price, book: p.book } : best;
+  }, null);
+
+/**
+ * Collapse per-book props to one line per market / player, sorted by market then player.
+ */
+export const groupPropLines = (props: PlayerProp[]): PropLine[] => {
+  const groups = new Map<string, PlayerProp[]>();
+  props.forEach((p) => {
+    const key = `${p.market}|${p.player}`;
+    groups.set(key, [...(groups.get(key) || []), p]);
+  });
+
+  return [...groups.values()]
+    .map((quotes): PropLine => {
+      // Most common line wins; ties go to the lower number
+      const counts = new Map<number, number>();
+      quotes.forEach((q) => counts.set(q.line, (counts.get(q.line) || 0) + 1));
+      const line = [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0] - b[0])[0][0];
+      const atLine = quotes.filter((q) => q.line === line);
+
+      return {
+        market: quotes[0].market,
+        player: quotes[0].player,
+        line,
+        over: bestQuote(atLine, 'overPrice'),
+        under: bestQuote(atLine, 'underPrice'),
+        books: atLine.length,
+      };
+    })
+    .sort((a, b) => a.market.localeCompare(b.market) || a.player.localeCompare(b.player));
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// HOOK
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const usePlayerProps = (
+  gameId: string | undefined,
+  league: League | undefined,
+  options: UsePlayerPropsOptions = {},
+) => {
+  const { enabled = true } = options;
+
+  const [props, setProps] = useState<PlayerProp[]>([]);
+  const [updatedAt, setUpdatedAt] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchProps = useCallback(
+    async () => {
+      if (!gameId || !league) return;
+
+      try {
+        setLoading(true);
+        setError(null);
+
+        const { data, error: invokeError } = await supabase.functions.invoke<PlayerPropsResponse>('fetch-props', {
+          body: { gameId, league },
+        });
+        if (invokeError) throw invokeError;
+
+        setProps((data?.props ?? []).map(mapPropRow));
+        setUpdatedAt(data?.updatedAt ?? null);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to load player props';
+        console.error('[usePlayerProps] Error:', message);
+        setError(message);
+        setProps([]);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [gameId, league],
+  );
+
+  useEffect(() => {
+    if (enabled) fetchProps();
+  }, [enabled, fetchProps]);
+
+  return {
+    props,
+    updatedAt,
+    loading,
+    error,
+    refetch: fetchProps,
+  };
+};
+
+export default usePlayerProps;
@@ -656,45 +656,122 @@ export type Database = {
       }
       analysis_memory: {
         Row: {
+          book_at_generation: string | null
+          calibrated_probability: number | null
+          calibration_id: string | null
+          closing_book: string | null
+          closing_captured_at: string | null
+          closing_line: number | null
+          closing_odds: number | null
+          closing_opposite_odds: number | null
+          clv_line: number | null
+          clv_price: number | null
+          clv_prob: number | null
           confidence_score: number
           created_at: string
+          ensemble: Json | null
           game_id: string
+          graded_at: string | null
+          graded_line: number | null
           id: string
+          line_at_generation: number | null
           market_type: Database["public"]["Enums"]["betting_market_type"]
           odds_at_generation: number | null
+          pick_outcome: string | null
           pick_side: string
+          prop_market: string | null
+          prop_player: string | null
+          rationale: Json | null
+          raw_probability: number | null
           reasoning_embedding: string | null
           reasoning_text: string
+          result: string | null
+          result_margin: number | null
           sport: Database["public"]["Enums"]["sport_league"]
+          units_won: number | null
           updated_at: string
         }
         Insert: {
+          book_at_generation?: string | null
+          calibrated_probability?: number | null
+          calibration_id?: string | null
+          closing_book?: string | null
+          closing_captured_at?: string | null
+          closing_line?: number | null
+          closing_odds?: number | null
+          closing_opposite_odds?: number | null
+          clv_line?: number | null
+          clv_price?: number | null
+          clv_prob?: number | null
           confidence_score: number
           created_at?: string
+          ensemble?: Json | null
           game_id: string
+          graded_at?: string | null
+          graded_line?: number | null
           id?: string
+          line_at_generation?: number | null
           market_type: Database["public"]["Enums"]["betting_market_type"]
           odds_at_generation?: number | null
+          pick_outcome?: string | null
           pick_side: string
+          prop_market?: string | null
+          prop_player?: string | null
+          rationale?: Json | null
+          raw_probability?: number | null
           reasoning_embedding?: string | null
           reasoning_text: string
+          result?: string | null
+          result_margin?: number | null
           sport: Database["public"]["Enums"]["sport_league"]
+          units_won?: number | null
           updated_at?: string
         }
         Update: {
+          book_at_generation?: string | null
+          calibrated_probability?: number | null
+          calibration_id?: string | null
+          closing_book?: string | null
+          closing_captured_at?: string | null
+          closing_line?: number | null
+          closing_odds?: number | null
+          closing_opposite_odds?: number | null
+          clv_line?: number | null
+          clv_price?: number | null
+          clv_prob?: number | null
           confidence_score?: number
           created_at?: string
+          ensemble?: Json | null
           game_id?: string
+          graded_at?: string | null
+          graded_line?: number | null
           id?: string
+          line_at_generation?: number | null
           market_type?: Database["public"]["Enums"]["betting_market_type"]
           odds_at_generation?: number | null
+          pick_outcome?: string | null
           pick_side?: string
+          prop_market?: string | null
+          prop_player?: string | null
+          rationale?: Json | null
+          raw_probability?: number | null
           reasoning_embedding?: string | null
           reasoning_text?: string
+          result?: string | null
+          result_margin?: number | null
           sport?: Database["public"]["Enums"]["sport_league"]
+          units_won?: number | null
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "analysis_memory_calibration_id_fkey"
+            columns: ["calibration_id"]
+            isOneToOne: false
+            referencedRelation: "pick_calibrations"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       artifact_versions: {
         Row: {
@@ -853,6 +930,125 @@ export type Database = {
         }
         Relationships: []
       }
+      backtest_picks: {
+        Row: {
+          closing_line: number | null
+          closing_price: number | null
+          clv_line: number | null
+          clv_prob: number | null
+          confidence: number | null
+          created_at: string | null
+          error: string | null
+          game_date: string
+          game_id: string
+          id: string
+          line: number | null
+          market_type: string
+          pick_side: string | null
+          price: number | null
+          rationale: Json | null
+          reasoning: string | null
+          result: string | null
+          run_id: string
+          side: string | null
+          units_won: number | null
+        }
+        Insert: {
+          closing_line?: number | null
+          closing_price?: number | null
+          clv_line?: number | null
+          clv_prob?: number | null
+          confidence?: number | null
+          created_at?: string | null
+          error?: string | null
+          game_date: string
+          game_id: string
+          id?: string
+          line?: number | null
+          market_type: string
+          pick_side?: string | null
+          price?: number | null
+          rationale?: Json | null
+          reasoning?: string | null
+          result?: string | null
+          run_id: string
+          side?: string | null
+          units_won?: number | null
+        }
+        Update: {
+          closing_line?: number | null
+          closing_price?: number | null
+          clv_line?: number | null
+          clv_prob?: number | null
+          confidence?: number | null
+          created_at?: string | null
+          error?: string | null
+          game_date?: string
+          game_id?: string
+          id?: string
+          line?: number | null
+          market_type?: string
+          pick_side?: string | null
+          price?: number | null
+          rationale?: Json | null
+          reasoning?: string | null
+          result?: string | null
+          run_id?: string
+          side?: string | null
+          units_won?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "backtest_picks_run_id_fkey"
+            columns: ["run_id"]
+            isOneToOne: false
+            referencedRelation: "backtest_runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      backtest_runs: {
+        Row: {
+          completed_at: string | null
+          created_at: string
+          error: string | null
+          id: string
+          label: string | null
+          league: string
+          model: string
+          params: Json
+          prompt_hash: string
+          status: string
+          summary: Json | null
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string
+          error?: string | null
+          id?: string
+          label?: string | null
+          league: string
+          model: string
+          params?: Json
+          prompt_hash: string
+          status?: string
+          summary?: Json | null
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string
+          error?: string | null
+          id?: string
+          label?: string | null
+          league?: string
+          model?: string
+          params?: Json
+          prompt_hash?: string
+          status?: string
+          summary?: Json | null
+        }
+        Relationships: []
+      }
       betting_lines_history: {
         Row: {
           away_team: string
@@ -1390,6 +1586,57 @@ export type Database = {
         }
         Relationships: []
       }
+      line_snapshots: {
+        Row: {
+          away_price: number | null
+          book: string
+          captured_at: string
+          commence_time: string | null
+          draw_price: number | null
+          game_id: string
+          home_point: number | null
+          home_price: number | null
+          id: string
+          market: string
+          over_price: number | null
+          sport: string
+          total_point: number | null
+          under_price: number | null
+        }
+        Insert: {
+          away_price?: number | null
+          book: string
+          captured_at?: string
+          commence_time?: string | null
+          draw_price?: number | null
+          game_id: string
+          home_point?: number | null
+          home_price?: number | null
+          id?: string
+          market: string
+          over_price?: number | null
+          sport: string
+          total_point?: number | null
+          under_price?: number | null
+        }
+        Update: {
+          away_price?: number | null
+          book?: string
+          captured_at?: string
+          commence_time?: string | null
+          draw_price?: number | null
+          game_id?: string
+          home_point?: number | null
+          home_price?: number | null
+          id?: string
+          market?: string
+          over_price?: number | null
+          sport?: string
+          total_point?: number | null
+          under_price?: number | null
+        }
+        Relationships: []
+      }
       memories: {
         Row: {
           clinician_id: string | null
@@ -1579,6 +1826,60 @@ export type Database = {
           },
         ]
       }
+      mlb_games: {
+        Row: {
+          away_score: number | null
+          away_team: string
+          created_at: string | null
+          game_data: Json | null
+          game_date: string
+          game_id: string
+          home_score: number | null
+          home_team: string
+          id: string
+          inning: number | null
+          season: string
+          start_time: string
+          status: string
+          updated_at: string | null
+          venue: string | null
+        }
+        Insert: {
+          away_score?: number | null
+          away_team: string
+          created_at?: string | null
+          game_data?: Json | null
+          game_date: string
+          game_id: string
+          home_score?: number | null
+          home_team: string
+          id?: string
+          inning?: number | null
+          season: string
+          start_time: string
+          status?: string
+          updated_at?: string | null
+          venue?: string | null
+        }
+        Update: {
+          away_score?: number | null
+          away_team?: string
+          created_at?: string | null
+          game_data?: Json | null
+          game_date?: string
+          game_id?: string
+          home_score?: number | null
+          home_team?: string
+          id?: string
+          inning?: number | null
+          season?: string
+          start_time?: string
+          status?: string
+          updated_at?: string | null
+          venue?: string | null
+        }
+        Relationships: []
+      }
       nba_games: {
         Row: {
           away_score: number | null
@@ -1630,6 +1931,183 @@ export type Database = {
         }
         Relationships: []
       }
+      nba_team_stats: {
+        Row: {
+          created_at: string | null
+          defensive_rating: number | null
+          effective_fg_pct: number | null
+          free_throw_rate: number | null
+          games_played: number | null
+          id: string
+          last_updated: string
+          net_rating: number | null
+          offensive_rating: number | null
+          offensive_rebounds_per_game: number | null
+          pace: number | null
+          points_allowed_per_game: number | null
+          points_per_game: number | null
+          rebounds_per_game: number | null
+          season_type: string
+          season_year: number
+          stat_date: string
+          team_abbreviation: string
+          team_id: string
+          three_point_pct: number | null
+          turnover_pct: number | null
+        }
+        Insert: {
+          created_at?: string | null
+          defensive_rating?: number | null
+          effective_fg_pct?: number | null
+          free_throw_rate?: number | null
+          games_played?: number | null
+          id?: string
+          last_updated?: string
+          net_rating?: number | null
+          offensive_rating?: number | null
+          offensive_rebounds_per_game?: number | null
+          pace?: number | null
+          points_allowed_per_game?: number | null
+          points_per_game?: number | null
+          rebounds_per_game?: number | null
+          season_type: string
+          season_year: number
+          stat_date: string
+          team_abbreviation: string
+          team_id: string
+          three_point_pct?: number | null
+          turnover_pct?: number | null
+        }
+        Update: {
+          created_at?: string | null
+          defensive_rating?: number | null
+          effective_fg_pct?: number | null
+          free_throw_rate?: number | null
+          games_played?: number | null
+          id?: string
+          last_updated?: string
+          net_rating?: number | null
+          offensive_rating?: number | null
+          offensive_rebounds_per_game?: number | null
+          pace?: number | null
+          points_allowed_per_game?: number | null
+          points_per_game?: number | null
+          rebounds_per_game?: number | null
+          season_type?: string
+          season_year?: number
+          stat_date?: string
+          team_abbreviation?: string
+          team_id?: string
+          three_point_pct?: number | null
+          turnover_pct?: number | null
+        }
+        Relationships: []
+      }
+      ncaab_games: {
+        Row: {
+          away_score: number | null
+          away_team: string
+          created_at: string | null
+          game_data: Json | null
+          game_date: string
+          game_id: string
+          home_score: number | null
+          home_team: string
+          id: string
+          season: string
+          start_time: string
+          status: string
+          updated_at: string | null
+          venue: string | null
+        }
+        Insert: {
+          away_score?: number | null
+          away_team: string
+          created_at?: string | null
+          game_data?: Json | null
+          game_date: string
+          game_id: string
+          home_score?: number | null
+          home_team: string
+          id?: string
+          season: string
+          start_time: string
+          status?: string
+          updated_at?: string | null
+          venue?: string | null
+        }
+        Update: {
+          away_score?: number | null
+          away_team?: string
+          created_at?: string | null
+          game_data?: Json | null
+          game_date?: string
+          game_id?: string
+          home_score?: number | null
+          home_team?: string
+          id?: string
+          season?: string
+          start_time?: string
+          status?: string
+          updated_at?: string | null
+          venue?: string | null
+        }
+        Relationships: []
+      }
+      ncaaf_games: {
+        Row: {
+          away_score: number | null
+          away_team: string
+          created_at: string | null
+          game_data: Json | null
+          game_date: string
+          game_id: string
+          home_score: number | null
+          home_team: string
+          id: string
+          season: string
+          start_time: string
+          status: string
+          updated_at: string | null
+          venue: string | null
+          week: number | null
+        }
+        Insert: {
+          away_score?: number | null
+          away_team: string
+          created_at?: string | null
+          game_data?: Json | null
+          game_date: string
+          game_id: string
+          home_score?: number | null
+          home_team: string
+          id?: string
+          season: string
+          start_time: string
+          status?: string
+          updated_at?: string | null
+          venue?: string | null
+          week?: number | null
+        }
+        Update: {
+          away_score?: number | null
+          away_team?: string
+          created_at?: string | null
+          game_data?: Json | null
+          game_date?: string
+          game_id?: string
+          home_score?: number | null
+          home_team?: string
+          id?: string
+          season?: string
+          start_time?: string
+          status?: string
+          updated_at?: string | null
+          venue?: string | null
+          week?: number | null
+        }
+        Relationships: []
+      }
       nfl_games: {
         Row: {
           away_score: number | null
@@ -1842,6 +2320,69 @@ export type Database = {
         }
         Relationships: []
       }
+      nhl_team_stats: {
+        Row: {
+          created_at: string | null
+          faceoff_win_pct: number | null
+          games_played: number | null
+          goals_against_per_game: number | null
+          goals_per_game: number | null
+          id: string
+          last_updated: string
+          penalty_kill_pct: number | null
+          power_play_pct: number | null
+          save_pct: number | null
+          season_type: string
+          season_year: number
+          shot_share_pct: number | null
+          shots_against_per_game: number | null
+          shots_per_game: number | null
+          stat_date: string
+          team_abbreviation: string
+          team_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          faceoff_win_pct?: number | null
+          games_played?: number | null
+          goals_against_per_game?: number | null
+          goals_per_game?: number | null
+          id?: string
+          last_updated?: string
+          penalty_kill_pct?: number | null
+          power_play_pct?: number | null
+          save_pct?: number | null
+          season_type: string
+          season_year: number
+          shot_share_pct?: number | null
+          shots_against_per_game?: number | null
+          shots_per_game?: number | null
+          stat_date: string
+          team_abbreviation: string
+          team_id: string
+        }
+        Update: {
+          created_at?: string | null
+          faceoff_win_pct?: number | null
+          games_played?: number | null
+          goals_against_per_game?: number | null
+          goals_per_game?: number | null
+          id?: string
+          last_updated?: string
+          penalty_kill_pct?: number | null
+          power_play_pct?: number | null
+          save_pct?: number | null
+          season_type?: string
+          season_year?: number
+          shot_share_pct?: number | null
+          shots_against_per_game?: number | null
+          shots_per_game?: number | null
+          stat_date?: string
+          team_abbreviation?: string
+          team_id?: string
+        }
+        Relationships: []
+      }
       organization_usage: {
         Row: {
           alert_threshold_80: boolean | null
@@ -1884,6 +2425,119 @@ export type Database = {
         }
         Relationships: []
       }
+      pick_calibrations: {
+        Row: {
+          accepted: boolean
+          brier_calibrated: number
+          brier_raw: number
+          created_at: string
+          holdout_size: number
+          id: string
+          league: string
+          log_loss_calibrated: number
+          log_loss_raw: number
+          market_type: string
+          method: string
+          params: Json
+          sample_size: number
+        }
+        Insert: {
+          accepted?: boolean
+          brier_calibrated: number
+          brier_raw: number
+          created_at?: string
+          holdout_size: number
+          id?: string
+          league: string
+          log_loss_calibrated: number
+          log_loss_raw: number
+          market_type: string
+          method: string
+          params: Json
+          sample_size: number
+        }
+        Update: {
+          accepted?: boolean
+          brier_calibrated?: number
+          brier_raw?: number
+          created_at?: string
+          holdout_size?: number
+          id?: string
+          league?: string
+          log_loss_calibrated?: number
+          log_loss_raw?: number
+          market_type?: string
+          method?: string
+          params?: Json
+          sample_size?: number
+        }
+        Relationships: []
+      }
+      pick_votes: {
+        Row: {
+          agrees: boolean | null
+          analysis_id: string
+          confidence: number | null
+          created_at: string
+          error: string | null
+          game_id: string
+          id: string
+          line: number | null
+          market_type: string
+          model: string
+          odds: number | null
+          pick_outcome: string | null
+          pick_side: string | null
+          provider: string
+          rationale: Json | null
+          reasoning: string | null
+        }
+        Insert: {
+          agrees?: boolean | null
+          analysis_id: string
+          confidence?: number | null
+          created_at?: string
+          error?: string | null
+          game_id: string
+          id?: string
+          line?: number | null
+          market_type: string
+          model: string
+          odds?: number | null
+          pick_outcome?: string | null
+          pick_side?: string | null
+          provider: string
+          rationale?: Json | null
+          reasoning?: string | null
+        }
+        Update: {
+          agrees?: boolean | null
+          analysis_id?: string
+          confidence?: number | null
+          created_at?: string
+          error?: string | null
+          game_id?: string
+          id?: string
+          line?: number | null
+          market_type?: string
+          model?: string
+          odds?: number | null
+          pick_outcome?: string | null
+          pick_side?: string | null
+          provider?: string
+          rationale?: Json | null
+          reasoning?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pick_votes_analysis_id_fkey"
+            columns: ["analysis_id"]
+            isOneToOne: false
+            referencedRelation: "analysis_memory"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       player_data_cache: {
         Row: {
           career_stats: Json | null
@@ -1950,6 +2604,69 @@ export type Database = {
         }
         Relationships: []
       }
+      player_prop_fetches: {
+        Row: {
+          fetched_at: string
+          game_id: string
+          prop_count: number
+          sport: string
+        }
+        Insert: {
+          fetched_at?: string
+          game_id: string
+          prop_count?: number
+          sport: string
+        }
+        Update: {
+          fetched_at?: string
+          game_id?: string
+          prop_count?: number
+          sport?: string
+        }
+        Relationships: []
+      }
+      player_props: {
+        Row: {
+          book: string
+          commence_time: string | null
+          game_id: string
+          id: string
+          line: number
+          market: string
+          over_price: number | null
+          player_name: string
+          sport: string
+          under_price: number | null
+          updated_at: string
+        }
+        Insert: {
+          book: string
+          commence_time?: string | null
+          game_id: string
+          id?: string
+          line: number
+          market: string
+          over_price?: number | null
+          player_name: string
+          sport: string
+          under_price?: number | null
+          updated_at?: string
+        }
+        Update: {
+          book?: string
+          commence_time?: string | null
+          game_id?: string
+          id?: string
+          line?: number
+          market?: string
+          over_price?: number | null
+          player_name?: string
+          sport?: string
+          under_price?: number | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           avatar_url: string | null
@@ -2645,6 +3362,63 @@ export type Database = {
           },
         ]
       }
+      soccer_games: {
+        Row: {
+          away_score: number | null
+          away_team: string
+          created_at: string | null
+          game_data: Json | null
+          game_date: string
+          game_id: string
+          home_score: number | null
+          home_team: string
+          id: string
+          league: Database["public"]["Enums"]["sport_league"]
+          matchday: number | null
+          season: string
+          start_time: string
+          status: string
+          updated_at: string | null
+          venue: string | null
+        }
+        Insert: {
+          away_score?: number | null
+          away_team: string
+          created_at?: string | null
+          game_data?: Json | null
+          game_date: string
+          game_id: string
+          home_score?: number | null
+          home_team: string
+          id?: string
+          league: Database["public"]["Enums"]["sport_league"]
+          matchday?: number | null
+          season: string
+          start_time: string
+          status?: string
+          updated_at?: string | null
+          venue?: string | null
+        }
+        Update: {
+          away_score?: number | null
+          away_team?: string
+          created_at?: string | null
+          game_data?: Json | null
+          game_date?: string
+          game_id?: string
+          home_score?: number | null
+          home_team?: string
+          id?: string
+          league?: Database["public"]["Enums"]["sport_league"]
+          matchday?: number | null
+          season?: string
+          start_time?: string
+          status?: string
+          updated_at?: string | null
+          venue?: string | null
+        }
+        Relationships: []
+      }
       space_runs: {
         Row: {
           created_at: string | null
@@ -2947,6 +3721,41 @@ export type Database = {
         }
         Relationships: []
       }
+      team_aliases: {
+        Row: {
+          alias: string
+          created_at: string
+          id: string
+          league: Database["public"]["Enums"]["sport_league"]
+          source: string
+          team_id: string
+        }
+        Insert: {
+          alias: string
+          created_at?: string
+          id?: string
+          league: Database["public"]["Enums"]["sport_league"]
+          source?: string
+          team_id: string
+        }
+        Update: {
+          alias?: string
+          created_at?: string
+          id?: string
+          league?: Database["public"]["Enums"]["sport_league"]
+          source?: string
+          team_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "team_aliases_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       team_rosters: {
         Row: {
           conference: string | null
@@ -2995,6 +3804,42 @@ export type Database = {
         }
         Relationships: []
       }
+      teams: {
+        Row: {
+          abbreviation: string
+          conference: string | null
+          espn_id: string
+          id: string
+          league: Database["public"]["Enums"]["sport_league"]
+          logo_url: string | null
+          name: string
+          short_name: string | null
+          updated_at: string
+        }
+        Insert: {
+          abbreviation: string
+          conference?: string | null
+          espn_id: string
+          id?: string
+          league: Database["public"]["Enums"]["sport_league"]
+          logo_url?: string | null
+          name: string
+          short_name?: string | null
+          updated_at?: string
+        }
+        Update: {
+          abbreviation?: string
+          conference?: string | null
+          espn_id?: string
+          id?: string
+          league?: Database["public"]["Enums"]["sport_league"]
+          logo_url?: string | null
+          name?: string
+          short_name?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
       tutorial_categories: {
         Row: {
           created_at: string | null
@@ -3643,23 +4488,38 @@ export type Database = {
       }
       user_settings: {
         Row: {
+          bankroll: number | null
           created_at: string | null
           features: Json | null
+          kelly_fraction: number | null
+          max_stake_pct: number | null
+          staking_strategy: string | null
           system_prompts: Json | null
+          unit_size: number | null
           updated_at: string | null
           user_id: string
         }
         Insert: {
+          bankroll?: number | null
           created_at?: string | null
           features?: Json | null
+          kelly_fraction?: number | null
+          max_stake_pct?: number | null
+          staking_strategy?: string | null
           system_prompts?: Json | null
+          unit_size?: number | null
           updated_at?: string | null
           user_id: string
         }
         Update: {
+          bankroll?: number | null
           created_at?: string | null
           features?: Json | null
+          kelly_fraction?: number | null
+          max_stake_pct?: number | null
+          staking_strategy?: string | null
           system_prompts?: Json | null
+          unit_size?: number | null
           updated_at?: string | null
           user_id?: string
         }
@@ -3736,6 +4596,75 @@ export type Database = {
           },
         ]
       }
+      wagers: {
+        Row: {
+          book: string
+          created_at: string
+          game_id: string
+          game_start: string | null
+          id: string
+          league: Database["public"]["Enums"]["sport_league"]
+          line: number | null
+          market_type: Database["public"]["Enums"]["betting_market_type"]
+          notes: string | null
+          odds: number
+          period: string
+          profit: number | null
+          selection: string
+          settled_at: string | null
+          side: string
+          stake: number
+          status: string
+          to_win: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          book: string
+          created_at?: string
+          game_id: string
+          game_start?: string | null
+          id?: string
+          league: Database["public"]["Enums"]["sport_league"]
+          line?: number | null
+          market_type: Database["public"]["Enums"]["betting_market_type"]
+          notes?: string | null
+          odds: number
+          period?: string
+          profit?: number | null
+          selection: string
+          settled_at?: string | null
+          side: string
+          stake: number
+          status?: string
+          to_win: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          book?: string
+          created_at?: string
+          game_id?: string
+          game_start?: string | null
+          id?: string
+          league?: Database["public"]["Enums"]["sport_league"]
+          line?: number | null
+          market_type?: Database["public"]["Enums"]["betting_market_type"]
+          notes?: string | null
+          odds?: number
+          period?: string
+          profit?: number | null
+          selection?: string
+          settled_at?: string | null
+          side?: string
+          stake?: number
+          status?: string
+          to_win?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       constraint_violations: {
@@ -3883,6 +4812,29 @@ export type Database = {
         }
         Returns: undefined
       }
+      match_analysis_memory: {
+        Args: {
+          filter_sport?: string
+          filter_teams?: string[]
+          match_count?: number
+          match_threshold?: number
+          query_embedding: string
+        }
+        Returns: {
+          clv_prob: number
+          confidence_score: number
+          created_at: string
+          game_id: string
+          id: string
+          market_type: string
+          pick_side: string
+          reasoning_text: string
+          result: string
+          similarity: number
+          sport: string
+          units_won: number
+        }[]
+      }
       match_code_chunks: {
         Args: {
           filter_session_id?: string
@@ -4051,7 +5003,16 @@ export type Database = {
         | "offers"
       project_type: "vertical" | "clinician" | "general"
       run_status: "pending" | "running" | "success" | "error" | "cancelled"
-      sport_league: "NHL" | "NFL" | "NBA"
+      sport_league:
+        | "NHL"
+        | "NFL"
+        | "NBA"
+        | "MLB"
+        | "NCAAF"
+        | "NCAAB"
+        | "EPL"
+        | "MLS"
+        | "UCL"
       urgency_level: "low" | "normal" | "high" | "urgent"
     }
     CompositeTypes: {
@@ -4223,7 +5184,17 @@ export const Constants = {
       ],
       project_type: ["vertical", "clinician", "general"],
       run_status: ["pending", "running", "success", "error", "cancelled"],
-      sport_league: ["NHL", "NFL", "NBA"],
+      sport_league: [
+        "NHL",
+        "NFL",
+        "NBA",
+        "MLB",
+        "NCAAF",
+        "NCAAB",
+        "EPL",
+        "MLS",
+        "UCL",
+      ],
       urgency_level: ["low", "normal", "high", "urgent"],
     },
   },
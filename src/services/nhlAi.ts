@@ -1,6 +1,6 @@
 // Imports for Google Generative AI SDK (only used when USE_ROUTER is false)
 import { GoogleGenerativeAI, ChatSession, Content } from "@google/generative-ai";
-import { Message, GameData, MarketData, League } from "../types";
+import { Message, GameData, MarketData, MarketLines, League, PeriodScope, AltSpreadRung, AltTotalRung, TeamTotalLine } from "../types";
 import { supabase } from "@/integrations/supabase/client";
 
 // --- CONSTANTS & CONFIG ---
@@ -36,6 +36,7 @@ interface Outcome {
   name: string;
   price: number;
   point?: number;
+  description?: string; // Team name on team_totals outcomes
 }
 interface Market {
   key: string;
@@ -55,6 +56,17 @@ interface OddsApiGame {
   bookmakers?: Bookmaker[];
   scores?: Array<{ name: string; score: string }>;
   completed?: boolean;
+  // Canonical team from the teams table (null when fetch-odds couldn't resolve the name)
+  away_team_info?: ResolvedTeam | null;
+  home_team_info?: ResolvedTeam | null;
+}
+
+// Mirrors ResolvedTeam in supabase/functions/_shared/teams.ts
+interface ResolvedTeam {
+  id: string;
+  abbreviation: string;
+  conference: string | null;
+  logo: string | null;
 }
 
 // Standings Types (ESPN/NHL)
@@ -99,7 +111,6 @@ let chatInstance: ChatSession | null = null;
 let genAIInstance: GoogleGenerativeAI | null = null;
 let lastLeagueContext: League | null = null;
 
-// NOTE: Mappings (team name to abbreviation) are assumed to be populated in the actual implementation.
 // Enhanced LEAGUE_CONFIG with advanced metrics for sharper analysis.
 const LEAGUE_CONFIG = {
   NHL: {
@@ -107,9 +118,7 @@ const LEAGUE_CONFIG = {
     spreadTerm: "Puck Line",
     sportName: "NHL Hockey",
     statContext: "| GF/G | GA/G | PP% | PK% | xG% (Expected Goals) | Corsi/Fenwick | Goaltending SV% |",
-    mapping: {
-      /* ... */
-    },
+    periods: ["p1"],
   },
   NFL: {
     key: "americanfootball_nfl",
@@ -118,9 +127,7 @@ const LEAGUE_CONFIG = {
     // Prioritize efficiency metrics
     statContext:
       "| DVOA (Offense/Defense) | EPA/Play | Success Rate | Pressure Rate | Yds/Play | Key Numbers: 3, 7, 10 |",
-    mapping: {
-      /* ... */
-    },
+    periods: ["h1", "q1"],
   },
   NBA: {
     key: "basketball_nba",
@@ -128,12 +135,78 @@ const LEAGUE_CONFIG = {
     sportName: "NBA Basketball",
     // Prioritize efficiency and pace
     statContext: "| Offensive Rating | Defensive Rating | Net Rating | Pace | eFG% | Turnover % | Rebound Rate |",
-    mapping: {
-      /* ... */
-    },
+    periods: ["h1", "q1"],
+  },
+  MLB: {
+    key: "baseball_mlb",
+    spreadTerm: "Run Line",
+    sportName: "MLB Baseball",
+    // Starting pitching drives most of the price; bullpen and park adjust it
+    statContext: "| Probable Starters (ERA / FIP / WHIP / K%) | Bullpen ERA & Recent Usage | wRC+ | OPS vs Handedness | Park Factor |",
+    // First-five-innings markets use a different suffix (h2h_1st_5_innings); full game only for now
+    periods: [],
+  },
+  NCAAF: {
+    key: "americanfootball_ncaaf",
+    spreadTerm: "Spread",
+    sportName: "College Football",
+    // Talent gaps are wide; tempo and havoc drive totals
+    statContext: "| SP+ / FEI | EPA/Play | Success Rate | Havoc Rate | Plays/Game (Tempo) | Returning Production | Key Numbers: 3, 7, 10, 14 |",
+    periods: ["h1", "q1"],
+  },
+  NCAAB: {
+    key: "basketball_ncaab",
+    spreadTerm: "Spread",
+    sportName: "College Basketball",
+    // Two 20-minute halves: no quarter markets
+    statContext: "| AdjO / AdjD (KenPom) | AdjEM | Adj Tempo | eFG% | TO% | OReb% | FT Rate | Home Court |",
+    periods: ["h1"],
+  },
+  EPL: {
+    key: "soccer_epl",
+    spreadTerm: "Asian Handicap",
+    sportName: "Premier League Soccer",
+    // Three-way markets: the draw is priced separately; quarter handicaps split the stake
+    statContext: "| xG For / Against | xG Difference | Shots on Target | PPDA (Pressing) | Set-Piece xG | Home / Away Form | Fixture Congestion |",
+    periods: [],
+  },
+  MLS: {
+    key: "soccer_usa_mls",
+    spreadTerm: "Asian Handicap",
+    sportName: "MLS Soccer",
+    statContext: "| xG For / Against | xG Difference | Shots on Target | Home / Away Form | Travel Distance & Altitude | Turf vs Grass | Fixture Congestion |",
+    periods: [],
+  },
+  UCL: {
+    key: "soccer_uefa_champs_league",
+    spreadTerm: "Asian Handicap",
+    sportName: "UEFA Champions League",
+    statContext: "| xG For / Against | xG Difference | Domestic League Strength | Squad Rotation | Aggregate Score (Knockouts) | Away Form in Europe |",
+    periods: [],
   },
 } as const; // 'as const' improves type inference
 
+// Full-game derivatives fetched with each league's period lines
+const DERIVATIVE_MARKETS = ["team_totals", "alternate_spreads", "alternate_totals"];
+
+const SOCCER_LEAGUES: readonly League[] = ["EPL", "MLS", "UCL"];
+
+// The board polls the bulk odds feed, which serves featured markets only
+const BOARD_MARKETS = "h2h,spreads,totals";
+
+// Per-event markets (one Odds API hit per market), so fetched one game at a time on demand
+const derivativeMarkets = (league: League): string =>
+  [
+    ...LEAGUE_CONFIG[league].periods.flatMap((p) => [`h2h_${p}`, `spreads_${p}`, `totals_${p}`]),
+    ...DERIVATIVE_MARKETS,
+    ...(SOCCER_LEAGUES.includes(league) ? ["draw_no_bet"] : []),
+  ].join(",");
+
+/**
+ * Period scopes requested for a league (the toggle offers these before fetchGameMarkets loads them).
+ */
+export const leaguePeriods = (league: League): PeriodScope[] => [...LEAGUE_CONFIG[league].periods];
+
 // --- UTILITY HELPERS ---
 
 /**
@@ -154,12 +227,9 @@ const invokeSupabaseFunction = async <T,>(functionName: string, body: object): P
   return data as T;
 };
 
-const getAbbr = (name: string, league: League): string => {
-  // Type assertion is used here as mappings contain dynamic keys (team names)
-  // Ensure 'mapping' exists even if empty.
-  const map = (LEAGUE_CONFIG[league].mapping || {}) as Record<string, string>;
-  return map[name] || name.substring(0, 3).toUpperCase();
-};
+// Abbreviation from the resolved team; unresolved names fall back to their first three letters
+const getAbbr = (name: string, team: ResolvedTeam | null | undefined): string =>
+  team?.abbreviation || name.substring(0, 3).toUpperCase();
 
 const fmtOdds = (price: number): string => (price > 0 ? `+${price}` : `${price}`);
 
@@ -182,28 +252,34 @@ const getDateKeyInTZ = (date: Date, timeZone: string = SPORTS_TIMEZONE): string
   }
 };
 
-const extractMarketData = (bookmaker: Bookmaker | undefined, game: OddsApiGame): MarketData => {
-  const defaultData: MarketData = {
-    awayML: "-",
-    homeML: "-",
-    awayPL: "-",
-    homePL: "-",
-    total: "-",
-    overOdds: "",
-    underOdds: "",
-  };
+const EMPTY_LINES: MarketLines = {
+  awayML: "-",
+  homeML: "-",
+  awayPL: "-",
+  homePL: "-",
+  total: "-",
+  overOdds: "",
+  underOdds: "",
+};
 
-  if (!bookmaker) return defaultData;
+const PERIOD_SCOPES: Exclude<PeriodScope, "game">[] = ["h1", "h2", "q1", "q2", "q3", "q4", "p1", "p2", "p3"];
 
-  const getMkt = (key: "h2h" | "spreads" | "totals") => bookmaker.markets.find((m) => m.key === key);
+/**
+ * Main lines for one scope; `suffix` selects period markets (e.g. "_h1" reads h2h_h1 / spreads_h1 / totals_h1).
+ * Returns null when the book quotes none of the scope's markets.
+ */
+const extractLines = (bookmaker: Bookmaker, game: OddsApiGame, suffix = ""): MarketLines | null => {
+  const getMkt = (key: string) => bookmaker.markets.find((m) => m.key === `${key}${suffix}`);
   const getOut = (mkt: Market | undefined, name: string) => mkt?.outcomes.find((o) => o.name === name);
 
   const h2h = getMkt("h2h");
   const spreads = getMkt("spreads");
   const totals = getMkt("totals");
+  if (!h2h && !spreads && !totals) return null;
 
   const awayH2H = getOut(h2h, game.away_team);
   const homeH2H = getOut(h2h, game.home_team);
+  const drawH2H = getOut(h2h, "Draw"); // Soccer 1X2 only
   const awaySpread = getOut(spreads, game.away_team);
   const homeSpread = getOut(spreads, game.home_team);
   const over = getOut(totals, "Over");
@@ -225,6 +301,102 @@ const extractMarketData = (bookmaker: Bookmaker | undefined, game: OddsApiGame):
     total: over?.point?.toString() ?? "-",
     overOdds: over ? fmtOdds(over.price) : "",
     underOdds: under ? fmtOdds(under.price) : "",
+    ...(drawH2H && { drawML: fmtOdds(drawH2H.price) }),
+  };
+};
+
+const extractTeamTotals = (market: Market | undefined, game: OddsApiGame): MarketData["teamTotals"] => {
+  if (!market) return undefined;
+
+  const forTeam = (team: string): TeamTotalLine | undefined => {
+    const over = market.outcomes.find((o) => o.description === team && o.name === "Over");
+    const under = market.outcomes.find((o) => o.description === team && o.name === "Under");
+    const line = over?.point ?? under?.point;
+    if (line == null) return undefined;
+    return { line, overPrice: over?.price ?? null, underPrice: under?.price ?? null };
+  };
+
+  return { away: forTeam(game.away_team), home: forTeam(game.home_team) };
+};
+
+// Alternate spreads are keyed by the home line; an away quote at +x lands on the home -x rung
+const extractAltSpreads = (market: Market | undefined, game: OddsApiGame): AltSpreadRung[] | undefined => {
+  if (!market) return undefined;
+
+  const rungs = new Map<number, AltSpreadRung>();
+  market.outcomes.forEach((o) => {
+    if (o.point == null) return;
+    const isHome = o.name === game.home_team;
+    if (!isHome && o.name !== game.away_team) return;
+
+    const line = isHome ? o.point : -o.point;
+    const rung = rungs.get(line) || { line, homePrice: null, awayPrice: null };
+    if (isHome) rung.homePrice = o.price;
+    else rung.awayPrice = o.price;
+    rungs.set(line, rung);
+  });
+
+  return [...rungs.values()].sort((a, b) => a.line - b.line);
+};
+
+const extractAltTotals = (market: Market | undefined): AltTotalRung[] | undefined => {
+  if (!market) return undefined;
+
+  const rungs = new Map<number, AltTotalRung>();
+  market.outcomes.forEach((o) => {
+    if (o.point == null || (o.name !== "Over" && o.name !== "Under")) return;
+    const rung = rungs.get(o.point) || { line: o.point, overPrice: null, underPrice: null };
+    if (o.name === "Over") rung.overPrice = o.price;
+    else rung.underPrice = o.price;
+    rungs.set(o.point, rung);
+  });
+
+  return [...rungs.values()].sort((a, b) => a.line - b.line);
+};
+
+// Period lines, team totals, alternates and draw no bet: only present in per-event responses
+const extractDerivatives = (bookmaker: Bookmaker, game: OddsApiGame): Partial<MarketData> => {
+  const data: Partial<MarketData> = {};
+  const getMkt = (key: string) => bookmaker.markets.find((m) => m.key === key);
+
+  PERIOD_SCOPES.forEach((scope) => {
+    const lines = extractLines(bookmaker, game, `_${scope}`);
+    if (lines) data.periods = { ...data.periods, [scope]: lines };
+  });
+
+  const teamTotals = extractTeamTotals(getMkt("team_totals"), game);
+  const altSpreads = extractAltSpreads(getMkt("alternate_spreads"), game);
+  const altTotals = extractAltTotals(getMkt("alternate_totals"));
+  if (teamTotals) data.teamTotals = teamTotals;
+  if (altSpreads?.length) data.altSpreads = altSpreads;
+  if (altTotals?.length) data.altTotals = altTotals;
+
+  // Draw no bet (soccer): each side's price with the stake refunded on a draw
+  const dnb = getMkt("draw_no_bet");
+  const awayDNB = dnb?.outcomes.find((o) => o.name === game.away_team);
+  const homeDNB = dnb?.outcomes.find((o) => o.name === game.home_team);
+  if (awayDNB && homeDNB) {
+    data.awayDNB = fmtOdds(awayDNB.price);
+    data.homeDNB = fmtOdds(homeDNB.price);
+  }
+
+  return data;
+};
+
+const extractMarketData = (bookmaker: Bookmaker | undefined, game: OddsApiGame): MarketData => {
+  if (!bookmaker) return { ...EMPTY_LINES };
+  return { ...(extractLines(bookmaker, game) ?? EMPTY_LINES), ...extractDerivatives(bookmaker, game) };
+};
+
+// Board columns: Caesars / William Hill variations share one (kept as williamhill for type compatibility)
+const boardBooks = (bookmakers: Bookmaker[]): Record<string, Bookmaker | undefined> => {
+  const findBook = (keys: string[]) => bookmakers.find((b) => keys.includes(b.key));
+  return {
+    draftkings: findBook(["draftkings"]),
+    fanduel: findBook(["fanduel"]),
+    betmgm: findBook(["betmgm"]),
+    williamhill: findBook(["williamhill", "williamhill_us", "caesars"]),
+    generic: bookmakers[0],
   };
 };
 
@@ -296,9 +468,8 @@ const fetchNhlStandings = async (): Promise<Record<string, string>> => {
 };
 
 const fetchStandings = async (league: League): Promise<Record<string, string>> => {
-  if (league === "NFL" || league === "NBA") return fetchEspnStandings(league);
   if (league === "NHL") return fetchNhlStandings();
-  return {};
+  return fetchEspnStandings(league);
 };
 
 // --- MAIN SCHEDULE FETCHING ---
@@ -343,11 +514,11 @@ export const fetchSchedule = async (league: League = "NHL", targetDate: Date = n
         daysFrom,
         targetDate: dateKey,
       }),
-      // Fetch 2: Detailed Odds feed
+      // Fetch 2: Detailed Odds feed (featured markets; derivatives load per game via fetchGameMarkets)
       invokeSupabaseFunction<OddsApiGame[]>("fetch-odds", {
         sport: config.key,
         regions: "us",
-        markets: "h2h,spreads,totals",
+        markets: BOARD_MARKETS,
         bookmakers: PREFERRED_BOOKMAKERS.join(","),
         dateFormat: "iso",
         daysFrom,
@@ -400,15 +571,7 @@ export const fetchSchedule = async (league: League = "NHL", targetDate: Date = n
         return gameDateKey === dateKey;
       })
       .map((game) => {
-        const bookmakers = game.bookmakers || [];
-        const findBook = (keys: string[]) => bookmakers.find((b) => keys.includes(b.key));
-
-        const dk = findBook(["draftkings"]);
-        const fd = findBook(["fanduel"]);
-        const mgm = findBook(["betmgm"]);
-        // Combine Caesars/William Hill variations
-        const czr = findBook(["williamhill", "williamhill_us", "caesars"]);
-        const fallback = bookmakers[0];
+        const books = boardBooks(game.bookmakers || []);
 
         // Extract Scores
         let awayScore = "",
@@ -420,8 +583,8 @@ export const fetchSchedule = async (league: League = "NHL", targetDate: Date = n
           if (home) homeScore = home.score;
         }
 
-        const awayAbbr = getAbbr(game.away_team, league);
-        const homeAbbr = getAbbr(game.home_team, league);
+        const awayAbbr = getAbbr(game.away_team, game.away_team_info);
+        const homeAbbr = getAbbr(game.home_team, game.home_team_info);
 
         return {
           id: game.id,
@@ -430,6 +593,10 @@ export const fetchSchedule = async (league: League = "NHL", targetDate: Date = n
           homeTeam: homeAbbr,
           awayRecord: standingsMap[awayAbbr] || "N/A",
           homeRecord: standingsMap[homeAbbr] || "N/A",
+          awayConference: game.away_team_info?.conference ?? undefined,
+          homeConference: game.home_team_info?.conference ?? undefined,
+          awayLogo: game.away_team_info?.logo ?? undefined,
+          homeLogo: game.home_team_info?.logo ?? undefined,
           // Format time display using the preferred timezone
           time: new Date(game.commence_time).toLocaleTimeString("en-US", {
             hour: "numeric",
@@ -441,13 +608,9 @@ export const fetchSchedule = async (league: League = "NHL", targetDate: Date = n
           status: game.status as "Canceled" | "Final" | "Live" | "Postponed" | "Scheduled",
           awayScore,
           homeScore,
-          odds: {
-            draftkings: extractMarketData(dk, game),
-            fanduel: extractMarketData(fd, game),
-            betmgm: extractMarketData(mgm, game),
-            williamhill: extractMarketData(czr, game), // Kept as williamhill for type compatibility
-            generic: extractMarketData(fallback, game),
-          },
+          odds: Object.fromEntries(
+            Object.entries(books).map(([book, bookmaker]) => [book, extractMarketData(bookmaker, game)]),
+          ),
         };
       })
       .sort((a, b) => a.timestamp - b.timestamp);
@@ -464,6 +627,32 @@ export const fetchSchedule = async (league: League = "NHL", targetDate: Date = n
   }
 };
 
+/**
+ * Period lines, team totals, alternate ladders and draw no bet for one game, keyed like
+ * GameData.odds (books without any are omitted). Called when a game card is expanded,
+ * never for a whole board: each market is a separate Odds API hit.
+ */
+export const fetchGameMarkets = async (gameId: string, league: League): Promise<Record<string, Partial<MarketData>>> => {
+  // ESPN-only games have no Odds API event
+  if (gameId.startsWith("espn-")) return {};
+
+  const events = await invokeSupabaseFunction<OddsApiGame[]>("fetch-odds", {
+    sport: LEAGUE_CONFIG[league].key,
+    eventId: gameId,
+    regions: "us",
+    markets: derivativeMarkets(league),
+    bookmakers: PREFERRED_BOOKMAKERS.join(","),
+  });
+  const event = events[0];
+  if (!event) return {};
+
+  return Object.fromEntries(
+    Object.entries(boardBooks(event.bookmakers || [])).flatMap(([book, bookmaker]) =>
+      bookmaker ? [[book, extractDerivatives(bookmaker, event)]] : [],
+    ),
+  );
+};
+
 const generateContextString = (games: GameData[], league: League): string => {
   const config = LEAGUE_CONFIG[league];
   if (games.length === 0) return `No ${league} games scheduled for this date based on injected data.`;
@@ -479,7 +668,7 @@ const generateContextString = (games: GameData[], league: League): string => {
         if (data.awayML !== "-") {
           // Standardized format for easy AI parsing
           bookLines.push(
-            ` ${book}: ML: ${g.awayTeam} ${data.awayML}/${g.homeTeam} ${data.homeML} | T: ${data.total} (O${data.overOdds}/U${data.underOdds}) | ${config.spreadTerm}: ${g.awayTeam} ${data.awayPL}/${g.homeTeam} ${data.homePL}`,
+            ` ${book}: ML: ${g.awayTeam} ${data.awayML}/${g.homeTeam} ${data.homeML}${data.drawML ? `/Draw ${data.drawML}` : ""} | T: ${data.total} (O${data.overOdds}/U${data.underOdds}) | ${config.spreadTerm}: ${g.awayTeam} ${data.awayPL}/${g.homeTeam} ${data.homePL}`,
           );
         }
       };
@@ -1,60 +1,207 @@
 import { supabase } from '../integrations/supabase/client';
-import { GameData, MarketType, PickData } from '../types';
+import { bestAvailable, type BestAvailable, type BoardOutcome } from '../utils/bettingMath';
+import type { PropLine } from '../hooks/usePlayerProps';
+import { BetSide, GameData, League, MarketData, MarketType, PickData, PropMarket } from '../types';
+
+export type PickMarket = Exclude<MarketType, 'prop'>;
+
+export const PICK_MARKETS: PickMarket[] = ['moneyline', 'spread', 'total'];
+
+export interface SideQuote {
+  price: number;
+  line?: number | null;
+  book?: string;
+}
+
+export type MarketQuotes = Partial<Record<BetSide, SideQuote>>;
+
+// One prop the model may pick, priced at the best over / under across books
+export interface PropCandidate {
+  player: string;
+  market: PropMarket;
+  line: number;
+  over?: SideQuote;
+  under?: SideQuote;
+}
 
 export interface GeneratePickParams {
   game_id: string;
-  current_odds: number;
   game_context: Record<string, any>;
-  market_type: MarketType;
+  book?: string;
+  markets: { market_type: MarketType; quotes?: MarketQuotes; props?: PropCandidate[] }[];
+  ensemble?: boolean;
 }
 
-export const generatePick = async (
-  game: GameData,
-  marketType: MarketType = 'moneyline'
-): Promise<PickData> => {
-  // Extract current odds based on market type
-  const odds = game.odds.draftkings || game.odds.generic;
-  let currentOdds = -110; // default
+export interface PickSource {
+  book?: string; // Bookmaker key; falls back to the generic board when the book has no line
+  bestAvailable?: boolean; // Shop each side across books instead
+  ensemble?: boolean; // Every configured model votes; slower and costlier, allowlisted accounts only
+}
 
-  if (marketType === 'moneyline') {
-    // Use home team moneyline as reference
-    const homeML = parseInt(odds.homeML, 10);
-    if (!isNaN(homeML)) currentOdds = homeML;
-  }
+export interface GeneratePicksResult {
+  picks: PickData[];
+  errors: { market_type: MarketType; error: string }[];
+}
+
+// Board outcome feeding each side of a market
+const MARKET_OUTCOMES: Record<PickMarket, Partial<Record<BetSide, BoardOutcome>>> = {
+  moneyline: { away: 'awayML', draw: 'drawML', home: 'homeML' },
+  spread: { away: 'awayPL', home: 'homePL' },
+  total: { over: 'over', under: 'under' },
+};
+
+// Three-way moneylines: the draw is a side the model must be able to price
+const SOCCER_LEAGUES: readonly League[] = ['EPL', 'MLS', 'UCL'];
+
+const DEFAULT_BOOK = 'draftkings';
+
+// Keeps the prompt bounded on deep NFL boards
+const MAX_PROP_CANDIDATES = 40;
+
+/**
+ * The board a pick is priced from: one book's quotes (or the best quote per side).
+ */
+const resolveBoard = (game: GameData, source: PickSource): BestAvailable => {
+  if (source.bestAvailable) return bestAvailable(game.odds);
+
+  const key = source.book && game.odds[source.book] ? source.book : game.odds[DEFAULT_BOOK] ? DEFAULT_BOOK : 'generic';
+  const data: MarketData | undefined = game.odds[key];
+  return data ? bestAvailable({ [key]: data }) : {};
+};
+
+/**
+ * Every side of a market in this league: away / draw / home for a soccer moneyline, two sides otherwise.
+ */
+const marketSides = (market: PickMarket, league: League): BetSide[] =>
+  (Object.keys(MARKET_OUTCOMES[market]) as BetSide[]).filter((side) => side !== 'draw' || SOCCER_LEAGUES.includes(league));
+
+/**
+ * Side-specific quotes for one market, e.g. { away: { price: +150, line: -1.5 }, home: {...} }.
+ */
+export const marketQuotes = (board: BestAvailable, market: PickMarket): MarketQuotes => {
+  const quotes: MarketQuotes = {};
+
+  (Object.entries(MARKET_OUTCOMES[market]) as [BetSide, BoardOutcome][]).forEach(([side, outcome]) => {
+    const quote = board[outcome];
+    if (quote) quotes[side] = { price: quote.price, line: quote.line, book: quote.book };
+  });
+
+  return quotes;
+};
+
+const buildGameContext = (game: GameData) => {
+  const odds = game.odds.draftkings || game.odds.generic;
 
-  // Build game context
-  const gameContext = {
+  return {
     away_team: game.awayTeam,
     home_team: game.homeTeam,
     away_record: game.awayRecord,
     home_record: game.homeRecord,
     league: game.league,
     time: game.time,
+    start_time: new Date(game.timestamp).toISOString(),
     status: game.status,
-    moneyline_away: odds.awayML,
-    moneyline_home: odds.homeML,
-    spread_away: odds.awayPL,
-    spread_home: odds.homePL,
-    total: odds.total,
+    moneyline_away: odds?.awayML,
+    moneyline_home: odds?.homeML,
+    moneyline_draw: odds?.drawML,
+    spread_away: odds?.awayPL,
+    spread_home: odds?.homePL,
+    total: odds?.total,
   };
+};
 
-  const { data, error } = await supabase.functions.invoke('generate-pick', {
-    body: {
-      game_id: game.id,
-      current_odds: currentOdds,
-      game_context: gameContext,
-      market_type: marketType,
-    },
-  });
+/**
+ * Generates (or serves cached) picks for several markets in one request. Each
+ * market is priced with the quote of the side the model picks, not a reference price.
+ */
+export const generatePicks = async (
+  game: GameData,
+  source: PickSource = {},
+  markets: PickMarket[] = PICK_MARKETS,
+): Promise<GeneratePicksResult> => {
+  const board = resolveBoard(game, source);
+
+  const params: GeneratePickParams = {
+    game_id: game.id,
+    game_context: buildGameContext(game),
+    book: source.bestAvailable ? undefined : source.book,
+    ensemble: source.ensemble,
+    markets: markets
+      .map((market) => ({ market_type: market, quotes: marketQuotes(board, market) }))
+      // A market needs both sides (all three for a 1X2 moneyline) priced for the model to choose between them
+      .filter((m) => marketSides(m.market_type, game.league).every((side) => m.quotes[side])),
+  };
+
+  if (params.markets.length === 0) {
+    throw new Error('No priced markets available for pick generation');
+  }
+
+  const { data, error } = await supabase.functions.invoke('generate-pick', { body: params });
 
   if (error) {
     console.error('Pick generation error:', error);
-    throw new Error(`Failed to generate pick: ${error.message}`);
+    throw new Error(`Failed to generate picks: ${error.message}`);
   }
 
   if (!data) {
     throw new Error('No data returned from pick generation');
   }
 
-  return data as PickData;
+  return data as GeneratePicksResult;
+};
+
+/**
+ * Generates (or serves cached) the game's prop pick. The model chooses one prop and
+ * side from the board; only two-sided props are offered so EV is priced both ways.
+ */
+export const generatePropPick = async (game: GameData, lines: PropLine[]): Promise<PickData> => {
+  const props: PropCandidate[] = lines
+    .filter((l) => l.over && l.under)
+    .sort((a, b) => b.books - a.books)
+    .slice(0, MAX_PROP_CANDIDATES)
+    .map((l) => ({
+      player: l.player,
+      market: l.market,
+      line: l.line,
+      over: { price: l.over!.price, book: l.over!.book },
+      under: { price: l.under!.price, book: l.under!.book },
+    }));
+
+  if (props.length === 0) {
+    throw new Error('No two-sided props available for pick generation');
+  }
+
+  const params: GeneratePickParams = {
+    game_id: game.id,
+    game_context: buildGameContext(game),
+    markets: [{ market_type: 'prop', props }],
+  };
+
+  const { data, error } = await supabase.functions.invoke('generate-pick', { body: params });
+
+  if (error) {
+    console.error('Prop pick generation error:', error);
+    throw new Error(`Failed to generate prop pick: ${error.message}`);
+  }
+
+  const result = data as GeneratePicksResult | null;
+  if (!result || result.picks.length === 0) {
+    throw new Error(`Failed to generate prop pick: ${result?.errors[0]?.error ?? 'no data returned'}`);
+  }
+
+  return result.picks[0];
+};
+
+export const generatePick = async (
+  game: GameData,
+  marketType: PickMarket = 'moneyline',
+  source: PickSource = {},
+): Promise<PickData> => {
+  const { picks, errors } = await generatePicks(game, source, [marketType]);
+
+  if (picks.length === 0) {
+    throw new Error(`Failed to generate pick: ${errors[0]?.error ?? 'unknown error'}`);
+  }
+
+  return picks[0];
 };
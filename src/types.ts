@@ -1,4 +1,4 @@
-export type League = 'NHL' | 'NFL' | 'NBA';
+export type League = 'NHL' | 'NFL' | 'NBA' | 'MLB' | 'NCAAF' | 'NCAAB' | 'EPL' | 'MLS' | 'UCL';
 
 export interface Message {
   id: string;
@@ -24,24 +24,122 @@ export enum SuggestionType {
   PROMO_STRATEGY = "Optimize a No-Loss Bet"
 }
 
-export interface MarketData {
+// Scope a line settles on; period keys match the Odds API market suffixes (h2h_h1, totals_p1, ...)
+export type PeriodScope = 'game' | 'h1' | 'h2' | 'q1' | 'q2' | 'q3' | 'q4' | 'p1' | 'p2' | 'p3';
+
+// Main lines for one scope, display-formatted
+export interface MarketLines {
   awayML: string;
   homeML: string;
-  awayPL: string; // Puck Line, Spread, or Run Line
+  awayPL: string; // Puck Line, Spread, Run Line or Asian Handicap
   homePL: string;
   total: string;
   overOdds: string;
   underOdds: string;
+  // Soccer only: the draw leg of a three-way (1X2) moneyline, and draw no bet prices
+  drawML?: string;
+  awayDNB?: string;
+  homeDNB?: string;
+}
+
+export interface TeamTotalLine {
+  line: number;
+  overPrice: number | null;
+  underPrice: number | null;
+}
+
+// One rung of an alternate spread ladder, quoted from the home side (away gets -line)
+export interface AltSpreadRung {
+  line: number;
+  homePrice: number | null;
+  awayPrice: number | null;
+}
+
+export interface AltTotalRung {
+  line: number;
+  overPrice: number | null;
+  underPrice: number | null;
+}
+
+// One book's market collection. Full-game lines stay at the top level; derivative
+// markets are present only once a game's per-event markets were loaded (fetchGameMarkets).
+export interface MarketData extends MarketLines {
+  periods?: Partial<Record<Exclude<PeriodScope, 'game'>, MarketLines>>;
+  teamTotals?: { away?: TeamTotalLine; home?: TeamTotalLine };
+  altSpreads?: AltSpreadRung[];
+  altTotals?: AltTotalRung[];
 }
 
-export type MarketType = 'moneyline' | 'puckline' | 'total' | 'prop';
+// Matches the betting_market_type enum; puck line / run line picks are stored as 'spread'
+export type MarketType = 'moneyline' | 'spread' | 'total' | 'prop';
+
+// Structured breakdown behind a pick (generate-pick). Factor weights sum to 1; lean is
+// relative to the picked side.
+export type RationaleFactorKey = 'injuries' | 'rest' | 'form' | 'matchup' | 'market' | 'other';
+
+export interface RationaleFactor {
+  factor: RationaleFactorKey;
+  weight: number;
+  lean: 'for' | 'against' | 'neutral';
+  note: string;
+}
+
+export interface PickRationale {
+  factors: RationaleFactor[];
+  risks: string[];
+  projected_score: { away: number; home: number } | null;
+  fair_price: number | null; // Model's American price for the picked side
+  fair_line: number | null; // Model's spread / total number
+}
+
+// Ensemble pick (generate-pick with ensemble on): each provider's vote and the aggregate.
+// Dissent on the other side of a two-way market counts as 100 - confidence.
+export interface EnsembleVote {
+  provider: string;
+  model: string;
+  side: BetSide | null;
+  pick_side: string | null; // Null when the provider failed
+  confidence: number | null;
+  agrees: boolean | null;
+  error: string | null;
+}
+
+export interface EnsembleSummary {
+  providers: number;
+  valid: number;
+  side: BetSide | null;
+  prop_id: string | null;
+  agreement: number; // Share of valid votes on the consensus pick
+  disagreement: boolean;
+  confidence: { mean: number; median: number; trimmed: number; min: number; max: number };
+  votes: EnsembleVote[];
+}
 
 export interface PickData {
   pick_side: string;
   confidence_score: number;
   reasoning_text: string;
+  rationale?: PickRationale | null; // Null on picks generated before the breakdown
+  ensemble?: EnsembleSummary | null; // Null on single-model picks
+  // Probabilities (0-1): confidence_score / 100, and the league / market calibration of it
+  // (null when no accepted calibration existed). EV and staking use pickProbability().
+  raw_probability?: number | null;
+  calibrated_probability?: number | null;
   created_at: string;
   odds_at_generation: number;
+  market_type?: MarketType;
+  // Side-specific pricing (null on picks generated before per-side quotes)
+  pick_outcome?: BetSide | null;
+  line_at_generation?: number | null;
+  book_at_generation?: string | null;
+  // Prop picks only
+  prop_player?: string | null;
+  prop_market?: PropMarket | null;
+  // Closing line value, captured at game start (null until captured)
+  closing_odds?: number | null;
+  clv_price?: number | null; // % payout edge vs close
+  clv_prob?: number | null; // pp vs no-vig closing probability
+  clv_line?: number | null; // Points gained on the close when the line moved off the number taken
 }
 
 export interface GameData {
@@ -51,6 +149,11 @@ export interface GameData {
   homeTeam: string;
   awayRecord?: string;
   homeRecord?: string;
+  // Resolved from the teams table (fetch-odds); conference is set for college leagues
+  awayConference?: string;
+  homeConference?: string;
+  awayLogo?: string;
+  homeLogo?: string;
   time: string;
   timestamp: number; // Unix timestamp for accurate sorting
   status: 'Scheduled' | 'Live' | 'Final' | 'Postponed' | 'Canceled';
@@ -58,9 +161,90 @@ export interface GameData {
   homeScore?: string;
   // Map of bookmaker key (e.g., 'draftkings') to their specific odds
   odds: Record<string, MarketData>;
-  // AI-generated pick data
+  // AI-generated pick data (moneyline pick kept in `pick` for existing consumers)
   pick?: PickData;
+  picks?: Partial<Record<MarketType, PickData>>;
   isLoadingPick?: boolean;
 }
 
+// One point of a game's line history (home perspective; from get-line-history)
+export interface LineMovement {
+  timestamp: string;
+  spread: number;
+  total: number;
+  homeML: number;
+  awayML: number;
+  drawML?: number | null; // Soccer 1X2 only
+}
+
+// 'draw' is the third outcome of a soccer 1X2 moneyline
+export type BetSide = 'away' | 'home' | 'draw' | 'over' | 'under';
+
+// Odds API prop market keys ingested by fetch-props
+export type PropMarket =
+  | 'player_points'
+  | 'player_rebounds'
+  | 'player_assists'
+  | 'player_pass_yds'
+  | 'player_rush_yds'
+  | 'player_reception_yds'
+  | 'player_anytime_td'
+  | 'player_shots_on_goal'
+  | 'player_goal_scorer_anytime'
+  | 'pitcher_strikeouts'
+  | 'batter_hits'
+  | 'batter_total_bases';
+
+// One book's main line for a player prop; "anytime" markets are Over/Under 0.5 (Yes/No)
+export interface PlayerProp {
+  gameId: string;
+  book: string;
+  market: PropMarket;
+  player: string;
+  line: number;
+  overPrice: number | null;
+  underPrice: number | null;
+  updatedAt: string;
+}
+
+// half_won / half_lost: quarter-line bets with half the stake on each neighbouring line
+export type WagerStatus = 'pending' | 'won' | 'half_won' | 'lost' | 'half_lost' | 'push' | 'void';
+
+// A single price captured from the board, staged on the bet slip
+export interface BetSlipSelection {
+  id: string; // `${gameId}:${market}:${side}` - one selection per outcome
+  gameId: string;
+  league: League;
+  market: 'moneyline' | 'spread' | 'total';
+  period?: PeriodScope; // Omitted for full-game lines
+  side: BetSide;
+  label: string; // e.g. 'BOS -1.5', 'Over 6.5', 'NYR ML', '1H BOS -0.5'
+  matchup: string; // e.g. 'NYR @ BOS'
+  line: number | null;
+  odds: number; // American
+  book: string;
+  gameStart: number;
+  stake: number;
+}
+
+// Persisted row from the wagers ledger
+export interface Wager {
+  id: string;
+  gameId: string;
+  league: League;
+  market: string;
+  period: PeriodScope;
+  side: BetSide;
+  selection: string;
+  line: number | null;
+  odds: number;
+  book: string;
+  stake: number;
+  toWin: number;
+  status: WagerStatus;
+  profit: number | null; // Settled P&L (grade-picks); null while pending
+  createdAt: string;
+  settledAt: string | null;
+}
+
 export type AppTheme = 'light' | 'dark';
\ No newline at end of file
@@ -1,31 +1,1083 @@
+import type { BetSide, GameData, MarketData, MarketLines, PeriodScope, PickData } from '@/types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type VigMethod = 'multiplicative' | 'additive' | 'power' | 'shin';
+
+export type ConsensusMarket = 'moneyline' | 'spread' | 'total';
+
+export interface FairPrice {
+  probability: number; // 0-1, vig removed
+  odds: number; // Fair American price
+}
+
+export interface MarketConsensus {
+  market: ConsensusMarket;
+  line: number | null; // Away spread or total; null for moneyline
+  books: string[]; // Books that contributed (quoting the consensus line)
+  overround: number; // Mean book margin, e.g. 0.045 = 4.5%
+  fair: Partial<Record<BetSide, FairPrice>>; // Includes 'draw' on three-way (1X2) moneylines
+}
+
+export type BoardOutcome = 'awayML' | 'homeML' | 'drawML' | 'awayPL' | 'homePL' | 'over' | 'under';
+
+export interface BookPrice {
+  book: string;
+  price: number; // American
+  line: number | null; // Spread handicap or total; null for moneyline
+}
+
+export type BestAvailable = Partial<Record<BoardOutcome, BookPrice>>;
+
+export interface BoardQuote extends BookPrice {
+  outcome: BoardOutcome;
+}
+
+export interface StakePlan {
+  stakes: number[]; // Same order as the legs
+  totalStake: number;
+  payout: number; // Return (stake included) if any single leg wins
+  profit: number; // payout - totalStake
+}
+
+export interface ArbitrageOpportunity {
+  market: ConsensusMarket;
+  legs: BoardQuote[]; // Two legs; three on a 1X2 moneyline
+  impliedSum: number; // < 1 for a true arb
+  margin: number; // Guaranteed return on total stake, e.g. 0.012 = 1.2%
+}
+
+export interface MiddleOpportunity {
+  market: 'spread' | 'total';
+  legs: [BoardQuote, BoardQuote];
+  width: number; // Points of margin / total that win both legs
+  impliedSum: number;
+}
+
+export type PromoType = 'profit_boost' | 'odds_boost' | 'bet_credit' | 'second_chance';
+
+export interface PromoTerms {
+  type: PromoType;
+  amount: number; // Stake (cash promos) or credit face value (bet credit)
+  boost: number; // Profit boost on the price's profit part, e.g. 0.25 = 25%: +100 boosted 25% pays +125
+  boostedOdds: number; // Odds boost: the American price the book pays instead of its quote, e.g. +150 → +200
+  creditConversion: number; // Second chance: value of the refunded credit per dollar, 0-1
+}
+
+export interface PromoHedge {
+  promoStake: number;
+  hedgeStake: number;
+  cashOutlay: number; // Cash at risk across both books (a bet credit's stake isn't cash)
+  profit: number; // Guaranteed, whichever side wins
+  conversion: number; // profit / amount
+}
+
+export interface PromoOpportunity {
+  market: ConsensusMarket;
+  legs: [BoardQuote, BoardQuote]; // Promo book leg, hedge leg
+  plan: PromoHedge;
+}
+
+export type StakingStrategy = 'flat' | 'kelly' | 'fractional_kelly' | 'capped_kelly';
+
+export interface BankrollSettings {
+  bankroll: number;
+  unitSize: number;
+  strategy: StakingStrategy;
+  kellyFraction: number; // Multiplier on full Kelly, e.g. 0.25
+  maxStakePct: number; // Cap as % of bankroll (capped Kelly)
+}
+
+export interface StakeRecommendation {
+  strategy: StakingStrategy;
+  stake: number; // Currency, rounded to cents
+  bankrollPct: number; // stake / bankroll * 100
+  units: number; // stake / unitSize
+}
+
+export interface ParlayLeg {
+  id: string;
+  gameId: string;
+  market: ConsensusMarket;
+  period: PeriodScope;
+  side: BetSide;
+  odds: number; // American
+  fairProbability: number | null; // No-vig consensus; null when the leg's line isn't the consensus line
+  favorite: boolean | null; // Team legs: is this side the moneyline favourite (null for totals / unknown)
+}
+
+export type CorrelationKind = 'conflict' | 'positive' | 'negative';
+
+export interface CorrelationWarning {
+  legIds: [string, string];
+  kind: CorrelationKind;
+  message: string;
+}
+
+export type TeaserPoints = 6 | 6.5 | 7;
+
+// Share of final games decided by each absolute margin
+export interface MarginDistribution {
+  sample: number;
+  frequency: Record<number, number>; // Favourite − underdog final margin (negative: the underdog won) → 0-1
+}
+
+export interface TeaserLegAnalysis {
+  line: number; // Spread for the side, e.g. -7.5
+  teasedLine: number;
+  crossed: number[]; // Key numbers the move passes through
+  isWong: boolean; // Crosses both 3 and 7
+  coverRate: number | null; // Estimated from history; null without a sample
+  pushRate: number; // Chance of landing exactly on the teased line (0 on half points)
+}
+
+export interface TeaserPricing {
+  odds: number; // Offered ticket price
+  breakevenLeg: number; // Per-leg win rate the price requires
+  winRate: number | null; // Every leg covers
+  pushRate: number | null; // No leg loses but at least one pushes, so the ticket is regraded
+  ev: number | null; // EV% over win, regrade and loss
+}
+
+export interface ParlayPricing {
+  decimal: number;
+  odds: number; // American
+  impliedProbability: number; // 1 / decimal
+  fairProbability: number | null; // Product of leg fair probabilities (assumes independence)
+  fairOdds: number | null;
+  ev: number | null; // EV% at the fair probability
+  correlations: CorrelationWarning[];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// CONVERSIONS
+// ─────────────────────────────────────────────────────────────────────────────
+
 /**
- * Calculates the Expected Value (EV%) of a bet.
- * EV% = ((Estimated Probability * Decimal Payout) - 1) * 100
+ * Converts American odds to decimal odds (stake included).
  */
-export const calculateEV = (confidence: number, odds: number): number => {
-  const probability = confidence / 100;
-  // Calculate Decimal Payout (Decimal Odds) from American Odds
-  const decimalPayout = odds > 0
-    ? (odds / 100) + 1
-    : (100 / Math.abs(odds)) + 1;
+export const americanToDecimal = (odds: number): number => {
+  if (!odds) return 1;
+  return odds > 0 ? odds / 100 + 1 : 100 / Math.abs(odds) + 1;
+};
 
-  return ((probability * decimalPayout) - 1) * 100;
+/**
+ * Converts decimal odds to the nearest whole American price.
+ */
+export const decimalToAmerican = (decimal: number): number => {
+  if (decimal <= 1) return 0;
+  return decimal >= 2 ? Math.round((decimal - 1) * 100) : -Math.round(100 / (decimal - 1));
 };
 
 /**
- * Calculates the fair American line (no-vig odds) from confidence.
+ * Converts American odds to a reduced fractional string, e.g. +250 → "5/2", -110 → "10/11".
  */
-export const calculateFairLine = (confidence: number): number => {
-  const probability = confidence / 100;
+export const americanToFractional = (odds: number): string => {
+  if (!odds) return '0/1';
+  const [numerator, denominator] = odds > 0 ? [odds, 100] : [100, Math.abs(odds)];
+  const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+  const divisor = gcd(Math.round(numerator), Math.round(denominator));
+  return `${Math.round(numerator) / divisor}/${Math.round(denominator) / divisor}`;
+};
+
+/**
+ * Converts a fractional string ("5/2") or numerator/denominator pair to decimal odds.
+ */
+export const fractionalToDecimal = (fraction: string): number => {
+  const [numerator, denominator] = fraction.split('/').map(Number);
+  if (!denominator || isNaN(numerator)) return 1;
+  return numerator / denominator + 1;
+};
+
+/**
+ * Converts American odds to implied probability (0-1), vig included.
+ */
+export const impliedProbability = (odds: number): number => {
+  if (!odds) return 0;
+  return odds > 0 ? 100 / (odds + 100) : Math.abs(odds) / (Math.abs(odds) + 100);
+};
+
+/**
+ * Converts a probability (0-1) to the fair American price.
+ */
+export const probabilityToAmerican = (probability: number): number => {
   // Handle edge cases to prevent division by zero
   if (probability >= 1) return -Infinity;
   if (probability <= 0) return Infinity;
 
-  if (probability > 0.5) {
-    // Favorite
-    return -Math.round((probability / (1 - probability)) * 100);
+  return probability > 0.5
+    ? -Math.round((probability / (1 - probability)) * 100) // Favorite
+    : Math.round(((1 - probability) / probability) * 100); // Underdog
+};
+
+/**
+ * Extracts the American price from a board string: "-110", "+1.5 (-110)", "o6.5 (+105)".
+ */
+export const parseAmericanOdds = (value: string | undefined | null): number | null => {
+  if (!value) return null;
+  const match = value.match(/\(([+-]?\d+)\)/) ?? value.match(/^\s*([+-]?\d+)\s*$/);
+  const odds = match ? parseInt(match[1], 10) : NaN;
+  return isNaN(odds) || odds === 0 ? null : odds;
+};
+
+/**
+ * Extracts the handicap from a spread board string: "+1.5 (-110)" → 1.5.
+ */
+export const parseSpreadLine = (value: string | undefined | null): number | null => {
+  if (!value) return null;
+  const match = value.match(/^\s*([+-]?\d+(?:\.\d+)?)\s*\(/);
+  return match ? parseFloat(match[1]) : null;
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// EV & PAYOUTS
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Expected value (%) of a bet at American odds for a win probability (0-1).
+ * EV% = ((Probability * Decimal Payout) - 1) * 100
+ */
+export const expectedValue = (probability: number, odds: number): number =>
+  (probability * americanToDecimal(odds) - 1) * 100;
+
+/**
+ * Calculates the Expected Value (EV%) of a bet from model confidence (0-100).
+ */
+export const calculateEV = (confidence: number, odds: number): number => expectedValue(confidence / 100, odds);
+
+/**
+ * Calculates the fair American line (no-vig odds) from confidence (0-100).
+ */
+export const calculateFairLine = (confidence: number): number => probabilityToAmerican(confidence / 100);
+
+/**
+ * Win probability (0-100) a pick's EV and stake are priced from: the calibrated probability
+ * when one was applied at generation, otherwise the model's raw confidence.
+ */
+export const pickProbability = (pick: { confidence_score: number; calibrated_probability?: number | null }): number =>
+  pick.calibrated_probability != null ? pick.calibrated_probability * 100 : pick.confidence_score;
+
+// Board cell for each side of each market
+const PICK_OUTCOMES: Record<ConsensusMarket, Partial<Record<BetSide, BoardOutcome>>> = {
+  moneyline: { away: 'awayML', draw: 'drawML', home: 'homeML' },
+  spread: { away: 'awayPL', home: 'homePL' },
+  total: { over: 'over', under: 'under' },
+};
+
+/** Board market a pick is priced in; older picks without a market_type are moneylines. */
+export const pickMarket = (pick: Pick<PickData, 'market_type'>): ConsensusMarket =>
+  pick.market_type === 'spread' || pick.market_type === 'total' ? pick.market_type : 'moneyline';
+
+/**
+ * Side a pick is on. The stored pick_outcome wins; older moneyline picks fall back to the team
+ * their label names (abbreviation or name word), null when it names both or neither.
+ */
+export const resolvePickSide = (pick: Pick<PickData, 'market_type' | 'pick_outcome' | 'pick_side'>, game: GameData): BetSide | null => {
+  if (pick.pick_outcome) return pick.pick_outcome;
+  if (pickMarket(pick) !== 'moneyline') return null;
+
+  const text = pick.pick_side.toLowerCase();
+  const mentions = (team: string) =>
+    team
+      .toLowerCase()
+      .replace(/[^a-z0-9\s]/g, '')
+      .split(/\s+/)
+      .some((word) => word.length > 1 && new RegExp(`\\b${word}\\b`).test(text));
+  const away = mentions(game.awayTeam);
+  const home = mentions(game.homeTeam);
+  if (away === home) return null;
+  return away ? 'away' : 'home';
+};
+
+/** Board cell a pick is bet at, e.g. a home spread pick -> homePL. */
+export const pickBoardOutcome = (market: ConsensusMarket, side: BetSide | null): BoardOutcome | null =>
+  (side && PICK_OUTCOMES[market][side]) || null;
+
+/**
+ * Calculates profit (excluding stake) for a winning bet at American odds.
+ */
+export const calculateToWin = (stake: number, odds: number): number => {
+  if (!stake || !odds) return 0;
+  return Math.round(stake * (americanToDecimal(odds) - 1) * 100) / 100;
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// SETTLEMENT
+// ─────────────────────────────────────────────────────────────────────────────
+
+// One copy of the settlement rules, shared with the grade-picks / backtest-picks edge functions.
+// @shared maps to supabase/functions/_shared; only dependency-free modules listed in
+// tsconfig.app.json's include may be imported from the app.
+export {
+  handicapParts,
+  settleAsian,
+  settlementProfit,
+  type Settlement,
+} from '@shared/settlement.ts';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// VIG REMOVAL
+// ─────────────────────────────────────────────────────────────────────────────
+
+const BISECTION_STEPS = 100;
+
+// Solves f(x) = 0 for a function that is monotonic on [lo, hi]
+const bisect = (f: (x: number) => number, lo: number, hi: number): number => {
+  const increasing = f(hi) > f(lo);
+  for (let i = 0; i < BISECTION_STEPS; i++) {
+    const mid = (lo + hi) / 2;
+    if (f(mid) > 0 === increasing) hi = mid;
+    else lo = mid;
+  }
+  return (lo + hi) / 2;
+};
+
+/**
+ * Book margin: sum of implied probabilities minus 1 (e.g. -110/-110 → 0.0476).
+ */
+export const overround = (odds: number[]): number => odds.reduce((sum, o) => sum + impliedProbability(o), 0) - 1;
+
+/**
+ * Removes the vig from a complete market (two-way or three-way) and returns fair
+ * probabilities in the same order as `odds`, summing to 1.
+ *
+ * - multiplicative: scale each implied probability by the booksum
+ * - additive: subtract an equal share of the margin from each outcome
+ * - power: find k with Σ pᵢᵏ = 1 (shades longshots harder)
+ * - shin: Shin's insider-trading model, solving for the insider share z
+ */
+export const removeVig = (odds: number[], method: VigMethod = 'multiplicative'): number[] => {
+  const implied = odds.map(impliedProbability);
+  const total = implied.reduce((a, b) => a + b, 0);
+  if (implied.length < 2 || implied.some((p) => p <= 0) || total <= 0) return implied;
+
+  switch (method) {
+    case 'additive': {
+      const share = (total - 1) / implied.length;
+      const shifted = implied.map((p) => Math.max(p - share, 0));
+      const sum = shifted.reduce((a, b) => a + b, 0);
+      return shifted.map((p) => p / sum);
+    }
+
+    case 'power': {
+      const k = bisect((x) => implied.reduce((sum, p) => sum + Math.pow(p, x), 0) - 1, 0.01, 100);
+      return implied.map((p) => Math.pow(p, k));
+    }
+
+    case 'shin': {
+      if (total <= 1) return implied.map((p) => p / total);
+      const fair = (z: number) =>
+        implied.map((p) => (Math.sqrt(z * z + (4 * (1 - z) * p * p) / total) - z) / (2 * (1 - z)));
+      const z = bisect((x) => fair(x).reduce((a, b) => a + b, 0) - 1, 0, 0.99);
+      return fair(z);
+    }
+
+    case 'multiplicative':
+    default:
+      return implied.map((p) => p / total);
+  }
+};
+
+/**
+ * Fair American prices for a complete market, same order as `odds`.
+ */
+export const fairOdds = (odds: number[], method: VigMethod = 'multiplicative'): number[] =>
+  removeVig(odds, method).map(probabilityToAmerican);
+
+// ─────────────────────────────────────────────────────────────────────────────
+// MARKET CONSENSUS
+// ─────────────────────────────────────────────────────────────────────────────
+
+// 'generic' mirrors the preferred book on the board; counting it would double-weight that book
+const FALLBACK_BOOK = 'generic';
+
+interface BookQuote {
+  book: string;
+  line: number | null;
+  prices: number[]; // [away | over, home | under], or [away, draw, home] on a 1X2 moneyline
+}
+
+const quoteFor = (book: string, data: MarketLines, market: ConsensusMarket): BookQuote | null => {
+  let prices: (number | null)[];
+  let line: number | null = null;
+
+  if (market === 'moneyline') {
+    prices = data.drawML
+      ? [parseAmericanOdds(data.awayML), parseAmericanOdds(data.drawML), parseAmericanOdds(data.homeML)]
+      : [parseAmericanOdds(data.awayML), parseAmericanOdds(data.homeML)];
+  } else if (market === 'spread') {
+    prices = [parseAmericanOdds(data.awayPL), parseAmericanOdds(data.homePL)];
+    line = parseSpreadLine(data.awayPL);
   } else {
-    // Underdog
-    return Math.round(((1 - probability) / probability) * 100);
+    prices = [parseAmericanOdds(data.overOdds), parseAmericanOdds(data.underOdds)];
+    line = parseFloat(data.total);
+    if (isNaN(line)) line = null;
+  }
+
+  if (prices.some((p) => p === null)) return null;
+  if (market !== 'moneyline' && line === null) return null;
+  return { book, line, prices: prices as number[] };
+};
+
+/**
+ * Cross-book consensus fair price for one market on a game's `odds` map.
+ * Each book is de-vigged on its own, then fair probabilities are averaged.
+ * Spreads/totals only use books quoting the most common line; a soccer moneyline
+ * is de-vigged three ways (away / draw / home) from the books quoting the draw.
+ */
+export const marketConsensus = (
+  odds: Record<string, MarketLines> | undefined,
+  market: ConsensusMarket,
+  method: VigMethod = 'multiplicative',
+): MarketConsensus | null => {
+  if (!odds) return null;
+
+  const entries = Object.entries(odds);
+  const hasNamedBooks = entries.some(([book]) => book !== FALLBACK_BOOK);
+  let quotes = entries
+    .filter(([book]) => !hasNamedBooks || book !== FALLBACK_BOOK)
+    .map(([book, data]) => quoteFor(book, data, market))
+    .filter((q): q is BookQuote => q !== null);
+
+  if (quotes.length === 0) return null;
+
+  let line: number | null = null;
+  if (market !== 'moneyline') {
+    const counts = new Map<number, number>();
+    quotes.forEach((q) => counts.set(q.line!, (counts.get(q.line!) || 0) + 1));
+    line = [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+    quotes = quotes.filter((q) => q.line === line);
+  } else if (quotes.some((q) => q.prices.length === 3)) {
+    // A two-way quote on a game that can be drawn isn't comparable with the 1X2 books
+    quotes = quotes.filter((q) => q.prices.length === 3);
+  }
+
+  const sides: BetSide[] =
+    market === 'total' ? ['over', 'under'] : quotes[0].prices.length === 3 ? ['away', 'draw', 'home'] : ['away', 'home'];
+  const devigged = quotes.map((q) => removeVig(q.prices, method));
+  const fair = sides.map((_, i) => devigged.reduce((sum, p) => sum + p[i], 0) / devigged.length);
+
+  return {
+    market,
+    line,
+    books: quotes.map((q) => q.book),
+    overround: quotes.reduce((sum, q) => sum + overround(q.prices), 0) / quotes.length,
+    fair: Object.fromEntries(
+      sides.map((side, i) => [side, { probability: fair[i], odds: probabilityToAmerican(fair[i]) }]),
+    ),
+  };
+};
+
+/**
+ * Fair draw no bet prices from a three-way moneyline consensus: the draw is refunded,
+ * so each side's probability is renormalised over the two decisive results.
+ */
+export const drawNoBetFair = (consensus: MarketConsensus | null): Partial<Record<'away' | 'home', FairPrice>> | null => {
+  const away = consensus?.fair.away?.probability;
+  const home = consensus?.fair.home?.probability;
+  if (!consensus?.fair.draw || away === undefined || home === undefined || away + home <= 0) return null;
+
+  const pAway = away / (away + home);
+  return {
+    away: { probability: pAway, odds: probabilityToAmerican(pAway) },
+    home: { probability: 1 - pAway, odds: probabilityToAmerican(1 - pAway) },
+  };
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// LINE SHOPPING
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * A game's `odds` map narrowed to one scope. Periods map each book to its period lines;
+ * books that don't quote the period are dropped.
+ */
+export const oddsForScope = (
+  odds: Record<string, MarketData> | undefined,
+  scope: PeriodScope,
+): Record<string, MarketLines> => {
+  if (!odds) return {};
+  if (scope === 'game') return odds;
+
+  return Object.fromEntries(
+    Object.entries(odds).flatMap(([book, data]) => {
+      const lines = data.periods?.[scope];
+      return lines ? [[book, lines]] : [];
+    }),
+  );
+};
+
+/**
+ * Every book's quote for one outcome on a game's `odds` map ('generic' excluded when named books exist).
+ */
+export const quotesFor = (odds: Record<string, MarketLines> | undefined, outcome: BoardOutcome): BookPrice[] => {
+  if (!odds) return [];
+
+  const entries = Object.entries(odds);
+  const hasNamedBooks = entries.some(([book]) => book !== FALLBACK_BOOK);
+
+  return entries
+    .filter(([book]) => !hasNamedBooks || book !== FALLBACK_BOOK)
+    .map(([book, data]): BookPrice | null => {
+      let price: number | null;
+      let line: number | null = null;
+
+      if (outcome === 'awayML' || outcome === 'homeML' || outcome === 'drawML') {
+        price = parseAmericanOdds(data[outcome]);
+      } else if (outcome === 'awayPL' || outcome === 'homePL') {
+        price = parseAmericanOdds(data[outcome]);
+        line = parseSpreadLine(data[outcome]);
+        if (line === null) return null;
+      } else {
+        price = parseAmericanOdds(outcome === 'over' ? data.overOdds : data.underOdds);
+        line = parseFloat(data.total);
+        if (isNaN(line)) return null;
+      }
+
+      return price === null ? null : { book, price, line };
+    })
+    .filter((q): q is BookPrice => q !== null);
+};
+
+// Bettor-favourable ordering: better number first (more points on a spread, lower
+// over / higher under), then better price. Higher American odds always pay more.
+const isBetter = (outcome: BoardOutcome, a: BookPrice, b: BookPrice): boolean => {
+  if (a.line !== null && b.line !== null && a.line !== b.line) {
+    return outcome === 'over' ? a.line < b.line : a.line > b.line;
+  }
+  return a.price > b.price;
+};
+
+/**
+ * Best price per outcome across books (line shopping).
+ */
+export const bestAvailable = (odds: Record<string, MarketLines> | undefined): BestAvailable => {
+  const outcomes: BoardOutcome[] = ['awayML', 'homeML', 'drawML', 'awayPL', 'homePL', 'over', 'under'];
+  const best: BestAvailable = {};
+
+  outcomes.forEach((outcome) => {
+    const quotes = quotesFor(odds, outcome);
+    if (quotes.length === 0) return;
+    best[outcome] = quotes.reduce((top, q) => (isBetter(outcome, q, top) ? q : top));
+  });
+
+  return best;
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// ARBITRAGE & MIDDLES
+// ─────────────────────────────────────────────────────────────────────────────
+
+const withOutcome = (outcome: BoardOutcome, quote: BookPrice): BoardQuote => ({ ...quote, outcome });
+
+const bestPrice = (quotes: BookPrice[]): BookPrice | null =>
+  quotes.length === 0 ? null : quotes.reduce((top, q) => (q.price > top.price ? q : top));
+
+const impliedSumOf = (legs: BookPrice[]): number => legs.reduce((sum, l) => sum + impliedProbability(l.price), 0);
+
+// Soccer moneylines have a draw leg; two-way logic on away / home alone doesn't cover every result
+const isThreeWay = (odds: Record<string, MarketLines> | undefined): boolean => quotesFor(odds, 'drawML').length > 0;
+
+/**
+ * Equal-payout stake split: each leg returns `targetPayout` if it wins.
+ * Stakes are rounded to cents.
+ */
+export const arbitrageStakes = (odds: number[], targetPayout: number): StakePlan => {
+  const stakes = odds.map((o) => Math.round((targetPayout / americanToDecimal(o)) * 100) / 100);
+  const totalStake = Math.round(stakes.reduce((a, b) => a + b, 0) * 100) / 100;
+  return { stakes, totalStake, payout: targetPayout, profit: Math.round((targetPayout - totalStake) * 100) / 100 };
+};
+
+/**
+ * Arbitrage across books: best price on each side of the same market (same spread
+ * magnitude / same total) with implied probabilities summing < 1. Soccer moneylines
+ * need all three 1X2 legs.
+ */
+export const findArbitrage = (odds: Record<string, MarketLines> | undefined): ArbitrageOpportunity[] => {
+  const found: ArbitrageOpportunity[] = [];
+
+  const check = (market: ConsensusMarket, ...legs: (BoardQuote | null)[]) => {
+    if (legs.some((l) => !l)) return;
+    const quoted = legs as BoardQuote[];
+    const impliedSum = impliedSumOf(quoted);
+    if (impliedSum < 1) found.push({ market, legs: quoted, impliedSum, margin: 1 / impliedSum - 1 });
+  };
+
+  const ml = (outcome: BoardOutcome) => {
+    const q = bestPrice(quotesFor(odds, outcome));
+    return q ? withOutcome(outcome, q) : null;
+  };
+  if (isThreeWay(odds)) check('moneyline', ml('awayML'), ml('drawML'), ml('homeML'));
+  else check('moneyline', ml('awayML'), ml('homeML'));
+
+  const awaySpreads = quotesFor(odds, 'awayPL');
+  const homeSpreads = quotesFor(odds, 'homePL');
+  new Set(awaySpreads.map((q) => q.line!)).forEach((line) => {
+    const away = bestPrice(awaySpreads.filter((q) => q.line === line));
+    const home = bestPrice(homeSpreads.filter((q) => q.line === -line));
+    check('spread', away && withOutcome('awayPL', away), home && withOutcome('homePL', home));
+  });
+
+  const overs = quotesFor(odds, 'over');
+  const unders = quotesFor(odds, 'under');
+  new Set(overs.map((q) => q.line!)).forEach((line) => {
+    const over = bestPrice(overs.filter((q) => q.line === line));
+    const under = bestPrice(unders.filter((q) => q.line === line));
+    check('total', over && withOutcome('over', over), under && withOutcome('under', under));
+  });
+
+  return found.sort((a, b) => b.margin - a.margin);
+};
+
+/**
+ * Spread / total middles across books: the two sides are priced at different
+ * numbers so a result in the gap wins both (e.g. away +3.5 at one book, home -2.5
+ * at another). Only the best-priced pair per number combination is returned.
+ */
+export const findMiddles = (odds: Record<string, MarketLines> | undefined): MiddleOpportunity[] => {
+  const found: MiddleOpportunity[] = [];
+
+  const scan = (
+    market: MiddleOpportunity['market'],
+    sideA: BoardOutcome,
+    sideB: BoardOutcome,
+    widthOf: (a: number, b: number) => number,
+  ) => {
+    const quotesA = quotesFor(odds, sideA);
+    const quotesB = quotesFor(odds, sideB);
+
+    new Set(quotesA.map((q) => q.line!)).forEach((lineA) => {
+      new Set(quotesB.map((q) => q.line!)).forEach((lineB) => {
+        const width = widthOf(lineA, lineB);
+        if (width <= 0) return;
+        const a = bestPrice(quotesA.filter((q) => q.line === lineA));
+        const b = bestPrice(quotesB.filter((q) => q.line === lineB));
+        if (!a || !b || a.book === b.book) return;
+        found.push({ market, legs: [withOutcome(sideA, a), withOutcome(sideB, b)], width, impliedSum: impliedSumOf([a, b]) });
+      });
+    });
+  };
+
+  scan('spread', 'awayPL', 'homePL', (away, home) => away + home);
+  scan('total', 'over', 'under', (over, under) => under - over);
+
+  return found.sort((a, b) => b.width - a.width || a.impliedSum - b.impliedSum);
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// PROMOS
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Typical value of a second-chance refund credit once it's itself hedged
+export const DEFAULT_CREDIT_CONVERSION = 0.7;
+
+// Single-leg hedges; a 1X2 draw has no one opposite outcome
+const OPPOSITE_OUTCOME: Partial<Record<BoardOutcome, BoardOutcome>> = {
+  awayML: 'homeML',
+  homeML: 'awayML',
+  awayPL: 'homePL',
+  homePL: 'awayPL',
+  over: 'under',
+  under: 'over',
+};
+
+const OUTCOME_MARKET: Record<BoardOutcome, ConsensusMarket> = {
+  awayML: 'moneyline',
+  homeML: 'moneyline',
+  drawML: 'moneyline',
+  awayPL: 'spread',
+  homePL: 'spread',
+  over: 'total',
+  under: 'total',
+};
+
+/**
+ * Hedge that locks the same profit whichever side wins. The promo leg returns `win`
+ * if it hits and `refund` (credit value) if it loses; the hedge stake is
+ * (win - refund) / hedge decimal.
+ */
+export const promoHedge = (promoOdds: number, hedgeOdds: number, terms: PromoTerms): PromoHedge => {
+  const { type, amount, boost, boostedOdds, creditConversion } = terms;
+  const promoDecimal = americanToDecimal(promoOdds);
+
+  let win: number; // Return on the promo leg (stake included when the stake is cash)
+  let refund = 0;
+  switch (type) {
+    case 'profit_boost':
+      win = amount + amount * (promoDecimal - 1) * (1 + boost); // Stake returned unboosted
+      break;
+    case 'odds_boost':
+      win = amount * americanToDecimal(boostedOdds); // The boosted price replaces the quote
+      break;
+    case 'bet_credit':
+      win = amount * (promoDecimal - 1); // Credit stake is not returned
+      break;
+    case 'second_chance':
+      win = amount * promoDecimal;
+      refund = amount * creditConversion;
+      break;
+  }
+
+  const cashStake = type === 'bet_credit' ? 0 : amount;
+  const hedgeStake = Math.round(((win - refund) / americanToDecimal(hedgeOdds)) * 100) / 100;
+  const profit = Math.round((win - cashStake - hedgeStake) * 100) / 100;
+
+  return {
+    promoStake: amount,
+    hedgeStake,
+    cashOutlay: Math.round((cashStake + hedgeStake) * 100) / 100,
+    profit,
+    conversion: amount > 0 ? profit / amount : 0,
+  };
+};
+
+/**
+ * Every outcome `promoBook` quotes, hedged at the best price for the opposite side
+ * (same spread magnitude / same total) on any other book. Sorted by guaranteed profit.
+ * Three-way moneylines are skipped: one hedge leg can't cover both other results. An odds
+ * boost only applies to outcomes quoted below the boosted price.
+ */
+export const findPromoHedges = (
+  odds: Record<string, MarketLines> | undefined,
+  promoBook: string,
+  terms: PromoTerms,
+): PromoOpportunity[] => {
+  const found: PromoOpportunity[] = [];
+  const threeWay = isThreeWay(odds);
+
+  (Object.keys(OPPOSITE_OUTCOME) as BoardOutcome[]).forEach((outcome) => {
+    if (threeWay && OUTCOME_MARKET[outcome] === 'moneyline') return;
+    const promo = quotesFor(odds, outcome).find((q) => q.book === promoBook);
+    if (!promo) return;
+    if (terms.type === 'odds_boost' && americanToDecimal(promo.price) >= americanToDecimal(terms.boostedOdds)) return;
+
+    const opposite = OPPOSITE_OUTCOME[outcome]!;
+    const hedgeLine = promo.line === null ? null : OUTCOME_MARKET[outcome] === 'spread' ? -promo.line : promo.line;
+    const hedge = bestPrice(quotesFor(odds, opposite).filter((q) => q.book !== promoBook && q.line === hedgeLine));
+    if (!hedge) return;
+
+    found.push({
+      market: OUTCOME_MARKET[outcome],
+      legs: [withOutcome(outcome, promo), withOutcome(opposite, hedge)],
+      plan: promoHedge(promo.price, hedge.price, terms),
+    });
+  });
+
+  return found.sort((a, b) => b.plan.profit - a.plan.profit);
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// STAKING
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const DEFAULT_BANKROLL_SETTINGS: BankrollSettings = {
+  bankroll: 1000,
+  unitSize: 10,
+  strategy: 'capped_kelly',
+  kellyFraction: 0.25,
+  maxStakePct: 3,
+};
+
+/**
+ * Full Kelly fraction of bankroll for a win probability (0-1) at American odds.
+ * f* = (b·p − q) / b with b = decimal − 1; 0 when there is no edge.
+ */
+export const kellyFraction = (probability: number, odds: number): number => {
+  const b = americanToDecimal(odds) - 1;
+  if (b <= 0 || probability <= 0) return 0;
+  return Math.max(0, (b * probability - (1 - probability)) / b);
+};
+
+/**
+ * Stake for one strategy. Kelly variants stake nothing without an edge; flat
+ * always stakes one unit (the EV indicator is what flags a negative edge).
+ */
+export const recommendStake = (
+  probability: number,
+  odds: number,
+  settings: BankrollSettings,
+  strategy: StakingStrategy = settings.strategy,
+): StakeRecommendation => {
+  const full = kellyFraction(probability, odds);
+  let fraction: number;
+
+  switch (strategy) {
+    case 'flat':
+      fraction = settings.bankroll > 0 ? settings.unitSize / settings.bankroll : 0;
+      break;
+    case 'kelly':
+      fraction = full;
+      break;
+    case 'fractional_kelly':
+      fraction = full * settings.kellyFraction;
+      break;
+    case 'capped_kelly':
+    default:
+      fraction = Math.min(full * settings.kellyFraction, settings.maxStakePct / 100);
+      break;
   }
+
+  const stake = strategy === 'flat' ? settings.unitSize : Math.round(fraction * settings.bankroll * 100) / 100;
+
+  return {
+    strategy,
+    stake,
+    bankrollPct: settings.bankroll > 0 ? (stake / settings.bankroll) * 100 : 0,
+    units: settings.unitSize > 0 ? stake / settings.unitSize : 0,
+  };
+};
+
+/**
+ * Recommendations for every strategy, in display order.
+ */
+export const stakingOptions = (probability: number, odds: number, settings: BankrollSettings): StakeRecommendation[] =>
+  (['flat', 'kelly', 'fractional_kelly', 'capped_kelly'] as StakingStrategy[]).map((strategy) =>
+    recommendStake(probability, odds, settings, strategy),
+  );
+
+// ─────────────────────────────────────────────────────────────────────────────
+// PARLAYS
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * No-vig consensus probability for one leg. Spread / total legs are only priced at the
+ * consensus line (away spread, home gets its negative); other numbers return null.
+ */
+export const legFairProbability = (
+  odds: Record<string, MarketLines> | undefined,
+  market: ConsensusMarket,
+  side: BetSide,
+  line: number | null,
+): number | null => {
+  const consensus = marketConsensus(odds, market);
+  const fair = consensus?.fair[side];
+  if (!consensus || !fair) return null;
+  if (market === 'moneyline') return fair.probability;
+
+  const expected = market === 'spread' && side === 'home' ? -consensus.line! : consensus.line;
+  return line === expected ? fair.probability : null;
+};
+
+const isTeamMarket = (market: ConsensusMarket) => market !== 'total';
+
+// Same-game pairs whose outcomes are not independent; the independent fair price is off for these
+const correlationOf = (a: ParlayLeg, b: ParlayLeg): Omit<CorrelationWarning, 'legIds'> | null => {
+  const samePeriod = a.period === b.period;
+
+  if (a.market === b.market && samePeriod && a.side !== b.side) {
+    return a.market === 'moneyline'
+      ? { kind: 'conflict', message: 'Both sides of the moneyline cannot win.' }
+      : { kind: 'negative', message: 'Opposite sides only both win on a middle.' };
+  }
+
+  // A draw leg has no team direction to line up with spreads or totals
+  if (a.side === 'draw' || b.side === 'draw') return null;
+
+  if (!samePeriod) {
+    // e.g. 1H and full-game legs on the same team / same side of the total
+    const sameDirection = isTeamMarket(a.market) === isTeamMarket(b.market) && a.side === b.side;
+    return sameDirection ? { kind: 'positive', message: 'Period and full-game legs on the same side move together.' } : null;
+  }
+
+  if (isTeamMarket(a.market) && isTeamMarket(b.market)) {
+    return a.side === b.side
+      ? { kind: 'positive', message: 'Moneyline and spread on the same team move together.' }
+      : { kind: 'negative', message: 'Opposing teams on moneyline and spread rarely both win.' };
+  }
+
+  // Team leg + total: favourites pair with overs, underdogs with unders
+  const team = isTeamMarket(a.market) ? a : b;
+  const total = team === a ? b : a;
+  if (team.favorite === null) return null;
+
+  const aligned = team.favorite === (total.side === 'over');
+  return aligned
+    ? { kind: 'positive', message: `${team.favorite ? 'Favorite and the over' : 'Underdog and the under'} tend to hit together.` }
+    : { kind: 'negative', message: `${team.favorite ? 'Favorite and the under' : 'Underdog and the over'} tend to pull against each other.` };
+};
+
+/**
+ * Correlation warnings for every same-game pair of legs.
+ */
+export const findCorrelations = (legs: ParlayLeg[]): CorrelationWarning[] => {
+  const warnings: CorrelationWarning[] = [];
+
+  legs.forEach((a, i) => {
+    legs.slice(i + 1).forEach((b) => {
+      if (a.gameId !== b.gameId) return;
+      const correlation = correlationOf(a, b);
+      if (correlation) warnings.push({ legIds: [a.id, b.id], ...correlation });
+    });
+  });
+
+  return warnings;
+};
+
+/**
+ * Parlay price from each leg's American odds, compared with the product of the legs'
+ * no-vig probabilities. The fair side assumes independence, so it is only a guide when
+ * correlations are present (positive ones make the true joint probability higher).
+ */
+export const priceParlay = (legs: ParlayLeg[]): ParlayPricing => {
+  const decimal = legs.reduce((product, leg) => product * americanToDecimal(leg.odds), 1);
+  const fairLegs = legs.map((leg) => leg.fairProbability);
+  const fairProbability =
+    legs.length > 0 && fairLegs.every((p) => p !== null)
+      ? fairLegs.reduce<number>((product, p) => product * p!, 1)
+      : null;
+
+  return {
+    decimal,
+    odds: decimalToAmerican(decimal),
+    impliedProbability: decimal > 0 ? 1 / decimal : 0,
+    fairProbability,
+    fairOdds: fairProbability !== null ? probabilityToAmerican(fairProbability) : null,
+    ev: fairProbability !== null ? (fairProbability * decimal - 1) * 100 : null,
+    correlations: findCorrelations(legs),
+  };
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// TEASERS
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const TEASER_POINTS: TeaserPoints[] = [6, 6.5, 7];
+
+// NBA margins have no dominant landing spots, so nothing is flagged there
+export const TEASER_KEY_NUMBERS: Record<'NFL' | 'NBA', number[]> = {
+  NFL: [3, 7, 10],
+  NBA: [],
+};
+
+const WONG_NUMBERS = [3, 7];
+
+// Typical US ticket prices by points and leg count
+export const DEFAULT_TEASER_PRICES: Record<TeaserPoints, Record<number, number>> = {
+  6: { 2: -110, 3: 180, 4: 300 },
+  6.5: { 2: -120, 3: 160, 4: 250 },
+  7: { 2: -130, 3: 140, 4: 200 },
+};
+
+/**
+ * Final-margin frequencies from graded results, signed from the favourite's side: the home
+ * spread names the favourite, and pick'ems (spread 0) are left out.
+ */
+export const marginDistribution = (
+  results: { homeScore: number; awayScore: number; homeSpread: number }[],
+): MarginDistribution => {
+  const withFavourite = results.filter((r) => r.homeSpread !== 0);
+  const counts: Record<number, number> = {};
+  withFavourite.forEach((r) => {
+    const margin = (r.homeScore - r.awayScore) * (r.homeSpread < 0 ? 1 : -1);
+    counts[margin] = (counts[margin] || 0) + 1;
+  });
+
+  const frequency: Record<number, number> = {};
+  Object.entries(counts).forEach(([margin, count]) => {
+    frequency[Number(margin)] = count / withFavourite.length;
+  });
+
+  return { sample: withFavourite.length, frequency };
+};
+
+// Chance the side with spread `line` finishes at margin m (side − opponent). A favourite's margin
+// reads straight off the distribution, an underdog's is the favourite's negated; a pick'em side
+// is equally likely to be either.
+const marginShare = (distribution: MarginDistribution, m: number, line: number): number => {
+  const { frequency } = distribution;
+  if (line < 0) return frequency[m] || 0;
+  if (line > 0) return frequency[-m] || 0;
+  return ((frequency[m] || 0) + (frequency[-m] || 0)) / 2;
+};
+
+/**
+ * Share of games landing exactly on key number k, whichever side wins by it.
+ */
+export const landingRate = (distribution: MarginDistribution, k: number): number =>
+  (distribution.frequency[k] || 0) + (distribution.frequency[-k] || 0);
+
+/**
+ * One spread leg moved `points` in the bettor's favour. The leg covers when margin + line > 0,
+ * so teasing adds every margin in (−teasedLine, −line], the last being the old push on an
+ * integer line; their historical share is added to the base cover probability (0.5 for a fairly
+ * priced spread, or the leg's no-vig probability). No-vig prices exclude the push, so on an
+ * integer line the base is scaled down by the push share before the won margins are added.
+ */
+export const analyzeTeaserLeg = (
+  line: number,
+  points: TeaserPoints,
+  distribution: MarginDistribution | null,
+  keyNumbers: number[],
+  baseProbability = 0.5,
+): TeaserLegAnalysis => {
+  const teasedLine = line + points;
+  const low = -teasedLine;
+  const high = -line;
+
+  const margins: number[] = [];
+  for (let m = Math.floor(low) + 1; m < high || (m === high && Number.isInteger(line)); m++) if (m > low) margins.push(m);
+
+  const crossed = keyNumbers.filter((k) => margins.includes(k) || margins.includes(-k));
+  const hasSample = !!distribution && distribution.sample > 0;
+  const basePush = hasSample && Number.isInteger(line) ? marginShare(distribution!, high, line) : 0;
+  const coverRate = hasSample
+    ? Math.min(1, baseProbability * (1 - basePush) + margins.reduce((sum, m) => sum + marginShare(distribution!, m, line), 0))
+    : null;
+  const pushRate = hasSample && Number.isInteger(teasedLine) ? marginShare(distribution!, -teasedLine, line) : 0;
+
+  return {
+    line,
+    teasedLine,
+    crossed,
+    isWong: keyNumbers.length > 0 && WONG_NUMBERS.every((k) => crossed.includes(k)),
+    coverRate,
+    pushRate: coverRate !== null ? Math.min(pushRate, 1 - coverRate) : pushRate,
+  };
+};
+
+/**
+ * Breakeven and EV of a teaser ticket. Each leg covers, pushes or loses. A push drops the leg
+ * and the ticket is regraded on the legs left: at the standard price for that many legs
+ * (DEFAULT_TEASER_PRICES), or refunded once fewer than two remain.
+ */
+export const priceTeaser = (legs: TeaserLegAnalysis[], odds: number, points: TeaserPoints): TeaserPricing => {
+  const breakevenLeg = legs.length > 0 ? Math.pow(impliedProbability(odds), 1 / legs.length) : 0;
+  if (legs.length === 0 || legs.some((l) => l.coverRate === null)) {
+    return { odds, breakevenLeg, winRate: null, pushRate: null, ev: null };
+  }
+
+  // noLoss[k]: chance that no leg so far lost and k of them covered (the rest pushed)
+  let noLoss = [1];
+  legs.forEach(({ coverRate, pushRate }) => {
+    const next: number[] = new Array(noLoss.length + 1).fill(0);
+    noLoss.forEach((p, k) => {
+      next[k + 1] += p * coverRate!;
+      next[k] += p * pushRate;
+    });
+    noLoss = next;
+  });
+
+  const winRate = noLoss[legs.length];
+  const regraded = noLoss.slice(0, -1);
+  // Profit per unit staked when the ticket is regraded on k covered legs
+  const regradedProfit = (k: number): number => {
+    const price = k >= 2 ? DEFAULT_TEASER_PRICES[points][k] : undefined;
+    return price !== undefined ? americanToDecimal(price) - 1 : 0;
+  };
+
+  const lossRate = 1 - noLoss.reduce((sum, p) => sum + p, 0);
+  const ev =
+    winRate * (americanToDecimal(odds) - 1) +
+    regraded.reduce((sum, p, k) => sum + p * regradedProfit(k), 0) -
+    lossRate;
+
+  return {
+    odds,
+    breakevenLeg,
+    winRate,
+    pushRate: regraded.reduce((sum, p) => sum + p, 0),
+    ev: ev * 100,
+  };
 };
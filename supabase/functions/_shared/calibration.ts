@@ -0,0 +1,196 @@
+// Confidence recalibration. Model confidence is not a calibrated probability; calibrate-picks
+// fits a monotone mapping per league and market from graded picks, and generate-pick applies
+// the latest accepted fit so EV and Kelly are priced from calibrated values.
+
+export type CalibrationMethod = "isotonic" | "platt";
+
+// Pool-adjacent-violators blocks: mean raw probability -> observed win rate, ascending in x
+export interface IsotonicParams {
+  x: number[];
+  y: number[];
+}
+
+// p = sigmoid(a * logit(raw) + b); a = 1, b = 0 is the identity
+export interface PlattParams {
+  a: number;
+  b: number;
+}
+
+export type Calibration =
+  | { method: "isotonic"; params: IsotonicParams }
+  | { method: "platt"; params: PlattParams };
+
+export interface CalibrationSample {
+  raw: number; // Model confidence as a probability (0-1)
+  won: number; // 1 win, 0 loss; quarter-line half results count for the side they lean to
+}
+
+export interface CalibrationFit {
+  calibration: Calibration;
+  sample_size: number;
+  holdout_size: number;
+  brier_raw: number; // Holdout Brier score of the raw confidence
+  brier_calibrated: number; // Holdout Brier score of the mapping fitted on the training split
+  log_loss_raw: number;
+  log_loss_calibrated: number;
+}
+
+// Calibrated probabilities never reach certainty; a handful of picks shouldn't imply a lock
+const PROBABILITY_FLOOR = 0.01;
+const PROBABILITY_CEIL = 0.99;
+
+// Isotonic steps overfit small samples; below this Platt's two parameters are used
+export const ISOTONIC_MIN_SAMPLES = 200;
+
+// Latest picks are held out to score the mapping, so a fit has to beat raw out of sample
+const HOLDOUT_SHARE = 0.25;
+
+// Ridge on (a - 1, b) keeps Platt near the identity when a league's picks are all one-sided
+const PLATT_L2 = 0.01;
+const PLATT_ITERATIONS = 50;
+
+const clamp = (p: number) => Math.min(PROBABILITY_CEIL, Math.max(PROBABILITY_FLOOR, p));
+
+const logit = (p: number) => {
+  const q = clamp(p);
+  return Math.log(q / (1 - q));
+};
+
+const sigmoid = (z: number) => 1 / (1 + Math.exp(-z));
+
+const round = (value: number, digits = 4) => Number(value.toFixed(digits));
+
+export const brierScore = (predicted: number[], samples: CalibrationSample[]): number =>
+  samples.reduce((sum, s, i) => sum + (predicted[i] - s.won) ** 2, 0) / samples.length;
+
+export const logLoss = (predicted: number[], samples: CalibrationSample[]): number =>
+  -samples.reduce((sum, s, i) => {
+    const p = clamp(predicted[i]);
+    return sum + s.won * Math.log(p) + (1 - s.won) * Math.log(1 - p);
+  }, 0) / samples.length;
+
+/**
+ * Pool-adjacent-violators: sorts by raw probability and merges neighbouring blocks until the
+ * observed win rate is non-decreasing. Ties in raw probability share one block.
+ */
+export function fitIsotonic(samples: CalibrationSample[]): IsotonicParams {
+  const sorted = [...samples].sort((a, b) => a.raw - b.raw);
+  const blocks: { sumX: number; sumY: number; n: number }[] = [];
+
+  for (const s of sorted) {
+    const last = blocks[blocks.length - 1];
+    if (last && last.sumX / last.n === s.raw) {
+      last.sumX += s.raw;
+      last.sumY += s.won;
+      last.n++;
+    } else {
+      blocks.push({ sumX: s.raw, sumY: s.won, n: 1 });
+    }
+
+    while (blocks.length > 1) {
+      const b = blocks[blocks.length - 1];
+      const a = blocks[blocks.length - 2];
+      if (a.sumY / a.n <= b.sumY / b.n) break;
+      blocks.splice(-2, 2, { sumX: a.sumX + b.sumX, sumY: a.sumY + b.sumY, n: a.n + b.n });
+    }
+  }
+
+  return {
+    x: blocks.map((b) => round(b.sumX / b.n)),
+    y: blocks.map((b) => round(clamp(b.sumY / b.n))),
+  };
+}
+
+/**
+ * Platt scaling on the logit of the raw probability, fitted by Newton's method with a small
+ * ridge toward the identity mapping.
+ */
+export function fitPlatt(samples: CalibrationSample[]): PlattParams {
+  let a = 1;
+  let b = 0;
+
+  for (let iter = 0; iter < PLATT_ITERATIONS; iter++) {
+    let gA = PLATT_L2 * (a - 1);
+    let gB = PLATT_L2 * b;
+    let hAA = PLATT_L2;
+    let hAB = 0;
+    let hBB = PLATT_L2;
+
+    for (const s of samples) {
+      const z = logit(s.raw);
+      const p = sigmoid(a * z + b);
+      const w = p * (1 - p);
+      gA += (p - s.won) * z;
+      gB += p - s.won;
+      hAA += w * z * z;
+      hAB += w * z;
+      hBB += w;
+    }
+
+    const det = hAA * hBB - hAB * hAB;
+    if (Math.abs(det) < 1e-12) break;
+    const stepA = (hBB * gA - hAB * gB) / det;
+    const stepB = (hAA * gB - hAB * gA) / det;
+    a -= stepA;
+    b -= stepB;
+    if (Math.abs(stepA) < 1e-8 && Math.abs(stepB) < 1e-8) break;
+  }
+
+  return { a: round(a), b: round(b) };
+}
+
+/** Maps a raw probability (0-1) through a fitted calibration. Isotonic interpolates between blocks. */
+export function applyCalibration(calibration: Calibration, raw: number): number {
+  if (calibration.method === "platt") {
+    const { a, b } = calibration.params;
+    return round(clamp(sigmoid(a * logit(raw) + b)));
+  }
+
+  const { x, y } = calibration.params;
+  if (x.length === 0) return round(clamp(raw));
+  if (raw <= x[0]) return y[0];
+  if (raw >= x[x.length - 1]) return y[y.length - 1];
+
+  const hi = x.findIndex((v) => v >= raw);
+  const lo = hi - 1;
+  const t = (raw - x[lo]) / (x[hi] - x[lo]);
+  return round(y[lo] + t * (y[hi] - y[lo]));
+}
+
+const fitMethod = (method: CalibrationMethod, samples: CalibrationSample[]): Calibration =>
+  method === "isotonic"
+    ? { method, params: fitIsotonic(samples) }
+    : { method, params: fitPlatt(samples) };
+
+/**
+ * Fits on the older picks and scores on the latest HOLDOUT_SHARE (samples must be in time
+ * order). "auto" tries isotonic only once there is enough data and keeps whichever method
+ * scores the lower holdout Brier; the winner is then refitted on every sample.
+ */
+export function fitCalibration(samples: CalibrationSample[], method: CalibrationMethod | "auto" = "auto"): CalibrationFit {
+  const split = Math.max(1, Math.floor(samples.length * (1 - HOLDOUT_SHARE)));
+  const train = samples.slice(0, split);
+  const holdout = samples.slice(split);
+  const scored = holdout.length > 0 ? holdout : train;
+
+  const candidates: CalibrationMethod[] =
+    method !== "auto" ? [method] : samples.length >= ISOTONIC_MIN_SAMPLES ? ["platt", "isotonic"] : ["platt"];
+
+  const evaluated = candidates.map((m) => {
+    const calibration = fitMethod(m, train);
+    const predicted = scored.map((s) => applyCalibration(calibration, s.raw));
+    return { method: m, brier: brierScore(predicted, scored), logLoss: logLoss(predicted, scored) };
+  });
+  const best = evaluated.reduce((top, e) => (e.brier < top.brier ? e : top));
+
+  const raw = scored.map((s) => s.raw);
+  return {
+    calibration: fitMethod(best.method, samples),
+    sample_size: samples.length,
+    holdout_size: holdout.length,
+    brier_raw: round(brierScore(raw, scored)),
+    brier_calibrated: round(best.brier),
+    log_loss_raw: round(logLoss(raw, scored)),
+    log_loss_calibrated: round(best.logLoss),
+  };
+}
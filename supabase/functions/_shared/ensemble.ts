@@ -0,0 +1,126 @@
+import type { LLMOutput, Side } from "./pickPrompt.ts";
+
+// Ensemble aggregation for generate-pick: every configured provider answers the same prompt,
+// the most-voted pick wins, and each voter's confidence is restated as a win probability for
+// that pick before averaging.
+
+export interface Vote {
+  provider: string;
+  model: string;
+  analysis: LLMOutput | null; // null when the provider failed or answered off the menu
+  error: string | null;
+}
+
+export interface ConfidenceSpread {
+  mean: number;
+  median: number;
+  trimmed: number; // Drops the highest and lowest fifth (at least one each from three voters up)
+  min: number;
+  max: number;
+}
+
+export interface EnsembleSummary {
+  providers: number;
+  valid: number;
+  side: Side | null;
+  prop_id: string | null;
+  agreement: number; // Share of valid votes on the consensus pick
+  disagreement: boolean; // Some provider picked a different side
+  confidence: ConfidenceSpread;
+  votes: {
+    provider: string;
+    model: string;
+    side: Side | null;
+    pick_side: string | null;
+    confidence: number | null;
+    agrees: boolean | null;
+    error: string | null;
+  }[];
+}
+
+export interface EnsembleResult {
+  summary: EnsembleSummary;
+  analysis: LLMOutput; // Most confident consensus voter, carrying the aggregate confidence
+}
+
+const pickKey = (analysis: LLMOutput) => `${analysis.prop_id ?? ""}:${analysis.side ?? analysis.pick_side}`;
+
+const round = (value: number) => Number(value.toFixed(1));
+
+function spreadOf(values: number[]): ConfidenceSpread {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = sorted.reduce((sum, v) => sum + v, 0) / sorted.length;
+  const mid = Math.floor(sorted.length / 2);
+  const median = sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+  const trim = sorted.length >= 3 ? Math.max(1, Math.floor(sorted.length * 0.2)) : 0;
+  const kept = sorted.slice(trim, sorted.length - trim);
+  return {
+    mean: round(mean),
+    median: round(median),
+    trimmed: round(kept.reduce((sum, v) => sum + v, 0) / kept.length),
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+  };
+}
+
+/**
+ * Consensus is the pick with the most votes (ties go to the higher summed confidence, then
+ * provider order). A dissenting vote on the other side of a two-way market counts as
+ * 100 - confidence for the consensus; dissent in a 1X2 or on a different prop has no
+ * two-way complement and is left out of the confidence spread. Returns null when no
+ * provider produced a valid vote. `label` names each vote's pick for the summary.
+ */
+export function aggregateVotes(
+  votes: Vote[],
+  sides: Side[],
+  label: (analysis: LLMOutput) => string,
+): EnsembleResult | null {
+  const valid = votes.filter((v): v is Vote & { analysis: LLMOutput } => v.analysis !== null);
+  if (valid.length === 0) return null;
+
+  const tally = new Map<string, { count: number; weight: number; order: number }>();
+  valid.forEach((v, order) => {
+    const key = pickKey(v.analysis);
+    const entry = tally.get(key) ?? { count: 0, weight: 0, order };
+    tally.set(key, { ...entry, count: entry.count + 1, weight: entry.weight + v.analysis.confidence });
+  });
+  const [consensusKey] = [...tally.entries()].sort(
+    ([, a], [, b]) => b.count - a.count || b.weight - a.weight || a.order - b.order,
+  )[0];
+
+  const backers = valid.filter((v) => pickKey(v.analysis) === consensusKey);
+  const lead = backers.reduce((top, v) => (v.analysis.confidence > top.analysis.confidence ? v : top));
+  const twoWay = lead.analysis.prop_id !== undefined || sides.length === 2;
+
+  const aligned = valid.flatMap((v) => {
+    if (pickKey(v.analysis) === consensusKey) return [v.analysis.confidence];
+    const sameProp = (v.analysis.prop_id ?? null) === (lead.analysis.prop_id ?? null);
+    return twoWay && sameProp ? [100 - v.analysis.confidence] : [];
+  });
+  const confidence = spreadOf(aligned);
+
+  return {
+    summary: {
+      providers: votes.length,
+      valid: valid.length,
+      side: lead.analysis.side ?? null,
+      prop_id: lead.analysis.prop_id ?? null,
+      agreement: Number((backers.length / valid.length).toFixed(3)),
+      disagreement: backers.length < valid.length,
+      confidence,
+      votes: votes.map((v) => ({
+        provider: v.provider,
+        model: v.model,
+        side: v.analysis?.side ?? null,
+        pick_side: v.analysis ? label(v.analysis) : null,
+        confidence: v.analysis?.confidence ?? null,
+        agrees: v.analysis ? pickKey(v.analysis) === consensusKey : null,
+        error: v.error,
+      })),
+    },
+    analysis: {
+      ...lead.analysis,
+      confidence: Math.min(100, Math.max(1, Math.round(confidence.trimmed))),
+    },
+  };
+}
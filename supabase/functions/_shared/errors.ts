@@ -0,0 +1,80 @@
+// Error taxonomy for the cron / admin edge functions, the CRON_AUTHORIZATION_SECRET check
+// they share and the error response their handlers end in.
+import { log } from './log.ts';
+
+export class ConfigurationError extends Error {
+  constructor(message: string) { super(message); this.name = "ConfigurationError"; }
+}
+export class AuthorizationError extends Error {
+  constructor(message: string) { super(message); this.name = "AuthorizationError"; }
+}
+// Request body failed validation
+export class ValidationError extends Error {
+  constructor(message: string, public details?: unknown) { super(message); this.name = "ValidationError"; }
+}
+export class NotFoundError extends Error {
+  constructor(message: string) { super(message); this.name = "NotFoundError"; }
+}
+export class ApiError extends Error {
+  constructor(message: string, public status?: number) { super(message); this.name = "ApiError"; }
+}
+// Upstream response failed schema validation (a structural change in the API; not retried)
+export class UpstreamSchemaError extends Error {
+  constructor(message: string, public issues: unknown) { super(message); this.name = "UpstreamSchemaError"; }
+}
+export class DatabaseError extends Error {
+  constructor(message: string) { super(message); this.name = "DatabaseError"; }
+}
+
+/**
+ * Rejects requests without the cron bearer token. Throws ConfigurationError when the secret
+ * isn't set, so a missing secret never opens the function up.
+ */
+export function authorizeCron(req: Request, correlationId: string): void {
+  const CRON_SECRET = Deno.env.get('CRON_AUTHORIZATION_SECRET');
+  if (!CRON_SECRET) throw new ConfigurationError("Missing CRON_AUTHORIZATION_SECRET.");
+
+  if (req.headers.get('authorization') !== `Bearer ${CRON_SECRET}`) {
+    log('WARN', 'Unauthorized access attempt', { correlationId, ip: req.headers.get('x-forwarded-for') || 'unknown' });
+    throw new AuthorizationError("Unauthorized");
+  }
+}
+
+const statusFor = (error: unknown): number => {
+  if (error instanceof ConfigurationError) return 503;
+  if (error instanceof AuthorizationError) return 401;
+  if (error instanceof ValidationError) return 400;
+  if (error instanceof NotFoundError) return 404;
+  if (error instanceof UpstreamSchemaError) return 502;
+  return 500;
+};
+
+/**
+ * Maps a handler failure to its response. Client errors (400 / 401 / 404) return their
+ * message; anything else is logged and returned as a generic 500-class error.
+ */
+export function errorResponse(
+  error: unknown,
+  correlationId: string,
+  startTime: number,
+  headers: Record<string, string>,
+): Response {
+  const durationMs = (performance.now() - startTime).toFixed(2);
+  const statusCode = statusFor(error);
+
+  const isClientError = statusCode === 400 || statusCode === 401 || statusCode === 404;
+  if (!isClientError) {
+    log('ERROR', 'Fatal Execution Failure', error);
+  }
+
+  return new Response(JSON.stringify({
+    success: false,
+    error: isClientError && error instanceof Error ? error.message : "Internal Server Error",
+    details: error instanceof ValidationError ? error.details : undefined,
+    correlationId,
+    durationMs,
+  }), {
+    status: statusCode,
+    headers: { ...headers, 'Content-Type': 'application/json' },
+  });
+}
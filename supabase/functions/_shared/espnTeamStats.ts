@@ -0,0 +1,351 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { z } from 'zod';
+import { ConfigurationError, ApiError, UpstreamSchemaError, authorizeCron, errorResponse } from './errors.ts';
+import { log } from './log.ts';
+
+// ESPN team statistics pipeline shared by update-nba/nhl-team-stats: season state from the
+// scoreboard, team discovery, per-team statistics fetched in batches with retry, and one bulk
+// upsert. Each league function supplies only its table schema and stat mapping (TeamStatsSync).
+
+// =============================================================================
+// Configuration & Constants
+// =============================================================================
+const FETCH_TIMEOUT_MS = 10000;
+const MAX_RETRIES = 3;
+const BASE_BACKOFF_MS = 200;
+const CONCURRENCY_LIMIT = 6; // Balance for edge execution and ESPN rate limits
+const TEAM_FETCH_LIMIT = 35; // Buffer for potential league expansion
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// =============================================================================
+// API Schema Definitions (Zod)
+// Input validation for untrusted upstream data sources.
+// =============================================================================
+
+// 1. Scoreboard Schema (for Season Context)
+const ZScoreboard = z.object({
+  season: z.object({
+    year: z.number().int().min(2000),
+    type: z.number().int().min(1).max(4), // 1: Pre, 2: Reg, 3: Post, 4: Off
+  }),
+}).passthrough(); // Allow extra fields from ESPN
+
+// 2. Teams List Schema
+const ZTeamItem = z.object({
+  team: z.object({
+    id: z.string().min(1),
+    abbreviation: z.string().min(2).max(4),
+  }).passthrough(),
+});
+const ZTeamsList = z.object({
+  sports: z.array(z.object({
+    leagues: z.array(z.object({
+      teams: z.array(ZTeamItem),
+    })).nonempty(),
+  })).nonempty(),
+}).passthrough();
+
+// 3. Team Statistics Schema
+const ZStatMetric = z.object({
+  name: z.string(),
+  // ESPN sometimes sends numbers as strings, so we must accept both
+  value: z.union([z.number(), z.string()]),
+}).passthrough();
+const ZStatCategory = z.object({
+  name: z.string(),
+  stats: z.array(ZStatMetric),
+}).passthrough();
+// Basketball and hockey nest categories under results.stats; 'results' might be missing
+const ZTeamStatistics = z.object({
+  results: z.object({
+    stats: z.object({ categories: z.array(ZStatCategory) }).passthrough(),
+  }).passthrough().optional(),
+}).passthrough();
+
+// 4. Standings: a group tree, walked recursively by fetchStandings
+const ZStandings = z.object({}).passthrough();
+
+// =============================================================================
+// Domain Types
+// =============================================================================
+export type SeasonTypeString = 'preseason' | 'regular' | 'postseason' | 'offseason';
+
+export interface SeasonInfo {
+  year: number;
+  type: number;
+  seasonTypeString: SeasonTypeString;
+  statDate: string; // YYYY-MM-DD (US/Eastern sports day)
+}
+
+export type EspnTeam = z.infer<typeof ZTeamItem>['team'];
+export type StatCategory = z.infer<typeof ZStatCategory>;
+
+interface StandingsNode {
+  standings?: { entries?: { team?: { id?: string }; stats?: { name?: string; value?: number }[] }[] };
+  children?: StandingsNode[];
+}
+
+/** What a league function supplies: where its rows go and how ESPN's stats map onto them. */
+export interface TeamStatsSync<Row, Context> {
+  league: string; // For logs, e.g. 'NBA'
+  apiBase: string; // e.g. https://site.api.espn.com/apis/site/v2/sports/basketball/nba
+  table: string;
+  onConflict: string;
+  expectedTeams: number;
+  // League-wide data fetched once per run (e.g. standings); must not throw
+  loadContext: () => Promise<Context>;
+  buildRow: (team: EspnTeam, season: SeasonInfo, categories: StatCategory[], context: Context, updatedAt: string) => Row;
+}
+
+// =============================================================================
+// Utilities & Infrastructure
+// =============================================================================
+
+/**
+ * Resilient Fetch with Exponential Backoff, Jitter, and Schema Validation.
+ * Guarantees the return type matches the schema.
+ */
+export async function fetchAndValidate<T>(url: string, schema: z.ZodType<T>, retries: number = MAX_RETRIES): Promise<T> {
+  for (let i = 0; i < retries; i++) {
+    try {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+
+      const res = await fetch(url, { signal: controller.signal });
+      clearTimeout(timeoutId);
+
+      if (!res.ok) {
+        throw new ApiError(`HTTP Error: ${res.status} from ${url}`, res.status);
+      }
+
+      const parsedData = schema.safeParse(await res.json());
+      if (!parsedData.success) {
+        log('ERROR', 'Upstream API Schema Validation Failed', { url, issues: parsedData.error.format() });
+        // Do not retry validation errors as they indicate a structural change in the API
+        throw new UpstreamSchemaError("API_SCHEMA_VIOLATION", parsedData.error.format());
+      }
+
+      return parsedData.data;
+
+    } catch (err: unknown) {
+      // Retry only transient failures: network errors, timeouts and 5xx statuses
+      const isTransient = (err instanceof ApiError && err.status && err.status >= 500) ||
+                          (err instanceof Error && (err.name === 'AbortError' || err.name === 'TypeError'));
+
+      if (i === retries - 1 || !isTransient) {
+        if (!(err instanceof UpstreamSchemaError)) {
+          log('WARN', `Fetch failed permanently or non-transient error for ${url}`, err);
+        }
+        throw err;
+      }
+
+      log('DEBUG', `Transient failure fetching ${url}. Retrying ${i + 1}/${retries}...`, { error: err instanceof Error ? err.message : 'Unknown' });
+
+      const backoff = BASE_BACKOFF_MS * Math.pow(2, i);
+      const jitter = Math.random() * 0.5 * backoff;
+      await new Promise(r => setTimeout(r, backoff + jitter));
+    }
+  }
+  throw new Error("Max retries exceeded (unreachable code path)");
+}
+
+export const round = (value: number | null, digits = 1): number | null =>
+  value === null || !Number.isFinite(value) ? null : Number(value.toFixed(digits));
+
+const parseNumeric = (value: string | number): number | null => {
+  const num = typeof value === 'string' ? parseFloat(value) : value;
+  return Number.isFinite(num) ? num : null;
+};
+
+/** First of the names found in any category (ESPN moves stats between categories across seasons). */
+export function findStat(categories: StatCategory[], ...names: string[]): number | null {
+  for (const name of names) {
+    for (const category of categories) {
+      const metric = category.stats.find((s) => s.name === name);
+      const value = metric ? parseNumeric(metric.value) : null;
+      if (value !== null) return value;
+    }
+  }
+  return null;
+}
+
+/** A stat from one named category. */
+export function findCategoryStat(categories: StatCategory[], categoryName: string, statName: string): number | null {
+  const metric = categories.find((c) => c.name === categoryName)?.stats.find((s) => s.name === statName);
+  return metric ? parseNumeric(metric.value) : null;
+}
+
+/**
+ * Standings entries keyed by ESPN team id, each mapped from a stat lookup. Throws on fetch
+ * failure; callers treat standings as optional.
+ */
+export async function fetchStandings<T>(url: string, map: (stat: (name: string) => number | null) => T): Promise<Map<string, T>> {
+  const entries = new Map<string, T>();
+  const root = (await fetchAndValidate(url, ZStandings, 2)) as StandingsNode;
+  const walk = (node: StandingsNode) => {
+    (node.standings?.entries || []).forEach((entry) => {
+      if (!entry.team?.id) return;
+      entries.set(entry.team.id, map((name) => entry.stats?.find((s) => s.name === name)?.value ?? null));
+    });
+    (node.children || []).forEach(walk);
+  };
+  walk(root);
+  return entries;
+}
+
+// =============================================================================
+// Logic Modules
+// =============================================================================
+
+/**
+ * Module: Season State
+ * Season year/type from the scoreboard.
+ */
+async function getCurrentSeasonInfo(apiBase: string): Promise<SeasonInfo> {
+  const data = await fetchAndValidate(`${apiBase}/scoreboard`, ZScoreboard, 2);
+
+  const mapType = (type: number): SeasonTypeString => {
+    switch (type) {
+      case 1: return 'preseason';
+      case 2: return 'regular';
+      case 3: return 'postseason';
+      default: return 'offseason';
+    }
+  };
+
+  return {
+    year: data.season.year,
+    type: data.season.type,
+    seasonTypeString: mapType(data.season.type),
+    statDate: new Date().toLocaleDateString('en-CA', { timeZone: 'America/New_York' }),
+  };
+}
+
+/**
+ * Module: Team Processor
+ * Fetches one team's statistics for the season and maps them through the league's buildRow.
+ */
+async function processTeam<Row, Context>(
+  config: TeamStatsSync<Row, Context>,
+  t: z.infer<typeof ZTeamItem>,
+  seasonInfo: SeasonInfo,
+  context: Context,
+  updatedAt: string,
+): Promise<Row> {
+  const detailedStats = await fetchAndValidate(
+    `${config.apiBase}/teams/${t.team.id}/statistics?season=${seasonInfo.year}`,
+    ZTeamStatistics,
+  );
+  const categories = detailedStats.results?.stats.categories ?? [];
+
+  return config.buildRow(t.team, seasonInfo, categories, context, updatedAt);
+}
+
+// =============================================================================
+// Main Execution Handler
+// =============================================================================
+
+/** Builds the cron handler for one league (Deno.serve(teamStatsHandler(config))). */
+export function teamStatsHandler<Row, Context>(config: TeamStatsSync<Row, Context>) {
+  return async (req: Request): Promise<Response> => {
+    if (req.method === 'OPTIONS') return new Response(null, { headers: CORS_HEADERS, status: 204 });
+
+    const correlationId = crypto.randomUUID();
+    const startTime = performance.now();
+    log('INFO', `${config.league} Team Stats Sync Started`, { correlationId, concurrency: CONCURRENCY_LIMIT });
+
+    try {
+      // 1. Environment Validation & Security
+      const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
+      const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+      if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+        throw new ConfigurationError("Missing critical environment variables (Supabase).");
+      }
+
+      authorizeCron(req, correlationId);
+
+      const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+      // 2. Season Context
+      const seasonInfo = await getCurrentSeasonInfo(config.apiBase);
+      log('INFO', 'Season Context Acquired', seasonInfo);
+
+      if (seasonInfo.seasonTypeString === 'offseason') {
+        log('INFO', 'Offseason detected. Skipping sync.');
+        return new Response(JSON.stringify({ success: true, message: "Offseason, sync skipped.", updated: 0 }), {
+          headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' },
+        });
+      }
+
+      // 3. Team Discovery + league-wide context
+      const [teamsData, context] = await Promise.all([
+        fetchAndValidate(`${config.apiBase}/teams?limit=${TEAM_FETCH_LIMIT}`, ZTeamsList),
+        config.loadContext(),
+      ]);
+      const teams = teamsData.sports[0]?.leagues[0]?.teams || [];
+      log('INFO', 'Team Discovery Complete', { count: teams.length });
+
+      if (teams.length < config.expectedTeams) {
+        log('WARN', `Expected at least ${config.expectedTeams} teams, found less.`, { count: teams.length });
+      }
+
+      // 4. Batched Processing (failures don't stop the batch)
+      const updatedAt = new Date().toISOString();
+      const statsToUpsert: Row[] = [];
+      let failureCount = 0;
+
+      for (let i = 0; i < teams.length; i += CONCURRENCY_LIMIT) {
+        const batch = teams.slice(i, i + CONCURRENCY_LIMIT);
+        const batchResults = await Promise.allSettled(
+          batch.map(t => processTeam(config, t, seasonInfo, context, updatedAt)),
+        );
+
+        batchResults.forEach((result, j) => {
+          if (result.status === 'fulfilled') {
+            statsToUpsert.push(result.value);
+          } else {
+            failureCount++;
+            const teamInfo = batch[j].team;
+            log('ERROR', `Failed to process team: ${teamInfo.abbreviation} (ID: ${teamInfo.id})`, { reason: result.reason, correlationId });
+          }
+        });
+      }
+
+      // 5. Database Persistence (Bulk Upsert)
+      if (statsToUpsert.length > 0) {
+        const { error } = await supabase
+          .from(config.table)
+          .upsert(statsToUpsert, { onConflict: config.onConflict });
+
+        if (error) throw new ApiError(`Supabase Upsert Failed: ${error.message}`);
+      }
+
+      // 6. Finalize
+      const durationMs = (performance.now() - startTime).toFixed(2);
+      log('INFO', `${config.league} Team Stats Sync Complete`, { correlationId, durationMs, successCount: statsToUpsert.length, failureCount });
+
+      // 206 Partial Content if some teams failed, 500 if all did
+      let statusCode = 200;
+      if (failureCount > 0) statusCode = statsToUpsert.length > 0 ? 206 : 500;
+
+      return new Response(JSON.stringify({
+        success: statsToUpsert.length > 0,
+        updated: statsToUpsert.length,
+        failures: failureCount,
+        context: seasonInfo,
+        correlationId,
+      }), {
+        status: statusCode,
+        headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' },
+      });
+
+    } catch (error: unknown) {
+      return errorResponse(error, correlationId, startTime, CORS_HEADERS);
+    }
+  };
+}
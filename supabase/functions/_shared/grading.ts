@@ -0,0 +1,122 @@
+import { settleAsian, settlementProfit, type Settlement } from './settlement.ts';
+import { matchesTeam, type TeamIndex } from './teams.ts';
+
+// Pick settlement rules. Shared by grade-picks (live picks) and backtest-picks (replayed picks)
+// so a backtest is scored exactly the way production grades.
+
+export const DEFAULT_ODDS = -110; // Fallback price when a pick carries no odds
+
+// Three-way moneylines: a draw is its own outcome, so home/away lose rather than push
+export const SOCCER_LEAGUES = new Set(['EPL', 'MLS', 'UCL']);
+
+export type MarketType = 'moneyline' | 'spread' | 'total' | 'prop';
+export type Outcome = Settlement;
+
+export interface GradablePick {
+  sport: string;
+  market_type: MarketType;
+  pick_side: string;
+  pick_outcome: 'away' | 'home' | 'draw' | 'over' | 'under' | null; // Set by generate-pick; null on older rows
+  odds_at_generation: number | null;
+  line_at_generation: number | null; // The number the pick was priced at
+  closing_line: number | null; // Captured at game start by capture-closing-lines
+}
+
+export interface FinalGame {
+  game_id: string;
+  away_team: string;
+  home_team: string;
+  away_score: number;
+  home_score: number;
+}
+
+export interface ClosingLine {
+  spreadHome: number | null;
+  spreadAway: number | null;
+  total: number | null;
+}
+
+export interface GradeResult {
+  result: Outcome;
+  result_margin: number;
+  units_won: number;
+  graded_line: number | null;
+}
+
+/**
+ * Pulls the line off the end of a pick label, e.g. "Bruins -1.5" -> -1.5, "Over 221.5 (-110)" -> 221.5.
+ * Anchored to the end so digits in a team name ("49ers -3", "76ers +4.5") are never read as the line.
+ */
+const extractLine = (pickSide: string): number | null => {
+  const label = pickSide.replace(/\s*\([+-]?\d+\)\s*$/, ''); // Trailing price
+  const match = label.match(/(?:^|\s)([+-]?\d+(?:\.\d+)?)\s*$/);
+  return match ? parseFloat(match[1]) : null;
+};
+
+const toOutcome = (margin: number): Outcome => (margin > 0 ? 'win' : margin < 0 ? 'loss' : 'push');
+
+/**
+ * Mirrors GameResultModal's outcome rules, but driven by the stored market_type
+ * rather than sniffing the pick label. The stored pick_outcome wins over the label.
+ * Lines: the line the pick was priced at, then the captured closing line, then
+ * betting_lines_history, then the line in the label. Legacy labels without pick_outcome
+ * are matched to a team through `teams` (the league's alias index).
+ */
+export function gradePick(
+  pick: GradablePick,
+  game: FinalGame,
+  closing: ClosingLine | undefined,
+  teams: TeamIndex | null = null,
+): GradeResult | null {
+  const scoreDiff = game.home_score - game.away_score; // positive = home won
+  const totalPoints = game.home_score + game.away_score;
+  const odds = pick.odds_at_generation ?? DEFAULT_ODDS;
+  const pickSide = pick.pick_side.toLowerCase();
+
+  const settle = (margin: number, line: number | null, result: Outcome = toOutcome(margin)): GradeResult => ({
+    result,
+    result_margin: margin,
+    units_won: Number(settlementProfit(result, odds).toFixed(4)),
+    graded_line: line,
+  });
+
+  if (pick.market_type === 'total') {
+    const isOver = pick.pick_outcome ? pick.pick_outcome === 'over' : pickSide.includes('over');
+    const isUnder = pick.pick_outcome ? pick.pick_outcome === 'under' : pickSide.includes('under');
+    if (!isOver && !isUnder) return null;
+
+    const line = pick.line_at_generation ?? pick.closing_line ?? closing?.total ?? extractLine(pick.pick_side);
+    if (line === null) return null;
+    const edge = (l: number) => (isOver ? totalPoints - l : l - totalPoints);
+    return settle(edge(line), line, settleAsian(line, edge));
+  }
+
+  // Draw (soccer 1X2): wins only on a level score
+  const pickIsDraw = pick.pick_outcome ? pick.pick_outcome === 'draw' : pickSide === 'draw';
+  if (pickIsDraw) {
+    if (pick.market_type !== 'moneyline') return null;
+    return settle(-Math.abs(scoreDiff), null, scoreDiff === 0 ? 'win' : 'loss');
+  }
+
+  const pickIsHome = pick.pick_outcome ? pick.pick_outcome === 'home' : matchesTeam(teams, pick.pick_side, game.home_team);
+  const pickIsAway = pick.pick_outcome ? pick.pick_outcome === 'away' : matchesTeam(teams, pick.pick_side, game.away_team);
+  // Ambiguous or unmatched labels stay ungraded rather than guessing
+  if (pickIsHome === pickIsAway) return null;
+
+  if (pick.market_type === 'moneyline') {
+    const margin = pickIsHome ? scoreDiff : -scoreDiff;
+    if (margin === 0 && SOCCER_LEAGUES.has(pick.sport)) return settle(margin, null, 'loss');
+    return settle(margin, null);
+  }
+
+  if (pick.market_type === 'spread') {
+    const closingLine = pickIsHome ? closing?.spreadHome : closing?.spreadAway;
+    const line = pick.line_at_generation ?? pick.closing_line ?? closingLine ?? extractLine(pick.pick_side);
+    if (line === null) return null;
+    const edge = (l: number) => (pickIsHome ? scoreDiff + l : -scoreDiff + l);
+    return settle(edge(line), line, settleAsian(line, edge));
+  }
+
+  // Props need box-score data; not graded here
+  return null;
+}
@@ -0,0 +1,28 @@
+// Structured logger for the edge functions. One JSON line per event, for ingestion by
+// observability platforms.
+
+export type LogLevel = 'INFO' | 'WARN' | 'ERROR' | 'DEBUG';
+
+export const log = (level: LogLevel, message: string, data?: unknown) => {
+  const payload: Record<string, unknown> = {
+    timestamp: new Date().toISOString(),
+    level,
+    message,
+  };
+
+  if (data) {
+    if (data instanceof Error) {
+      payload.errorName = data.name;
+      payload.errorMessage = data.message;
+      if (level === 'ERROR' || level === 'WARN') payload.stack = data.stack;
+    } else {
+      try {
+        payload.data = JSON.parse(JSON.stringify(data));
+      } catch (_e) {
+        payload.data = "Log Serialization Error: " + String(data);
+      }
+    }
+  }
+
+  console.log(JSON.stringify(payload));
+};
@@ -0,0 +1,186 @@
+import { signed, type Quote, type Side } from "./pickPrompt.ts";
+
+// Pluggable completion clients for the pick prompt. generate-pick runs Gemini (or every configured
+// provider in ensemble mode); backtest-picks can swap in the deterministic stub to exercise the
+// pipeline without model calls or cost.
+
+export interface PickModelRequest {
+  prompt: string;
+  gameContext: Record<string, unknown>;
+  // Priced sides, for models that pick from the board rather than reading the prompt
+  sides: Side[];
+  quotes: Partial<Record<Side, Quote>>;
+}
+
+export interface PickModel {
+  provider: string;
+  id: string;
+  /** Raw JSON text matching LLMOutputSchema. */
+  complete(request: PickModelRequest): Promise<string>;
+}
+
+export class ModelError extends Error {
+  constructor(message: string, public status?: number, public body?: string) {
+    super(message);
+    this.name = "ModelError";
+  }
+}
+
+const toAmerican = (probability: number): number =>
+  Math.round(probability >= 0.5 ? (-100 * probability) / (1 - probability) : (100 * (1 - probability)) / probability);
+
+const toImplied = (american: number): number =>
+  american > 0 ? 100 / (american + 100) : Math.abs(american) / (Math.abs(american) + 100);
+
+const MAX_OUTPUT_TOKENS = 2000;
+
+const userMessage = (gameContext: Record<string, unknown>) => `Analyze: ${JSON.stringify(gameContext)}`;
+
+// Chat models without a JSON mode may wrap the object in prose or a code fence
+const extractJson = (text: string): string => {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  return start >= 0 && end > start ? text.slice(start, end + 1) : text;
+};
+
+const upstreamError = async (provider: string, response: Response): Promise<ModelError> => {
+  const errorText = await response.text();
+  console.error(`[${provider} Chat Error]`, response.status, errorText);
+  return new ModelError("Upstream analysis service unavailable", response.status, errorText);
+};
+
+/**
+ * Gemini generateContent in JSON mode. Upstream failures surface as ModelError carrying
+ * the HTTP status, so callers can retry 503s.
+ */
+export const createGeminiModel = (apiKey: string, model: string, temperature = 0.3): PickModel => ({
+  provider: "gemini",
+  id: model,
+  async complete({ prompt, gameContext }) {
+    const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        contents: [{
+          parts: [{
+            text: `${prompt}\n\n${userMessage(gameContext)}`,
+          }],
+        }],
+        generationConfig: {
+          temperature,
+          responseMimeType: "application/json",
+        },
+      }),
+    });
+
+    if (!response.ok) throw await upstreamError("Gemini", response);
+
+    const chatData = await response.json();
+    console.log("[Gemini Chat Response]", JSON.stringify(chatData).substring(0, 200));
+    const rawResult = chatData.candidates?.[0]?.content?.parts?.[0]?.text;
+
+    if (!rawResult) {
+      console.error("[Gemini returned empty content]", chatData);
+      throw new ModelError("Gemini returned empty response");
+    }
+    return rawResult;
+  },
+});
+
+/** Anthropic Messages API; the pick prompt goes in as the system prompt. */
+export const createAnthropicModel = (apiKey: string, model: string, temperature = 0.3): PickModel => ({
+  provider: "anthropic",
+  id: model,
+  async complete({ prompt, gameContext }) {
+    const response = await fetch("https://api.anthropic.com/v1/messages", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": apiKey,
+        "anthropic-version": "2023-06-01",
+      },
+      body: JSON.stringify({
+        model,
+        max_tokens: MAX_OUTPUT_TOKENS,
+        temperature,
+        system: prompt,
+        messages: [{ role: "user", content: userMessage(gameContext) }],
+      }),
+    });
+
+    if (!response.ok) throw await upstreamError("Anthropic", response);
+
+    const data = await response.json();
+    const text = data.content?.find((block: { type: string }) => block.type === "text")?.text;
+    if (!text) throw new ModelError("Anthropic returned empty response");
+    return extractJson(text);
+  },
+});
+
+/** OpenAI Chat Completions in JSON mode. */
+export const createOpenAIModel = (apiKey: string, model: string, temperature = 0.3): PickModel => ({
+  provider: "openai",
+  id: model,
+  async complete({ prompt, gameContext }) {
+    const response = await fetch("https://api.openai.com/v1/chat/completions", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify({
+        model,
+        temperature,
+        max_tokens: MAX_OUTPUT_TOKENS,
+        response_format: { type: "json_object" },
+        messages: [
+          { role: "system", content: prompt },
+          { role: "user", content: userMessage(gameContext) },
+        ],
+      }),
+    });
+
+    if (!response.ok) throw await upstreamError("OpenAI", response);
+
+    const data = await response.json();
+    const text = data.choices?.[0]?.message?.content;
+    if (!text) throw new ModelError("OpenAI returned empty response");
+    return text;
+  },
+});
+
+/**
+ * Deterministic "chalk" baseline: takes the side with the highest no-vig probability
+ * (ties go to the first offered side) at that probability as confidence. Any prompt
+ * worth shipping should beat it.
+ */
+export const createStubModel = (): PickModel => ({
+  provider: "stub",
+  id: "stub-chalk",
+  async complete({ sides, quotes }) {
+    const priced = sides.filter((side) => quotes[side] !== undefined);
+    if (priced.length === 0) throw new ModelError("Stub model needs at least one priced side");
+
+    const implied = priced.map((side) => toImplied(quotes[side]!.price));
+    const overround = implied.reduce((sum, p) => sum + p, 0);
+    const best = implied.reduce((top, p, i) => (p > implied[top] ? i : top), 0);
+    const side = priced[best];
+    const fair = implied[best] / overround;
+
+    return JSON.stringify({
+      side,
+      pick_side: side,
+      confidence: Math.min(100, Math.max(1, Math.round(fair * 100))),
+      reasoning: `Chalk baseline: ${side} is the market favourite at ${signed(quotes[side]!.price)}, ${(fair * 100).toFixed(1)}% no-vig. No model call.`,
+      rationale: {
+        factors: [{ factor: "market", weight: 1, lean: "for", note: "Highest no-vig probability on the board" }],
+        risks: ["Ignores injuries, rest, form and matchup"],
+        projected_score: null,
+        fair_price: toAmerican(fair),
+        fair_line: quotes[side]!.line ?? null,
+      },
+    });
+  },
+});
@@ -0,0 +1,127 @@
+import { z } from "zod";
+
+// The pick prompt and output contract. Shared by generate-pick (live) and backtest-picks
+// (replay) so a backtest run measures the prompt that actually ships.
+
+export const SideSchema = z.enum(["away", "home", "draw", "over", "under"]);
+
+export type Side = z.infer<typeof SideSchema>;
+
+// One side's price as quoted by the client's selected (or best) book
+export const QuoteSchema = z.object({
+  price: z.number().int(),
+  line: z.number().nullable().optional(), // Spread or total; omitted for moneyline
+  book: z.string().optional(), // Per-side source when the client shops lines
+});
+
+export type Quote = z.infer<typeof QuoteSchema>;
+
+export const RATIONALE_FACTORS = ["injuries", "rest", "form", "matchup", "market", "other"] as const;
+
+const RationaleFactorSchema = z.object({
+  factor: z.enum(RATIONALE_FACTORS),
+  weight: z.number().min(0).max(1),
+  lean: z.enum(["for", "against", "neutral"]), // Relative to the picked side
+  note: z.string().min(1).max(300),
+});
+
+// Weights are renormalised to sum to 1 and factors sorted heaviest first, whatever the model returned
+export const RationaleSchema = z
+  .object({
+    factors: z.array(RationaleFactorSchema).min(1).max(8),
+    risks: z.array(z.string().min(1).max(200)).max(5).default([]),
+    projected_score: z.object({ away: z.number().min(0), home: z.number().min(0) }).nullable().optional(),
+    fair_price: z.number().int().refine((p) => Math.abs(p) >= 100, "American odds").nullable().optional(),
+    fair_line: z.number().nullable().optional(), // Model's spread / total number for the market
+  })
+  .transform((rationale) => {
+    const total = rationale.factors.reduce((sum, f) => sum + f.weight, 0);
+    const factors = rationale.factors
+      .map((f) => ({ ...f, weight: total > 0 ? Number((f.weight / total).toFixed(3)) : 0 }))
+      .sort((a, b) => b.weight - a.weight);
+    return {
+      factors,
+      risks: rationale.risks,
+      projected_score: rationale.projected_score ?? null,
+      fair_price: rationale.fair_price ?? null,
+      fair_line: rationale.fair_line ?? null,
+    };
+  });
+
+export type Rationale = z.infer<typeof RationaleSchema>;
+
+// Expected LLM output schema. reasoning stays as the prose summary (it is what gets embedded);
+// rationale is optional so one malformed breakdown doesn't cost the pick.
+export const LLMOutputSchema = z.object({
+  pick_side: z.string().min(1),
+  side: SideSchema.optional(),
+  prop_id: z.string().optional(), // "p<index>" into the request's props
+  confidence: z.number().int().min(1).max(100),
+  reasoning: z.string().min(50),
+  rationale: RationaleSchema.optional().catch(undefined),
+});
+
+export type LLMOutput = z.infer<typeof LLMOutputSchema>;
+
+export const MARKET_SIDES: Record<string, Side[]> = {
+  moneyline: ["away", "draw", "home"], // Draw is quoted for soccer 1X2 only
+  spread: ["away", "home"],
+  total: ["over", "under"],
+  prop: [],
+};
+
+// Placeholders are filled by buildSystemPrompt; editing this text (or RATIONALE_SHAPE) changes promptHash
+const SYSTEM_PROMPT_TEMPLATE = `
+    You are a data-driven sports betting analyst. Analyze the provided matchup context for the '{{market_type}}' market.
+    CRITICAL CONTEXT: {{odds_context}}
+    Use the price of the side you pick to determine Expected Value (EV).
+    Be decisive. Pick a side.
+    Break the decision into weighted factors; each factor's "lean" is relative to the side you pick.
+    Response MUST be a JSON object: {{response_shape}}
+  `;
+
+// Appended to every response shape
+export const RATIONALE_SHAPE = `"rationale": { "factors": [{ "factor": ${RATIONALE_FACTORS.map((f) => `"${f}"`).join(" | ")}, "weight": number (0-1, weights sum to 1), "lean": "for" | "against" | "neutral", "note": string }], "risks": string[], "projected_score": { "away": number, "home": number } | null, "fair_price": number (American odds you would make your side), "fair_line": number | null }`;
+
+export const signed = (n: number) => (n > 0 ? `+${n}` : `${n}`);
+
+/**
+ * Display label for a side, built server-side so graders never depend on LLM phrasing.
+ */
+export const sideLabel = (marketType: string, side: Side, quote: Quote, ctx: Record<string, unknown>): string => {
+  if (side === "over" || side === "under") {
+    return `${side === "over" ? "Over" : "Under"}${quote.line != null ? ` ${quote.line}` : ""}`;
+  }
+  if (side === "draw") return "Draw";
+  const team = String((side === "away" ? ctx.away_team : ctx.home_team) ?? side);
+  if (marketType === "spread" && quote.line != null) return `${team} ${signed(quote.line)}`;
+  return `${team} ML`;
+};
+
+/**
+ * Odds context and response shape for a priced side market. Each side is listed with its
+ * own price so EV is judged against the number actually bet.
+ */
+export const sidesPrompt = (
+  marketType: string,
+  sides: Side[],
+  quotes: Partial<Record<Side, Quote>>,
+  ctx: Record<string, unknown>,
+) => ({
+  oddsContext: `The available sides are:\n${sides
+    .map((side) => `      - "${side}": ${sideLabel(marketType, side, quotes[side]!, ctx)} (${signed(quotes[side]!.price)})`)
+    .join("\n")}`,
+  responseShape: `{ "side": ${sides.map((s) => `"${s}"`).join(" | ")}, "pick_side": string, "confidence": number (1-100), "reasoning": string, ${RATIONALE_SHAPE} }`,
+});
+
+export const buildSystemPrompt = (marketType: string, oddsContext: string, responseShape: string): string =>
+  SYSTEM_PROMPT_TEMPLATE
+    .replace("{{market_type}}", () => marketType)
+    .replace("{{odds_context}}", () => oddsContext)
+    .replace("{{response_shape}}", () => responseShape);
+
+/** Short SHA-256 of the prompt template; backtest runs record it so diffs name the prompt they compare. */
+export const promptHash = async (): Promise<string> => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(SYSTEM_PROMPT_TEMPLATE + RATIONALE_SHAPE));
+  return [...new Uint8Array(digest)].slice(0, 6).map((b) => b.toString(16).padStart(2, "0")).join("");
+};
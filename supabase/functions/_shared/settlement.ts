@@ -0,0 +1,47 @@
+// Bet settlement math. Dependency-free so both sides run the same rules: the edge functions
+// import it directly (grading.ts) and the app re-exports it from src/utils/bettingMath.ts
+// through the @shared alias (listed in tsconfig.app.json's include). Keep it free of Deno and
+// URL imports.
+
+export type Settlement = 'win' | 'half_win' | 'push' | 'half_loss' | 'loss';
+
+/**
+ * Lines a handicap or total settles on. Quarter lines (±0.25, ±0.75, 2.25, ...) split
+ * the stake across the two neighbouring lines: -0.25 is half on 0 and half on -0.5.
+ */
+export const handicapParts = (line: number): number[] =>
+  Math.abs(line * 4) % 2 === 1 ? [line - 0.25, line + 0.25] : [line];
+
+/**
+ * Settles a bet against a (possibly quarter) line. `edge` gives the bet's margin at one
+ * whole/half line, > 0 winning: goal difference + handicap, or goals - line for an over.
+ */
+export const settleAsian = (line: number, edge: (line: number) => number): Settlement => {
+  const parts = handicapParts(line);
+  const score = parts.reduce((sum, part) => sum + Math.sign(edge(part)), 0) / parts.length;
+  if (score === 1) return 'win';
+  if (score > 0) return 'half_win';
+  if (score === 0) return 'push';
+  if (score > -1) return 'half_loss';
+  return 'loss';
+};
+
+/**
+ * Profit per unit staked at American odds. Half results settle half the stake; the other
+ * half is returned.
+ */
+export const settlementProfit = (settlement: Settlement, odds: number): number => {
+  const win = !odds ? 0 : odds > 0 ? odds / 100 : 100 / Math.abs(odds);
+  switch (settlement) {
+    case 'win':
+      return win;
+    case 'half_win':
+      return win / 2;
+    case 'push':
+      return 0;
+    case 'half_loss':
+      return -0.5;
+    case 'loss':
+      return -1;
+  }
+};
@@ -0,0 +1,102 @@
+// Team name matching over a loaded alias index (see loadTeamIndex in teams.ts).
+// Dependency-free so the app matches legacy pick labels the same way the graders do: it
+// imports this module through the @shared alias.
+
+export type TeamLeague = 'NHL' | 'NFL' | 'NBA' | 'MLB' | 'NCAAF' | 'NCAAB' | 'EPL' | 'MLS' | 'UCL';
+
+export interface ResolvedTeam {
+  id: string;
+  abbreviation: string;
+  conference: string | null;
+  logo: string | null;
+}
+
+/**
+ * Alias form of a team name: lowercase, accents stripped, '&' spelled out, punctuation removed.
+ * "San José State Spartans" and "San Jose State Spartans" both become "san jose state spartans".
+ */
+export function normalizeTeamName(name: string): string {
+  if (!name) return '';
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9\s]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export interface TeamIndex {
+  league: TeamLeague;
+  byAlias: Map<string, ResolvedTeam>;
+}
+
+export function resolveTeam(index: TeamIndex | null, name: string): ResolvedTeam | null {
+  if (!index || !name) return null;
+  return index.byAlias.get(normalizeTeamName(name)) ?? null;
+}
+
+/**
+ * A team's nickname: its normalized name after the location. The location is the longest alias
+ * of the same team that starts the name ("alabama" in "alabama crimson tide"); failing that, the
+ * longest alias of the team that ends the name is the nickname ("red sox" in "boston red sox").
+ * Null when the name doesn't resolve or neither exists ("manchester united").
+ */
+function nicknameOf(index: TeamIndex | null, team: string): string | null {
+  const resolved = resolveTeam(index, team);
+  if (!resolved) return null;
+
+  const words = team.split(' ');
+  const isSameTeam = (phrase: string) => index!.byAlias.get(phrase)?.id === resolved.id;
+
+  for (let n = words.length - 1; n >= 1; n--) {
+    if (isSameTeam(words.slice(0, n).join(' '))) return words.slice(n).join(' ');
+  }
+  for (let n = 1; n < words.length; n++) {
+    if (isSameTeam(words.slice(n).join(' '))) return words.slice(n).join(' ');
+  }
+  return null;
+}
+
+const MAX_LABEL_NGRAM = 5; // Longest alias looked up inside a pick label ("university of north carolina tar heels")
+
+/**
+ * Whether a free-text pick label ("Boston Bruins ML", "Bruins -1.5", "BOS -1.5") names the team.
+ * Matches the full name or the whole nickname phrase ("Red Sox", never just "Sox", so the Red
+ * and White Sox stay distinct), then any run of label words that resolves through team_aliases
+ * to the same team, or the team's abbreviation as a whole word. Used for legacy picks stored
+ * without pick_outcome; city-only prefixes are never guessed, so "New York" and "New Jersey"
+ * stay distinct.
+ */
+export function matchesTeam(index: TeamIndex | null, pickSide: string, teamName: string): boolean {
+  const pick = normalizeTeamName(pickSide);
+  const team = normalizeTeamName(teamName);
+  if (!pick || !team) return false;
+
+  const words = pick.split(' ');
+  const hasPhrase = (phrase: string) => ` ${pick} `.includes(` ${phrase} `);
+  if (hasPhrase(team)) return true;
+
+  const nickname = nicknameOf(index, team);
+  if (nickname && hasPhrase(nickname)) return true;
+
+  const resolved = resolveTeam(index, teamName);
+  if (!resolved) return false;
+  if (words.includes(resolved.abbreviation.toLowerCase())) return true;
+
+  for (let n = Math.min(MAX_LABEL_NGRAM, words.length); n >= 1; n--) {
+    for (let i = 0; i + n <= words.length; i++) {
+      if (index!.byAlias.get(words.slice(i, i + n).join(' '))?.id === resolved.id) return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Stable identity for matching across feeds: the canonical team id when the name resolves,
+ * otherwise the normalized name.
+ */
+export function teamKey(index: TeamIndex | null, name: string): string {
+  return resolveTeam(index, name)?.id ?? normalizeTeamName(name);
+}
@@ -0,0 +1,86 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { normalizeTeamName, type ResolvedTeam, type TeamIndex, type TeamLeague } from './teamMatch.ts';
+
+// Team name resolution against public.teams / public.team_aliases (seeded by sync-teams).
+// Shared by fetch-odds (Odds API <-> ESPN matching), sync-teams (alias generation) and the
+// pick graders (legacy pick labels). The matching itself lives in teamMatch.ts, which the app
+// shares.
+export * from './teamMatch.ts';
+
+export type AliasSource = 'espn' | 'odds_api' | 'manual';
+
+// Odds API sport key -> league
+export const SPORT_LEAGUES: Record<string, TeamLeague> = {
+  icehockey_nhl: 'NHL',
+  americanfootball_nfl: 'NFL',
+  basketball_nba: 'NBA',
+  baseball_mlb: 'MLB',
+  americanfootball_ncaaf: 'NCAAF',
+  basketball_ncaab: 'NCAAB',
+  soccer_epl: 'EPL',
+  soccer_usa_mls: 'MLS',
+  soccer_uefa_champs_league: 'UCL',
+};
+
+// PostgREST caps rows per request; college basketball alone has ~1,000 aliases
+const ALIAS_PAGE_SIZE = 1000;
+
+/**
+ * Loads every alias for a league into memory, paging through the table.
+ * Failures are non-fatal: an empty index falls back to normalized-name matching.
+ */
+export async function loadTeamIndex(supabase: SupabaseClient, league: TeamLeague): Promise<TeamIndex> {
+  type TeamRow = { id: string; abbreviation: string; conference: string | null; logo_url: string | null };
+  const byAlias = new Map<string, ResolvedTeam>();
+
+  for (let from = 0; ; from += ALIAS_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('team_aliases')
+      .select('alias, teams!inner(id, abbreviation, conference, logo_url)')
+      .eq('league', league)
+      .order('alias')
+      .range(from, from + ALIAS_PAGE_SIZE - 1);
+
+    if (error) {
+      console.warn(`[Teams] Alias lookup failed for ${league}:`, error.message);
+      break;
+    }
+
+    const rows = (data || []) as { alias: string; teams: TeamRow | TeamRow[] | null }[];
+    rows.forEach((row) => {
+      const team = Array.isArray(row.teams) ? row.teams[0] : row.teams;
+      if (!team) return;
+      byAlias.set(row.alias, {
+        id: team.id,
+        abbreviation: team.abbreviation,
+        conference: team.conference,
+        logo: team.logo_url,
+      });
+    });
+
+    if (rows.length < ALIAS_PAGE_SIZE) break;
+  }
+
+  return { league, byAlias };
+}
+
+/**
+ * Records newly learned spellings. Existing aliases win (a learned alias never remaps a team).
+ */
+export async function recordAliases(
+  supabase: SupabaseClient,
+  league: TeamLeague,
+  aliases: { teamId: string; name: string }[],
+  source: AliasSource,
+) {
+  const rows = aliases
+    .map(({ teamId, name }) => ({ team_id: teamId, league, alias: normalizeTeamName(name), source }))
+    .filter((r) => r.alias);
+  if (rows.length === 0) return;
+
+  const { error } = await supabase
+    .from('team_aliases')
+    .upsert(rows, { onConflict: 'league,alias', ignoreDuplicates: true });
+
+  if (error) console.warn(`[Teams] Failed to record ${rows.length} ${source} aliases for ${league}:`, error.message);
+}
@@ -2,6 +2,7 @@ import { createClient } from "npm:@supabase/supabase-js@2";
 import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
 import { encodeBase64 } from "https://deno.land/std@0.208.0/encoding/base64.ts";
 import { corsHeaders } from "../_shared/cors.ts";
+import { normalizeTeamName } from "../_shared/teams.ts";
 import { handleSearchQuery } from "./searchRouter.ts";
 // ═══════════════════════════════════════════════════════════════════════════
 // CONFIGURATION & VALIDATION (Fail-fast initialization)
@@ -58,7 +59,14 @@ const CONFIG = {
   RATE_LIMIT_WINDOW_MS: 60000,
   RATE_LIMIT_MAX_REQUESTS: 60,
   DEDUP_WINDOW_MS: 5000,
+  EMBEDDING_MODEL: "text-embedding-004", // Same model generate-pick embeds reasoning with
+  EMBEDDING_TIMEOUT_MS: 5000,
+  RAG_MAX_QUERY_WORDS: 100,
+  RAG_MATCH_COUNT: 5,
+  RAG_MATCH_THRESHOLD: 0.5,
+  RAG_REASONING_CHARS: 600,
 } as const;
+const BASE_SYSTEM_PROMPT = "You are a helpful AI assistant.";
 const SECURITY_HEADERS = {
   "X-Content-Type-Options": "nosniff",
   "X-Frame-Options": "DENY",
@@ -1008,9 +1016,134 @@ function sendDebugEvent(
     details,
   });
 }
-async function getDomainContext(userId: string, ctx: RequestContext): Promise<string | null> {
-  // Domain context disabled - not needed for this app
-  return null;
+interface MentionedTeam {
+  league: string;
+  name: string;
+  abbreviation: string;
+}
+interface MatchedAnalysis {
+  sport: string;
+  market_type: string;
+  pick_side: string;
+  confidence_score: number;
+  reasoning_text: string;
+  result: string | null;
+  units_won: number | null;
+  clv_prob: number | null;
+  created_at: string;
+  similarity: number;
+}
+/**
+ * Teams named in the question, resolved through team_aliases by trying every 1-3 word phrase.
+ * One-word aliases of three letters or fewer (NYG, WAS, MIN) only count when written in capitals,
+ * so everyday words don't resolve to teams.
+ */
+async function findMentionedTeams(query: string, ctx: RequestContext): Promise<MentionedTeam[]> {
+  const words = query.split(/\s+/).filter(Boolean).slice(0, CONFIG.RAG_MAX_QUERY_WORDS);
+  const phrases = new Set<string>();
+  for (let i = 0; i < words.length; i++) {
+    for (let n = 1; n <= 3 && i + n <= words.length; n++) {
+      const raw = words.slice(i, i + n).join(" ");
+      const alias = normalizeTeamName(raw);
+      if (!alias) continue;
+      const letters = raw.replace(/[^A-Za-z]/g, "");
+      if (n === 1 && alias.length <= 3 && letters !== letters.toUpperCase()) continue;
+      phrases.add(alias);
+    }
+  }
+  if (phrases.size === 0) return [];
+  const { data, error } = await supabaseAdmin
+    .from("team_aliases")
+    .select("league, teams!inner(name, abbreviation)")
+    .in("alias", [...phrases])
+    .limit(20);
+  if (error) {
+    log("WARN", "[RAG] Team alias lookup failed", { ctx, error });
+    return [];
+  }
+  type TeamRef = { name: string; abbreviation: string };
+  const teams = new Map<string, MentionedTeam>();
+  (data || []).forEach((row: { league: string; teams: TeamRef | TeamRef[] | null }) => {
+    const team = Array.isArray(row.teams) ? row.teams[0] : row.teams;
+    if (team) teams.set(`${row.league}:${team.name}`, { league: row.league, ...team });
+  });
+  return [...teams.values()];
+}
+async function embedQuery(text: string, ctx: RequestContext): Promise<number[] | null> {
+  if (!env.GEMINI_API_KEY) return null;
+  const response = await fetch(
+    `https://generativelanguage.googleapis.com/v1beta/models/${CONFIG.EMBEDDING_MODEL}:embedContent?key=${env.GEMINI_API_KEY}`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ content: { parts: [{ text }] } }),
+      signal: AbortSignal.timeout(CONFIG.EMBEDDING_TIMEOUT_MS),
+    },
+  );
+  if (!response.ok) {
+    log("WARN", "[RAG] Query embedding failed", { ctx, status: response.status });
+    return null;
+  }
+  const data = await response.json();
+  return data.embedding?.values ?? null;
+}
+function formatAnalysis(match: MatchedAnalysis): string {
+  const signed = (n: number, digits: number) => `${n >= 0 ? "+" : ""}${n.toFixed(digits)}`;
+  let outcome = "ungraded";
+  if (match.result) {
+    outcome = match.result.toUpperCase();
+    if (match.units_won !== null) outcome += ` ${signed(Number(match.units_won), 2)}u`;
+  }
+  if (match.clv_prob !== null) outcome += `, CLV ${signed(Number(match.clv_prob), 1)}pp`;
+  const reasoning =
+    match.reasoning_text.length > CONFIG.RAG_REASONING_CHARS
+      ? match.reasoning_text.substring(0, CONFIG.RAG_REASONING_CHARS) + "..."
+      : match.reasoning_text;
+  return `- ${match.created_at.substring(0, 10)} ${match.sport} ${match.market_type}: ${match.pick_side} (confidence ${match.confidence_score}) -> ${outcome}. ${reasoning}`;
+}
+/**
+ * Retrieval over past pick analyses: the question is embedded with the same model as
+ * analysis_memory.reasoning_embedding and matched against analyses that mention the teams
+ * it names. Returns null (plain assistant) when no team is named or retrieval fails.
+ */
+async function getDomainContext(query: string, ctx: RequestContext): Promise<string | null> {
+  try {
+    const teams = await findMentionedTeams(query, ctx);
+    if (teams.length === 0) return null;
+    const embedding = await embedQuery(query, ctx);
+    if (!embedding) return null;
+    const leagues = [...new Set(teams.map((t) => t.league))];
+    const { data, error } = await supabaseAdmin.rpc("match_analysis_memory", {
+      query_embedding: JSON.stringify(embedding),
+      match_count: CONFIG.RAG_MATCH_COUNT,
+      match_threshold: CONFIG.RAG_MATCH_THRESHOLD,
+      filter_teams: teams.flatMap((t) => {
+        const nickname = t.name.split(/\s+/).pop() ?? "";
+        return [`%${t.name}%`, `${t.abbreviation} %`, ...(nickname.length > 3 ? [`%${nickname}%`] : [])];
+      }),
+      filter_sport: leagues.length === 1 ? leagues[0] : null,
+    });
+    if (error) {
+      log("WARN", "[RAG] match_analysis_memory failed", { ctx, error });
+      return null;
+    }
+    const matches = (data || []) as MatchedAnalysis[];
+    log("DEBUG", "[RAG] Prior analyses retrieved", {
+      ctx,
+      teams: teams.map((t) => t.name),
+      matches: matches.length,
+      topSimilarity: matches[0]?.similarity ?? null,
+    });
+    if (matches.length === 0) return null;
+    return [
+      `Prior pick analyses for ${teams.map((t) => t.name).join(", ")}, most similar to the question first.`,
+      "Results show how each call played out; treat them as track record, not current news or odds.",
+      ...matches.map(formatAnalysis),
+    ].join("\n");
+  } catch (error) {
+    log("WARN", "[RAG] Domain context retrieval failed", { ctx, error });
+    return null;
+  }
 }
 const VALID_MIME_TYPES = new Set(["image/jpeg", "image/png", "image/webp", "image/gif"]);
 async function fetchAndEncodeImages(
@@ -1269,7 +1402,7 @@ Deno.serve(async (req: Request) => {
       log("DEBUG", "[DATA] Starting parallel data fetching (Images and Context)", { ctx });
       const [images, domainContext] = await Promise.all([
         fetchAndEncodeImages(imageIds || [], user.id, ctx),
-        getDomainContext(user.id, ctx),
+        getDomainContext(lastUserMessage.content, ctx),
       ]);
       log("DEBUG", "[DATA] Parallel data fetching complete", {
         ctx,
@@ -1285,7 +1418,7 @@ Deno.serve(async (req: Request) => {
         taskType,
         reasoning,
       });
-      const systemPrompt = domainContext || "You are a helpful AI assistant.";
+      const systemPrompt = domainContext ? `${BASE_SYSTEM_PROMPT}\n\n${domainContext}` : BASE_SYSTEM_PROMPT;
       const apiPayload = formatMessagesForProvider(provider, messages, images, systemPrompt);
       if (conversationId) {
         persistMessage(
@@ -0,0 +1,655 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { z } from 'zod';
+import { gradePick, type ClosingLine, type FinalGame, type Outcome } from '../_shared/grading.ts';
+import {
+  buildSystemPrompt,
+  LLMOutputSchema,
+  MARKET_SIDES,
+  promptHash,
+  sideLabel,
+  sidesPrompt,
+  type Quote,
+  type Rationale,
+  type Side,
+} from '../_shared/pickPrompt.ts';
+import { createGeminiModel, createStubModel, type PickModel } from '../_shared/pickModels.ts';
+import { ConfigurationError, ValidationError, NotFoundError, DatabaseError, authorizeCron, errorResponse } from '../_shared/errors.ts';
+import { log } from '../_shared/log.ts';
+
+// =============================================================================
+// Configuration & Constants
+// =============================================================================
+const DEFAULT_LIMIT = 25;          // Games replayed per run
+const MAX_LIMIT = 100;             // Stub runs only; Gemini runs are capped at GEMINI_MAX_LIMIT
+const GEMINI_MAX_LIMIT = 8;        // ~24 model calls, inside the edge runtime wall clock
+const STALE_RUN_MINUTES = 15;      // A 'running' run older than this was killed by the wall clock
+const MODEL_CONCURRENCY = 3;       // Parallel model calls
+const INSERT_CHUNK = 200;          // backtest_picks rows per insert
+const STANDARD_PRICE = -110;       // betting_lines_history stores spread / total numbers without prices
+const GEMINI_MODEL = 'gemini-3-pro-preview';
+const FLIPPED_SAMPLE = 50;         // Disagreements listed in a diff
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Soccer is left out: betting_lines_history carries no draw price, so a 1X2 can't be replayed
+const LEAGUE_TABLES = {
+  NFL: 'nfl_games',
+  NBA: 'nba_games',
+  NHL: 'nhl_games',
+  MLB: 'mlb_games',
+  NCAAF: 'ncaaf_games',
+  NCAAB: 'ncaab_games',
+} as const;
+
+const FINAL_STATUS_PATTERN = /final|post|completed|closed/i;
+
+// Live context generate-pick adds that a replay can't rebuild as of the game date (the stat
+// tables hold current snapshots only). Recorded in each run's params so results aren't read
+// as the live prompt's.
+const CONTEXT_OMITTED = ['team_stats', 'probable_pitchers', 'away_record', 'home_record'] as const;
+
+// =============================================================================
+// Domain Types
+// =============================================================================
+const DateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+const BacktestMarketSchema = z.enum(['moneyline', 'spread', 'total']);
+
+const RequestSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('run'),
+    league: z.enum(['NFL', 'NBA', 'NHL', 'MLB', 'NCAAF', 'NCAAB']).default('NFL'),
+    from: DateSchema.optional(),
+    to: DateSchema.optional(),
+    markets: z.array(BacktestMarketSchema).min(1).default(['moneyline', 'spread', 'total']),
+    limit: z.number().int().min(1).max(MAX_LIMIT).default(DEFAULT_LIMIT),
+    model: z.enum(['stub', 'gemini']).default('stub'),
+    label: z.string().max(120).optional(),
+  }),
+  z.object({
+    action: z.literal('report'),
+    run_id: z.string().uuid(),
+  }),
+  z.object({
+    action: z.literal('diff'),
+    base_run_id: z.string().uuid(),
+    compare_run_id: z.string().uuid(),
+  }),
+]);
+
+type RunRequest = Extract<z.infer<typeof RequestSchema>, { action: 'run' }>;
+type League = keyof typeof LEAGUE_TABLES;
+type BacktestMarket = z.infer<typeof BacktestMarketSchema>;
+
+interface GameRow extends FinalGame {
+  start_time: string;
+  game_date: string;
+  status: string;
+}
+
+interface LinesRow {
+  game_id: string;
+  open_moneyline_away: number | null;
+  open_moneyline_home: number | null;
+  open_spread_away: number | null;
+  open_spread_home: number | null;
+  open_total: number | null;
+  current_moneyline_away: number | null;
+  current_moneyline_home: number | null;
+  current_spread_away: number | null;
+  current_spread_home: number | null;
+  current_total: number | null;
+}
+
+// Quotes the model is offered (opening number) and the close they are measured against
+interface ReplayMarket {
+  market: BacktestMarket;
+  sides: Side[];
+  quotes: Partial<Record<Side, Quote>>;
+  closing: Partial<Record<Side, Quote>>;
+}
+
+interface BacktestPickRow {
+  run_id: string;
+  game_id: string;
+  game_date: string;
+  market_type: BacktestMarket;
+  side: Side | null;
+  pick_side: string | null;
+  confidence: number | null;
+  price: number | null;
+  line: number | null;
+  closing_price: number | null;
+  closing_line: number | null;
+  result: Outcome | null;
+  units_won: number | null;
+  clv_prob: number | null;
+  clv_line: number | null;
+  reasoning: string | null;
+  rationale: Rationale | null;
+  error: string | null;
+}
+
+interface CalibrationBucket {
+  bucket: string;
+  picks: number;
+  avg_confidence: number;
+  win_rate: number;
+}
+
+interface RecordSummary {
+  picks: number;
+  invalid: number;
+  graded: number;
+  wins: number;
+  losses: number;
+  pushes: number;
+  units: number;
+  roi: number | null;
+  avg_clv_prob: number | null;
+  avg_clv_line: number | null;
+  brier: number | null;
+}
+
+interface RunSummary extends RecordSummary {
+  by_market: Partial<Record<BacktestMarket, RecordSummary>>;
+  calibration: CalibrationBucket[];
+}
+
+// =============================================================================
+// Utilities & Infrastructure
+// =============================================================================
+
+const toImplied = (american: number): number =>
+  american > 0 ? 100 / (american + 100) : Math.abs(american) / (Math.abs(american) + 100);
+
+const round = (value: number, digits = 4): number => Number(value.toFixed(digits));
+
+const mean = (values: number[]): number | null =>
+  values.length > 0 ? round(values.reduce((sum, v) => sum + v, 0) / values.length) : null;
+
+const WIN_RESULTS = new Set<Outcome>(['win', 'half_win']);
+const LOSS_RESULTS = new Set<Outcome>(['loss', 'half_loss']);
+
+// =============================================================================
+// Logic Modules
+// =============================================================================
+
+/**
+ * Module: History Loader
+ * Final games in the window that have a betting_lines_history row, newest first.
+ * Over-fetches because not every final game has lines.
+ */
+async function loadHistory(supabase: SupabaseClient, params: RunRequest): Promise<{ game: GameRow; lines: LinesRow }[]> {
+  const table = LEAGUE_TABLES[params.league as League];
+  let query = supabase
+    .from(table)
+    .select('game_id, away_team, home_team, away_score, home_score, status, start_time, game_date')
+    .not('home_score', 'is', null)
+    .not('away_score', 'is', null)
+    .order('start_time', { ascending: false })
+    .limit(params.limit * 3);
+  if (params.from) query = query.gte('game_date', params.from);
+  if (params.to) query = query.lte('game_date', params.to);
+
+  const { data: games, error } = await query;
+  if (error) throw new DatabaseError(`${table} query failed: ${error.message}`);
+
+  const finals = ((games || []) as GameRow[]).filter((g) => FINAL_STATUS_PATTERN.test(g.status || ''));
+  if (finals.length === 0) return [];
+
+  const { data: lines, error: linesError } = await supabase
+    .from('betting_lines_history')
+    .select(
+      'game_id, open_moneyline_away, open_moneyline_home, open_spread_away, open_spread_home, open_total, current_moneyline_away, current_moneyline_home, current_spread_away, current_spread_home, current_total, last_updated',
+    )
+    .in('game_id', finals.map((g) => g.game_id))
+    .order('last_updated', { ascending: false });
+
+  if (linesError) throw new DatabaseError(`betting_lines_history query failed: ${linesError.message}`);
+
+  const linesByGame = new Map<string, LinesRow>();
+  for (const row of (lines || []) as LinesRow[]) {
+    if (!linesByGame.has(row.game_id)) linesByGame.set(row.game_id, row); // Newest first
+  }
+
+  return finals
+    .filter((g) => linesByGame.has(g.game_id))
+    .slice(0, params.limit)
+    .map((game) => ({ game, lines: linesByGame.get(game.game_id)! }));
+}
+
+/**
+ * Module: Market Builder
+ * The model is offered the opening number (the current one when no open was recorded)
+ * and measured against the last number before lock. Spreads and totals are priced at -110.
+ */
+function buildMarket(lines: LinesRow, market: BacktestMarket): ReplayMarket | null {
+  const quote = (price: number | null, line?: number | null): Quote | undefined =>
+    price == null ? undefined : line === undefined ? { price } : line == null ? undefined : { price, line };
+
+  let quotes: Partial<Record<Side, Quote | undefined>>;
+  let closing: Partial<Record<Side, Quote | undefined>>;
+
+  if (market === 'moneyline') {
+    quotes = {
+      away: quote(lines.open_moneyline_away ?? lines.current_moneyline_away),
+      home: quote(lines.open_moneyline_home ?? lines.current_moneyline_home),
+    };
+    closing = { away: quote(lines.current_moneyline_away), home: quote(lines.current_moneyline_home) };
+  } else if (market === 'spread') {
+    const home = lines.open_spread_home ?? lines.current_spread_home;
+    const away = lines.open_spread_away ?? lines.current_spread_away ?? (home != null ? -home : null);
+    const closeAway = lines.current_spread_away ?? (lines.current_spread_home != null ? -lines.current_spread_home : null);
+    quotes = { away: quote(STANDARD_PRICE, away), home: quote(STANDARD_PRICE, home) };
+    closing = { away: quote(STANDARD_PRICE, closeAway), home: quote(STANDARD_PRICE, lines.current_spread_home) };
+  } else {
+    const total = lines.open_total ?? lines.current_total;
+    quotes = { over: quote(STANDARD_PRICE, total), under: quote(STANDARD_PRICE, total) };
+    closing = { over: quote(STANDARD_PRICE, lines.current_total), under: quote(STANDARD_PRICE, lines.current_total) };
+  }
+
+  const sides = MARKET_SIDES[market].filter((side) => quotes[side] !== undefined);
+  if (sides.length < 2) return null;
+  return { market, sides, quotes: quotes as Partial<Record<Side, Quote>>, closing: closing as Partial<Record<Side, Quote>> };
+}
+
+/**
+ * Pre-game context in the shape pickGenerator sends: teams, league, start and the board.
+ * Scores, final status and closing lines are withheld so nothing from after lock leaks in.
+ * Records, team stats and probable pitchers are left out (CONTEXT_OMITTED).
+ */
+function buildGameContext(league: League, game: GameRow, markets: ReplayMarket[]): Record<string, unknown> {
+  const quoteOf = (market: BacktestMarket, side: Side) => markets.find((m) => m.market === market)?.quotes[side];
+  return {
+    away_team: game.away_team,
+    home_team: game.home_team,
+    league,
+    start_time: game.start_time,
+    status: 'scheduled',
+    moneyline_away: quoteOf('moneyline', 'away')?.price,
+    moneyline_home: quoteOf('moneyline', 'home')?.price,
+    spread_away: quoteOf('spread', 'away')?.line,
+    spread_home: quoteOf('spread', 'home')?.line,
+    total: quoteOf('total', 'over')?.line,
+  };
+}
+
+/**
+ * CLV against the close:
+ *  - prob (moneyline): no-vig closing probability minus the taken price's break-even (pp)
+ *  - line (spread / total): points gained on the number, e.g. +3.5 taken vs +3 close = +0.5
+ */
+function computeClv(replay: ReplayMarket, side: Side): { clv_prob: number | null; clv_line: number | null } {
+  const taken = replay.quotes[side]!;
+  const close = replay.closing[side];
+  if (!close) return { clv_prob: null, clv_line: null };
+
+  if (replay.market === 'moneyline') {
+    const others = replay.sides.filter((s) => s !== side).map((s) => replay.closing[s]?.price);
+    if (others.some((p) => p == null)) return { clv_prob: null, clv_line: null };
+    const pSide = toImplied(close.price);
+    const fair = pSide / (pSide + others.reduce((sum: number, p) => sum + toImplied(p!), 0));
+    return { clv_prob: round((fair - toImplied(taken.price)) * 100), clv_line: null };
+  }
+
+  if (taken.line == null || close.line == null) return { clv_prob: null, clv_line: null };
+  const gained = side === 'over' ? close.line - taken.line : taken.line - close.line;
+  return { clv_prob: null, clv_line: round(gained, 2) };
+}
+
+/**
+ * Module: Replayer
+ * Runs one market through the live prompt and grader. Model failures and off-menu
+ * answers are kept as invalid rows so a flaky prompt shows up in the run summary.
+ */
+async function replayMarket(
+  model: PickModel,
+  runId: string,
+  league: League,
+  game: GameRow,
+  context: Record<string, unknown>,
+  replay: ReplayMarket,
+): Promise<BacktestPickRow> {
+  const row: BacktestPickRow = {
+    run_id: runId,
+    game_id: game.game_id,
+    game_date: game.game_date,
+    market_type: replay.market,
+    side: null,
+    pick_side: null,
+    confidence: null,
+    price: null,
+    line: null,
+    closing_price: null,
+    closing_line: null,
+    result: null,
+    units_won: null,
+    clv_prob: null,
+    clv_line: null,
+    reasoning: null,
+    rationale: null,
+    error: null,
+  };
+
+  try {
+    const { oddsContext, responseShape } = sidesPrompt(replay.market, replay.sides, replay.quotes, context);
+    const raw = await model.complete({
+      prompt: buildSystemPrompt(replay.market, oddsContext, responseShape),
+      gameContext: context,
+      sides: replay.sides,
+      quotes: replay.quotes,
+    });
+
+    const validation = LLMOutputSchema.safeParse(JSON.parse(raw || '{}'));
+    if (!validation.success) throw new Error('Invalid schema');
+    const analysis = validation.data;
+    if (!analysis.side || !replay.sides.includes(analysis.side)) throw new Error(`Side not offered: ${analysis.side}`);
+
+    const side = analysis.side;
+    const quote = replay.quotes[side]!;
+    const label = sideLabel(replay.market, side, quote, context);
+    const closing: ClosingLine = {
+      spreadHome: replay.market === 'spread' ? replay.closing.home?.line ?? null : null,
+      spreadAway: replay.market === 'spread' ? replay.closing.away?.line ?? null : null,
+      total: replay.market === 'total' ? replay.closing.over?.line ?? null : null,
+    };
+    const graded = gradePick(
+      {
+        sport: league,
+        market_type: replay.market,
+        pick_side: label,
+        pick_outcome: side,
+        odds_at_generation: quote.price,
+        line_at_generation: quote.line ?? null,
+        closing_line: null,
+      },
+      game,
+      closing,
+    );
+
+    Object.assign(row, {
+      side,
+      pick_side: label,
+      confidence: analysis.confidence,
+      price: quote.price,
+      line: quote.line ?? null,
+      closing_price: replay.closing[side]?.price ?? null,
+      closing_line: replay.closing[side]?.line ?? null,
+      result: graded?.result ?? null,
+      units_won: graded?.units_won ?? null,
+      reasoning: analysis.reasoning,
+      rationale: analysis.rationale ?? null,
+      ...computeClv(replay, side),
+    });
+  } catch (e) {
+    row.error = e instanceof Error ? e.message : String(e);
+  }
+
+  return row;
+}
+
+/**
+ * Module: Summary
+ * Record, ROI (units per graded pick), CLV, and calibration: win rate per 10-point
+ * confidence bucket plus the Brier score of confidence as a win probability. Pushes
+ * are left out of calibration.
+ */
+function summarizeRecord(rows: BacktestPickRow[]): RecordSummary {
+  const valid = rows.filter((r) => !r.error);
+  const graded = valid.filter((r) => r.result !== null);
+  const decided = graded.filter((r) => r.result !== 'push' && r.confidence !== null);
+  const units = graded.reduce((sum, r) => sum + (r.units_won ?? 0), 0);
+
+  return {
+    picks: rows.length,
+    invalid: rows.length - valid.length,
+    graded: graded.length,
+    wins: graded.filter((r) => WIN_RESULTS.has(r.result!)).length,
+    losses: graded.filter((r) => LOSS_RESULTS.has(r.result!)).length,
+    pushes: graded.filter((r) => r.result === 'push').length,
+    units: round(units),
+    roi: graded.length > 0 ? round((units / graded.length) * 100, 2) : null,
+    avg_clv_prob: mean(valid.map((r) => r.clv_prob).filter((v): v is number => v !== null)),
+    avg_clv_line: mean(valid.map((r) => r.clv_line).filter((v): v is number => v !== null)),
+    brier: mean(decided.map((r) => (r.confidence! / 100 - (WIN_RESULTS.has(r.result!) ? 1 : 0)) ** 2)),
+  };
+}
+
+function summarize(rows: BacktestPickRow[]): RunSummary {
+  const decided = rows.filter((r) => !r.error && r.result !== null && r.result !== 'push' && r.confidence !== null);
+  const buckets = new Map<number, BacktestPickRow[]>();
+  decided.forEach((r) => {
+    const floor = Math.min(90, Math.floor(r.confidence! / 10) * 10);
+    buckets.set(floor, [...(buckets.get(floor) ?? []), r]);
+  });
+
+  const by_market: RunSummary['by_market'] = {};
+  BacktestMarketSchema.options.forEach((market) => {
+    const subset = rows.filter((r) => r.market_type === market);
+    if (subset.length > 0) by_market[market] = summarizeRecord(subset);
+  });
+
+  return {
+    ...summarizeRecord(rows),
+    by_market,
+    calibration: [...buckets.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([floor, bucket]) => ({
+        bucket: `${floor}-${floor + 9}`,
+        picks: bucket.length,
+        avg_confidence: mean(bucket.map((r) => r.confidence!))!,
+        win_rate: round(bucket.filter((r) => WIN_RESULTS.has(r.result!)).length / bucket.length),
+      })),
+  };
+}
+
+/**
+ * Runs the wall clock killed never reach the catch below; they are marked failed at the
+ * start of the next run.
+ */
+async function failStaleRuns(supabase: SupabaseClient): Promise<void> {
+  const cutoff = new Date(Date.now() - STALE_RUN_MINUTES * 60_000).toISOString();
+  const { data, error } = await supabase
+    .from('backtest_runs')
+    .update({ status: 'failed', error: 'Run exceeded the edge runtime wall clock', completed_at: new Date().toISOString() })
+    .eq('status', 'running')
+    .lt('created_at', cutoff)
+    .select('id');
+
+  if (error) throw new DatabaseError(`backtest_runs stale update failed: ${error.message}`);
+  if (data && data.length > 0) log('WARN', 'Stale runs marked failed', { runIds: data.map((r) => r.id) });
+}
+
+/**
+ * Module: Runner
+ * Records the run, replays every game's markets and stores the picks and summary.
+ * A failure mid-run marks the run failed rather than leaving it 'running'.
+ */
+async function runBacktest(supabase: SupabaseClient, params: RunRequest, model: PickModel) {
+  const league = params.league as League;
+  await failStaleRuns(supabase);
+
+  const { data: run, error: runError } = await supabase
+    .from('backtest_runs')
+    .insert({
+      label: params.label ?? null,
+      model: model.id,
+      prompt_hash: await promptHash(),
+      league,
+      params: { ...params, context_omitted: CONTEXT_OMITTED },
+      status: 'running',
+    })
+    .select('id')
+    .single();
+
+  if (runError || !run) throw new DatabaseError(`backtest_runs insert failed: ${runError?.message}`);
+
+  try {
+    const history = await loadHistory(supabase, params);
+    const tasks = history.flatMap(({ game, lines }) => {
+      const markets = params.markets
+        .map((market) => buildMarket(lines, market))
+        .filter((m): m is ReplayMarket => m !== null);
+      const context = buildGameContext(league, game, markets);
+      return markets.map((replay) => () => replayMarket(model, run.id, league, game, context, replay));
+    });
+
+    const rows: BacktestPickRow[] = [];
+    for (let i = 0; i < tasks.length; i += MODEL_CONCURRENCY) {
+      rows.push(...await Promise.all(tasks.slice(i, i + MODEL_CONCURRENCY).map((task) => task())));
+    }
+
+    for (let i = 0; i < rows.length; i += INSERT_CHUNK) {
+      const { error } = await supabase.from('backtest_picks').insert(rows.slice(i, i + INSERT_CHUNK));
+      if (error) throw new DatabaseError(`backtest_picks insert failed: ${error.message}`);
+    }
+
+    const summary = { games: history.length, ...summarize(rows) };
+    const { error: updateError } = await supabase
+      .from('backtest_runs')
+      .update({ status: 'completed', summary, completed_at: new Date().toISOString() })
+      .eq('id', run.id);
+    if (updateError) throw new DatabaseError(`backtest_runs update failed: ${updateError.message}`);
+
+    return { run_id: run.id, summary };
+  } catch (err) {
+    await supabase
+      .from('backtest_runs')
+      .update({ status: 'failed', error: err instanceof Error ? err.message : String(err), completed_at: new Date().toISOString() })
+      .eq('id', run.id);
+    throw err;
+  }
+}
+
+async function loadRun(supabase: SupabaseClient, runId: string) {
+  const { data, error } = await supabase
+    .from('backtest_runs')
+    .select('id, label, model, prompt_hash, league, params, status, summary, error, created_at, completed_at')
+    .eq('id', runId)
+    .maybeSingle();
+
+  if (error) throw new DatabaseError(`backtest_runs query failed: ${error.message}`);
+  if (!data) throw new NotFoundError(`Backtest run ${runId} not found`);
+  return data;
+}
+
+async function loadRunPicks(supabase: SupabaseClient, runId: string): Promise<BacktestPickRow[]> {
+  const { data, error } = await supabase
+    .from('backtest_picks')
+    .select('run_id, game_id, game_date, market_type, side, pick_side, confidence, price, line, closing_price, closing_line, result, units_won, clv_prob, clv_line, reasoning, rationale, error')
+    .eq('run_id', runId);
+
+  if (error) throw new DatabaseError(`backtest_picks query failed: ${error.message}`);
+  return (data || []) as BacktestPickRow[];
+}
+
+/**
+ * Module: Diff
+ * Compares two runs on the (game, market) pairs both replayed, so different windows
+ * or limits don't skew the comparison: side agreement, summaries over the shared
+ * set, their deltas (compare minus base) and a sample of flipped picks.
+ */
+async function diffRuns(supabase: SupabaseClient, baseRunId: string, compareRunId: string) {
+  const [baseRun, compareRun, basePicks, comparePicks] = await Promise.all([
+    loadRun(supabase, baseRunId),
+    loadRun(supabase, compareRunId),
+    loadRunPicks(supabase, baseRunId),
+    loadRunPicks(supabase, compareRunId),
+  ]);
+
+  const keyOf = (r: BacktestPickRow) => `${r.game_id}:${r.market_type}`;
+  const compareByKey = new Map(comparePicks.map((r) => [keyOf(r), r]));
+  const pairs = basePicks
+    .filter((r) => compareByKey.has(keyOf(r)))
+    .map((base) => ({ base, compare: compareByKey.get(keyOf(base))! }));
+
+  const flipped = pairs.filter(({ base, compare }) => base.side !== compare.side);
+  const base = summarize(pairs.map((p) => p.base));
+  const compare = summarize(pairs.map((p) => p.compare));
+
+  const deltaKeys = ['wins', 'losses', 'units', 'roi', 'avg_clv_prob', 'avg_clv_line', 'brier'] as const;
+  const delta = Object.fromEntries(
+    deltaKeys.map((key) => [key, base[key] !== null && compare[key] !== null ? round(compare[key]! - base[key]!) : null]),
+  );
+
+  return {
+    base: { id: baseRun.id, label: baseRun.label, model: baseRun.model, prompt_hash: baseRun.prompt_hash },
+    compare: { id: compareRun.id, label: compareRun.label, model: compareRun.model, prompt_hash: compareRun.prompt_hash },
+    shared: pairs.length,
+    agreement: pairs.length > 0 ? round((pairs.length - flipped.length) / pairs.length) : null,
+    summary: { base, compare, delta },
+    flipped: flipped.slice(0, FLIPPED_SAMPLE).map(({ base: b, compare: c }) => ({
+      game_id: b.game_id,
+      market_type: b.market_type,
+      base: { pick_side: b.pick_side, confidence: b.confidence, result: b.result },
+      compare: { pick_side: c.pick_side, confidence: c.confidence, result: c.result },
+    })),
+  };
+}
+
+// =============================================================================
+// Main Execution Handler
+// =============================================================================
+
+async function handler(req: Request): Promise<Response> {
+  if (req.method === 'OPTIONS') return new Response(null, { headers: CORS_HEADERS, status: 204 });
+
+  const correlationId = crypto.randomUUID();
+  const startTime = performance.now();
+
+  try {
+    // 1. Environment Validation & Security
+    const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+      throw new ConfigurationError("Missing critical environment variables (Supabase).");
+    }
+
+    authorizeCron(req, correlationId);
+
+    // 2. Request Validation
+    const parsed = RequestSchema.safeParse(await req.json().catch(() => ({})));
+    if (!parsed.success) throw new ValidationError("Invalid request", parsed.error.format());
+    const request = parsed.data;
+    log('INFO', 'Backtest Request', { correlationId, action: request.action });
+
+    const supabase: SupabaseClient = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    // 3. Dispatch
+    let result: unknown;
+    if (request.action === 'run') {
+      let model: PickModel = createStubModel();
+      let params = request;
+      if (request.model === 'gemini') {
+        const GOOGLE_API_KEY = Deno.env.get('GOOGLE_API_KEY');
+        if (!GOOGLE_API_KEY) throw new ConfigurationError("GOOGLE_API_KEY is required for Gemini backtests.");
+        model = createGeminiModel(GOOGLE_API_KEY, GEMINI_MODEL);
+        // Larger windows are replayed as several runs (from / to) and compared with diff
+        params = { ...request, limit: Math.min(request.limit, GEMINI_MAX_LIMIT) };
+      }
+      result = await runBacktest(supabase, params, model);
+    } else if (request.action === 'report') {
+      result = { run: await loadRun(supabase, request.run_id) };
+    } else {
+      result = await diffRuns(supabase, request.base_run_id, request.compare_run_id);
+    }
+
+    // 4. Finalize
+    const durationMs = (performance.now() - startTime).toFixed(2);
+    log('INFO', 'Backtest Complete', { correlationId, action: request.action, durationMs });
+
+    return new Response(JSON.stringify({ success: true, ...(result as Record<string, unknown>), correlationId }), {
+      status: 200,
+      headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error: unknown) {
+    return errorResponse(error, correlationId, startTime, CORS_HEADERS);
+  }
+}
+
+Deno.serve(handler);
@@ -0,0 +1,187 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { z } from 'zod';
+import type { Outcome } from '../_shared/grading.ts';
+import { fitCalibration, type CalibrationFit, type CalibrationSample } from '../_shared/calibration.ts';
+import { ConfigurationError, ValidationError, DatabaseError, authorizeCron, errorResponse } from '../_shared/errors.ts';
+import { log } from '../_shared/log.ts';
+
+// =============================================================================
+// Configuration & Constants
+// =============================================================================
+const DEFAULT_MIN_SAMPLES = 50;    // Graded picks a league / market needs before it is fitted
+const DEFAULT_LOOKBACK_DAYS = 365;
+const PAGE_SIZE = 1000;            // PostgREST caps a single select
+const MAX_ROWS = 20000;            // Graded picks read per run
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const LEAGUES = ['NFL', 'NBA', 'NHL', 'MLB', 'NCAAF', 'NCAAB', 'EPL', 'MLS', 'UCL'] as const;
+// Props aren't graded yet (grade-picks skips them), so they have no samples
+const MARKETS = ['moneyline', 'spread', 'total'] as const;
+
+// Pushes say nothing about the side; half results count for the side they lean to
+const SAMPLE_LABELS: Partial<Record<Outcome, number>> = {
+  win: 1,
+  half_win: 1,
+  half_loss: 0,
+  loss: 0,
+};
+
+// =============================================================================
+// Domain Types
+// =============================================================================
+const RequestSchema = z.object({
+  league: z.enum(LEAGUES).optional(),
+  market_type: z.enum(MARKETS).optional(),
+  method: z.enum(['auto', 'isotonic', 'platt']).default('auto'),
+  min_samples: z.number().int().min(20).default(DEFAULT_MIN_SAMPLES),
+  lookback_days: z.number().int().min(7).max(3650).default(DEFAULT_LOOKBACK_DAYS),
+});
+
+type CalibrateRequest = z.infer<typeof RequestSchema>;
+
+interface GradedRow {
+  sport: string;
+  market_type: string;
+  confidence_score: number;
+  raw_probability: number | null;
+  result: Outcome;
+  created_at: string;
+}
+
+// =============================================================================
+// Logic Modules
+// =============================================================================
+
+/**
+ * Module: Sample Loader
+ * Graded picks in the window, oldest first so the holdout is the most recent slice.
+ * raw_probability is preferred; picks from before it existed fall back to confidence_score.
+ */
+async function loadSamples(supabase: SupabaseClient, params: CalibrateRequest): Promise<Map<string, CalibrationSample[]>> {
+  const since = new Date(Date.now() - params.lookback_days * 86_400_000).toISOString();
+  const rows: GradedRow[] = [];
+
+  for (let from = 0; from < MAX_ROWS; from += PAGE_SIZE) {
+    let query = supabase
+      .from('analysis_memory')
+      .select('sport, market_type, confidence_score, raw_probability, result, created_at')
+      .not('graded_at', 'is', null)
+      .gte('created_at', since)
+      .order('created_at', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (params.league) query = query.eq('sport', params.league);
+    if (params.market_type) query = query.eq('market_type', params.market_type);
+
+    const { data, error } = await query;
+    if (error) throw new DatabaseError(`analysis_memory query failed: ${error.message}`);
+
+    rows.push(...((data || []) as GradedRow[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  const groups = new Map<string, CalibrationSample[]>();
+  for (const row of rows) {
+    const won = SAMPLE_LABELS[row.result];
+    if (won === undefined || row.confidence_score == null) continue;
+
+    const key = `${row.sport}:${row.market_type}`;
+    const samples = groups.get(key) ?? [];
+    samples.push({ raw: row.raw_probability ?? row.confidence_score / 100, won });
+    groups.set(key, samples);
+  }
+  return groups;
+}
+
+/**
+ * Module: Fitter
+ * One fit per league / market with enough samples. Every fit is recorded; only fits that
+ * beat the raw confidence on the holdout are accepted, and generate-pick reads the latest.
+ */
+async function calibrate(supabase: SupabaseClient, params: CalibrateRequest) {
+  const groups = await loadSamples(supabase, params);
+  const fitted: ({ league: string; market_type: string; accepted: boolean } & CalibrationFit)[] = [];
+  const skipped: { league: string; market_type: string; samples: number }[] = [];
+
+  for (const [key, samples] of groups) {
+    const [league, market_type] = key.split(':');
+    if (samples.length < params.min_samples) {
+      skipped.push({ league, market_type, samples: samples.length });
+      continue;
+    }
+    const fit = fitCalibration(samples, params.method);
+    fitted.push({ league, market_type, accepted: fit.brier_calibrated < fit.brier_raw, ...fit });
+  }
+
+  if (fitted.length > 0) {
+    const { error } = await supabase.from('pick_calibrations').insert(
+      fitted.map(({ calibration, ...fit }) => ({
+        ...fit,
+        method: calibration.method,
+        params: calibration.params,
+      })),
+    );
+    if (error) throw new DatabaseError(`pick_calibrations insert failed: ${error.message}`);
+  }
+
+  return {
+    fitted: fitted.map(({ calibration, ...fit }) => ({ ...fit, method: calibration.method })),
+    skipped,
+  };
+}
+
+// =============================================================================
+// Main Execution Handler
+// =============================================================================
+
+async function handler(req: Request): Promise<Response> {
+  if (req.method === 'OPTIONS') return new Response(null, { headers: CORS_HEADERS, status: 204 });
+
+  const correlationId = crypto.randomUUID();
+  const startTime = performance.now();
+  log('INFO', 'Calibration Run Started', { correlationId });
+
+  try {
+    // 1. Environment Validation & Security
+    const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+      throw new ConfigurationError("Missing critical environment variables (Supabase).");
+    }
+
+    authorizeCron(req, correlationId);
+
+    // 2. Request Validation (an empty body refits every league and market)
+    const parsed = RequestSchema.safeParse(await req.json().catch(() => ({})));
+    if (!parsed.success) throw new ValidationError("Invalid request", parsed.error.format());
+
+    const supabase: SupabaseClient = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    // 3. Fit
+    const result = await calibrate(supabase, parsed.data);
+
+    // 4. Finalize
+    const durationMs = (performance.now() - startTime).toFixed(2);
+    log('INFO', 'Calibration Run Complete', {
+      correlationId,
+      durationMs,
+      fitted: result.fitted.length,
+      accepted: result.fitted.filter((f) => f.accepted).length,
+      skipped: result.skipped.length,
+    });
+
+    return new Response(JSON.stringify({ success: true, ...result, correlationId }), {
+      status: 200,
+      headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error: unknown) {
+    return errorResponse(error, correlationId, startTime, CORS_HEADERS);
+  }
+}
+
+Deno.serve(handler);
@@ -0,0 +1,384 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { loadTeamIndex, matchesTeam, type TeamIndex } from '../_shared/teams.ts';
+import { ConfigurationError, ApiError, DatabaseError, authorizeCron, errorResponse } from '../_shared/errors.ts';
+import { log } from '../_shared/log.ts';
+
+// =============================================================================
+// Configuration & Constants
+// =============================================================================
+const LEAD_MINUTES = 20;          // Refresh the close for games starting within this window
+const BACKFILL_HOURS = 6;         // Started games never captured are backfilled from the historical snapshot at kickoff
+const MAX_BACKFILL_EVENTS = 20;   // Historical calls cost 10x the live quota; cap them per run
+const FETCH_TIMEOUT_MS = 8000;
+const CONCURRENCY_LIMIT = 10;
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const LEAGUES = {
+  NFL: { table: 'nfl_games', sportKey: 'americanfootball_nfl' },
+  NBA: { table: 'nba_games', sportKey: 'basketball_nba' },
+  NHL: { table: 'nhl_games', sportKey: 'icehockey_nhl' },
+  MLB: { table: 'mlb_games', sportKey: 'baseball_mlb' },
+  NCAAF: { table: 'ncaaf_games', sportKey: 'americanfootball_ncaaf' },
+  NCAAB: { table: 'ncaab_games', sportKey: 'basketball_ncaab' },
+  EPL: { table: 'soccer_games', sportKey: 'soccer_epl' },
+  MLS: { table: 'soccer_games', sportKey: 'soccer_usa_mls' },
+  UCL: { table: 'soccer_games', sportKey: 'soccer_uefa_champs_league' },
+} as const;
+
+// Same preference order as the client board (nhlAi PREFERRED_BOOKMAKERS)
+const CLOSING_BOOKS = ['draftkings', 'fanduel', 'betmgm', 'williamhill'];
+
+const MARKET_KEYS: Record<string, string> = {
+  moneyline: 'h2h',
+  spread: 'spreads',
+  total: 'totals',
+};
+
+// =============================================================================
+// Domain Types
+// =============================================================================
+type League = keyof typeof LEAGUES;
+
+interface PickRow {
+  id: string;
+  game_id: string;
+  sport: League;
+  market_type: string;
+  pick_side: string;
+  pick_outcome: 'away' | 'home' | 'draw' | 'over' | 'under' | null; // Set by generate-pick; null on older rows
+  odds_at_generation: number | null;
+  line_at_generation: number | null; // Spread / total on the picked side; null for moneyline and older rows
+  closing_captured_at: string | null;
+}
+
+interface Outcome { name: string; price: number; point?: number }
+interface Market { key: string; outcomes: Outcome[] }
+interface Bookmaker { key: string; markets: Market[] }
+interface OddsEvent { id: string; commence_time: string; home_team: string; away_team: string; bookmakers: Bookmaker[] }
+
+interface ClosingCapture {
+  closing_odds: number;
+  closing_opposite_odds: number | null; // Two-way markets only
+  closing_line: number | null;
+  closing_book: string;
+  clv_price: number | null;
+  clv_prob: number | null;
+  clv_line: number | null;
+  closing_captured_at: string;
+}
+
+// =============================================================================
+// Utilities & Infrastructure
+// =============================================================================
+
+const toDecimal = (american: number): number =>
+  american > 0 ? american / 100 + 1 : 100 / Math.abs(american) + 1;
+
+const toImplied = (american: number): number => 1 / toDecimal(american);
+
+const round = (value: number, digits = 4): number => Number(value.toFixed(digits));
+
+// Odds API timestamps are second precision: 2024-01-01T18:00:00Z
+const toApiTime = (ms: number): string => new Date(ms).toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+/**
+ * CLV in three flavours:
+ *  - price: how much better the taken payout is than the close (%)
+ *  - prob:  no-vig closing probability minus the break-even probability of the taken price (pp)
+ *  - line:  points gained on the number, e.g. -3 taken vs -4 close = +1 (spread / total)
+ * Positive is good in all three. Prices are only compared when the close is on the number that
+ * was taken; once the line has moved the two prices are for different bets, so only the line
+ * flavour is kept. `others` holds the market's remaining closing prices (one for two-way
+ * markets, two for a soccer 1X2).
+ */
+const computeClv = (pick: PickRow, closing: number, closingLine: number | null, others: number[]) => {
+  const empty = { clv_price: null, clv_prob: null, clv_line: null };
+  const taken = pick.odds_at_generation;
+
+  if (closingLine !== null) {
+    if (pick.line_at_generation === null) return empty; // Older rows: the taken number is unknown
+    const takenLine = Number(pick.line_at_generation);
+    if (takenLine !== closingLine) {
+      const isOver = pick.pick_outcome ? pick.pick_outcome === 'over' : pick.pick_side.toLowerCase().includes('over');
+      return { ...empty, clv_line: round(isOver ? closingLine - takenLine : takenLine - closingLine, 2) };
+    }
+  }
+  if (!taken) return empty;
+
+  const clvPrice = (toDecimal(taken) / toDecimal(closing) - 1) * 100;
+
+  let clvProb: number | null = null;
+  if (others.length > 0) {
+    const pSide = toImplied(closing);
+    const pOthers = others.reduce((sum, price) => sum + toImplied(price), 0);
+    const fair = pSide / (pSide + pOthers); // Multiplicative vig removal
+    clvProb = (fair - toImplied(taken)) * 100;
+  }
+
+  return {
+    clv_price: round(clvPrice),
+    clv_prob: clvProb === null ? null : round(clvProb),
+    clv_line: closingLine === null ? null : 0,
+  };
+};
+
+// =============================================================================
+// Logic Modules
+// =============================================================================
+
+/** Odds API GET for the closing books and markets, with a timeout. */
+async function fetchOddsApi<T>(path: string, params: Record<string, string>, apiKey: string): Promise<T> {
+  const query = new URLSearchParams({
+    apiKey,
+    regions: 'us',
+    markets: 'h2h,spreads,totals',
+    oddsFormat: 'american',
+    bookmakers: CLOSING_BOOKS.join(','),
+    ...params,
+  });
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+
+  try {
+    const res = await fetch(`https://api.the-odds-api.com/v4/${path}?${query}`, { signal: controller.signal });
+    if (!res.ok) throw new ApiError(`Odds API ${res.status} for ${path}`, res.status);
+    log('DEBUG', 'Odds API quota', { remaining: res.headers.get('x-requests-remaining') });
+    return await res.json();
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Module: Odds Fetcher
+ * One live Odds API call per league, scoped to the event ids we care about. Only events that
+ * haven't started are returned: the live endpoint quotes in-play prices once a game is under way.
+ */
+async function fetchClosingOdds(apiKey: string, sportKey: string, eventIds: string[]): Promise<OddsEvent[]> {
+  const now = Date.now();
+  const events = await fetchOddsApi<OddsEvent[]>(
+    `sports/${sportKey}/odds`,
+    { eventIds: eventIds.join(','), commenceTimeFrom: toApiTime(now) },
+    apiKey,
+  );
+  return events.filter((e) => Date.parse(e.commence_time) > now);
+}
+
+/**
+ * Module: Historical Fetcher
+ * The last pre-game snapshot of one event (the snapshot at or before commence time), for games
+ * whose close was missed. Historical odds need a paid Odds API plan; failures leave the pick uncaptured.
+ */
+async function fetchHistoricalClosingOdds(apiKey: string, sportKey: string, eventId: string, commenceMs: number): Promise<OddsEvent | null> {
+  const snapshot = await fetchOddsApi<{ data?: OddsEvent }>(
+    `historical/sports/${sportKey}/events/${eventId}/odds`,
+    { date: toApiTime(commenceMs) },
+    apiKey,
+  );
+  return snapshot.data ?? null;
+}
+
+/**
+ * Module: Side Resolver
+ * Finds the picked outcome (and the market's other outcomes) in the first preferred book quoting the market.
+ */
+function resolveClosing(
+  pick: PickRow,
+  event: OddsEvent,
+  teams: TeamIndex | null,
+): { capture: Omit<ClosingCapture, 'clv_price' | 'clv_prob' | 'clv_line' | 'closing_captured_at'>; others: number[] } | null {
+  const marketKey = MARKET_KEYS[pick.market_type];
+  if (!marketKey) return null;
+
+  const pickSide = pick.pick_side.toLowerCase();
+  let sideName: string | null = null;
+
+  if (pick.market_type === 'total') {
+    const isOver = pick.pick_outcome ? pick.pick_outcome === 'over' : pickSide.includes('over');
+    const isUnder = pick.pick_outcome ? pick.pick_outcome === 'under' : pickSide.includes('under');
+    if (isOver) sideName = 'Over';
+    else if (isUnder) sideName = 'Under';
+  } else if (pick.pick_outcome === 'draw' || (!pick.pick_outcome && pickSide === 'draw')) {
+    if (pick.market_type === 'moneyline') sideName = 'Draw';
+  } else {
+    const isHome = pick.pick_outcome ? pick.pick_outcome === 'home' : matchesTeam(teams, pick.pick_side, event.home_team);
+    const isAway = pick.pick_outcome ? pick.pick_outcome === 'away' : matchesTeam(teams, pick.pick_side, event.away_team);
+    if (isHome !== isAway) sideName = isHome ? event.home_team : event.away_team;
+  }
+  if (!sideName) return null;
+
+  for (const bookKey of CLOSING_BOOKS) {
+    const market = event.bookmakers.find((b) => b.key === bookKey)?.markets.find((m) => m.key === marketKey);
+    const side = market?.outcomes.find((o) => o.name === sideName);
+    if (!market || !side) continue;
+
+    const others = market.outcomes.filter((o) => o.name !== sideName).map((o) => o.price);
+    return {
+      capture: {
+        closing_odds: side.price,
+        closing_opposite_odds: others.length === 1 ? others[0] : null,
+        closing_line: side.point ?? null,
+        closing_book: bookKey,
+      },
+      others,
+    };
+  }
+  return null;
+}
+
+// =============================================================================
+// Main Execution Handler
+// =============================================================================
+
+async function handler(req: Request): Promise<Response> {
+  if (req.method === 'OPTIONS') return new Response(null, { headers: CORS_HEADERS, status: 204 });
+
+  const correlationId = crypto.randomUUID();
+  const startTime = performance.now();
+  log('INFO', 'Closing Line Capture Started', { correlationId });
+
+  try {
+    // 1. Environment Validation & Security
+    const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    const ODDS_API_KEY = Deno.env.get('ODDS_API_KEY');
+
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY || !ODDS_API_KEY) {
+      throw new ConfigurationError("Missing critical environment variables (Supabase or ODDS_API_KEY).");
+    }
+
+    authorizeCron(req, correlationId);
+
+    const supabase: SupabaseClient = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+    const now = Date.now();
+    const windowStart = new Date(now - BACKFILL_HOURS * 3_600_000).toISOString();
+    const windowEnd = new Date(now + LEAD_MINUTES * 60_000).toISOString();
+
+    const captures: Array<{ id: string } & ClosingCapture> = [];
+    let unresolved = 0;
+    let backfillBudget = MAX_BACKFILL_EVENTS;
+
+    // 2. Per league: games near start -> picks -> closing odds
+    for (const league of Object.keys(LEAGUES) as League[]) {
+      const { table, sportKey } = LEAGUES[league];
+
+      const { data: games, error: gamesError } = await supabase
+        .from(table)
+        .select('game_id, start_time')
+        .gte('start_time', windowStart)
+        .lte('start_time', windowEnd);
+
+      if (gamesError) throw new DatabaseError(`${table} query failed: ${gamesError.message}`);
+      if (!games || games.length === 0) continue;
+
+      const startByGame = new Map(games.map((g) => [g.game_id, new Date(g.start_time).getTime()]));
+
+      const { data: picks, error: picksError } = await supabase
+        .from('analysis_memory')
+        .select('id, game_id, sport, market_type, pick_side, pick_outcome, odds_at_generation, line_at_generation, closing_captured_at')
+        .eq('sport', league)
+        .in('game_id', [...startByGame.keys()]);
+
+      if (picksError) throw new DatabaseError(`analysis_memory query failed: ${picksError.message}`);
+
+      // Pre-start: refresh every run from the live board so the last capture before lock wins.
+      // Post-start: backfill picks that were never captured from the historical snapshot at kickoff.
+      const rows = (picks || []) as PickRow[];
+      const upcoming = rows.filter((p) => (startByGame.get(p.game_id) ?? 0) > now);
+      const missed = rows.filter((p) => (startByGame.get(p.game_id) ?? 0) <= now && !p.closing_captured_at);
+      if (upcoming.length === 0 && missed.length === 0) continue;
+
+      const eventMap = new Map<string, OddsEvent>();
+
+      if (upcoming.length > 0) {
+        try {
+          const events = await fetchClosingOdds(ODDS_API_KEY, sportKey, [...new Set(upcoming.map((p) => p.game_id))]);
+          events.forEach((e) => eventMap.set(e.id, e));
+        } catch (err) {
+          log('ERROR', `Odds fetch failed for ${league}`, err);
+        }
+      }
+
+      for (const gameId of new Set(missed.map((p) => p.game_id))) {
+        if (backfillBudget <= 0) break;
+        backfillBudget--;
+        try {
+          const event = await fetchHistoricalClosingOdds(ODDS_API_KEY, sportKey, gameId, startByGame.get(gameId)!);
+          if (event) eventMap.set(gameId, event);
+        } catch (err) {
+          log('WARN', `Historical odds fetch failed for ${league} ${gameId}`, err);
+        }
+      }
+
+      const eligible = [...upcoming, ...missed];
+      const capturedAt = new Date().toISOString();
+      // Legacy picks (no pick_outcome) are matched to a team by label through the alias index
+      const teams = eligible.some((p) => !p.pick_outcome) ? await loadTeamIndex(supabase, league) : null;
+
+      for (const pick of eligible) {
+        const event = eventMap.get(pick.game_id);
+        const closing = event ? resolveClosing(pick, event, teams) : null;
+        if (!closing) {
+          unresolved++;
+          continue;
+        }
+
+        captures.push({
+          id: pick.id,
+          ...closing.capture,
+          ...computeClv(pick, closing.capture.closing_odds, closing.capture.closing_line, closing.others),
+          closing_captured_at: capturedAt,
+        });
+      }
+    }
+
+    // 3. Persist (batched concurrency; failures don't stop the run)
+    let failureCount = 0;
+    for (let i = 0; i < captures.length; i += CONCURRENCY_LIMIT) {
+      const batch = captures.slice(i, i + CONCURRENCY_LIMIT);
+      const results = await Promise.allSettled(
+        batch.map(({ id, ...capture }) =>
+          supabase.from('analysis_memory').update(capture).eq('id', id).then(({ error }) => {
+            if (error) throw new DatabaseError(error.message);
+          }),
+        ),
+      );
+
+      results.forEach((result, j) => {
+        if (result.status === 'rejected') {
+          failureCount++;
+          log('ERROR', `Failed to persist closing line for ${batch[j].id}`, { reason: String(result.reason), correlationId });
+        }
+      });
+    }
+
+    // 4. Finalize
+    const captured = captures.length - failureCount;
+    const durationMs = (performance.now() - startTime).toFixed(2);
+    log('INFO', 'Closing Line Capture Complete', { correlationId, durationMs, captured, unresolved, failureCount });
+
+    let statusCode = 200;
+    if (failureCount > 0) statusCode = captured > 0 ? 206 : 500;
+
+    return new Response(JSON.stringify({
+      success: failureCount === 0 || captured > 0,
+      captured,
+      unresolved,
+      failures: failureCount,
+      correlationId,
+    }), {
+      status: statusCode,
+      headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error: unknown) {
+    return errorResponse(error, correlationId, startTime, CORS_HEADERS);
+  }
+}
+
+Deno.serve(handler);
@@ -1,5 +1,17 @@
-// Note: Supabase imports and related functions (getDbGames) from the original code are removed 
-// as the strategy now relies on OddsAPI + ESPN aggregation.
+// Note: Supabase is not used to serve games (getDbGames was removed; the strategy relies on
+// OddsAPI + ESPN aggregation). It is used to resolve team names (team_aliases) and to append
+// line snapshots for movement history.
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { z } from 'zod';
+import {
+  loadTeamIndex,
+  normalizeTeamName,
+  recordAliases,
+  resolveTeam,
+  teamKey,
+  SPORT_LEAGUES,
+  type TeamIndex,
+} from '../_shared/teams.ts';
 
 // --- Types & Interfaces ---
 interface Game {
@@ -15,6 +27,48 @@ interface Game {
   [key: string]: any;
 }
 
+// Odds API per-event odds response (period lines, team totals, alternates, draw no bet)
+const ZEventOutcome = z.object({
+  name: z.string(),
+  description: z.string().optional(), // Team name on team_totals outcomes
+  price: z.number(),
+  point: z.number().nullish(),
+});
+const ZEventOdds = z.object({
+  id: z.string(),
+  sport_key: z.string(),
+  commence_time: z.string(),
+  home_team: z.string(),
+  away_team: z.string(),
+  bookmakers: z.array(z.object({
+    key: z.string(),
+    title: z.string().optional(),
+    last_update: z.string().optional(),
+    markets: z.array(z.object({
+      key: z.string(),
+      outcomes: z.array(ZEventOutcome).default([]),
+    })).default([]),
+  })).default([]),
+});
+
+type EventOdds = z.infer<typeof ZEventOdds>;
+
+interface LineSnapshotRow {
+  game_id: string;
+  sport: string;
+  book: string;
+  market: 'h2h' | 'spreads' | 'totals';
+  home_price: number | null;
+  away_price: number | null;
+  draw_price: number | null; // h2h only: soccer 1X2
+  home_point: number | null;
+  over_price: number | null;
+  under_price: number | null;
+  total_point: number | null;
+  commence_time: string;
+  captured_at: string;
+}
+
 interface OddsApiParams {
   sport: string;
   regions?: string;
@@ -29,8 +83,28 @@ const CONFIG = {
   TIMEOUT_MS: 5000, // Timeout for external API requests
   CACHE_TTL: 60,    // Edge cache (1 min for live data)
   SWR_TTL: 300,     // Stale-while-revalidate window (5 mins)
+  SNAPSHOT_INTERVAL_MS: 5 * 60 * 1000, // Min spacing between line snapshots per game
+  EVENT_MARKETS_TTL_MS: 5 * 60 * 1000, // Reuse per-event derivative markets within a warm isolate
+  MAX_EVENT_MARKETS: 9, // Most any league's board asks for: two periods x 3 + team totals + 2 alternates
 };
 
+// Markets the bulk /odds endpoint serves. Anything else (period lines such as spreads_h1,
+// team_totals, alternate_spreads/totals) is only available per event, one quota hit per market,
+// so it is served only to single-event requests (`eventId`), never fanned out across a board.
+const FEATURED_MARKETS = new Set(['h2h', 'spreads', 'totals', 'outrights']);
+
+// Per-event markets the board asks for (fetchGameMarkets): period main lines, team totals and
+// alternates. Anything else is dropped before the billed event call.
+const EVENT_PERIODS = ['h1', 'h2', 'q1', 'q2', 'q3', 'q4', 'p1', 'p2', 'p3'];
+const EVENT_MARKETS = new Set([
+    ...EVENT_PERIODS.flatMap(p => [`h2h_${p}`, `spreads_${p}`, `totals_${p}`]),
+    'team_totals',
+    'alternate_spreads',
+    'alternate_totals',
+]);
+
+const SNAPSHOT_MARKETS = ['h2h', 'spreads', 'totals'] as const;
+
 const CORS_HEADERS = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
@@ -44,6 +118,10 @@ const SPORT_MAPPING: Record<string, { espn_sport: string; espn_league: string }>
     'icehockey_nhl': { espn_sport: 'hockey', espn_league: 'nhl' },
     'baseball_mlb': { espn_sport: 'baseball', espn_league: 'mlb' },
     'americanfootball_ncaaf': { espn_sport: 'football', espn_league: 'college-football' },
+    'basketball_ncaab': { espn_sport: 'basketball', espn_league: 'mens-college-basketball' },
+    'soccer_epl': { espn_sport: 'soccer', espn_league: 'eng.1' },
+    'soccer_usa_mls': { espn_sport: 'soccer', espn_league: 'usa.1' },
+    'soccer_uefa_champs_league': { espn_sport: 'soccer', espn_league: 'uefa.champions' },
     // Add other mappings as needed
 };
 
@@ -75,25 +153,17 @@ async function fetchWithTimeout(url: string, options: RequestInit = {}, retries
   }
 }
 
-// 2. Team Name Normalization (Crucial for matching across different APIs)
-function normalizeTeamName(name: string): string {
-    if (!name) return '';
-    // Lowercase, remove punctuation/special characters, and trim whitespace.
-    return name.toLowerCase()
-               .replace(/[^a-z0-9\s]/g, '')
-               .replace(/\s+/g, ' ')
-               .trim();
-}
-
-// 3. Game Key Generation (For merging OddsAPI and ESPN)
-function generateGameKey(game: Partial<Game>): string {
+// 2. Game Key Generation (For merging OddsAPI and ESPN)
+// Teams are keyed by canonical id via team_aliases, so "Miami (OH) RedHawks" (Odds API) and
+// "Miami (OH) Redhawks" (ESPN) land on the same key; unresolved names fall back to their normalized form.
+function generateGameKey(game: Partial<Game>, index: TeamIndex | null): string {
     if (!game.commence_time || !game.home_team || !game.away_team) return '';
     
-    // Key based on the date (YYYY-MM-DD) and normalized team names.
+    // Key based on the date (YYYY-MM-DD) and team identity.
     // We ignore exact time as it often differs between APIs.
     const datePart = game.commence_time.substring(0, 10);
-    const home = normalizeTeamName(game.home_team);
-    const away = normalizeTeamName(game.away_team);
+    const home = teamKey(index, game.home_team);
+    const away = teamKey(index, game.away_team);
 
     // Ensure consistent ordering (alphabetical) to handle potential home/away swaps between APIs
     const teams = [home, away].sort();
@@ -101,6 +171,38 @@ function generateGameKey(game: Partial<Game>): string {
     return `${datePart}_${teams[0]}_vs_${teams[1]}`;
 }
 
+/**
+ * Odds API games that missed the ESPN merge because one name doesn't resolve yet: if the other
+ * team resolves and plays exactly one unmatched ESPN game that day, the unknown Odds API name is
+ * an alias of that game's opponent. Returns the learned aliases (already applied to `index`).
+ */
+function learnAliases(unmatched: Game[], espnLeft: Game[], index: TeamIndex): { teamId: string; name: string }[] {
+    const learned: { teamId: string; name: string }[] = [];
+
+    unmatched.forEach(game => {
+        const home = resolveTeam(index, game.home_team);
+        const away = resolveTeam(index, game.away_team);
+        if (!home === !away) return; // Both known (a genuine miss) or both unknown (nothing to anchor on)
+
+        const known = (home ?? away)!;
+        const day = game.commence_time.substring(0, 10);
+        const candidates = espnLeft.filter(e =>
+            e.commence_time.substring(0, 10) === day &&
+            (resolveTeam(index, e.home_team)?.id === known.id || resolveTeam(index, e.away_team)?.id === known.id));
+        if (candidates.length !== 1) return;
+
+        const espn = candidates[0];
+        const opponentName = resolveTeam(index, espn.home_team)?.id === known.id ? espn.away_team : espn.home_team;
+        const opponent = resolveTeam(index, opponentName);
+        if (!opponent) return;
+
+        const unknownName = home ? game.away_team : game.home_team;
+        learned.push({ teamId: opponent.id, name: unknownName });
+        index.byAlias.set(normalizeTeamName(unknownName), opponent);
+    });
+
+    return learned;
+}
 
 // --- Service Layer: OddsAPI ---
 
@@ -185,9 +287,34 @@ async function getAggregatedOddsApiData(apiKey: string, params: OddsApiParams):
     return Array.from(dataMap.values());
 }
 
+// 3. Per-event derivative markets (period lines, team totals, alternates) for one game
+const eventMarketsCache = new Map<string, { event: EventOdds | null; fetchedAt: number }>();
+
+async function fetchEventMarkets(apiKey: string, sport: string, eventId: string, markets: string[], bookmakers?: string): Promise<EventOdds | null> {
+    const cacheKey = `${eventId}|${markets.join(',')}|${bookmakers || ''}`;
+    const cached = eventMarketsCache.get(cacheKey);
+    if (cached && Date.now() - cached.fetchedAt < CONFIG.EVENT_MARKETS_TTL_MS) return cached.event;
+
+    const query = new URLSearchParams({ apiKey, regions: 'us', markets: markets.join(','), oddsFormat: 'american', dateFormat: 'iso' });
+    if (bookmakers) query.append('bookmakers', bookmakers);
+    const url = `https://api.the-odds-api.com/v4/sports/${sport}/events/${eventId}/odds?${query}`;
+
+    const res = await fetchWithTimeout(url);
+    // 404/422: event gone or none of the markets offered yet
+    if (res.status === 404 || res.status === 422) return null;
+    if (!res.ok) throw new Error(`API Error ${res.status} for event ${eventId} (Remaining: ${res.headers.get('x-requests-remaining')})`);
+
+    const parsed = ZEventOdds.safeParse(await res.json());
+    if (!parsed.success) throw new Error(`Unexpected Odds API event shape: ${parsed.error.message}`);
+
+    eventMarketsCache.set(cacheKey, { event: parsed.data, fetchedAt: Date.now() });
+    console.log(`[EventMarkets] ${eventId}: ${parsed.data.bookmakers.length} books (${markets.join(',')})`);
+    return parsed.data;
+}
+
 // --- Service Layer: ESPN Fallback/Enrichment ---
 
-// 3. ESPN Schedule Service
+// 4. ESPN Schedule Service
 async function getEspnSchedule(sportKey: string, targetDate: string) {
     const mapping = SPORT_MAPPING[sportKey];
     if (!mapping) {
@@ -211,7 +338,7 @@ async function getEspnSchedule(sportKey: string, targetDate: string) {
     }
 }
 
-// 4. ESPN Normalization
+// 5. ESPN Normalization
 function normalizeEspnEvents(events: any[], sportKey: string): Game[] {
     const games: Game[] = [];
   
@@ -254,6 +381,96 @@ function normalizeEspnEvents(events: any[], sportKey: string): Game[] {
 }
 
 
+// --- Persistence Layer: Line Snapshots ---
+
+// 6. Flatten one bookmaker market into a snapshot row (home/away resolved by team name, plus the
+// Draw of a soccer 1X2 so the three-way market can be rebuilt from snapshots)
+function toSnapshotRow(game: Game, bookKey: string, market: any, capturedAt: string): LineSnapshotRow | null {
+    const outcomes: { name: string; price: number; point?: number }[] = market.outcomes || [];
+    const key = market.key as LineSnapshotRow['market'];
+    const base = {
+        game_id: game.id,
+        sport: game.sport_key,
+        book: bookKey,
+        market: key,
+        home_price: null,
+        away_price: null,
+        draw_price: null,
+        home_point: null,
+        over_price: null,
+        under_price: null,
+        total_point: null,
+        commence_time: game.commence_time,
+        captured_at: capturedAt,
+    };
+
+    if (key === 'totals') {
+        const over = outcomes.find(o => o.name === 'Over');
+        const under = outcomes.find(o => o.name === 'Under');
+        if (!over && !under) return null;
+        return { ...base, over_price: over?.price ?? null, under_price: under?.price ?? null, total_point: over?.point ?? under?.point ?? null };
+    }
+
+    const home = outcomes.find(o => o.name === game.home_team);
+    const away = outcomes.find(o => o.name === game.away_team);
+    if (!home && !away) return null;
+    return {
+        ...base,
+        home_price: home?.price ?? null,
+        away_price: away?.price ?? null,
+        draw_price: key === 'h2h' ? (outcomes.find(o => o.name === 'Draw')?.price ?? null) : null,
+        home_point: key === 'spreads' ? (home?.point ?? (away?.point !== undefined ? -away.point : null)) : null,
+    };
+}
+
+// 7. Append snapshots for pre-game/live OddsAPI games, skipping (game, book, market) triples captured
+// recently. Keyed per market because clients request h2h-only and full boards in parallel.
+// Never throws: the odds response must not depend on persistence.
+async function recordLineSnapshots(supabase: SupabaseClient, games: Game[]) {
+    try {
+        const candidates = games.filter(g => !g.completed && g.bookmakers && g.bookmakers.length > 0);
+        if (candidates.length === 0) return;
+
+        const since = new Date(Date.now() - CONFIG.SNAPSHOT_INTERVAL_MS).toISOString();
+        const { data: recent, error: recentError } = await supabase
+            .from('line_snapshots')
+            .select('game_id, book, market')
+            .in('game_id', candidates.map(g => g.id))
+            .gte('captured_at', since);
+
+        if (recentError) throw recentError;
+
+        const snapshotKey = (gameId: string, book: string, market: string) => `${gameId}|${book}|${market}`;
+        const fresh = new Set(
+            (recent || []).map((r: { game_id: string; book: string; market: string }) => snapshotKey(r.game_id, r.book, r.market)),
+        );
+        const capturedAt = new Date().toISOString();
+        const rows: LineSnapshotRow[] = [];
+
+        candidates.forEach(game => {
+            game.bookmakers!.forEach((bookmaker: any) => {
+                (bookmaker.markets || [])
+                    .filter((m: any) => (SNAPSHOT_MARKETS as readonly string[]).includes(m.key))
+                    .filter((m: any) => !fresh.has(snapshotKey(game.id, bookmaker.key, m.key)))
+                    .forEach((market: any) => {
+                        const row = toSnapshotRow(game, bookmaker.key, market, capturedAt);
+                        if (row) rows.push(row);
+                    });
+            });
+        });
+
+        if (rows.length === 0) return;
+
+        const { error: insertError } = await supabase.from('line_snapshots').insert(rows);
+        if (insertError) throw insertError;
+
+        console.log(`[Snapshots] Recorded ${rows.length} rows for ${new Set(rows.map(r => r.game_id)).size} games`);
+    } catch (e) {
+        console.error('[Snapshots] Failed to record line snapshots:', (e as Error).message);
+    }
+}
+
+
 // --- Main Handler ---
 
 Deno.serve(async (req) => {
@@ -268,7 +485,7 @@ Deno.serve(async (req) => {
     }
 
     const body = await req.json();
-    const { sport, targetDate, daysFrom } = body;
+    const { sport, targetDate, daysFrom, eventId } = body;
 
     if (!sport) {
         return new Response(JSON.stringify({ error: "Missing 'sport' parameter" }), {
@@ -277,6 +494,36 @@ Deno.serve(async (req) => {
         });
     }
 
+    const requestedMarkets = String(body.markets || 'h2h,spreads,totals')
+        .split(',')
+        .map((m: string) => m.trim())
+        .filter(Boolean);
+
+    // Mode: Single event (derivative markets for one game, requested when the board expands it)
+    if (eventId) {
+        // Sorted so the same set always hits the same cache entry
+        const allowedMarkets = [...new Set(requestedMarkets.filter(m => EVENT_MARKETS.has(m)))].sort();
+        const dropped = requestedMarkets.filter(m => !EVENT_MARKETS.has(m));
+        if (dropped.length > 0) {
+            console.warn(`[Request] Ignoring unsupported per-event markets: ${dropped.join(',')}`);
+        }
+        if (allowedMarkets.length === 0 || allowedMarkets.length > CONFIG.MAX_EVENT_MARKETS) {
+            return new Response(JSON.stringify({ error: `Request 1-${CONFIG.MAX_EVENT_MARKETS} supported per-event markets` }), {
+                status: 400,
+                headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' },
+            });
+        }
+
+        const event = await fetchEventMarkets(env.ODDS_API_KEY, sport, String(eventId), allowedMarkets, body.bookmakers);
+        return new Response(JSON.stringify(event ? [event] : []), {
+            headers: {
+                ...CORS_HEADERS,
+                'Content-Type': 'application/json',
+                'Cache-Control': `public, s-maxage=${CONFIG.CACHE_TTL}, stale-while-revalidate=${CONFIG.SWR_TTL}`,
+            },
+        });
+    }
+
     // 2. Determine Interaction Mode and Parameters
     
     // Mode: Specific Date (user provided targetDate) vs Range (user provided daysFrom or nothing)
@@ -298,10 +545,17 @@ Deno.serve(async (req) => {
         oddsApiDaysFrom = 1;
     }
 
+    // Board requests take featured markets only; the rest need an eventId
+    const featuredMarkets = requestedMarkets.filter(m => FEATURED_MARKETS.has(m));
+    const eventMarkets = requestedMarkets.filter(m => !FEATURED_MARKETS.has(m));
+    if (eventMarkets.length > 0) {
+        console.warn(`[Request] Ignoring per-event markets without an eventId: ${eventMarkets.join(',')}`);
+    }
+
     const oddsApiParams: OddsApiParams = {
         sport: sport,
         regions: body.regions,
-        markets: body.markets,
+        markets: featuredMarkets.join(',') || 'h2h',
         bookmakers: body.bookmakers,
         daysFrom: oddsApiDaysFrom,
     };
@@ -311,15 +565,24 @@ Deno.serve(async (req) => {
     // Determine if ESPN should be called. We only call ESPN for the primary queryDate if the sport is mapped.
     const shouldCallEspn = !!SPORT_MAPPING[sport];
 
+    // Team identity (team_aliases) needs Supabase; without it names are matched on their normalized form.
+    const supabase = env.SUPABASE_URL && env.SUPABASE_SERVICE_ROLE_KEY
+        ? createClient(env.SUPABASE_URL, env.SUPABASE_SERVICE_ROLE_KEY)
+        : null;
+    const league = SPORT_LEAGUES[sport];
+
     // 3. Parallel Execution Pattern
-    // Fetch from OddsAPI (aggregated) and ESPN (if applicable) concurrently.
-    const [oddsResult, espnResult] = await Promise.allSettled([
+    // Fetch from OddsAPI (aggregated), ESPN (if applicable) and the league's team aliases concurrently.
+    const [oddsResult, espnResult, indexResult] = await Promise.allSettled([
       getAggregatedOddsApiData(env.ODDS_API_KEY, oddsApiParams),
       // For range requests, we only enrich/fallback the primary date (today) with ESPN.
       // For specific date requests, we use that date for ESPN.
-      shouldCallEspn ? getEspnSchedule(sport, queryDate) : Promise.resolve(null)
+      shouldCallEspn ? getEspnSchedule(sport, queryDate) : Promise.resolve(null),
+      supabase && league ? loadTeamIndex(supabase, league) : Promise.resolve(null),
     ]);
 
+    const teamIndex = indexResult.status === 'fulfilled' ? indexResult.value : null;
+
     // 4. Process and Normalize Results
     let oddsGames: Game[] = [];
     if (oddsResult.status === 'fulfilled' && Array.isArray(oddsResult.value)) {
@@ -367,29 +630,46 @@ Deno.serve(async (req) => {
             // Create a map for ESPN data using the robust key generator.
             const espnMap = new Map<string, Game>();
             espnGames.forEach(g => {
-                const key = generateGameKey(g);
+                const key = generateGameKey(g, teamIndex);
                 if (key) espnMap.set(key, g);
             });
 
-            // Enrich OddsAPI data and track matched ESPN games
-            responseData.forEach(game => {
-                const key = generateGameKey(game);
+            const mergeEspn = (game: Game) => {
+                const key = generateGameKey(game, teamIndex);
                 const espnMatch = espnMap.get(key);
+                if (!espnMatch) return;
+
+                // Enrich with reliable status and scores from ESPN.
+                // We prioritize ESPN for live status/scores as it's often faster/more reliable than OddsAPI scores endpoint.
+                game.status = espnMatch.status;
+                game.completed = espnMatch.completed;
+                if (espnMatch.scores) {
+                    // Re-label with the Odds API spellings so clients can match scores to teams
+                    const homeKey = teamKey(teamIndex, game.home_team);
+                    game.scores = espnMatch.scores.map(score => ({
+                        ...score,
+                        name: teamKey(teamIndex, score.name) === homeKey ? game.home_team : game.away_team,
+                    }));
+                }
+                game.espn_id = espnMatch.id;
 
-                if (espnMatch) {
-                    // Enrich with reliable status and scores from ESPN.
-                    // We prioritize ESPN for live status/scores as it's often faster/more reliable than OddsAPI scores endpoint.
-                    game.status = espnMatch.status;
-                    game.completed = espnMatch.completed;
-                    if (espnMatch.scores) {
-                        game.scores = espnMatch.scores;
-                    }
-                    game.espn_id = espnMatch.id;
-
-                    // Remove from the map so we know which ones are remaining (ESPN-only).
-                    espnMap.delete(key);
+                // Remove from the map so we know which ones are remaining (ESPN-only).
+                espnMap.delete(key);
+            };
+
+            // Enrich OddsAPI data and track matched ESPN games
+            responseData.forEach(mergeEspn);
+
+            // Unknown Odds API spellings: learn them from the day's leftover ESPN games, then retry those games
+            if (teamIndex && supabase && espnMap.size > 0) {
+                const unmatched = responseData.filter(g => !g.espn_id);
+                const learned = learnAliases(unmatched, [...espnMap.values()], teamIndex);
+                if (learned.length > 0) {
+                    console.log(`[Teams] Learned ${learned.length} Odds API alias(es) for ${teamIndex.league}.`);
+                    await recordAliases(supabase, teamIndex.league, learned, 'odds_api');
+                    unmatched.forEach(mergeEspn);
                 }
-            });
+            }
 
             // Append remaining games from ESPN map (those not found in OddsAPI, e.g., too far in future)
             if (espnMap.size > 0) {
@@ -405,11 +685,24 @@ Deno.serve(async (req) => {
         }
     }
 
-    // 6. Final Sorting
+    // 6. Team metadata for the board (canonical abbreviation, conference, logo); null when unresolved
+    if (teamIndex) {
+        responseData.forEach(game => {
+            game.home_team_info = resolveTeam(teamIndex, game.home_team);
+            game.away_team_info = resolveTeam(teamIndex, game.away_team);
+        });
+    }
+
+    // 7. Final Sorting
     // Ensure the final list is sorted by commence time
     responseData.sort((a, b) => new Date(a.commence_time).getTime() - new Date(b.commence_time).getTime());
 
-    // 7. Response with Edge Caching
+    // 8. Append line snapshots (OddsAPI games only; ESPN rows carry no prices)
+    if (supabase && oddsGames.length > 0) {
+        await recordLineSnapshots(supabase, oddsGames);
+    }
+
+    // 9. Response with Edge Caching
     return new Response(JSON.stringify(responseData), {
       headers: {
         ...CORS_HEADERS,
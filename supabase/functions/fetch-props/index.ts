@@ -0,0 +1,264 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { z } from 'zod';
+
+// Player prop board for one game. Props are only served by the Odds API per-event
+// endpoint (one quota hit per call), so the latest board is kept in player_props and
+// re-fetched at most every PROPS_TTL_MS (player_prop_fetches records each fetch, so empty
+// boards are cached too). There is no client bypass of the TTL. One-sided "anytime" markets are normalised to
+// Over/Under 0.5 so every prop has the same shape.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const PROPS_TTL_MS = 10 * 60 * 1000;
+const TIMEOUT_MS = 8000;
+
+// Same preference order as the client board (nhlAi PREFERRED_BOOKMAKERS)
+const PREFERRED_BOOKS = ['draftkings', 'fanduel', 'betmgm', 'williamhill'];
+
+const LEAGUE_SPORT_KEYS: Record<string, string> = {
+  NHL: 'icehockey_nhl',
+  NFL: 'americanfootball_nfl',
+  NBA: 'basketball_nba',
+  MLB: 'baseball_mlb',
+};
+
+const PROP_MARKETS: Record<string, string[]> = {
+  basketball_nba: ['player_points', 'player_rebounds', 'player_assists'],
+  americanfootball_nfl: ['player_pass_yds', 'player_rush_yds', 'player_reception_yds', 'player_anytime_td'],
+  icehockey_nhl: ['player_points', 'player_shots_on_goal', 'player_goal_scorer_anytime'],
+  baseball_mlb: ['pitcher_strikeouts', 'batter_hits', 'batter_total_bases'],
+};
+
+const ANYTIME_MARKETS = new Set(['player_anytime_td', 'player_goal_scorer_anytime']);
+
+const PROP_SELECT = 'game_id, sport, book, market, player_name, line, over_price, under_price, updated_at';
+
+// Odds API per-event odds response (only the fields the board reads)
+const ZPropOutcome = z.object({
+  name: z.string(), // 'Over' | 'Under' | 'Yes' | 'No'
+  description: z.string().optional(), // Player name
+  price: z.number(),
+  point: z.number().nullish(),
+});
+const ZPropEvent = z.object({
+  id: z.string(),
+  commence_time: z.string().nullish(),
+  bookmakers: z.array(z.object({
+    key: z.string(),
+    markets: z.array(z.object({
+      key: z.string(),
+      outcomes: z.array(ZPropOutcome).default([]),
+    })).default([]),
+  })).default([]),
+});
+
+type PropEvent = z.infer<typeof ZPropEvent>;
+
+interface PropRow {
+  game_id: string;
+  sport: string;
+  book: string;
+  market: string;
+  player_name: string;
+  line: number;
+  over_price: number | null;
+  under_price: number | null;
+  commence_time: string | null;
+  updated_at: string;
+}
+
+const toImplied = (odds: number) => (odds > 0 ? 100 / (odds + 100) : -odds / (-odds + 100));
+
+// Books quote alternate lines; keep the two-sided line closest to a coin flip (the main line)
+function mainLine(candidates: PropRow[]): PropRow {
+  const score = (row: PropRow) =>
+    row.over_price !== null && row.under_price !== null
+      ? Math.abs(toImplied(row.over_price) - toImplied(row.under_price))
+      : Number.POSITIVE_INFINITY;
+  return candidates.reduce((best, row) => (score(row) < score(best) ? row : best));
+}
+
+function normalizeEvent(event: PropEvent, sport: string, updatedAt: string): PropRow[] {
+  const lines = new Map<string, PropRow>();
+
+  event.bookmakers.forEach((bookmaker) => {
+    bookmaker.markets.forEach((market) => {
+      const anytime = ANYTIME_MARKETS.has(market.key);
+
+      market.outcomes.forEach((outcome) => {
+        if (!outcome.description) return;
+        const line = anytime ? 0.5 : outcome.point;
+        if (line === undefined || line === null) return;
+
+        const side = outcome.name.toLowerCase();
+        const isOver = side === 'over' || side === 'yes';
+        const isUnder = side === 'under' || side === 'no';
+        if (!isOver && !isUnder) return;
+
+        const key = `${bookmaker.key}|${market.key}|${outcome.description}|${line}`;
+        const row = lines.get(key) || {
+          game_id: event.id,
+          sport,
+          book: bookmaker.key,
+          market: market.key,
+          player_name: outcome.description,
+          line,
+          over_price: null,
+          under_price: null,
+          commence_time: event.commence_time ?? null,
+          updated_at: updatedAt,
+        };
+        if (isOver) row.over_price = outcome.price;
+        else row.under_price = outcome.price;
+        lines.set(key, row);
+      });
+    });
+  });
+
+  const byProp = new Map<string, PropRow[]>();
+  lines.forEach((row) => {
+    const key = `${row.book}|${row.market}|${row.player_name}`;
+    byProp.set(key, [...(byProp.get(key) || []), row]);
+  });
+
+  return [...byProp.values()].map(mainLine);
+}
+
+async function fetchEventProps(apiKey: string, sport: string, gameId: string, markets: string[]): Promise<PropEvent | null> {
+  const query = new URLSearchParams({
+    apiKey,
+    regions: 'us',
+    markets: markets.join(','),
+    oddsFormat: 'american',
+    dateFormat: 'iso',
+    bookmakers: PREFERRED_BOOKS.join(','),
+  });
+  const url = `https://api.the-odds-api.com/v4/sports/${sport}/events/${gameId}/odds?${query}`;
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), TIMEOUT_MS);
+  try {
+    const res = await fetch(url, { signal: controller.signal });
+    // 404/422: event finished, unknown, or props not offered yet
+    if (res.status === 404 || res.status === 422) return null;
+    if (!res.ok) {
+      throw new Error(`Odds API error ${res.status} (remaining: ${res.headers.get('x-requests-remaining')})`);
+    }
+    const parsed = ZPropEvent.safeParse(await res.json());
+    if (!parsed.success) throw new Error(`Unexpected Odds API event shape: ${parsed.error.message}`);
+    return parsed.data;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+async function loadCachedProps(supabase: SupabaseClient, gameId: string) {
+  const { data, error } = await supabase
+    .from('player_props')
+    .select(PROP_SELECT)
+    .eq('game_id', gameId)
+    .order('market', { ascending: true })
+    .order('player_name', { ascending: true });
+
+  if (error) throw new Error(`Database error: ${error.message}`);
+  return (data || []) as Omit<PropRow, 'commence_time'>[];
+}
+
+async function loadLastFetch(supabase: SupabaseClient, gameId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('player_prop_fetches')
+    .select('fetched_at')
+    .eq('game_id', gameId)
+    .maybeSingle();
+
+  if (error) throw new Error(`Database error: ${error.message}`);
+  return data?.fetched_at ?? null;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { gameId, league } = await req.json();
+    const sport = LEAGUE_SPORT_KEYS[league];
+
+    if (!gameId || !sport) {
+      return new Response(JSON.stringify({ error: "Missing 'gameId' or unsupported 'league'" }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    const ODDS_API_KEY = Deno.env.get('ODDS_API_KEY');
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY || !ODDS_API_KEY) {
+      throw new Error('Missing Supabase or Odds API configuration');
+    }
+
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    const [cached, lastFetch] = await Promise.all([loadCachedProps(supabase, gameId), loadLastFetch(supabase, gameId)]);
+    const lastUpdated = cached.reduce((max, row) => (row.updated_at > max ? row.updated_at : max), '');
+    const isFresh = lastFetch !== null && Date.now() - new Date(lastFetch).getTime() < PROPS_TTL_MS;
+
+    if (isFresh) {
+      console.log(`[Props] ${gameId}: serving ${cached.length} cached rows`);
+      return new Response(
+        JSON.stringify({ gameId, sport, props: cached, updatedAt: lastUpdated || null, cached: true }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+
+    const updatedAt = new Date().toISOString();
+    const event = await fetchEventProps(ODDS_API_KEY, sport, gameId, PROP_MARKETS[sport]);
+    const rows = event ? normalizeEvent(event, sport, updatedAt) : [];
+
+    if (rows.length > 0) {
+      const { error: upsertError } = await supabase
+        .from('player_props')
+        .upsert(rows, { onConflict: 'game_id,book,market,player_name' });
+      if (upsertError) throw new Error(`Database error: ${upsertError.message}`);
+
+      // Props pulled by the book since the last fetch
+      const { error: pruneError } = await supabase
+        .from('player_props')
+        .delete()
+        .eq('game_id', gameId)
+        .lt('updated_at', updatedAt);
+      if (pruneError) console.warn('[Props] Prune failed:', pruneError.message);
+    }
+
+    // Recorded even when the board is empty, so the TTL holds for games without props
+    const { error: fetchError } = await supabase
+      .from('player_prop_fetches')
+      .upsert({ game_id: gameId, sport, prop_count: rows.length, fetched_at: updatedAt }, { onConflict: 'game_id' });
+    if (fetchError) console.warn('[Props] Fetch marker failed:', fetchError.message);
+
+    // Nothing on the board now: fall back to the last stored board rather than an empty panel
+    const props = rows.length > 0 ? await loadCachedProps(supabase, gameId) : cached;
+
+    console.log(`[Props] ${gameId}: ${rows.length} fetched, ${props.length} served`);
+
+    return new Response(
+      JSON.stringify({ gameId, sport, props, updatedAt: rows.length > 0 ? updatedAt : lastUpdated || null, cached: rows.length === 0 }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+    );
+  } catch (error) {
+    console.error('[Props] Function error:', error);
+    return new Response(
+      JSON.stringify({
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      },
+    );
+  }
+});
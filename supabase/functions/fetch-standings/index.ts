@@ -22,6 +22,24 @@ Deno.serve(async (req) => {
       case 'NBA':
         url = 'https://site.api.espn.com/apis/v2/sports/basketball/nba/standings';
         break;
+      case 'MLB':
+        url = 'https://site.api.espn.com/apis/v2/sports/baseball/mlb/standings';
+        break;
+      case 'NCAAF':
+        url = 'https://site.api.espn.com/apis/v2/sports/football/college-football/standings';
+        break;
+      case 'NCAAB':
+        url = 'https://site.api.espn.com/apis/v2/sports/basketball/mens-college-basketball/standings';
+        break;
+      case 'EPL':
+        url = 'https://site.api.espn.com/apis/v2/sports/soccer/eng.1/standings';
+        break;
+      case 'MLS':
+        url = 'https://site.api.espn.com/apis/v2/sports/soccer/usa.1/standings';
+        break;
+      case 'UCL':
+        url = 'https://site.api.espn.com/apis/v2/sports/soccer/uefa.champions/standings';
+        break;
       default:
         throw new Error('Invalid league');
     }
@@ -1,6 +1,29 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient, SupabaseClient } from "@supabase/supabase-js";
 import { z } from "zod";
+import {
+  buildSystemPrompt,
+  LLMOutputSchema,
+  MARKET_SIDES,
+  QuoteSchema,
+  RATIONALE_SHAPE,
+  SideSchema,
+  sideLabel,
+  sidesPrompt,
+  signed,
+  type LLMOutput,
+  type Side,
+} from "../_shared/pickPrompt.ts";
+import {
+  createAnthropicModel,
+  createGeminiModel,
+  createOpenAIModel,
+  ModelError,
+  type PickModel,
+  type PickModelRequest,
+} from "../_shared/pickModels.ts";
+import { aggregateVotes, type EnsembleSummary, type Vote } from "../_shared/ensemble.ts";
+import { applyCalibration, type Calibration } from "../_shared/calibration.ts";
 
 // ---------------------------------------------------------
 // CONFIGURATION & CONSTANTS
@@ -10,10 +33,17 @@ import { z } from "zod";
 const MAX_AGE_HOURS = 4;
 // The threshold for American odds movement (e.g., -110 to -131 is a drift of 21)
 const ODDS_DRIFT_THRESHOLD = 20;
+// Any half-point move on a spread or total invalidates the cached pick
+const LINE_DRIFT_THRESHOLD = 0.5;
 
 // 2. Environment Validation (Fail Fast)
 const EnvSchema = z.object({
   GOOGLE_API_KEY: z.string().min(1),
+  // Optional ensemble voters; each configured key adds a provider
+  ANTHROPIC_API_KEY: z.string().optional(),
+  OPENAI_API_KEY: z.string().optional(),
+  // Comma-separated auth user ids allowed to request ensemble picks; unset disables ensemble mode
+  ENSEMBLE_USER_IDS: z.string().optional(),
   SUPABASE_URL: z.string().url(),
   SUPABASE_SERVICE_ROLE_KEY: z.string().min(1),
 });
@@ -29,39 +59,136 @@ const env = envParse.data;
 const supabase: SupabaseClient = createClient(env.SUPABASE_URL, env.SUPABASE_SERVICE_ROLE_KEY);
 
 const LLM_MODEL = "gemini-3-pro-preview";
+const pickModel = createGeminiModel(env.GOOGLE_API_KEY, LLM_MODEL, 0.3);
+// Ensemble mode asks every configured provider the same prompt (same models as ai-chat-router)
+const ensembleModels: PickModel[] = [
+  pickModel,
+  ...(env.ANTHROPIC_API_KEY ? [createAnthropicModel(env.ANTHROPIC_API_KEY, "claude-sonnet-4-5-20250929", 0.3)] : []),
+  ...(env.OPENAI_API_KEY ? [createOpenAIModel(env.OPENAI_API_KEY, "gpt-4o", 0.3)] : []),
+];
+// Ensemble mode costs one call per provider per market, so only allowlisted users may request it
+const ENSEMBLE_USER_IDS = new Set((env.ENSEMBLE_USER_IDS ?? "").split(",").map((id) => id.trim()).filter(Boolean));
 const EMBEDDING_MODEL = "text-embedding-004";
 // The columns used to uniquely identify a record for UPSERT (must match the DB unique constraint)
 const UNIQUE_CONSTRAINT = 'game_id, market_type';
 
+// 4. Probable pitchers (MLB): ESPN scoreboard for the game's US sports day
+const ESPN_MLB_SCOREBOARD = "https://site.api.espn.com/apis/site/v2/sports/baseball/mlb/scoreboard";
+const ESPN_TIMEOUT_MS = 5000;
+
+// 5. Team stat snapshots (update-*-team-stats), keyed by the board's team abbreviation
+const TEAM_STATS_TABLES: Record<string, string> = {
+  NFL: "nfl_team_stats",
+  NBA: "nba_team_stats",
+  NHL: "nhl_team_stats",
+};
+// Bookkeeping columns left out of the model's context
+const TEAM_STATS_OMIT = new Set(["id", "team_id", "created_at", "last_updated"]);
+
 // ---------------------------------------------------------
 // SCHEMAS & TYPES
 // ---------------------------------------------------------
 
+// The DB enum stores every handicap market (spread / puck line / run line) as 'spread'
+const MarketTypeSchema = z.preprocess(
+  (value) => (value === "puckline" ? "spread" : value),
+  z.enum(["moneyline", "spread", "total", "prop"]),
+);
+
+// One player prop the model may pick (prop markets only); over/under priced at the best book
+const PropCandidateSchema = z.object({
+  player: z.string().min(1),
+  market: z.string().min(1), // Odds API key, e.g. 'player_points'
+  line: z.number(),
+  over: QuoteSchema.omit({ line: true }).optional(),
+  under: QuoteSchema.omit({ line: true }).optional(),
+});
+
+type PropCandidate = z.infer<typeof PropCandidateSchema>;
+
+const MarketRequestSchema = z
+  .object({
+    market_type: MarketTypeSchema.default("moneyline"),
+    // Real-time, side-specific odds MUST be provided by the client
+    quotes: z.record(SideSchema, QuoteSchema).optional(),
+    props: z.array(PropCandidateSchema).min(1).max(60).optional(),
+    // Legacy single price, used for whichever side is picked when quotes are absent
+    current_odds: z.number().int().optional(),
+  })
+  .refine(
+    (m) => (m.quotes && Object.keys(m.quotes).length > 0) || m.props !== undefined || m.current_odds !== undefined,
+    { message: "One of quotes, props or current_odds is required" },
+  );
+
+type MarketRequest = z.infer<typeof MarketRequestSchema>;
+
+// Mirrors the sport_league enum; the league is written to analysis_memory.sport
+const LeagueSchema = z.enum(["NHL", "NFL", "NBA", "MLB", "NCAAF", "NCAAB", "EPL", "MLS", "UCL"]);
+
 // Input validation schema - Requires real-time odds and context
 const RequestInputSchema = z.object({
   game_id: z.string().min(1),
-  // Real-time odds MUST be provided by the client
-  current_odds: z.number().int(),
-  // Context is required for regeneration
-  game_context: z.record(z.unknown()).refine(ctx => Object.keys(ctx).length > 0, {
-    message: "game_context cannot be empty",
-  }),
-  market_type: z.enum(["moneyline", "puckline", "total", "prop"]).default("moneyline"),
+  // Context is required for regeneration; the rest of it is passed to the model as-is
+  game_context: z
+    .object({
+      league: LeagueSchema,
+      // Picks are locked once the game starts (ISO 8601)
+      start_time: z.string().datetime({ offset: true }).optional(),
+    })
+    .passthrough(),
+  book: z.string().optional(),
+  // Markets are analysed concurrently; each is cached on (game_id, market_type)
+  markets: z.array(MarketRequestSchema).min(1).max(4),
+  // Every configured provider votes; the stored pick carries the aggregate and the votes.
+  // Allowlisted users only (authorizeEnsemble)
+  ensemble: z.boolean().default(false),
 });
 
 type RequestInput = z.infer<typeof RequestInputSchema>;
 
-// Expected LLM output schema
-const LLMOutputSchema = z.object({
-  pick_side: z.string().min(1),
-  confidence: z.number().int().min(1).max(100),
-  reasoning: z.string().min(50),
-});
+// The side actually picked, priced from the request's quotes
+interface ResolvedPick {
+  label: string;
+  outcome: Side | null;
+  price: number;
+  line: number | null;
+  book: string | null;
+  propPlayer: string | null;
+  propMarket: string | null;
+}
 
-type LLMOutput = z.infer<typeof LLMOutputSchema>;
+// ESPN scoreboard competitor (only the fields the pitcher lookup reads)
+interface EspnCompetitor {
+  homeAway: "home" | "away";
+  team?: { abbreviation?: string; displayName?: string };
+  probables?: {
+    athlete?: { displayName?: string; fullName?: string; throws?: { abbreviation?: string } };
+    record?: string;
+    statistics?: { name?: string; abbreviation?: string; displayValue?: string }[];
+  }[];
+}
 
 // Define the structure of the data we return to the client (excluding embedding vector)
-const RESPONSE_SELECT = "id, game_id, market_type, pick_side, confidence_score, reasoning_text, created_at, odds_at_generation";
+const RESPONSE_SELECT =
+  "id, game_id, market_type, pick_side, pick_outcome, prop_player, prop_market, confidence_score, reasoning_text, rationale, ensemble, raw_probability, calibrated_probability, created_at, odds_at_generation, line_at_generation, book_at_generation";
+
+const PROP_MARKET_LABELS: Record<string, string> = {
+  player_points: "Points",
+  player_rebounds: "Rebounds",
+  player_assists: "Assists",
+  player_pass_yds: "Passing Yards",
+  player_rush_yds: "Rushing Yards",
+  player_reception_yds: "Receiving Yards",
+  player_anytime_td: "Anytime TD",
+  player_shots_on_goal: "Shots on Goal",
+  player_goal_scorer_anytime: "Anytime Goal",
+  pitcher_strikeouts: "Strikeouts",
+  batter_hits: "Hits",
+  batter_total_bases: "Total Bases",
+};
+
+// Stored as Over/Under 0.5 by fetch-props; shown as Yes/No
+const ANYTIME_MARKETS = new Set(["player_anytime_td", "player_goal_scorer_anytime"]);
 
 // Cache Status Enum for clear logging
 enum CacheStatus {
@@ -69,7 +196,9 @@ enum CacheStatus {
   MISS = "MISS",
   STALE_TIME = "STALE_TIME",
   STALE_ODDS = "STALE_ODDS",
+  STALE_LINE = "STALE_LINE",
   STALE_DATA_INCOMPLETE = "STALE_DATA_INCOMPLETE",
+  STALE_MODE = "STALE_MODE",
 }
 
 // ---------------------------------------------------------
@@ -92,6 +221,21 @@ class HttpError extends Error {
   }
 }
 
+const propLabel = (prop: PropCandidate, side: "over" | "under"): string => {
+  const market = PROP_MARKET_LABELS[prop.market] ?? prop.market;
+  if (ANYTIME_MARKETS.has(prop.market)) return `${prop.player} ${market}${side === "under" ? " (No)" : ""}`;
+  return `${prop.player} ${side === "over" ? "Over" : "Under"} ${prop.line} ${market}`;
+};
+
+const propById = (market: MarketRequest, propId: string | undefined): PropCandidate | undefined => {
+  const index = propId?.startsWith("p") ? parseInt(propId.slice(1), 10) : NaN;
+  return Number.isInteger(index) ? market.props?.[index] : undefined;
+};
+
+// Sides the LLM may choose from (only those the client priced)
+const offeredSides = (market: MarketRequest): Side[] =>
+  (MARKET_SIDES[market.market_type] ?? []).filter((side) => market.quotes?.[side] !== undefined);
+
 const handleError = (error: unknown) => {
   if (error instanceof HttpError) {
     if (error.status >= 500) {
@@ -113,12 +257,30 @@ const handleError = (error: unknown) => {
 // CORE LOGIC FUNCTIONS
 // ---------------------------------------------------------
 
+/**
+ * Ensemble requests must carry the JWT of a user on the ENSEMBLE_USER_IDS allowlist.
+ * The anon key alone never unlocks the paid multi-provider fan-out.
+ */
+const authorizeEnsemble = async (req: Request): Promise<void> => {
+  const token = req.headers.get("authorization")?.replace(/^Bearer\s+/i, "");
+  if (!token) throw new HttpError(401, "Ensemble picks require a signed-in user");
+
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) throw new HttpError(401, "Invalid or expired token");
+
+  if (!ENSEMBLE_USER_IDS.has(data.user.id)) {
+    console.warn(`[ENSEMBLE DENIED] ${data.user.id}`);
+    throw new HttpError(403, "Ensemble picks are not enabled for this account");
+  }
+};
+
 /**
  * 1. CHECK & VALIDATE CACHE
  * Fetches the existing record and immediately applies staleness logic.
  */
-const checkCacheAndValidate = async (input: RequestInput) => {
-  const { game_id, market_type, current_odds } = input;
+const checkCacheAndValidate = async (input: RequestInput, market: MarketRequest) => {
+  const { game_id } = input;
+  const { market_type } = market;
 
   const { data: cachedPick, error } = await supabase
     .from("analysis_memory")
@@ -144,6 +306,11 @@ const checkCacheAndValidate = async (input: RequestInput) => {
       return { status: CacheStatus.STALE_DATA_INCOMPLETE, pick: cachedPick };
   }
 
+  // Ensemble requests don't reuse a single-model pick
+  if (input.ensemble && !cachedPick.ensemble) {
+    return { status: CacheStatus.STALE_MODE, pick: cachedPick };
+  }
+
   // B. Time-based Staleness
   const createdAtTime = new Date(cachedPick.created_at).getTime();
   if (isNaN(createdAtTime)) {
@@ -157,14 +324,45 @@ const checkCacheAndValidate = async (input: RequestInput) => {
     return { status: CacheStatus.STALE_TIME, pick: cachedPick };
   }
 
-  // C. Context-based Staleness (Odds Movement)
-  const oddsDrift = Math.abs(cachedPick.odds_at_generation - current_odds);
+  // C. Context-based Staleness (Odds / Line Movement on the picked side)
+  let currentPrice = market.current_odds;
+  let currentLine: number | null = null;
+
+  if (market.props) {
+    // Same player and market still on the board, priced on the cached side
+    const prop = market.props.find((p) => p.player === cachedPick.prop_player && p.market === cachedPick.prop_market);
+    const side: Side | null = cachedPick.pick_outcome;
+    const quote = prop && (side === "over" || side === "under") ? prop[side] : undefined;
+    if (!prop || !quote) {
+      return { status: CacheStatus.STALE_DATA_INCOMPLETE, pick: cachedPick };
+    }
+    currentPrice = quote.price;
+    currentLine = prop.line;
+  } else if (market.quotes) {
+    const quote = cachedPick.pick_outcome ? market.quotes[cachedPick.pick_outcome as Side] : undefined;
+    if (!quote) {
+      // Pre-side rows (or a side the client no longer prices) cannot be compared like-for-like
+      return { status: CacheStatus.STALE_DATA_INCOMPLETE, pick: cachedPick };
+    }
+    currentPrice = quote.price;
+    currentLine = quote.line ?? null;
+  }
+
+  const oddsDrift = Math.abs(cachedPick.odds_at_generation - (currentPrice ?? cachedPick.odds_at_generation));
 
   if (oddsDrift > ODDS_DRIFT_THRESHOLD) {
     console.log(`[ODDS DRIFT] Drift of ${oddsDrift} detected (Threshold: ${ODDS_DRIFT_THRESHOLD})`);
     return { status: CacheStatus.STALE_ODDS, pick: cachedPick };
   }
 
+  if (currentLine !== null && cachedPick.line_at_generation !== null) {
+    const lineDrift = Math.abs(Number(cachedPick.line_at_generation) - currentLine);
+    if (lineDrift >= LINE_DRIFT_THRESHOLD) {
+      console.log(`[LINE DRIFT] ${cachedPick.line_at_generation} -> ${currentLine} for ${game_id} (${market_type})`);
+      return { status: CacheStatus.STALE_LINE, pick: cachedPick };
+    }
+  }
+
   // If no condition is met, it's a valid cache hit.
   return { status: CacheStatus.HIT, pick: cachedPick };
 };
@@ -207,72 +405,287 @@ const retryWithBackoff = async <T>(
 };
 
 /**
- * 2. THE GENERATION (Slow Path)
- * Calls the LLM via direct fetch, validates the output structure, and generates embeddings.
+ * Helper: Player context for prop analysis (current roster / injury rows from
+ * sports_knowledge, team form from team_rosters). Non-fatal: an empty context
+ * only weakens the analysis.
  */
-const generateAnalysis = async (input: RequestInput): Promise<{ analysis: LLMOutput, embedding: number[] }> => {
-  const { game_context, market_type, current_odds } = input;
+const loadPlayerContext = async (gameContext: Record<string, unknown>, players: string[]) => {
+  const league = String(gameContext.league ?? "");
+  const teams = [gameContext.away_team, gameContext.home_team].filter(Boolean).map(String);
+
+  const [knowledge, rosters] = await Promise.all([
+    supabase
+      .from("sports_knowledge")
+      .select("entity, category, data")
+      .eq("league", league)
+      .in("entity", players)
+      .in("category", ["roster", "injury"])
+      .is("valid_until", null),
+    supabase
+      .from("team_rosters")
+      .select("team_name, team_abbreviation, record, recent_form, standing")
+      .ilike("sport", league)
+      .in("team_abbreviation", teams),
+  ]);
+
+  if (knowledge.error) console.warn("[PLAYER CONTEXT] sports_knowledge lookup failed", knowledge.error.message);
+  if (rosters.error) console.warn("[PLAYER CONTEXT] team_rosters lookup failed", rosters.error.message);
+
+  const byPlayer: Record<string, Record<string, unknown>> = {};
+  (knowledge.data || []).forEach((row) => {
+    const data = (row.data || {}) as Record<string, unknown>;
+    const entry = (byPlayer[row.entity] ??= {});
+    if (row.category === "roster") {
+      entry.team = data.teamAbbr ?? data.team;
+      entry.position = data.position;
+      entry.status = data.status;
+    } else {
+      entry.injury = { status: data.status, description: data.description, returnDate: data.returnDate };
+    }
+  });
 
-  const systemPrompt = `
-    You are a data-driven sports betting analyst. Analyze the provided matchup context for the '${market_type}' market.
-    CRITICAL CONTEXT: The current odds are ${current_odds}. Use this to determine Expected Value (EV).
-    Be decisive. Pick a side.
-    Response MUST be a JSON object: { "pick_side": string, "confidence": number (1-100), "reasoning": string }
-  `;
+  return { players: byPlayer, teams: rosters.data || [] };
+};
+
+/**
+ * Helper: Probable starting pitchers for an MLB game (name, record and season line from
+ * the ESPN scoreboard). Teams are matched on ESPN's abbreviation or the board's
+ * three-letter fallback; on a doubleheader the event starting closest to start_time wins.
+ * Non-fatal: null when the game or its starters aren't posted.
+ */
+const loadProbablePitchers = async (gameContext: Record<string, unknown>) => {
+  const start = gameContext.start_time ? new Date(String(gameContext.start_time)) : new Date();
+  const dateKey = start.toLocaleDateString("en-CA", { timeZone: "America/New_York" }).replaceAll("-", "");
+  const teams = [gameContext.away_team, gameContext.home_team].map((t) => String(t ?? "").toUpperCase());
 
-  // 2a. Generate Analysis using Google Gemini API with retry logic
   try {
-    console.log('[Calling Gemini API]', { model: LLM_MODEL, game_id: input.game_id });
-    
-    const chatResponse = await retryWithBackoff(async () => {
-      const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${LLM_MODEL}:generateContent?key=${env.GOOGLE_API_KEY}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          contents: [{
-            parts: [{
-              text: `${systemPrompt}\n\nAnalyze: ${JSON.stringify(game_context)}`
-            }]
-          }],
-          generationConfig: {
-            temperature: 0.3,
-            responseMimeType: "application/json",
-          }
-        }),
-      });
+    const response = await fetch(`${ESPN_MLB_SCOREBOARD}?dates=${dateKey}`, {
+      signal: AbortSignal.timeout(ESPN_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      console.warn("[PITCHER CONTEXT] ESPN scoreboard failed", response.status);
+      return null;
+    }
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('[Gemini Chat Error]', response.status, errorText);
-        throw new HttpError(502, "Upstream analysis service unavailable", { status: response.status, error: errorText });
-      }
-      
-      return response;
+    const data: { events?: { date?: string; competitions?: { competitors?: EspnCompetitor[] }[] }[] } = await response.json();
+    const codesOf = (c: EspnCompetitor): string[] =>
+      [c.team?.abbreviation, c.team?.displayName?.substring(0, 3)]
+        .filter((code): code is string => !!code)
+        .map((code) => code.toUpperCase());
+
+    const offset = (date?: string) => (date ? Math.abs(new Date(date).getTime() - start.getTime()) : Number.POSITIVE_INFINITY);
+    const games = (data.events ?? []).flatMap((event) => {
+      const competitors = event.competitions?.[0]?.competitors ?? [];
+      const away = competitors.find((c) => c.homeAway === "away");
+      const home = competitors.find((c) => c.homeAway === "home");
+      if (!away || !home || !codesOf(away).includes(teams[0]) || !codesOf(home).includes(teams[1])) return [];
+      return [{ away, home, offset: offset(event.date) }];
     });
+    // Doubleheaders list the same matchup twice; take the event closest to the board's start
+    const game = games.sort((a, b) => a.offset - b.offset)[0];
+    if (!game) return null;
+
+    const starter = (c: EspnCompetitor) => {
+      const probable = c.probables?.[0];
+      if (!probable?.athlete) return null;
+      return {
+        name: probable.athlete.displayName ?? probable.athlete.fullName,
+        throws: probable.athlete.throws?.abbreviation,
+        record: probable.record,
+        stats: Object.fromEntries(
+          (probable.statistics ?? []).map((s) => [s.abbreviation ?? s.name, s.displayValue]),
+        ),
+      };
+    };
+
+    const pitchers = { away: starter(game.away), home: starter(game.home) };
+    return pitchers.away || pitchers.home ? pitchers : null;
+  } catch (e) {
+    console.warn("[PITCHER CONTEXT] ESPN scoreboard lookup failed", e instanceof Error ? e.message : e);
+    return null;
+  }
+};
 
-    const chatData = await chatResponse.json();
-    console.log('[Gemini Chat Response]', JSON.stringify(chatData).substring(0, 200));
-    const rawResult = chatData.candidates?.[0]?.content?.parts?.[0]?.text;
-    
-    if (!rawResult) {
-      console.error('[Gemini returned empty content]', chatData);
-      throw new HttpError(502, "Gemini returned empty response");
+/**
+ * Helper: Latest team stat snapshot for each side (NFL / NBA / NHL), e.g. net rating and
+ * pace or special teams and save percentage. Non-fatal: null when the league has no stats
+ * table or neither team has a row.
+ */
+const loadTeamStats = async (gameContext: Record<string, unknown>) => {
+  const table = TEAM_STATS_TABLES[String(gameContext.league ?? "")];
+  const away = String(gameContext.away_team ?? "");
+  const home = String(gameContext.home_team ?? "");
+  if (!table || !away || !home) return null;
+
+  const { data, error } = await supabase
+    .from(table)
+    .select("*")
+    .in("team_abbreviation", [away, home])
+    .order("last_updated", { ascending: false })
+    .limit(10);
+
+  if (error) {
+    console.warn("[TEAM STATS] lookup failed", table, error.message);
+    return null;
+  }
+
+  const latest = (abbr: string) => {
+    const row = (data || []).find((r) => r.team_abbreviation === abbr);
+    return row ? Object.fromEntries(Object.entries(row).filter(([key]) => !TEAM_STATS_OMIT.has(key))) : null;
+  };
+
+  const stats = { away: latest(away), home: latest(home) };
+  return stats.away || stats.home ? stats : null;
+};
+
+/**
+ * Helper: Latest confidence calibration for the league / market (fitted by calibrate-picks).
+ * Null when the newest fit was not accepted or none exists. Non-fatal: picks go out
+ * uncalibrated if the lookup fails.
+ */
+const loadCalibration = async (league: string, marketType: string): Promise<{ id: string; calibration: Calibration } | null> => {
+  const { data, error } = await supabase
+    .from("pick_calibrations")
+    .select("id, method, params, accepted")
+    .eq("league", league)
+    .eq("market_type", marketType)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.warn("[CALIBRATION] lookup failed", error.message);
+    return null;
+  }
+  if (!data?.accepted) return null;
+  return { id: data.id, calibration: { method: data.method, params: data.params } as Calibration };
+};
+
+/**
+ * Helper: One model's answer to the pick prompt, retried on 503 and validated against the
+ * offered sides (or props). Every failure surfaces as an HttpError.
+ */
+const runModel = async (
+  model: PickModel,
+  request: PickModelRequest,
+  market: MarketRequest,
+  sides: Side[],
+): Promise<LLMOutput> => {
+  console.log(`[Calling ${model.provider}]`, { model: model.id, market_type: market.market_type });
+
+  const rawResult = await retryWithBackoff(async () => {
+    try {
+      return await model.complete(request);
+    } catch (e) {
+      if (!(e instanceof ModelError)) throw e;
+      throw new HttpError(502, e.message, e.status ? { status: e.status, error: e.body } : undefined);
     }
+  });
 
-    // 2b. Validate LLM Output
-    console.log('[Parsing Gemini response]', rawResult.substring(0, 100));
-    const parsedJson = JSON.parse(rawResult || "{}");
-    const validation = LLMOutputSchema.safeParse(parsedJson);
-    if (!validation.success) {
-        console.error('[Schema validation failed]', validation.error.format());
-        throw new HttpError(502, "LLM returned invalid schema", validation.error.format());
+  console.log(`[Parsing ${model.provider} response]`, rawResult.substring(0, 100));
+  let parsedJson: unknown;
+  try {
+    parsedJson = JSON.parse(rawResult || "{}");
+  } catch {
+    throw new HttpError(502, "LLM returned invalid JSON", { provider: model.provider });
+  }
+  const validation = LLMOutputSchema.safeParse(parsedJson);
+  if (!validation.success) {
+      console.error('[Schema validation failed]', model.provider, validation.error.format());
+      throw new HttpError(502, "LLM returned invalid schema", validation.error.format());
+  }
+  const analysis = validation.data;
+  if (market.props) {
+      const prop = propById(market, analysis.prop_id);
+      if (!prop || (analysis.side !== "over" && analysis.side !== "under") || !prop[analysis.side]) {
+          throw new HttpError(502, "LLM picked a prop that was not offered", { prop_id: analysis.prop_id, side: analysis.side });
+      }
+  } else if (sides.length > 0 && (!analysis.side || !sides.includes(analysis.side))) {
+      throw new HttpError(502, "LLM picked a side that was not offered", { side: analysis.side, offered: sides });
+  }
+  console.log('[Analysis validated]', { provider: model.provider, market_type: market.market_type, side: analysis.side, pick_side: analysis.pick_side, confidence: analysis.confidence, rationale: !!analysis.rationale });
+  return analysis;
+};
+
+/**
+ * 2. THE GENERATION (Slow Path)
+ * Calls the LLM via direct fetch, validates the output structure, and generates embeddings.
+ */
+const generateAnalysis = async (
+  input: RequestInput,
+  market: MarketRequest,
+): Promise<{ analysis: LLMOutput, embedding: number[], ensemble: { summary: EnsembleSummary; votes: Vote[] } | null }> => {
+  const { market_type } = market;
+  const sides = offeredSides(market);
+  let game_context = input.game_context;
+  let oddsContext: string;
+  let responseShape: string;
+
+  // Starting pitching drives MLB prices on every market, props included
+  if (game_context.league === "MLB") {
+    const pitchers = await loadProbablePitchers(game_context);
+    if (pitchers) game_context = { ...game_context, probable_pitchers: pitchers };
+  }
+
+  const teamStats = await loadTeamStats(game_context);
+  if (teamStats) game_context = { ...game_context, team_stats: teamStats };
+
+  if (market.props) {
+    // Props: the model picks one prop and a side; player context comes from the knowledge tables
+    const players = [...new Set(market.props.map((p) => p.player))];
+    game_context = { ...game_context, player_context: await loadPlayerContext(game_context, players) };
+
+    oddsContext = `The available player props are:\n${market.props
+      .map((p, i) => {
+        const prices = (["over", "under"] as const)
+          .filter((side) => p[side])
+          .map((side) => `${side} ${signed(p[side]!.price)}`)
+          .join(" / ");
+        return `      - "p${i}": ${p.player} ${PROP_MARKET_LABELS[p.market] ?? p.market} ${p.line} (${prices})`;
+      })
+      .join("\n")}\n    "over" on an Anytime market means the player scores.`;
+    responseShape = `{ "prop_id": string, "side": "over" | "under", "pick_side": string, "confidence": number (1-100), "reasoning": string, ${RATIONALE_SHAPE} }`;
+  } else if (sides.length > 0) {
+    ({ oddsContext, responseShape } = sidesPrompt(market_type, sides, market.quotes!, game_context));
+  } else {
+    oddsContext = `The current odds are ${market.current_odds}.`;
+    responseShape = `{ "pick_side": string, "confidence": number (1-100), "reasoning": string, ${RATIONALE_SHAPE} }`;
+  }
+
+  const systemPrompt = buildSystemPrompt(market_type, oddsContext, responseShape);
+
+  // 2a. Generate Analysis: Gemini alone, or every configured provider in ensemble mode
+  try {
+    const request: PickModelRequest = { prompt: systemPrompt, gameContext: game_context, sides, quotes: market.quotes ?? {} };
+    let analysis: LLMOutput;
+    let ensemble: { summary: EnsembleSummary; votes: Vote[] } | null = null;
+
+    if (input.ensemble) {
+      const settled = await Promise.allSettled(ensembleModels.map((model) => runModel(model, request, market, sides)));
+      const votes: Vote[] = settled.map((r, i) => ({
+        provider: ensembleModels[i].provider,
+        model: ensembleModels[i].id,
+        analysis: r.status === "fulfilled" ? r.value : null,
+        error: r.status === "fulfilled" ? null : r.reason instanceof Error ? r.reason.message : String(r.reason),
+      }));
+      const result = aggregateVotes(votes, sides, (vote) => {
+        try {
+          return resolvePick(input, market, vote).label;
+        } catch {
+          return vote.pick_side;
+        }
+      });
+      if (!result) {
+        throw new HttpError(502, "Every ensemble provider failed", votes.map(({ provider, error }) => ({ provider, error })));
+      }
+      console.log('[Ensemble aggregated]', { market_type, side: result.summary.side, agreement: result.summary.agreement, confidence: result.summary.confidence });
+      analysis = result.analysis;
+      ensemble = { summary: result.summary, votes };
+    } else {
+      analysis = await runModel(pickModel, request, market, sides);
     }
-    const analysis = validation.data;
-    console.log('[Analysis validated]', { pick_side: analysis.pick_side, confidence: analysis.confidence });
 
-    // 2c. Generate Embedding using Google Gemini API
+    // 2b. Generate Embedding using Google Gemini API
     console.log('[Calling Gemini Embeddings API]');
     const embeddingResponse = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${EMBEDDING_MODEL}:embedContent?key=${env.GOOGLE_API_KEY}`, {
       method: 'POST',
@@ -304,7 +717,7 @@ const generateAnalysis = async (input: RequestInput): Promise<{ analysis: LLMOut
     }
     
     console.log('[Successfully generated analysis and embedding]');
-    return { analysis, embedding };
+    return { analysis, embedding, ensemble };
 
   } catch (e) {
       if (e instanceof HttpError) throw e;
@@ -319,28 +732,109 @@ const generateAnalysis = async (input: RequestInput): Promise<{ analysis: LLMOut
 };
 
 /**
- * 3. THE COMMIT (UPSERT)
- * Inserts the new pick or updates the existing (stale) one.
+ * 3. THE PRICING
+ * Maps the LLM's chosen side (and prop, for prop markets) back to its quote. Without
+ * quotes (legacy clients), the single current_odds value and the LLM's own label are used.
+ */
+const resolvePick = (input: RequestInput, market: MarketRequest, analysis: LLMOutput): ResolvedPick => {
+  const prop = propById(market, analysis.prop_id);
+  if (prop && (analysis.side === "over" || analysis.side === "under") && prop[analysis.side]) {
+    const propQuote = prop[analysis.side]!;
+    return {
+      label: propLabel(prop, analysis.side),
+      outcome: analysis.side,
+      price: propQuote.price,
+      line: prop.line,
+      book: propQuote.book ?? input.book ?? null,
+      propPlayer: prop.player,
+      propMarket: prop.market,
+    };
+  }
+
+  const quote = analysis.side ? market.quotes?.[analysis.side] : undefined;
+
+  if (!quote) {
+    if (market.current_odds === undefined) {
+      throw new HttpError(400, "No price supplied for the picked side", { side: analysis.side ?? null });
+    }
+    return {
+      label: analysis.pick_side,
+      outcome: analysis.side ?? null,
+      price: market.current_odds,
+      line: null,
+      book: input.book ?? null,
+      propPlayer: null,
+      propMarket: null,
+    };
+  }
+
+  return {
+    label: sideLabel(market.market_type, analysis.side!, quote, input.game_context),
+    outcome: analysis.side!,
+    price: quote.price,
+    line: quote.line ?? null,
+    book: quote.book ?? input.book ?? null,
+    propPlayer: null,
+    propMarket: null,
+  };
+};
+
+/**
+ * 4. THE COMMIT (UPSERT)
+ * Inserts the new pick or updates the existing (stale) one. Ensemble picks also replace the
+ * pick's rows in pick_votes; a failure there is logged and doesn't cost the pick.
  */
 const commitPick = async (
   input: RequestInput,
+  market: MarketRequest,
   analysis: LLMOutput,
-  embedding: number[]
+  embedding: number[],
+  ensemble: { summary: EnsembleSummary; votes: Vote[] } | null,
 ) => {
-  const { game_id, market_type, current_odds } = input;
+  const { game_id } = input;
+  const { market_type } = market;
+  const resolved = resolvePick(input, market, analysis);
+  const rawProbability = analysis.confidence / 100;
+  const calibration = await loadCalibration(input.game_context.league, market_type);
 
   const payload = {
     game_id,
+    sport: input.game_context.league,
     market_type,
-    pick_side: analysis.pick_side,
+    pick_side: resolved.label,
+    pick_outcome: resolved.outcome,
     confidence_score: analysis.confidence,
+    // EV and staking read the calibrated probability; confidence_score stays the model's own number
+    raw_probability: rawProbability,
+    calibrated_probability: calibration ? applyCalibration(calibration.calibration, rawProbability) : null,
+    calibration_id: calibration?.id ?? null,
     reasoning_text: analysis.reasoning,
+    rationale: analysis.rationale ?? null,
+    ensemble: ensemble?.summary ?? null,
     reasoning_embedding: embedding,
-    // Crucial: Update the odds to the current value
-    odds_at_generation: current_odds,
+    // Crucial: Update the odds to the current value of the side that was picked
+    odds_at_generation: resolved.price,
+    line_at_generation: resolved.line,
+    book_at_generation: resolved.book,
+    prop_player: resolved.propPlayer,
+    prop_market: resolved.propMarket,
     // CRITICAL: Manually reset the timestamp for the new analysis. 
     // Upsert (which acts as an UPDATE on conflict) does not automatically refresh 'created_at'.
     created_at: new Date().toISOString(), 
+    // The close and CLV were captured for the replaced pick's side and price
+    closing_odds: null,
+    closing_opposite_odds: null,
+    closing_line: null,
+    closing_book: null,
+    closing_captured_at: null,
+    clv_price: null,
+    clv_prob: null,
+    // Ungraded again, so grade-picks (graded_at IS NULL) settles the new pick
+    result: null,
+    result_margin: null,
+    units_won: null,
+    graded_line: null,
+    graded_at: null,
   };
 
   // UPSERT: If a conflict occurs on the unique constraints, update the existing row.
@@ -356,9 +850,76 @@ const commitPick = async (
     throw new HttpError(500, "Database upsert operation failed", upsertError);
   }
 
+  // Votes from an earlier generation of this pick no longer apply
+  const { error: clearError } = await supabase.from("pick_votes").delete().eq("analysis_id", savedPick.id);
+  if (clearError) console.warn("[pick_votes clear failed]", clearError.message);
+
+  if (ensemble && !clearError) {
+    const rows = ensemble.summary.votes.map((summary, i) => {
+      const vote = ensemble.votes[i].analysis;
+      const priced = vote ? resolvePick(input, market, vote) : null;
+      return {
+        analysis_id: savedPick.id,
+        game_id,
+        market_type,
+        provider: summary.provider,
+        model: summary.model,
+        pick_side: summary.pick_side,
+        pick_outcome: priced?.outcome ?? null,
+        odds: priced?.price ?? null,
+        line: priced?.line ?? null,
+        confidence: summary.confidence,
+        reasoning: vote?.reasoning ?? null,
+        rationale: vote?.rationale ?? null,
+        agrees: summary.agrees,
+        error: summary.error,
+      };
+    });
+    const { error: votesError } = await supabase.from("pick_votes").insert(rows);
+    if (votesError) console.warn("[pick_votes insert failed]", votesError.message);
+  }
+
   return savedPick;
 };
 
+/**
+ * 5. ONE MARKET
+ * Cache check, then (on any miss / staleness, until the game starts) generation and commit.
+ */
+const processMarket = async (input: RequestInput, market: MarketRequest) => {
+  const logContext = `${input.game_id} (${market.market_type})`;
+
+  // 1. CHECK & VALIDATE
+  const { status, pick } = await checkCacheAndValidate(input, market);
+
+  if (status === CacheStatus.HIT) {
+    console.log(`[CACHE HIT] Serving valid pick for ${logContext}.`);
+    return { pick, regenerated: false };
+  }
+
+  // Picks lock at the start: a regeneration now would be priced off in-play odds
+  const startMs = input.game_context.start_time ? Date.parse(input.game_context.start_time) : NaN;
+  if (startMs <= Date.now()) {
+    if (pick) {
+      console.log(`[LOCKED] Game started; serving the existing pick for ${logContext}.`);
+      return { pick, regenerated: false };
+    }
+    throw new HttpError(409, "Game has already started");
+  }
+
+  // 2. GENERATION (Handles MISS, STALE_TIME, STALE_ODDS, STALE_LINE, STALE_DATA_INCOMPLETE, STALE_MODE)
+  console.log(`[CACHE ${status}] Regenerating analysis for ${logContext}.`);
+  const { analysis, embedding, ensemble } = await generateAnalysis(input, market);
+
+  // 3. COMMIT (UPSERT)
+  // NOTE ON RACE CONDITIONS: If two requests simultaneously find the cache stale,
+  // both will generate, and the last one to finish will overwrite the first (UPSERT behavior).
+  const newPick = await commitPick(input, market, analysis, embedding, ensemble);
+
+  console.log(`[UPSERT SUCCESS] Updated analysis for ${logContext} @ ${newPick.odds_at_generation}.`);
+  return { pick: newPick, regenerated: true };
+};
+
 // ---------------------------------------------------------
 // MAIN HANDLER
 // ---------------------------------------------------------
@@ -375,34 +936,46 @@ serve(async (req) => {
     const body = await req.json().catch(() => {
         throw new HttpError(400, "Invalid JSON payload");
     });
-    
-    const validation = RequestInputSchema.safeParse(body);
+
+    // Single-market bodies ({ market_type, current_odds | quotes }) are wrapped as a batch of one
+    const isBatch = Array.isArray(body?.markets);
+    const normalized = isBatch
+      ? body
+      : {
+          ...body,
+          markets: [{ market_type: body?.market_type, quotes: body?.quotes, current_odds: body?.current_odds }],
+        };
+
+    const validation = RequestInputSchema.safeParse(normalized);
     if (!validation.success) {
       throw new HttpError(400, "Invalid request parameters", validation.error.format());
     }
     const input = validation.data;
-    const logContext = `${input.game_id} (${input.market_type} @ ${input.current_odds})`;
 
-    // 1. CHECK & VALIDATE
-    const { status, pick } = await checkCacheAndValidate(input);
+    if (input.ensemble) await authorizeEnsemble(req);
 
-    if (status === CacheStatus.HIT) {
-      console.log(`[CACHE HIT] Serving valid pick for ${logContext}.`);
-      return new Response(JSON.stringify(pick), { headers: jsonHeaders, status: 200 });
+    if (!isBatch) {
+      const { pick, regenerated } = await processMarket(input, input.markets[0]);
+      // Return 201 when we have created/updated the resource state.
+      return new Response(JSON.stringify(pick), { headers: jsonHeaders, status: regenerated ? 201 : 200 });
     }
 
-    // 2. GENERATION (Handles MISS, STALE_TIME, STALE_ODDS, STALE_DATA_INCOMPLETE)
-    console.log(`[CACHE ${status}] Regenerating analysis for ${logContext}.`);
-    const { analysis, embedding } = await generateAnalysis(input);
+    // Batch: markets run concurrently; one failing market does not sink the others
+    const settled = await Promise.allSettled(input.markets.map((market) => processMarket(input, market)));
+
+    const picks = settled.flatMap((r) => (r.status === "fulfilled" ? [r.value.pick] : []));
+    const errors = settled.flatMap((r, i) => {
+      if (r.status === "fulfilled") return [];
+      const message = r.reason instanceof HttpError ? r.reason.message : "Internal Server Error";
+      if (!(r.reason instanceof HttpError)) console.error("[INTERNAL ERROR]", r.reason);
+      return [{ market_type: input.markets[i].market_type, error: message }];
+    });
 
-    // 3. COMMIT (UPSERT)
-    // NOTE ON RACE CONDITIONS: If two requests simultaneously find the cache stale,
-    // both will generate, and the last one to finish will overwrite the first (UPSERT behavior).
-    const newPick = await commitPick(input, analysis, embedding);
+    if (picks.length === 0) {
+      throw new HttpError(502, "Pick generation failed for every market", errors);
+    }
 
-    console.log(`[UPSERT SUCCESS] Updated analysis for ${logContext}.`);
-    // Return 201 as we have created/updated the resource state.
-    return new Response(JSON.stringify(newPick), { headers: jsonHeaders, status: 201 });
+    return new Response(JSON.stringify({ picks, errors }), { headers: jsonHeaders, status: 200 });
 
   } catch (error) {
     return handleError(error);
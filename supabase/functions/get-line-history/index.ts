@@ -0,0 +1,228 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+
+// Returns the line snapshot time series for one game (written by fetch-odds).
+// `series` is shaped for the LineMovement prop used by the game modals. For the
+// default book, the open/current values in betting_lines_history bracket the series.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Same preference order as the client board (nhlAi PREFERRED_BOOKMAKERS)
+const PREFERRED_BOOKS = ['draftkings', 'fanduel', 'betmgm', 'williamhill'];
+
+const MAX_ROWS = 5000; // Per book; the newest rows are kept so the series runs up to the close
+const PAGE_SIZE = 1000; // PostgREST caps a single select
+const BOOK_SCAN_ROWS = 1000; // Latest rows scanned to list the books with snapshots
+
+interface SnapshotRow {
+  book: string;
+  market: 'h2h' | 'spreads' | 'totals';
+  home_price: number | null;
+  away_price: number | null;
+  draw_price: number | null;
+  home_point: number | null;
+  over_price: number | null;
+  under_price: number | null;
+  total_point: number | null;
+  captured_at: string;
+}
+
+interface SummaryRow {
+  open_spread_home: number | null;
+  open_total: number | null;
+  open_moneyline_home: number | null;
+  open_moneyline_away: number | null;
+  current_spread_home: number | null;
+  current_total: number | null;
+  current_moneyline_home: number | null;
+  current_moneyline_away: number | null;
+  created_at: string | null;
+  last_updated: string | null;
+}
+
+interface LineMovementPoint {
+  timestamp: string;
+  spread: number;
+  total: number;
+  homeML: number;
+  awayML: number;
+  drawML: number | null; // Soccer 1X2 only
+}
+
+// Collapse one book's rows into one point per capture, carrying forward markets
+// that were missing from a given snapshot. Points before every market has been
+// seen once are dropped so the chart never starts at zero.
+function buildSeries(rows: SnapshotRow[]): LineMovementPoint[] {
+  const byCapture = new Map<string, SnapshotRow[]>();
+  rows.forEach((row) => {
+    const bucket = byCapture.get(row.captured_at) || [];
+    bucket.push(row);
+    byCapture.set(row.captured_at, bucket);
+  });
+
+  const series: LineMovementPoint[] = [];
+  let spread: number | null = null;
+  let total: number | null = null;
+  let homeML: number | null = null;
+  let awayML: number | null = null;
+  let drawML: number | null = null;
+
+  [...byCapture.keys()].sort().forEach((capturedAt) => {
+    byCapture.get(capturedAt)!.forEach((row) => {
+      if (row.market === 'h2h') {
+        homeML = row.home_price ?? homeML;
+        awayML = row.away_price ?? awayML;
+        drawML = row.draw_price ?? drawML;
+      } else if (row.market === 'spreads') {
+        spread = row.home_point ?? spread;
+      } else if (row.market === 'totals') {
+        total = row.total_point ?? total;
+      }
+    });
+
+    if (spread !== null && total !== null && homeML !== null && awayML !== null) {
+      series.push({ timestamp: capturedAt, spread, total, homeML, awayML, drawML });
+    }
+  });
+
+  return series;
+}
+
+// One book's snapshots, newest MAX_ROWS paged in descending order and returned oldest first.
+async function loadBookSnapshots(supabase: SupabaseClient, gameId: string, book: string): Promise<SnapshotRow[]> {
+  const rows: SnapshotRow[] = [];
+
+  for (let from = 0; from < MAX_ROWS; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('line_snapshots')
+      .select('book, market, home_price, away_price, draw_price, home_point, over_price, under_price, total_point, captured_at')
+      .eq('game_id', gameId)
+      .eq('book', book)
+      .order('captured_at', { ascending: false })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw new Error(`Database error: ${error.message}`);
+
+    rows.push(...((data || []) as SnapshotRow[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return rows.reverse();
+}
+
+// Prepend the recorded open / append the latest current value when they fall
+// outside the snapshot window (e.g. the game was opened before snapshots began).
+// The summary has no draw price, so bracketing points leave drawML empty.
+function bracketWithSummary(series: LineMovementPoint[], summary: SummaryRow): LineMovementPoint[] {
+  const result = [...series];
+  const first = result[0]?.timestamp;
+  const last = result[result.length - 1]?.timestamp;
+
+  const open = [summary.open_spread_home, summary.open_total, summary.open_moneyline_home, summary.open_moneyline_away];
+  if (summary.created_at && open.every((v) => v !== null) && (!first || summary.created_at < first)) {
+    result.unshift({
+      timestamp: summary.created_at,
+      spread: summary.open_spread_home!,
+      total: summary.open_total!,
+      homeML: summary.open_moneyline_home!,
+      awayML: summary.open_moneyline_away!,
+      drawML: null,
+    });
+  }
+
+  const current = [summary.current_spread_home, summary.current_total, summary.current_moneyline_home, summary.current_moneyline_away];
+  if (summary.last_updated && current.every((v) => v !== null) && (!last || summary.last_updated > last)) {
+    result.push({
+      timestamp: summary.last_updated,
+      spread: summary.current_spread_home!,
+      total: summary.current_total!,
+      homeML: summary.current_moneyline_home!,
+      awayML: summary.current_moneyline_away!,
+      drawML: null,
+    });
+  }
+
+  return result;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { gameId, book } = await req.json();
+
+    if (!gameId) {
+      return new Response(JSON.stringify({ error: "Missing 'gameId' parameter" }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+      throw new Error('Missing Supabase configuration');
+    }
+
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    const { data, error } = await supabase
+      .from('line_snapshots')
+      .select('book')
+      .eq('game_id', gameId)
+      .order('captured_at', { ascending: false })
+      .limit(BOOK_SCAN_ROWS);
+
+    if (error) throw new Error(`Database error: ${error.message}`);
+
+    const books = [...new Set(((data || []) as { book: string }[]).map((s) => s.book))];
+
+    // Requested book if it has data, else first preferred book, else whatever exists
+    const selectedBook =
+      (book && books.includes(book) ? book : null) ??
+      PREFERRED_BOOKS.find((b) => books.includes(b)) ??
+      books[0] ??
+      null;
+
+    const snapshots = selectedBook ? await loadBookSnapshots(supabase, gameId, selectedBook) : [];
+    let series = buildSeries(snapshots);
+
+    // Summary lines are book-agnostic, so only blend them into the default view
+    if (!book) {
+      const { data: summary, error: summaryError } = await supabase
+        .from('betting_lines_history')
+        .select(
+          'open_spread_home, open_total, open_moneyline_home, open_moneyline_away, current_spread_home, current_total, current_moneyline_home, current_moneyline_away, created_at, last_updated',
+        )
+        .eq('game_id', gameId)
+        .order('last_updated', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (summaryError) console.warn('[Line History] Summary lookup failed:', summaryError.message);
+      else if (summary) series = bracketWithSummary(series, summary as SummaryRow);
+    }
+
+    console.log(`[Line History] ${gameId}: ${snapshots.length} rows, ${books.length} books, ${series.length} points (${selectedBook})`);
+
+    return new Response(
+      JSON.stringify({ gameId, book: selectedBook, books, series, snapshots }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+    );
+  } catch (error) {
+    console.error('[Line History] Function error:', error);
+    return new Response(
+      JSON.stringify({
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      },
+    );
+  }
+});
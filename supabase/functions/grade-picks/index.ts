@@ -0,0 +1,389 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { gradePick, type ClosingLine, type FinalGame, type GradablePick, type GradeResult, type MarketType, type Outcome } from '../_shared/grading.ts';
+import { loadTeamIndex, type TeamIndex } from '../_shared/teams.ts';
+import { ConfigurationError, DatabaseError, authorizeCron, errorResponse } from '../_shared/errors.ts';
+import { log } from '../_shared/log.ts';
+
+// =============================================================================
+// Configuration & Constants
+// =============================================================================
+const BATCH_LIMIT = 500;          // Max ungraded picks (and, separately, pending wagers) pulled per run
+const LOOKBACK_DAYS = 21;         // Only games that started this recently are graded
+const CONCURRENCY_LIMIT = 10;     // Parallel row updates per batch
+const PAGE_SIZE = 1000;           // PostgREST caps a single select
+const GAME_ID_CHUNK = 200;        // game_ids per pick lookup, to keep the IN list short
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const LEAGUE_TABLES = {
+  NFL: 'nfl_games',
+  NBA: 'nba_games',
+  NHL: 'nhl_games',
+  MLB: 'mlb_games',
+  NCAAF: 'ncaaf_games',
+  NCAAB: 'ncaab_games',
+  EPL: 'soccer_games',
+  MLS: 'soccer_games',
+  UCL: 'soccer_games',
+} as const;
+
+const FINAL_STATUS_PATTERN = /final|post|completed|closed/i;
+
+// Terminal state for picks on a final game that can't be settled (no side or line to grade)
+const VOID_GRADE = { result: 'void', result_margin: null, units_won: null, graded_line: null } as const;
+
+// Grader outcome -> wagers.status
+const WAGER_STATUS: Record<Outcome, string> = {
+  win: 'won',
+  half_win: 'half_won',
+  push: 'push',
+  half_loss: 'half_lost',
+  loss: 'lost',
+};
+
+// =============================================================================
+// Domain Types
+// =============================================================================
+type League = keyof typeof LEAGUE_TABLES;
+type GameTable = typeof LEAGUE_TABLES[League];
+interface PickRow extends GradablePick {
+  id: string;
+  game_id: string;
+  sport: League;
+}
+
+interface WagerRow {
+  id: string;
+  game_id: string;
+  league: League;
+  market_type: MarketType;
+  side: 'away' | 'home' | 'draw' | 'over' | 'under';
+  selection: string;
+  line: number | null;
+  odds: number;
+  stake: number;
+}
+
+interface WagerSettlement {
+  id: string;
+  status: string;
+  profit: number;
+}
+
+// =============================================================================
+// Logic Modules
+// =============================================================================
+
+/**
+ * Module: Game Loader
+ * Returns final games (with scores) in one game table that started between `since` and `now`,
+ * keyed by game_id. Paged, since a college slate runs past the PostgREST row cap.
+ */
+async function loadFinalGames(
+  supabase: SupabaseClient,
+  table: GameTable,
+  since: string,
+  now: string,
+): Promise<Map<string, FinalGame>> {
+  const games = new Map<string, FinalGame>();
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select('game_id, away_team, home_team, away_score, home_score, status')
+      .gte('start_time', since)
+      .lte('start_time', now)
+      .order('start_time', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw new DatabaseError(`${table} query failed: ${error.message}`);
+
+    for (const row of data || []) {
+      if (!FINAL_STATUS_PATTERN.test(row.status || '')) continue;
+      if (row.away_score == null || row.home_score == null) continue;
+      games.set(row.game_id, row as FinalGame);
+    }
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return games;
+}
+
+/**
+ * Module: Pick Loader
+ * Ungraded picks on the given final games, oldest first, up to `limit`. Props need box scores
+ * and aren't graded here.
+ */
+async function loadUngradedPicks(
+  supabase: SupabaseClient,
+  leagues: League[],
+  gameIds: string[],
+  limit: number,
+): Promise<PickRow[]> {
+  const picks: PickRow[] = [];
+
+  for (let i = 0; i < gameIds.length && picks.length < limit; i += GAME_ID_CHUNK) {
+    const { data, error } = await supabase
+      .from('analysis_memory')
+      .select('id, game_id, sport, market_type, pick_side, pick_outcome, odds_at_generation, line_at_generation, closing_line')
+      .is('graded_at', null)
+      .neq('market_type', 'prop')
+      .in('sport', leagues)
+      .in('game_id', gameIds.slice(i, i + GAME_ID_CHUNK))
+      .order('created_at', { ascending: true })
+      .limit(limit - picks.length);
+
+    if (error) throw new DatabaseError(`analysis_memory query failed: ${error.message}`);
+    picks.push(...((data || []) as PickRow[]));
+  }
+  return picks;
+}
+
+/**
+ * Module: Wager Loader
+ * Pending full-game wagers on the given final games, oldest first, up to `limit`. Period wagers
+ * (first half, first quarter, ...) need period scores the game tables don't keep, so they stay pending.
+ */
+async function loadPendingWagers(
+  supabase: SupabaseClient,
+  leagues: League[],
+  gameIds: string[],
+  limit: number,
+): Promise<WagerRow[]> {
+  const wagers: WagerRow[] = [];
+
+  for (let i = 0; i < gameIds.length && wagers.length < limit; i += GAME_ID_CHUNK) {
+    const { data, error } = await supabase
+      .from('wagers')
+      .select('id, game_id, league, market_type, side, selection, line, odds, stake')
+      .eq('status', 'pending')
+      .eq('period', 'game')
+      .neq('market_type', 'prop')
+      .in('league', leagues)
+      .in('game_id', gameIds.slice(i, i + GAME_ID_CHUNK))
+      .order('created_at', { ascending: true })
+      .limit(limit - wagers.length);
+
+    if (error) throw new DatabaseError(`wagers query failed: ${error.message}`);
+    wagers.push(...((data || []) as WagerRow[]));
+  }
+  return wagers;
+}
+
+/**
+ * Module: Wager Settlement
+ * Settles a wager with the pick grader on the exact side, number and price it was placed at
+ * (never a closing line). Ungradable wagers on a final game are voided and the stake returned.
+ */
+function settleWager(wager: WagerRow, game: FinalGame): WagerSettlement {
+  const grade = gradePick(
+    {
+      sport: wager.league,
+      market_type: wager.market_type,
+      pick_side: wager.selection,
+      pick_outcome: wager.side,
+      odds_at_generation: wager.odds,
+      line_at_generation: wager.line,
+      closing_line: null,
+    },
+    game,
+    undefined,
+  );
+  if (!grade) return { id: wager.id, status: 'void', profit: 0 };
+  return { id: wager.id, status: WAGER_STATUS[grade.result], profit: Number((Number(wager.stake) * grade.units_won).toFixed(2)) };
+}
+
+/**
+ * Module: Persistence
+ * Row updates in batches of CONCURRENCY_LIMIT; a failed row is logged and counted, never fatal.
+ */
+async function persistUpdates(
+  supabase: SupabaseClient,
+  table: 'analysis_memory' | 'wagers',
+  updates: Array<{ id: string } & Record<string, unknown>>,
+  correlationId: string,
+): Promise<number> {
+  let failureCount = 0;
+  for (let i = 0; i < updates.length; i += CONCURRENCY_LIMIT) {
+    const batch = updates.slice(i, i + CONCURRENCY_LIMIT);
+    const results = await Promise.allSettled(
+      batch.map(({ id, ...fields }) =>
+        supabase.from(table).update(fields).eq('id', id).then(({ error }) => {
+          if (error) throw new DatabaseError(error.message);
+        }),
+      ),
+    );
+
+    results.forEach((result, j) => {
+      if (result.status === 'rejected') {
+        failureCount++;
+        log('ERROR', `Failed to persist ${table} update for ${batch[j].id}`, { reason: String(result.reason), correlationId });
+      }
+    });
+  }
+  return failureCount;
+}
+
+/**
+ * Module: Closing Lines
+ * betting_lines_history "current_*" columns hold the last price seen before lock.
+ */
+async function loadClosingLines(supabase: SupabaseClient, gameIds: string[]): Promise<Map<string, ClosingLine>> {
+  const { data, error } = await supabase
+    .from('betting_lines_history')
+    .select('game_id, current_spread_home, current_spread_away, current_total, last_updated')
+    .in('game_id', gameIds)
+    .order('last_updated', { ascending: false });
+
+  if (error) {
+    // Non-fatal: grading falls back to the line in the pick label
+    log('WARN', 'Closing line lookup failed', { error: error.message });
+    return new Map();
+  }
+
+  const lines = new Map<string, ClosingLine>();
+  for (const row of data || []) {
+    if (lines.has(row.game_id)) continue; // Newest first
+    lines.set(row.game_id, {
+      spreadHome: row.current_spread_home,
+      spreadAway: row.current_spread_away ?? (row.current_spread_home != null ? -row.current_spread_home : null),
+      total: row.current_total,
+    });
+  }
+  return lines;
+}
+
+// =============================================================================
+// Main Execution Handler
+// =============================================================================
+
+async function handler(req: Request): Promise<Response> {
+  if (req.method === 'OPTIONS') return new Response(null, { headers: CORS_HEADERS, status: 204 });
+
+  const correlationId = crypto.randomUUID();
+  const startTime = performance.now();
+  log('INFO', 'Grading Run Started', { correlationId });
+
+  try {
+    // 1. Environment Validation & Security
+    const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+      throw new ConfigurationError("Missing critical environment variables (Supabase).");
+    }
+
+    authorizeCron(req, correlationId);
+
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    // 2. Final games that started within the lookback window, then their ungraded picks and
+    // pending wagers. Starting from final games keeps bets on postponed or upcoming games from
+    // filling the batch.
+    const now = new Date();
+    const since = new Date(now.getTime() - LOOKBACK_DAYS * 86_400_000).toISOString();
+    const leaguesByTable = new Map<GameTable, League[]>();
+    for (const [league, table] of Object.entries(LEAGUE_TABLES) as [League, GameTable][]) {
+      leaguesByTable.set(table, [...(leaguesByTable.get(table) ?? []), league]);
+    }
+
+    const gamesByTable = new Map<GameTable, Map<string, FinalGame>>();
+    const pending: PickRow[] = [];
+    const pendingWagers: WagerRow[] = [];
+    for (const [table, leagues] of leaguesByTable) {
+      const games = await loadFinalGames(supabase, table, since, now.toISOString());
+      gamesByTable.set(table, games);
+      if (games.size === 0) continue;
+
+      const gameIds = [...games.keys()];
+      if (pending.length < BATCH_LIMIT) {
+        pending.push(...await loadUngradedPicks(supabase, leagues, gameIds, BATCH_LIMIT - pending.length));
+      }
+      if (pendingWagers.length < BATCH_LIMIT) {
+        pendingWagers.push(...await loadPendingWagers(supabase, leagues, gameIds, BATCH_LIMIT - pendingWagers.length));
+      }
+    }
+    log('INFO', 'Ungraded Picks Loaded', { count: pending.length, wagers: pendingWagers.length });
+
+    const gameFor = (league: League, gameId: string) => gamesByTable.get(LEAGUE_TABLES[league])?.get(gameId);
+
+    // 3. Closing lines
+    const closingLines = pending.length > 0
+      ? await loadClosingLines(supabase, [...new Set(pending.map((p) => p.game_id))])
+      : new Map<string, ClosingLine>();
+
+    // Alias indexes, only for leagues with legacy picks (no pick_outcome) to match by label
+    const teamsByLeague = new Map<League, TeamIndex>();
+    for (const league of new Set(pending.filter((p) => !p.pick_outcome).map((p) => p.sport))) {
+      teamsByLeague.set(league, await loadTeamIndex(supabase, league));
+    }
+
+    // 4. Grade picks and settle wagers
+    const gradedAt = new Date().toISOString();
+    const updates: Array<{ id: string } & (GradeResult | typeof VOID_GRADE)> = [];
+    let skipped = 0;
+
+    for (const pick of pending) {
+      const game = gameFor(pick.sport, pick.game_id);
+      if (!game) continue;
+
+      const grade = gradePick(pick, game, closingLines.get(pick.game_id), teamsByLeague.get(pick.sport) ?? null);
+      if (!grade) {
+        // The game is final, so retrying won't help: close the pick out as void
+        skipped++;
+        log('DEBUG', 'Pick could not be graded', { id: pick.id, market: pick.market_type, pick_side: pick.pick_side });
+        updates.push({ id: pick.id, ...VOID_GRADE });
+        continue;
+      }
+      updates.push({ id: pick.id, ...grade });
+    }
+
+    const settlements = pendingWagers.flatMap((wager) => {
+      const game = gameFor(wager.league, wager.game_id);
+      return game ? [settleWager(wager, game)] : [];
+    });
+
+    // 5. Persist (batched concurrency; failures don't stop the run)
+    const failureCount = await persistUpdates(
+      supabase,
+      'analysis_memory',
+      updates.map((update) => ({ ...update, graded_at: gradedAt })),
+      correlationId,
+    );
+    const wagerFailures = await persistUpdates(
+      supabase,
+      'wagers',
+      settlements.map((settlement) => ({ ...settlement, settled_at: gradedAt })),
+      correlationId,
+    );
+
+    // 6. Finalize
+    const graded = updates.length - failureCount;
+    const settled = settlements.length - wagerFailures;
+    const failures = failureCount + wagerFailures;
+    const durationMs = (performance.now() - startTime).toFixed(2);
+    log('INFO', 'Grading Run Complete', { correlationId, durationMs, graded, skipped, settled, failures });
+
+    let statusCode = 200;
+    if (failures > 0) statusCode = graded + settled > 0 ? 206 : 500;
+
+    return new Response(JSON.stringify({
+      success: failures === 0 || graded + settled > 0,
+      graded,
+      skipped,
+      settled,
+      failures,
+      correlationId,
+    }), {
+      status: statusCode,
+      headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error: unknown) {
+    return errorResponse(error, correlationId, startTime, CORS_HEADERS);
+  }
+}
+
+Deno.serve(handler);
@@ -0,0 +1,332 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { z } from 'zod';
+import { ConfigurationError, ApiError, DatabaseError, UpstreamSchemaError, authorizeCron, errorResponse } from '../_shared/errors.ts';
+import { log } from '../_shared/log.ts';
+import { loadTeamIndex, teamKey, type TeamIndex } from '../_shared/teams.ts';
+
+// Schedules and final scores for the leagues no other function writes, keyed by the Odds API
+// event id (the game_id picks and line snapshots carry). grade-picks, capture-closing-lines,
+// the performance dashboard and backtest-picks all read these tables.
+
+// =============================================================================
+// Configuration & Constants
+// =============================================================================
+const FETCH_TIMEOUT_MS = 8000;
+const DAYS_FROM = 3; // Odds API maximum: completed games from the last 3 days (costs 2 quota units)
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Season labels follow ESPN: college football and European soccer by the fall they start in
+// (bowls and the spring half land in the next year), college basketball by the spring it ends in
+const calendarYear = (start: Date) => String(start.getUTCFullYear());
+const fallSeason = (start: Date) => String(start.getUTCFullYear() - (start.getUTCMonth() < 6 ? 1 : 0));
+const springSeason = (start: Date) => String(start.getUTCFullYear() + (start.getUTCMonth() >= 6 ? 1 : 0));
+
+type League = 'MLB' | 'NCAAF' | 'NCAAB' | 'EPL' | 'MLS' | 'UCL';
+
+interface LeagueConfig {
+  table: string;
+  sportKey: string;
+  season: (start: Date) => string;
+  // Soccer: ESPN scoreboard used to settle on regulation time (soccer_games holds the 90' score)
+  espnPath?: string;
+}
+
+const LEAGUES: Record<League, LeagueConfig> = {
+  MLB: { table: 'mlb_games', sportKey: 'baseball_mlb', season: calendarYear },
+  NCAAF: { table: 'ncaaf_games', sportKey: 'americanfootball_ncaaf', season: fallSeason },
+  NCAAB: { table: 'ncaab_games', sportKey: 'basketball_ncaab', season: springSeason },
+  EPL: { table: 'soccer_games', sportKey: 'soccer_epl', season: fallSeason, espnPath: 'soccer/eng.1' },
+  MLS: { table: 'soccer_games', sportKey: 'soccer_usa_mls', season: calendarYear, espnPath: 'soccer/usa.1' },
+  UCL: { table: 'soccer_games', sportKey: 'soccer_uefa_champs_league', season: fallSeason, espnPath: 'soccer/uefa.champions' },
+};
+
+// ESPN statuses for matches that went past 90 minutes
+const EXTRA_TIME_STATUSES = new Set(['STATUS_FINAL_AET', 'STATUS_FINAL_PEN']);
+
+// =============================================================================
+// API Schema Definitions (Zod)
+// =============================================================================
+const ZScoreEvent = z.object({
+  id: z.string(),
+  commence_time: z.string(),
+  completed: z.boolean(),
+  home_team: z.string(),
+  away_team: z.string(),
+  scores: z.array(z.object({ name: z.string(), score: z.string() })).nullish(),
+  last_update: z.string().nullish(),
+});
+const ZScores = z.array(ZScoreEvent);
+
+// ESPN soccer scoreboard (only what the regulation check reads)
+const ZEspnCompetitor = z.object({
+  homeAway: z.enum(['home', 'away']),
+  team: z.object({ displayName: z.string() }),
+  linescores: z.array(z.object({ value: z.number() })).optional(),
+});
+const ZEspnScoreboard = z.object({
+  events: z.array(z.object({
+    competitions: z.array(z.object({
+      date: z.string(),
+      status: z.object({ type: z.object({ name: z.string() }) }),
+      competitors: z.array(ZEspnCompetitor),
+    })),
+  })).default([]),
+});
+
+// =============================================================================
+// Domain Types
+// =============================================================================
+type ScoreEvent = z.infer<typeof ZScoreEvent>;
+
+interface GameRow {
+  game_id: string;
+  season: string;
+  game_date: string;
+  start_time: string;
+  home_team: string;
+  away_team: string;
+  home_score: number | null;
+  away_score: number | null;
+  status: 'scheduled' | 'in_progress' | 'final';
+  game_data: Record<string, unknown>;
+  league?: League; // soccer_games holds every competition
+}
+
+// Regulation (90' + stoppage) score of a match that went to extra time
+interface RegulationScore {
+  home: number;
+  away: number;
+}
+
+// =============================================================================
+// Logic Modules
+// =============================================================================
+
+/**
+ * Module: Scores Fetcher
+ * Upcoming, live and recently completed events for one sport in a single call.
+ */
+async function fetchScores(apiKey: string, sportKey: string): Promise<ScoreEvent[]> {
+  const query = new URLSearchParams({ apiKey, daysFrom: String(DAYS_FROM), dateFormat: 'iso' });
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+
+  try {
+    const res = await fetch(`https://api.the-odds-api.com/v4/sports/${sportKey}/scores?${query}`, {
+      signal: controller.signal,
+    });
+    if (!res.ok) throw new ApiError(`Odds API scores ${res.status} for ${sportKey}`, res.status);
+    log('DEBUG', 'Odds API quota', { remaining: res.headers.get('x-requests-remaining') });
+
+    const parsed = ZScores.safeParse(await res.json());
+    if (!parsed.success) throw new UpstreamSchemaError(`Unexpected Odds API scores shape for ${sportKey}`, parsed.error.issues);
+    return parsed.data;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+// Same-day fixture identity across feeds: UTC date plus both canonical team ids
+const fixtureKey = (index: TeamIndex | null, startIso: string, home: string, away: string): string =>
+  `${startIso.substring(0, 10)}_${teamKey(index, home)}_vs_${teamKey(index, away)}`;
+
+// ESPN scoreboard dates are US Eastern: start a day early so late-UTC kickoffs are covered
+const espnDate = (ms: number) => new Date(ms).toISOString().substring(0, 10).replace(/-/g, '');
+
+/**
+ * Module: Regulation Scores
+ * The Odds API reports a match's final score, extra time included. soccer_games settles 1X2,
+ * draw no bet and handicaps on 90 minutes, so matches ESPN marks AET / PEN are re-scored from
+ * their first two halves. Keyed by fixtureKey; non-fatal (an empty map keeps the feed's score).
+ */
+async function fetchRegulationScores(
+  espnPath: string,
+  events: ScoreEvent[],
+  index: TeamIndex | null,
+): Promise<Map<string, RegulationScore>> {
+  const regulation = new Map<string, RegulationScore>();
+  const starts = events.map((e) => Date.parse(e.commence_time));
+  if (starts.length === 0) return regulation;
+  const from = espnDate(Math.min(...starts) - 86_400_000);
+  const to = espnDate(Math.max(...starts));
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+
+  try {
+    const res = await fetch(
+      `https://site.api.espn.com/apis/site/v2/sports/${espnPath}/scoreboard?dates=${from}-${to}&limit=300`,
+      { signal: controller.signal },
+    );
+    if (!res.ok) throw new ApiError(`ESPN scoreboard ${res.status} for ${espnPath}`, res.status);
+
+    const parsed = ZEspnScoreboard.safeParse(await res.json());
+    if (!parsed.success) throw new UpstreamSchemaError(`Unexpected ESPN scoreboard shape for ${espnPath}`, parsed.error.issues);
+
+    parsed.data.events.forEach((event) => {
+      const competition = event.competitions[0];
+      if (!competition || !EXTRA_TIME_STATUSES.has(competition.status.type.name)) return;
+
+      const home = competition.competitors.find((c) => c.homeAway === 'home');
+      const away = competition.competitors.find((c) => c.homeAway === 'away');
+      const halves = (c: typeof home) => c?.linescores?.slice(0, 2).reduce((sum, l) => sum + l.value, 0);
+      const homeGoals = halves(home);
+      const awayGoals = halves(away);
+      if (!home || !away || homeGoals === undefined || awayGoals === undefined) return;
+
+      regulation.set(
+        fixtureKey(index, competition.date, home.team.displayName, away.team.displayName),
+        { home: homeGoals, away: awayGoals },
+      );
+    });
+  } catch (err) {
+    log('WARN', `Regulation scores unavailable for ${espnPath}; keeping feed scores`, err);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+
+  return regulation;
+}
+
+/**
+ * Module: Row Builder
+ * Scores stay null until the game is live; the Odds API labels scores with the event's team names.
+ * A regulation score (soccer after extra time) replaces the feed's.
+ */
+function toGameRow(event: ScoreEvent, league: League, now: number, regulation?: RegulationScore): GameRow {
+  const { sportKey, season, espnPath } = LEAGUES[league];
+  const start = new Date(event.commence_time);
+  const scoreFor = (team: string) => {
+    const score = event.scores?.find((s) => s.name === team)?.score;
+    const value = score == null ? NaN : parseInt(score, 10);
+    return Number.isFinite(value) ? value : null;
+  };
+
+  let status: GameRow['status'] = 'scheduled';
+  if (event.completed) status = 'final';
+  else if (start.getTime() <= now) status = 'in_progress';
+
+  return {
+    game_id: event.id,
+    season: season(start),
+    game_date: event.commence_time.substring(0, 10),
+    start_time: start.toISOString(),
+    home_team: event.home_team,
+    away_team: event.away_team,
+    home_score: regulation?.home ?? scoreFor(event.home_team),
+    away_score: regulation?.away ?? scoreFor(event.away_team),
+    status,
+    game_data: {
+      sport_key: sportKey,
+      last_update: event.last_update ?? null,
+      ...(regulation && { extra_time: true }),
+    },
+    ...(espnPath ? { league } : {}),
+  };
+}
+
+/**
+ * Module: Persistence
+ * Upserts the league's window of games on game_id.
+ */
+async function syncLeague(supabase: SupabaseClient, apiKey: string, league: League) {
+  const { table, sportKey, espnPath } = LEAGUES[league];
+  const now = Date.now();
+
+  const events = await fetchScores(apiKey, sportKey);
+
+  // Soccer: completed matches that went to extra time settle on their 90' score
+  let regulation = new Map<string, RegulationScore>();
+  let index: TeamIndex | null = null;
+  const completed = events.filter((e) => e.completed);
+  if (espnPath && completed.length > 0) {
+    index = await loadTeamIndex(supabase, league);
+    regulation = await fetchRegulationScores(espnPath, completed, index);
+  }
+
+  const rows = events.map((event) =>
+    toGameRow(
+      event,
+      league,
+      now,
+      event.completed ? regulation.get(fixtureKey(index, event.commence_time, event.home_team, event.away_team)) : undefined,
+    ),
+  );
+  if (rows.length === 0) return { games: 0, final: 0 };
+
+  const { error } = await supabase.from(table).upsert(rows, { onConflict: 'game_id' });
+  if (error) throw new DatabaseError(`${table} upsert failed: ${error.message}`);
+
+  return { games: rows.length, final: rows.filter((r) => r.status === 'final').length };
+}
+
+// =============================================================================
+// Main Execution Handler
+// =============================================================================
+
+async function handler(req: Request): Promise<Response> {
+  if (req.method === 'OPTIONS') return new Response(null, { headers: CORS_HEADERS, status: 204 });
+
+  const correlationId = crypto.randomUUID();
+  const startTime = performance.now();
+  log('INFO', 'Game Score Sync Started', { correlationId });
+
+  try {
+    // 1. Environment Validation & Security
+    const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    const ODDS_API_KEY = Deno.env.get('ODDS_API_KEY');
+
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY || !ODDS_API_KEY) {
+      throw new ConfigurationError("Missing critical environment variables (Supabase or ODDS_API_KEY).");
+    }
+
+    authorizeCron(req, correlationId);
+
+    // Optional body: { leagues: ['EPL', 'UCL'] }; defaults to every league
+    const body = await req.json().catch(() => ({}));
+    const requested: League[] = Array.isArray(body?.leagues)
+      ? body.leagues.filter((l: string): l is League => l in LEAGUES)
+      : (Object.keys(LEAGUES) as League[]);
+
+    const supabase: SupabaseClient = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    // 2. Per league (one failure doesn't stop the others)
+    const results: Record<string, { games: number; final: number } | { error: string }> = {};
+    for (const league of requested) {
+      try {
+        results[league] = await syncLeague(supabase, ODDS_API_KEY, league);
+      } catch (err) {
+        log('ERROR', `Game score sync failed for ${league}`, err);
+        results[league] = { error: err instanceof Error ? err.message : String(err) };
+      }
+    }
+
+    // 3. Finalize
+    const failures = Object.values(results).filter((r) => 'error' in r).length;
+    const durationMs = (performance.now() - startTime).toFixed(2);
+    log('INFO', 'Game Score Sync Complete', { correlationId, durationMs, results });
+
+    let statusCode = 200;
+    if (failures > 0) statusCode = failures < requested.length ? 206 : 500;
+
+    return new Response(JSON.stringify({
+      success: failures < requested.length,
+      results,
+      correlationId,
+    }), {
+      status: statusCode,
+      headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error: unknown) {
+    return errorResponse(error, correlationId, startTime, CORS_HEADERS);
+  }
+}
+
+Deno.serve(handler);
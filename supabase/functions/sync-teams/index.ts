@@ -0,0 +1,196 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { recordAliases, type TeamLeague } from '../_shared/teams.ts';
+import { ConfigurationError, ApiError, DatabaseError, authorizeCron, errorResponse } from '../_shared/errors.ts';
+import { log } from '../_shared/log.ts';
+
+// =============================================================================
+// Configuration & Constants
+// =============================================================================
+const FETCH_TIMEOUT_MS = 8000;
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// ESPN standings carry every team with its conference (top-level group)
+const ESPN_PATHS: Record<TeamLeague, string> = {
+  NHL: 'hockey/nhl',
+  NFL: 'football/nfl',
+  NBA: 'basketball/nba',
+  MLB: 'baseball/mlb',
+  NCAAF: 'football/college-football',
+  NCAAB: 'basketball/mens-college-basketball',
+  EPL: 'soccer/eng.1',
+  MLS: 'soccer/usa.1',
+  UCL: 'soccer/uefa.champions',
+};
+
+// =============================================================================
+// Domain Types
+// =============================================================================
+interface EspnTeam {
+  id: string;
+  displayName: string;
+  shortDisplayName?: string;
+  abbreviation?: string;
+  location?: string;
+  name?: string;
+  logos?: { href: string }[];
+}
+
+interface EspnNode {
+  name?: string;
+  abbreviation?: string;
+  standings?: { entries?: { team?: EspnTeam }[] };
+  children?: EspnNode[];
+}
+
+interface TeamRow {
+  league: TeamLeague;
+  espn_id: string;
+  name: string;
+  short_name: string | null;
+  abbreviation: string;
+  conference: string | null;
+  logo_url: string | null;
+  updated_at: string;
+}
+
+// =============================================================================
+// Logic Modules
+// =============================================================================
+
+/**
+ * Module: Standings Fetcher
+ * Walks the standings tree; every team is tagged with its top-level group (conference).
+ */
+async function fetchEspnTeams(league: TeamLeague): Promise<{ team: EspnTeam; conference: string | null }[]> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+
+  try {
+    const res = await fetch(`https://site.api.espn.com/apis/v2/sports/${ESPN_PATHS[league]}/standings`, {
+      signal: controller.signal,
+    });
+    if (!res.ok) throw new ApiError(`ESPN standings ${res.status} for ${league}`, res.status);
+    const root: EspnNode = await res.json();
+
+    const found = new Map<string, { team: EspnTeam; conference: string | null }>();
+    const walk = (node: EspnNode, conference: string | null) => {
+      (node.standings?.entries || []).forEach((entry) => {
+        if (entry.team?.id && !found.has(entry.team.id)) found.set(entry.team.id, { team: entry.team, conference });
+      });
+      (node.children || []).forEach((child) => walk(child, conference ?? child.abbreviation ?? child.name ?? null));
+    };
+    walk(root, null);
+
+    return [...found.values()];
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Module: Persistence
+ * Upserts the league's teams, then registers every ESPN spelling as an alias.
+ */
+async function syncLeague(supabase: SupabaseClient, league: TeamLeague) {
+  const espnTeams = await fetchEspnTeams(league);
+  if (espnTeams.length === 0) return { teams: 0, aliases: 0 };
+
+  const updatedAt = new Date().toISOString();
+  const rows: TeamRow[] = espnTeams.map(({ team, conference }) => ({
+    league,
+    espn_id: team.id,
+    name: team.displayName,
+    short_name: team.shortDisplayName ?? null,
+    abbreviation: (team.abbreviation || team.displayName.substring(0, 3)).toUpperCase(),
+    conference,
+    logo_url: team.logos?.[0]?.href ?? null,
+    updated_at: updatedAt,
+  }));
+
+  const { data: saved, error } = await supabase
+    .from('teams')
+    .upsert(rows, { onConflict: 'league,espn_id' })
+    .select('id, espn_id');
+
+  if (error) throw new DatabaseError(`teams upsert failed for ${league}: ${error.message}`);
+
+  const idByEspn = new Map((saved || []).map((t: { id: string; espn_id: string }) => [t.espn_id, t.id]));
+  const aliases = espnTeams.flatMap(({ team }) => {
+    const teamId = idByEspn.get(team.id);
+    if (!teamId) return [];
+    const names = [team.displayName, team.shortDisplayName, team.abbreviation, [team.location, team.name].filter(Boolean).join(' ')];
+    return [...new Set(names.filter((n): n is string => !!n))].map((name) => ({ teamId, name }));
+  });
+
+  await recordAliases(supabase, league, aliases, 'espn');
+  return { teams: rows.length, aliases: aliases.length };
+}
+
+// =============================================================================
+// Main Execution Handler
+// =============================================================================
+
+async function handler(req: Request): Promise<Response> {
+  if (req.method === 'OPTIONS') return new Response(null, { headers: CORS_HEADERS, status: 204 });
+
+  const correlationId = crypto.randomUUID();
+  const startTime = performance.now();
+  log('INFO', 'Team Sync Started', { correlationId });
+
+  try {
+    // 1. Environment Validation & Security
+    const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+      throw new ConfigurationError("Missing critical environment variables (Supabase).");
+    }
+
+    authorizeCron(req, correlationId);
+
+    // Optional body: { leagues: ['NCAAF', 'NCAAB'] }; defaults to every league
+    const body = await req.json().catch(() => ({}));
+    const requested: TeamLeague[] = Array.isArray(body?.leagues)
+      ? body.leagues.filter((l: string): l is TeamLeague => l in ESPN_PATHS)
+      : (Object.keys(ESPN_PATHS) as TeamLeague[]);
+
+    const supabase: SupabaseClient = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    // 2. Per league (one failure doesn't stop the others)
+    const results: Record<string, { teams: number; aliases: number } | { error: string }> = {};
+    for (const league of requested) {
+      try {
+        results[league] = await syncLeague(supabase, league);
+      } catch (err) {
+        log('ERROR', `Team sync failed for ${league}`, err);
+        results[league] = { error: err instanceof Error ? err.message : String(err) };
+      }
+    }
+
+    // 3. Finalize
+    const failures = Object.values(results).filter((r) => 'error' in r).length;
+    const durationMs = (performance.now() - startTime).toFixed(2);
+    log('INFO', 'Team Sync Complete', { correlationId, durationMs, results });
+
+    let statusCode = 200;
+    if (failures > 0) statusCode = failures < requested.length ? 206 : 500;
+
+    return new Response(JSON.stringify({
+      success: failures < requested.length,
+      results,
+      correlationId,
+    }), {
+      status: statusCode,
+      headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error: unknown) {
+    return errorResponse(error, correlationId, startTime, CORS_HEADERS);
+  }
+}
+
+Deno.serve(handler);
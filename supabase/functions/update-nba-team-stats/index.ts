@@ -0,0 +1,148 @@
+import {
+  fetchStandings,
+  findStat,
+  round,
+  teamStatsHandler,
+  type EspnTeam,
+  type SeasonInfo,
+  type SeasonTypeString,
+  type StatCategory,
+} from '../_shared/espnTeamStats.ts';
+import { log } from '../_shared/log.ts';
+
+// =============================================================================
+// Configuration & Constants
+// =============================================================================
+const API_BASE = "https://site.api.espn.com/apis/site/v2/sports/basketball/nba";
+const STANDINGS_URL = "https://site.api.espn.com/apis/v2/sports/basketball/nba/standings";
+const EXPECTED_TEAMS = 30;
+
+// Free throws that end a possession (standard possession estimate coefficient)
+const FTA_POSSESSION_FACTOR = 0.44;
+
+// =============================================================================
+// Domain Types
+// =============================================================================
+interface ScoringLine {
+  gamesPlayed: number | null;
+  pointsFor: number | null; // Per game
+  pointsAgainst: number | null; // Per game
+}
+
+// Database Schema (Target)
+interface TeamStatsDBRecord {
+  team_id: string;
+  team_abbreviation: string;
+  season_year: number;
+  season_type: SeasonTypeString;
+  stat_date: string;
+  games_played: number | null;
+  points_per_game: number | null;
+  points_allowed_per_game: number | null;
+  // Possession-based (estimated from box-score totals)
+  pace: number | null;
+  offensive_rating: number | null;
+  defensive_rating: number | null;
+  net_rating: number | null;
+  // Four factors and shooting
+  effective_fg_pct: number | null;
+  turnover_pct: number | null;
+  free_throw_rate: number | null;
+  three_point_pct: number | null;
+  rebounds_per_game: number | null;
+  offensive_rebounds_per_game: number | null;
+  last_updated: string;
+}
+
+// =============================================================================
+// Logic Modules
+// =============================================================================
+
+/**
+ * Module: Scoring Lines
+ * Points for / against per game from the standings (team statistics omit opponent scoring).
+ * Non-fatal: an empty map leaves the ratings null.
+ */
+async function fetchScoringLines(): Promise<Map<string, ScoringLine>> {
+  try {
+    return await fetchStandings(STANDINGS_URL, (stat) => ({
+      gamesPlayed: stat('gamesPlayed'),
+      pointsFor: stat('avgPointsFor'),
+      pointsAgainst: stat('avgPointsAgainst'),
+    }));
+  } catch (err) {
+    log('WARN', 'Standings unavailable; ratings will be null', err);
+    return new Map();
+  }
+}
+
+/**
+ * Module: Stat Normalizer
+ * Maps validated ESPN statistics to the DB schema. Pace and ratings use the standard
+ * possession estimate: FGA - OREB + TOV + 0.44 * FTA (per game). This layer must be highly defensive.
+ */
+function buildRow(
+  team: EspnTeam,
+  seasonInfo: SeasonInfo,
+  categories: StatCategory[],
+  scoringLines: Map<string, ScoringLine>,
+  updatedAt: string,
+): TeamStatsDBRecord {
+  const scoring = scoringLines.get(team.id);
+  const stat = (...names: string[]) => findStat(categories, ...names);
+
+  const gamesPlayed = scoring?.gamesPlayed ?? stat('gamesPlayed');
+  const fga = stat('avgFieldGoalsAttempted');
+  const fgm = stat('avgFieldGoalsMade');
+  const threesMade = stat('avgThreePointFieldGoalsMade');
+  const fta = stat('avgFreeThrowsAttempted');
+  const oreb = stat('avgOffensiveRebounds');
+  const tov = stat('avgTurnovers', 'avgTotalTurnovers');
+
+  const possessions = fga !== null && oreb !== null && tov !== null && fta !== null
+    ? fga - oreb + tov + FTA_POSSESSION_FACTOR * fta
+    : null;
+
+  const pointsFor = scoring?.pointsFor ?? stat('avgPoints');
+  const pointsAgainst = scoring?.pointsAgainst ?? null;
+  const rating = (points: number | null) => (points !== null && possessions ? (points / possessions) * 100 : null);
+  const offensiveRating = rating(pointsFor);
+  const defensiveRating = rating(pointsAgainst); // Opponent possessions ≈ own possessions over a season
+
+  return {
+    team_id: team.id,
+    team_abbreviation: team.abbreviation,
+    season_year: seasonInfo.year,
+    season_type: seasonInfo.seasonTypeString,
+    stat_date: seasonInfo.statDate,
+    games_played: gamesPlayed,
+    points_per_game: round(pointsFor),
+    points_allowed_per_game: round(pointsAgainst),
+    pace: round(possessions),
+    offensive_rating: round(offensiveRating),
+    defensive_rating: round(defensiveRating),
+    net_rating: offensiveRating !== null && defensiveRating !== null ? round(offensiveRating - defensiveRating) : null,
+    effective_fg_pct: fga && fgm !== null && threesMade !== null ? round(((fgm + 0.5 * threesMade) / fga) * 100) : null,
+    turnover_pct: possessions && tov !== null ? round((tov / possessions) * 100) : null,
+    free_throw_rate: fga && fta !== null ? round(fta / fga, 3) : null,
+    three_point_pct: round(stat('threePointFieldGoalPct', 'threePointPct')),
+    rebounds_per_game: round(stat('avgRebounds', 'avgTotalRebounds')),
+    offensive_rebounds_per_game: round(oreb),
+    last_updated: updatedAt,
+  };
+}
+
+// =============================================================================
+// Main Execution Handler
+// =============================================================================
+
+// One row per team per sports day
+Deno.serve(teamStatsHandler({
+  league: 'NBA',
+  apiBase: API_BASE,
+  table: 'nba_team_stats',
+  onConflict: 'team_id,season_year,season_type,stat_date',
+  expectedTeams: EXPECTED_TEAMS,
+  loadContext: fetchScoringLines,
+  buildRow,
+}));
@@ -0,0 +1,130 @@
+import {
+  fetchStandings,
+  findStat,
+  round,
+  teamStatsHandler,
+  type EspnTeam,
+  type SeasonInfo,
+  type SeasonTypeString,
+  type StatCategory,
+} from '../_shared/espnTeamStats.ts';
+import { log } from '../_shared/log.ts';
+
+// =============================================================================
+// Configuration & Constants
+// =============================================================================
+const API_BASE = "https://site.api.espn.com/apis/site/v2/sports/hockey/nhl";
+const STANDINGS_URL = "https://site.api.espn.com/apis/v2/sports/hockey/nhl/standings";
+const EXPECTED_TEAMS = 32;
+
+// =============================================================================
+// Domain Types
+// =============================================================================
+interface ScoringLine {
+  gamesPlayed: number | null;
+  goalsFor: number | null; // Per game
+  goalsAgainst: number | null; // Per game
+}
+
+// Database Schema (Target)
+interface TeamStatsDBRecord {
+  team_id: string;
+  team_abbreviation: string;
+  season_year: number;
+  season_type: SeasonTypeString;
+  stat_date: string;
+  games_played: number | null;
+  goals_per_game: number | null;
+  goals_against_per_game: number | null;
+  // Special teams
+  power_play_pct: number | null;
+  penalty_kill_pct: number | null;
+  // Shot volume and goaltending (ESPN publishes no xG or Corsi; shot share is the proxy)
+  shots_per_game: number | null;
+  shots_against_per_game: number | null;
+  shot_share_pct: number | null;
+  save_pct: number | null;
+  faceoff_win_pct: number | null;
+  last_updated: string;
+}
+
+// =============================================================================
+// Logic Modules
+// =============================================================================
+
+/**
+ * Module: Scoring Lines
+ * Goals for / against per game from the standings (hockey standings report goals as points).
+ * Non-fatal: an empty map falls back to the team statistics.
+ */
+async function fetchScoringLines(): Promise<Map<string, ScoringLine>> {
+  try {
+    return await fetchStandings(STANDINGS_URL, (stat) => {
+      const gamesPlayed = stat('gamesPlayed');
+      const perGame = (total: number | null) => (total !== null && gamesPlayed ? total / gamesPlayed : null);
+      return {
+        gamesPlayed,
+        goalsFor: stat('avgPointsFor') ?? perGame(stat('pointsFor')),
+        goalsAgainst: stat('avgPointsAgainst') ?? perGame(stat('pointsAgainst')),
+      };
+    });
+  } catch (err) {
+    log('WARN', 'Standings unavailable; using team statistics for goals', err);
+    return new Map();
+  }
+}
+
+/**
+ * Module: Stat Normalizer
+ * Maps validated ESPN statistics to the DB schema. Percentages are stored 0-100
+ * (save percentage stays a 0-1 fraction, as quoted). This layer must be highly defensive.
+ */
+function buildRow(
+  team: EspnTeam,
+  seasonInfo: SeasonInfo,
+  categories: StatCategory[],
+  scoringLines: Map<string, ScoringLine>,
+  updatedAt: string,
+): TeamStatsDBRecord {
+  const scoring = scoringLines.get(team.id);
+  const stat = (...names: string[]) => findStat(categories, ...names);
+
+  const shotsFor = stat('avgShots', 'shotsPerGame');
+  const shotsAgainst = stat('avgShotsAgainst', 'shotsAgainstPerGame');
+
+  return {
+    team_id: team.id,
+    team_abbreviation: team.abbreviation,
+    season_year: seasonInfo.year,
+    season_type: seasonInfo.seasonTypeString,
+    stat_date: seasonInfo.statDate,
+    games_played: scoring?.gamesPlayed ?? stat('games', 'gamesPlayed'),
+    goals_per_game: round(scoring?.goalsFor ?? stat('avgGoals', 'goalsPerGame'), 2),
+    goals_against_per_game: round(scoring?.goalsAgainst ?? stat('avgGoalsAgainst', 'goalsAgainstAverage'), 2),
+    power_play_pct: round(stat('powerPlayPct', 'powerPlayPercentage')),
+    penalty_kill_pct: round(stat('penaltyKillPct', 'penaltyKillPercentage')),
+    shots_per_game: round(shotsFor),
+    shots_against_per_game: round(shotsAgainst),
+    shot_share_pct: shotsFor !== null && shotsAgainst !== null && shotsFor + shotsAgainst > 0
+      ? round((shotsFor / (shotsFor + shotsAgainst)) * 100)
+      : null,
+    save_pct: round(stat('savePct', 'savePercentage'), 3),
+    faceoff_win_pct: round(stat('faceoffPercent', 'faceoffsWonPct', 'faceoffWinPct')),
+    last_updated: updatedAt,
+  };
+}
+
+// =============================================================================
+// Main Execution Handler
+// =============================================================================
+
+// One row per team per sports day
+Deno.serve(teamStatsHandler({
+  league: 'NHL',
+  apiBase: API_BASE,
+  table: 'nhl_team_stats',
+  onConflict: 'team_id,season_year,season_type,stat_date',
+  expectedTeams: EXPECTED_TEAMS,
+  loadContext: fetchScoringLines,
+  buildRow,
+}));
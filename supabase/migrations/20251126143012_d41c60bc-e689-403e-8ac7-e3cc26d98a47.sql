@@ -0,0 +1,57 @@
+-- Create per-user wager ledger (bet slip persistence)
+CREATE TABLE IF NOT EXISTS public.wagers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  game_id TEXT NOT NULL,
+  league public.sport_league NOT NULL,
+  market_type public.betting_market_type NOT NULL,
+  side TEXT NOT NULL CHECK (side IN ('away', 'home', 'over', 'under')),
+  selection TEXT NOT NULL,  -- Display label, e.g. 'BOS -1.5', 'Over 6.5'
+  line NUMERIC,             -- Spread / total number; null for moneyline
+  odds INTEGER NOT NULL,    -- American price at placement
+  book TEXT NOT NULL,       -- Bookmaker key, e.g. 'draftkings'
+  stake NUMERIC(12, 2) NOT NULL CHECK (stake > 0),
+  to_win NUMERIC(12, 2) NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'won', 'lost', 'push', 'void')),
+  game_start TIMESTAMPTZ,
+  settled_at TIMESTAMPTZ,
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.wagers ENABLE ROW LEVEL SECURITY;
+
+-- Owner-only access (mirrors ai_conversations)
+CREATE POLICY "Users can view their own wagers"
+  ON public.wagers
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own wagers"
+  ON public.wagers
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own wagers"
+  ON public.wagers
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own wagers"
+  ON public.wagers
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Create indexes for performance
+CREATE INDEX idx_wagers_user_created ON public.wagers(user_id, created_at DESC);
+CREATE INDEX idx_wagers_game_id ON public.wagers(game_id);
+CREATE INDEX idx_wagers_status ON public.wagers(status) WHERE status = 'pending';
+
+-- Trigger to update updated_at
+CREATE TRIGGER update_wagers_updated_at
+  BEFORE UPDATE ON public.wagers
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,15 @@
+-- Persisted grading results for AI picks (written by the grade-picks edge function)
+ALTER TABLE public.analysis_memory
+  ADD COLUMN IF NOT EXISTS result TEXT CHECK (result IN ('win', 'loss', 'push')),
+  ADD COLUMN IF NOT EXISTS result_margin NUMERIC,   -- Cover / total margin from the pick's perspective
+  ADD COLUMN IF NOT EXISTS units_won NUMERIC,       -- Risk 1 unit: +profit on win, -1 on loss, 0 on push
+  ADD COLUMN IF NOT EXISTS graded_line NUMERIC,     -- Spread / total the pick was graded against
+  ADD COLUMN IF NOT EXISTS graded_at TIMESTAMPTZ;
+
+-- Grader scans for ungraded rows; keep that lookup cheap
+CREATE INDEX IF NOT EXISTS idx_analysis_memory_ungraded
+ON analysis_memory(created_at)
+WHERE graded_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_analysis_memory_result
+ON analysis_memory(sport, market_type, result);
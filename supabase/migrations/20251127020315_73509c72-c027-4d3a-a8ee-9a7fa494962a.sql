@@ -0,0 +1,13 @@
+-- Closing line capture + CLV for AI picks (written by capture-closing-lines at game start)
+ALTER TABLE public.analysis_memory
+  ADD COLUMN IF NOT EXISTS closing_odds INTEGER,            -- American price on the picked side at close
+  ADD COLUMN IF NOT EXISTS closing_opposite_odds INTEGER,   -- Other side of the same market (for no-vig)
+  ADD COLUMN IF NOT EXISTS closing_line NUMERIC,            -- Spread / total at close, picked side's perspective
+  ADD COLUMN IF NOT EXISTS closing_book TEXT,
+  ADD COLUMN IF NOT EXISTS clv_price NUMERIC,               -- % better payout than close: (taken_dec / close_dec - 1) * 100
+  ADD COLUMN IF NOT EXISTS clv_prob NUMERIC,                -- pp: no-vig close probability - break-even probability taken
+  ADD COLUMN IF NOT EXISTS closing_captured_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_analysis_memory_clv
+ON analysis_memory(sport, market_type)
+WHERE clv_prob IS NOT NULL;
@@ -0,0 +1,30 @@
+-- Per-book, per-market price time series (appended by fetch-odds, read by get-line-history)
+CREATE TABLE IF NOT EXISTS public.line_snapshots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  game_id TEXT NOT NULL,          -- Odds API event id
+  sport TEXT NOT NULL,            -- Odds API sport key, e.g. 'icehockey_nhl'
+  book TEXT NOT NULL,             -- Bookmaker key, e.g. 'draftkings'
+  market TEXT NOT NULL CHECK (market IN ('h2h', 'spreads', 'totals')),
+  home_price INTEGER,             -- h2h / spreads
+  away_price INTEGER,
+  home_point NUMERIC,             -- spreads: home handicap (away = -home_point)
+  over_price INTEGER,             -- totals
+  under_price INTEGER,
+  total_point NUMERIC,
+  commence_time TIMESTAMPTZ,
+  captured_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.line_snapshots ENABLE ROW LEVEL SECURITY;
+
+-- Market data is public; writes go through the service role only
+CREATE POLICY "Anyone can view line snapshots"
+  ON public.line_snapshots
+  FOR SELECT
+  USING (true);
+
+-- Create indexes for performance
+CREATE INDEX idx_line_snapshots_game_captured ON public.line_snapshots(game_id, captured_at);
+CREATE INDEX idx_line_snapshots_game_book_market ON public.line_snapshots(game_id, book, market, captured_at DESC);
+CREATE INDEX idx_line_snapshots_captured ON public.line_snapshots(captured_at DESC);
@@ -0,0 +1,10 @@
+-- Per-user bankroll model for staking recommendations (read by useBankrollSettings)
+ALTER TABLE public.user_settings
+  ADD COLUMN IF NOT EXISTS bankroll NUMERIC(12, 2) CHECK (bankroll IS NULL OR bankroll >= 0),
+  ADD COLUMN IF NOT EXISTS unit_size NUMERIC(12, 2) CHECK (unit_size IS NULL OR unit_size > 0),
+  ADD COLUMN IF NOT EXISTS staking_strategy TEXT DEFAULT 'capped_kelly'
+    CHECK (staking_strategy IN ('flat', 'kelly', 'fractional_kelly', 'capped_kelly')),
+  ADD COLUMN IF NOT EXISTS kelly_fraction NUMERIC(4, 3) DEFAULT 0.25
+    CHECK (kelly_fraction > 0 AND kelly_fraction <= 1),    -- Multiplier on full Kelly
+  ADD COLUMN IF NOT EXISTS max_stake_pct NUMERIC(5, 2) DEFAULT 3
+    CHECK (max_stake_pct > 0 AND max_stake_pct <= 100);    -- Cap as % of bankroll (capped Kelly)
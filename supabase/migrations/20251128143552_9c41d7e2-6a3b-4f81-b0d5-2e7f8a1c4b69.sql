@@ -0,0 +1,9 @@
+-- Side-specific pricing for generated picks (written by generate-pick)
+ALTER TABLE public.analysis_memory
+  ADD COLUMN IF NOT EXISTS pick_outcome TEXT
+    CHECK (pick_outcome IS NULL OR pick_outcome IN ('away', 'home', 'over', 'under')),
+  ADD COLUMN IF NOT EXISTS line_at_generation NUMERIC,      -- Spread / total on the picked side; null for moneyline
+  ADD COLUMN IF NOT EXISTS book_at_generation TEXT;         -- Book that quoted odds_at_generation
+
+COMMENT ON COLUMN public.analysis_memory.pick_outcome IS
+  'Picked side of the market. Graders and CLV capture prefer this over parsing pick_side.';
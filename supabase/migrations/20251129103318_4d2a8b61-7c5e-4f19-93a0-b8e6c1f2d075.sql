@@ -0,0 +1,34 @@
+-- Latest player prop board per game and book (written by fetch-props, read by the props panel
+-- and generate-pick). One-sided "anytime" markets are stored as Over/Under 0.5 (Yes/No).
+CREATE TABLE IF NOT EXISTS public.player_props (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  game_id TEXT NOT NULL,          -- Odds API event id
+  sport TEXT NOT NULL,            -- Odds API sport key, e.g. 'basketball_nba'
+  book TEXT NOT NULL,             -- Bookmaker key, e.g. 'draftkings'
+  market TEXT NOT NULL,           -- Odds API prop market key, e.g. 'player_points'
+  player_name TEXT NOT NULL,
+  line NUMERIC NOT NULL,
+  over_price INTEGER,
+  under_price INTEGER,
+  commence_time TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (game_id, book, market, player_name)
+);
+
+-- Enable RLS
+ALTER TABLE public.player_props ENABLE ROW LEVEL SECURITY;
+
+-- Market data is public; writes go through the service role only
+CREATE POLICY "Anyone can view player props"
+  ON public.player_props
+  FOR SELECT
+  USING (true);
+
+-- Create indexes for performance
+CREATE INDEX idx_player_props_game ON public.player_props(game_id, market, player_name);
+CREATE INDEX idx_player_props_updated ON public.player_props(game_id, updated_at DESC);
+
+-- Prop picks: which player / market the pick is on (line_at_generation holds the line)
+ALTER TABLE public.analysis_memory
+  ADD COLUMN IF NOT EXISTS prop_player TEXT,
+  ADD COLUMN IF NOT EXISTS prop_market TEXT;
@@ -0,0 +1,5 @@
+-- Period scope for wagers (full game, first half, first quarter, first period, ...).
+-- Keys match the Odds API market suffixes used by fetch-odds (h2h_h1, spreads_q1, totals_p1).
+ALTER TABLE public.wagers
+  ADD COLUMN IF NOT EXISTS period TEXT NOT NULL DEFAULT 'game'
+    CHECK (period IN ('game', 'h1', 'h2', 'q1', 'q2', 'q3', 'q4', 'p1', 'p2', 'p3'));
@@ -0,0 +1,34 @@
+-- MLB support: league enum value and a game table shaped like nba_games / nhl_games
+-- (read by grade-picks, capture-closing-lines and the performance dashboard).
+ALTER TYPE public.sport_league ADD VALUE IF NOT EXISTS 'MLB';
+
+CREATE TABLE IF NOT EXISTS public.mlb_games (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  game_id TEXT NOT NULL UNIQUE,
+  season TEXT NOT NULL,
+  game_date DATE NOT NULL,
+  start_time TIMESTAMPTZ NOT NULL,
+  home_team TEXT NOT NULL,
+  away_team TEXT NOT NULL,
+  home_score INTEGER,
+  away_score INTEGER,
+  status TEXT NOT NULL DEFAULT 'scheduled',
+  inning INTEGER,                 -- Current inning while live
+  venue TEXT,
+  game_data JSONB,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.mlb_games ENABLE ROW LEVEL SECURITY;
+
+-- Schedule data is public; writes go through the service role only
+CREATE POLICY "Anyone can view MLB games"
+  ON public.mlb_games
+  FOR SELECT
+  USING (true);
+
+-- Create indexes for performance
+CREATE INDEX idx_mlb_games_start_time ON public.mlb_games(start_time DESC);
+CREATE INDEX idx_mlb_games_date ON public.mlb_games(game_date);
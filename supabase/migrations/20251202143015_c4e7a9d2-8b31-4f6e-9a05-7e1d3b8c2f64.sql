@@ -0,0 +1,98 @@
+-- College leagues
+ALTER TYPE public.sport_league ADD VALUE IF NOT EXISTS 'NCAAF';
+ALTER TYPE public.sport_league ADD VALUE IF NOT EXISTS 'NCAAB';
+
+-- Canonical teams per league (ESPN is the reference; written by sync-teams)
+CREATE TABLE IF NOT EXISTS public.teams (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  league public.sport_league NOT NULL,
+  espn_id TEXT NOT NULL,
+  name TEXT NOT NULL,             -- ESPN display name, e.g. 'Alabama Crimson Tide'
+  short_name TEXT,                -- e.g. 'Alabama'
+  abbreviation TEXT NOT NULL,     -- Board abbreviation, e.g. 'ALA'
+  conference TEXT,                -- e.g. 'SEC', 'AFC'
+  logo_url TEXT,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (league, espn_id)
+);
+
+-- Every spelling a feed uses for a team, normalized (lowercase, no accents or punctuation).
+-- fetch-odds resolves Odds API and ESPN names through this table and records aliases it learns.
+CREATE TABLE IF NOT EXISTS public.team_aliases (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id UUID NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  league public.sport_league NOT NULL,
+  alias TEXT NOT NULL,
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('espn', 'odds_api', 'manual')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (league, alias)
+);
+
+-- College game tables, shaped like nfl_games / nba_games
+CREATE TABLE IF NOT EXISTS public.ncaaf_games (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  game_id TEXT NOT NULL UNIQUE,
+  season TEXT NOT NULL,
+  week INTEGER NOT NULL,
+  game_date DATE NOT NULL,
+  start_time TIMESTAMPTZ NOT NULL,
+  home_team TEXT NOT NULL,
+  away_team TEXT NOT NULL,
+  home_score INTEGER,
+  away_score INTEGER,
+  status TEXT NOT NULL DEFAULT 'scheduled',
+  venue TEXT,
+  game_data JSONB,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.ncaab_games (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  game_id TEXT NOT NULL UNIQUE,
+  season TEXT NOT NULL,
+  game_date DATE NOT NULL,
+  start_time TIMESTAMPTZ NOT NULL,
+  home_team TEXT NOT NULL,
+  away_team TEXT NOT NULL,
+  home_score INTEGER,
+  away_score INTEGER,
+  status TEXT NOT NULL DEFAULT 'scheduled',
+  venue TEXT,
+  game_data JSONB,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.teams ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.team_aliases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ncaaf_games ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ncaab_games ENABLE ROW LEVEL SECURITY;
+
+-- Reference and schedule data are public; writes go through the service role only
+CREATE POLICY "Anyone can view teams"
+  ON public.teams
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Anyone can view team aliases"
+  ON public.team_aliases
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Anyone can view NCAAF games"
+  ON public.ncaaf_games
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Anyone can view NCAAB games"
+  ON public.ncaab_games
+  FOR SELECT
+  USING (true);
+
+-- Create indexes for performance
+CREATE INDEX idx_teams_league_conference ON public.teams(league, conference);
+CREATE INDEX idx_team_aliases_team ON public.team_aliases(team_id);
+CREATE INDEX idx_ncaaf_games_start_time ON public.ncaaf_games(start_time DESC);
+CREATE INDEX idx_ncaab_games_start_time ON public.ncaab_games(start_time DESC);
@@ -0,0 +1,51 @@
+-- Soccer leagues
+ALTER TYPE public.sport_league ADD VALUE IF NOT EXISTS 'EPL';
+ALTER TYPE public.sport_league ADD VALUE IF NOT EXISTS 'MLS';
+ALTER TYPE public.sport_league ADD VALUE IF NOT EXISTS 'UCL';
+
+-- One table for every competition; clubs can appear in a domestic league and the Champions League
+CREATE TABLE IF NOT EXISTS public.soccer_games (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  game_id TEXT NOT NULL UNIQUE,
+  league public.sport_league NOT NULL,
+  season TEXT NOT NULL,
+  matchday INTEGER,               -- Null for knockout rounds
+  game_date DATE NOT NULL,
+  start_time TIMESTAMPTZ NOT NULL,
+  home_team TEXT NOT NULL,
+  away_team TEXT NOT NULL,
+  home_score INTEGER,             -- Regulation (90' + stoppage); 1X2 and handicaps settle on it
+  away_score INTEGER,
+  status TEXT NOT NULL DEFAULT 'scheduled',
+  venue TEXT,
+  game_data JSONB,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.soccer_games ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view soccer games"
+  ON public.soccer_games
+  FOR SELECT
+  USING (true);
+
+-- Three-way moneylines: the draw is a pickable (and bettable) outcome
+ALTER TABLE public.analysis_memory DROP CONSTRAINT IF EXISTS analysis_memory_pick_outcome_check;
+ALTER TABLE public.analysis_memory
+  ADD CONSTRAINT analysis_memory_pick_outcome_check
+    CHECK (pick_outcome IS NULL OR pick_outcome IN ('away', 'home', 'draw', 'over', 'under'));
+
+ALTER TABLE public.wagers DROP CONSTRAINT IF EXISTS wagers_side_check;
+ALTER TABLE public.wagers
+  ADD CONSTRAINT wagers_side_check CHECK (side IN ('away', 'home', 'draw', 'over', 'under'));
+
+-- Asian handicap quarter lines settle half the stake on each neighbouring line
+ALTER TABLE public.analysis_memory DROP CONSTRAINT IF EXISTS analysis_memory_result_check;
+ALTER TABLE public.analysis_memory
+  ADD CONSTRAINT analysis_memory_result_check
+    CHECK (result IN ('win', 'loss', 'push', 'half_win', 'half_loss'));
+
+-- Create indexes for performance
+CREATE INDEX idx_soccer_games_league_start_time ON public.soccer_games(league, start_time DESC);
@@ -0,0 +1,66 @@
+-- Daily team stat snapshots for NBA / NHL (written by update-nba-team-stats / update-nhl-team-stats).
+-- One row per team per sports day; generate-pick reads the latest row for each side of a game.
+CREATE TABLE IF NOT EXISTS public.nba_team_stats (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id TEXT NOT NULL,                 -- ESPN team id
+  team_abbreviation TEXT NOT NULL,       -- Board abbreviation, e.g. 'BOS'
+  season_year INTEGER NOT NULL,
+  season_type TEXT NOT NULL CHECK (season_type IN ('preseason', 'regular', 'postseason', 'offseason')),
+  stat_date DATE NOT NULL,
+  games_played INTEGER,
+  points_per_game NUMERIC,
+  points_allowed_per_game NUMERIC,
+  pace NUMERIC,                          -- Estimated possessions per game
+  offensive_rating NUMERIC,              -- Points per 100 possessions
+  defensive_rating NUMERIC,
+  net_rating NUMERIC,
+  effective_fg_pct NUMERIC,
+  turnover_pct NUMERIC,
+  free_throw_rate NUMERIC,               -- FTA / FGA
+  three_point_pct NUMERIC,
+  rebounds_per_game NUMERIC,
+  offensive_rebounds_per_game NUMERIC,
+  last_updated TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (team_id, season_year, season_type, stat_date)
+);
+
+CREATE TABLE IF NOT EXISTS public.nhl_team_stats (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id TEXT NOT NULL,
+  team_abbreviation TEXT NOT NULL,
+  season_year INTEGER NOT NULL,
+  season_type TEXT NOT NULL CHECK (season_type IN ('preseason', 'regular', 'postseason', 'offseason')),
+  stat_date DATE NOT NULL,
+  games_played INTEGER,
+  goals_per_game NUMERIC,
+  goals_against_per_game NUMERIC,
+  power_play_pct NUMERIC,
+  penalty_kill_pct NUMERIC,
+  shots_per_game NUMERIC,
+  shots_against_per_game NUMERIC,
+  shot_share_pct NUMERIC,                -- Shots for / (for + against); stands in for Corsi
+  save_pct NUMERIC,                      -- 0-1, as quoted
+  faceoff_win_pct NUMERIC,
+  last_updated TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (team_id, season_year, season_type, stat_date)
+);
+
+-- Enable RLS
+ALTER TABLE public.nba_team_stats ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.nhl_team_stats ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view NBA team stats"
+  ON public.nba_team_stats
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Anyone can view NHL team stats"
+  ON public.nhl_team_stats
+  FOR SELECT
+  USING (true);
+
+-- Latest snapshot per team
+CREATE INDEX idx_nba_team_stats_abbreviation_updated ON public.nba_team_stats(team_abbreviation, last_updated DESC);
+CREATE INDEX idx_nhl_team_stats_abbreviation_updated ON public.nhl_team_stats(team_abbreviation, last_updated DESC);
@@ -0,0 +1,57 @@
+-- Pick generator backtests (written by backtest-picks). A run replays historical games and
+-- opening lines through the live prompt with one model; its picks are graded with grade-picks'
+-- rules and measured against the close. prompt_hash ties each run to the prompt it measured.
+CREATE TABLE IF NOT EXISTS public.backtest_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  label TEXT,
+  model TEXT NOT NULL,                   -- e.g. 'gemini-3-pro-preview', 'stub-chalk'
+  prompt_hash TEXT NOT NULL,             -- Short SHA-256 of the system prompt template
+  league TEXT NOT NULL,
+  params JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+  summary JSONB,                         -- Record, ROI, CLV and calibration; set on completion
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE TABLE IF NOT EXISTS public.backtest_picks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id UUID NOT NULL REFERENCES public.backtest_runs(id) ON DELETE CASCADE,
+  game_id TEXT NOT NULL,
+  game_date DATE NOT NULL,
+  market_type TEXT NOT NULL CHECK (market_type IN ('moneyline', 'spread', 'total')),
+  side TEXT,                             -- NULL when the model failed or picked off the menu
+  pick_side TEXT,
+  confidence INTEGER,
+  price INTEGER,                         -- Opening price the model was offered
+  line NUMERIC,
+  closing_price INTEGER,
+  closing_line NUMERIC,
+  result TEXT,
+  units_won NUMERIC,
+  clv_prob NUMERIC,                      -- Moneyline: no-vig close minus break-even (pp)
+  clv_line NUMERIC,                      -- Spread / total: points gained on the close
+  reasoning TEXT,
+  error TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (run_id, game_id, market_type)
+);
+
+-- Enable RLS
+ALTER TABLE public.backtest_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.backtest_picks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view backtest runs"
+  ON public.backtest_runs
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Anyone can view backtest picks"
+  ON public.backtest_picks
+  FOR SELECT
+  USING (true);
+
+-- Latest runs first; picks are read per run
+CREATE INDEX IF NOT EXISTS idx_backtest_runs_created_at ON public.backtest_runs(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_backtest_picks_run_id ON public.backtest_picks(run_id);
@@ -0,0 +1,58 @@
+-- Similarity search over past pick analyses (reasoning_embedding, text-embedding-004).
+-- ai-chat-router embeds the user's question and pulls the closest graded analyses for the
+-- teams it mentions. filter_teams holds ILIKE patterns matched against the pick label and
+-- the reasoning, since analysis_memory stores no team columns.
+CREATE OR REPLACE FUNCTION public.match_analysis_memory(
+  query_embedding vector(768),
+  match_count INTEGER DEFAULT 5,
+  match_threshold DOUBLE PRECISION DEFAULT 0.5,
+  filter_teams TEXT[] DEFAULT NULL,
+  filter_sport TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  game_id TEXT,
+  sport TEXT,
+  market_type TEXT,
+  pick_side TEXT,
+  confidence_score INTEGER,
+  reasoning_text TEXT,
+  result TEXT,
+  units_won NUMERIC,
+  clv_prob NUMERIC,
+  created_at TIMESTAMPTZ,
+  similarity DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    am.id,
+    am.game_id,
+    am.sport::TEXT,
+    am.market_type::TEXT,
+    am.pick_side,
+    am.confidence_score,
+    am.reasoning_text,
+    am.result,
+    am.units_won,
+    am.clv_prob,
+    am.created_at,
+    1 - (am.reasoning_embedding <=> query_embedding) AS similarity
+  FROM public.analysis_memory am
+  WHERE am.reasoning_embedding IS NOT NULL
+    AND (filter_sport IS NULL OR am.sport::TEXT = filter_sport)
+    AND (
+      filter_teams IS NULL
+      OR am.pick_side ILIKE ANY (filter_teams)
+      OR am.reasoning_text ILIKE ANY (filter_teams)
+    )
+    AND 1 - (am.reasoning_embedding <=> query_embedding) >= match_threshold
+  ORDER BY am.reasoning_embedding <=> query_embedding
+  LIMIT match_count;
+$$;
+
+-- Cosine-distance index for the ORDER BY above
+CREATE INDEX IF NOT EXISTS idx_analysis_memory_reasoning_embedding
+  ON public.analysis_memory USING hnsw (reasoning_embedding vector_cosine_ops);
@@ -0,0 +1,9 @@
+-- Structured pick rationale (generate-pick): weighted factors, key risks, projected score and
+-- the model's fair price / line. reasoning_text stays as the prose summary that gets embedded.
+-- NULL on picks generated before the breakdown existed, or when the model's breakdown failed validation.
+ALTER TABLE public.analysis_memory
+  ADD COLUMN IF NOT EXISTS rationale JSONB;
+
+-- Backtests keep the breakdown too, so prompt changes can be audited factor by factor
+ALTER TABLE public.backtest_picks
+  ADD COLUMN IF NOT EXISTS rationale JSONB;
@@ -0,0 +1,39 @@
+-- Ensemble picks (generate-pick with ensemble: true): every configured provider answers the
+-- same prompt and the stored pick is the consensus. analysis_memory.ensemble holds the
+-- aggregate (agreement, mean / median / trimmed confidence, disagreement flag); NULL on
+-- single-model picks.
+ALTER TABLE public.analysis_memory
+  ADD COLUMN IF NOT EXISTS ensemble JSONB;
+
+-- One row per provider vote, replaced whenever the pick is regenerated
+CREATE TABLE IF NOT EXISTS public.pick_votes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  analysis_id UUID NOT NULL REFERENCES public.analysis_memory(id) ON DELETE CASCADE,
+  game_id TEXT NOT NULL,
+  market_type TEXT NOT NULL,
+  provider TEXT NOT NULL,                -- 'gemini', 'anthropic', 'openai'
+  model TEXT NOT NULL,
+  pick_side TEXT,                        -- NULL when the provider failed or picked off the menu
+  pick_outcome TEXT,
+  odds INTEGER,
+  line NUMERIC,
+  confidence INTEGER,
+  reasoning TEXT,
+  rationale JSONB,
+  agrees BOOLEAN,                        -- Voted with the consensus; NULL for failed votes
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (analysis_id, provider)
+);
+
+-- Enable RLS
+ALTER TABLE public.pick_votes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view pick votes"
+  ON public.pick_votes
+  FOR SELECT
+  USING (true);
+
+-- Votes are read per pick, and per provider when comparing models
+CREATE INDEX IF NOT EXISTS idx_pick_votes_analysis_id ON public.pick_votes(analysis_id);
+CREATE INDEX IF NOT EXISTS idx_pick_votes_provider ON public.pick_votes(provider, created_at DESC);
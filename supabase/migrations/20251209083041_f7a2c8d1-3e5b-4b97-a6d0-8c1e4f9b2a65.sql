@@ -0,0 +1,37 @@
+-- Confidence recalibration (fitted by calibrate-picks from graded picks). Model confidence is not a
+-- calibrated probability, so each league / market gets an isotonic or Platt mapping; generate-pick
+-- applies the latest accepted one and stores both probabilities so EV and Kelly use the calibrated value.
+CREATE TABLE IF NOT EXISTS public.pick_calibrations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  league TEXT NOT NULL,
+  market_type TEXT NOT NULL,
+  method TEXT NOT NULL CHECK (method IN ('isotonic', 'platt')),
+  params JSONB NOT NULL,                 -- Isotonic: { x: [], y: [] } block points; Platt: { a, b } on logit(raw)
+  sample_size INTEGER NOT NULL,
+  holdout_size INTEGER NOT NULL,         -- Latest picks held out to score the fit
+  brier_raw NUMERIC NOT NULL,
+  brier_calibrated NUMERIC NOT NULL,
+  log_loss_raw NUMERIC NOT NULL,
+  log_loss_calibrated NUMERIC NOT NULL,
+  accepted BOOLEAN NOT NULL DEFAULT false, -- Beat the raw confidence on the holdout
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Raw confidence as a probability and the calibrated value applied at generation.
+-- calibrated_probability is NULL when no accepted calibration existed for the league / market.
+ALTER TABLE public.analysis_memory
+  ADD COLUMN IF NOT EXISTS raw_probability NUMERIC,
+  ADD COLUMN IF NOT EXISTS calibrated_probability NUMERIC,
+  ADD COLUMN IF NOT EXISTS calibration_id UUID REFERENCES public.pick_calibrations(id) ON DELETE SET NULL;
+
+-- Enable RLS
+ALTER TABLE public.pick_calibrations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view pick calibrations"
+  ON public.pick_calibrations
+  FOR SELECT
+  USING (true);
+
+-- generate-pick reads the latest fit per league / market
+CREATE INDEX IF NOT EXISTS idx_pick_calibrations_latest
+ON public.pick_calibrations(league, market_type, created_at DESC);
@@ -0,0 +1,6 @@
+-- Picks grade-picks can't settle (final game, but no side or line to grade against) are closed
+-- out as 'void' with graded_at set, so they leave the ungraded batch instead of starving it.
+ALTER TABLE public.analysis_memory DROP CONSTRAINT IF EXISTS analysis_memory_result_check;
+ALTER TABLE public.analysis_memory
+  ADD CONSTRAINT analysis_memory_result_check
+    CHECK (result IN ('win', 'loss', 'push', 'half_win', 'half_loss', 'void'));
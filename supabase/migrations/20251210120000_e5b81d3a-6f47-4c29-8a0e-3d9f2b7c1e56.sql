@@ -0,0 +1,76 @@
+-- match_analysis_memory: the sport / team filters used to run after the HNSW index scan, which
+-- only returns its ef_search nearest rows, so a filtered search could come back short or empty
+-- while matching analyses existed. The candidates are now filtered first in a materialized CTE
+-- (the planner can't push the index scan through it) and ranked by exact cosine distance. The
+-- filtered set is one sport / a few teams, small enough to scan; ai-chat-router always
+-- passes filter_teams.
+CREATE OR REPLACE FUNCTION public.match_analysis_memory(
+  query_embedding vector(768),
+  match_count INTEGER DEFAULT 5,
+  match_threshold DOUBLE PRECISION DEFAULT 0.5,
+  filter_teams TEXT[] DEFAULT NULL,
+  filter_sport TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  game_id TEXT,
+  sport TEXT,
+  market_type TEXT,
+  pick_side TEXT,
+  confidence_score INTEGER,
+  reasoning_text TEXT,
+  result TEXT,
+  units_won NUMERIC,
+  clv_prob NUMERIC,
+  created_at TIMESTAMPTZ,
+  similarity DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH candidates AS MATERIALIZED (
+    SELECT
+      am.id,
+      am.game_id,
+      am.sport::TEXT AS sport,
+      am.market_type::TEXT AS market_type,
+      am.pick_side,
+      am.confidence_score,
+      am.reasoning_text,
+      am.result,
+      am.units_won,
+      am.clv_prob,
+      am.created_at,
+      am.reasoning_embedding <=> query_embedding AS distance
+    FROM public.analysis_memory am
+    WHERE am.reasoning_embedding IS NOT NULL
+      AND (filter_sport IS NULL OR am.sport::TEXT = filter_sport)
+      AND (
+        filter_teams IS NULL
+        OR am.pick_side ILIKE ANY (filter_teams)
+        OR am.reasoning_text ILIKE ANY (filter_teams)
+      )
+  )
+  SELECT
+    c.id,
+    c.game_id,
+    c.sport,
+    c.market_type,
+    c.pick_side,
+    c.confidence_score,
+    c.reasoning_text,
+    c.result,
+    c.units_won,
+    c.clv_prob,
+    c.created_at,
+    1 - c.distance AS similarity
+  FROM candidates c
+  WHERE 1 - c.distance >= match_threshold
+  ORDER BY c.distance
+  LIMIT match_count;
+$$;
+
+-- Sport pre-filter for the candidate scan above
+CREATE INDEX IF NOT EXISTS idx_analysis_memory_sport
+  ON public.analysis_memory (sport);
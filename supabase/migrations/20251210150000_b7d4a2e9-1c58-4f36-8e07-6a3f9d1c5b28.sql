@@ -0,0 +1,18 @@
+-- Last Odds API prop fetch per game (written by fetch-props). The TTL is read from here rather
+-- than player_props.updated_at so a game with no props on the board is cached too, instead of
+-- costing a quota hit on every panel open.
+CREATE TABLE IF NOT EXISTS public.player_prop_fetches (
+  game_id TEXT PRIMARY KEY,       -- Odds API event id
+  sport TEXT NOT NULL,            -- Odds API sport key, e.g. 'basketball_nba'
+  prop_count INTEGER NOT NULL DEFAULT 0,
+  fetched_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.player_prop_fetches ENABLE ROW LEVEL SECURITY;
+
+-- Market data is public; writes go through the service role only
+CREATE POLICY "Anyone can view player prop fetches"
+  ON public.player_prop_fetches
+  FOR SELECT
+  USING (true);
@@ -0,0 +1,2 @@
+-- sync-game-scores fills ncaaf_games from the Odds API scores feed, which carries no week number
+ALTER TABLE public.ncaaf_games ALTER COLUMN week DROP NOT NULL;
@@ -0,0 +1,24 @@
+-- Line CLV for spread / total picks whose close moved off the number taken. Prices on different
+-- numbers are different bets, so capture-closing-lines only fills clv_price / clv_prob on a match.
+ALTER TABLE public.analysis_memory
+  ADD COLUMN IF NOT EXISTS clv_line NUMERIC;                -- Points gained on the close, picked side's perspective
+
+-- Rows captured before the line check compared prices across numbers (or against an unknown one)
+UPDATE public.analysis_memory
+SET clv_price = NULL,
+    clv_prob = NULL,
+    clv_line = CASE
+      WHEN line_at_generation IS NULL THEN NULL
+      WHEN pick_outcome = 'over' OR (pick_outcome IS NULL AND pick_side ILIKE '%over%')
+        THEN closing_line - line_at_generation
+      ELSE line_at_generation - closing_line
+    END
+WHERE market_type IN ('spread', 'total')
+  AND closing_line IS NOT NULL
+  AND line_at_generation IS DISTINCT FROM closing_line;
+
+UPDATE public.analysis_memory
+SET clv_line = 0
+WHERE market_type IN ('spread', 'total')
+  AND closing_line IS NOT NULL
+  AND line_at_generation = closing_line;
@@ -0,0 +1,3 @@
+-- h2h snapshots of soccer 1X2 markets keep the Draw price (null for two-way markets)
+ALTER TABLE public.line_snapshots
+  ADD COLUMN IF NOT EXISTS draw_price INTEGER;              -- h2h: soccer draw
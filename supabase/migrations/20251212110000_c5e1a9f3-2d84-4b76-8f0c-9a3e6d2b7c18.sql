@@ -0,0 +1,9 @@
+-- Wager settlement (written by grade-picks once the game is final)
+ALTER TABLE public.wagers
+  ADD COLUMN IF NOT EXISTS profit NUMERIC(12, 2);           -- Settled P&L in stake currency; null while pending
+
+-- Asian handicap / quarter totals settle half the stake on each neighbouring line
+ALTER TABLE public.wagers DROP CONSTRAINT IF EXISTS wagers_status_check;
+ALTER TABLE public.wagers
+  ADD CONSTRAINT wagers_status_check
+    CHECK (status IN ('pending', 'won', 'half_won', 'lost', 'half_lost', 'push', 'void'));
@@ -21,6 +21,7 @@ export default defineConfig(({ mode }) => {
       resolve: {
         alias: {
           '@': path.resolve(__dirname, './src'),
+          '@shared': path.resolve(__dirname, './supabase/functions/_shared'),
         }
       }
     };